@@ -74,7 +74,7 @@ contract TokenGovernance is Ownable, ReentrancyGuard {
      * @dev Create a new proposal
      * @param title Title of the proposal
      * @param description Description of the proposal
-     * @param executionData Optional encoded function call data for execution
+     * @param executionData Optional encoded token function call to execute if the proposal passes
      * @param quorum Optional custom quorum (percentage of total supply)
      * @param votingPeriod Optional custom voting period (in seconds)
      * @param timeLockPeriod Optional custom time lock period (in seconds)
@@ -177,7 +177,8 @@ contract TokenGovernance is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Execute a proposal after voting period and time lock
+     * @dev Execute a proposal after voting period and time lock. Execution data is called on the
+     * governed token, so owner-only token functions require this contract to own the token.
      * @param proposalId ID of the proposal
      */
     function executeProposal(uint256 proposalId) external nonReentrant {
@@ -203,9 +204,9 @@ contract TokenGovernance is Ownable, ReentrancyGuard {
         // Mark as executed
         proposal.executed = true;
         
-        // Execute proposal if execution data is provided
+        // Execute proposal on the token if execution data is provided
         if (proposal.executionData.length > 0) {
-            (bool success, ) = owner().call(proposal.executionData);
+            (bool success, ) = address(token).call(proposal.executionData);
             require(success, "Execution failed");
         }
         
@@ -7,6 +7,7 @@ import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title AntiBotPresaleContract
@@ -56,6 +57,7 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
     
     mapping(address => Participant) public participants;
     mapping(address => bool) public whitelist;
+    bytes32 public whitelistMerkleRoot; // root of keccak256(abi.encodePacked(address)) leaves
     mapping(bytes => bool) public usedSignatures;
     
     address public saleReceiver;
@@ -75,6 +77,7 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
     event SaleFinalized(uint256 totalRaised, uint256 totalTokensSold);
     event RefundClaimed(address indexed buyer, uint256 amount);
     event WhitelistUpdated(address indexed user, bool status);
+    event WhitelistMerkleRootUpdated(bytes32 merkleRoot);
 
     modifier onlyWhitelisted() {
         if (saleInfo.whitelistEnabled) {
@@ -83,6 +86,11 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
         _;
     }
 
+    modifier withWhitelistProof(bytes32[] calldata proof) {
+        _verifyWhitelistProof(proof);
+        _;
+    }
+
     modifier saleActive() {
         require(block.timestamp >= saleInfo.startTime, "Sale not started");
         require(block.timestamp <= saleInfo.endTime, "Sale ended");
@@ -142,6 +150,19 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
      * @param signature Optional signature for verification (if enabled)
      */
     function buyTokens(bytes memory signature) external payable nonReentrant whenNotPaused saleActive onlyWhitelisted antiBotProtection {
+        _buyTokens(signature);
+    }
+
+    /**
+     * @dev Purchase tokens with a proof of inclusion in the Merkle whitelist
+     * @param signature Optional signature for verification (if enabled)
+     * @param proof Merkle proof for msg.sender
+     */
+    function buyTokensWithProof(bytes memory signature, bytes32[] calldata proof) external payable nonReentrant whenNotPaused saleActive withWhitelistProof(proof) onlyWhitelisted antiBotProtection {
+        _buyTokens(signature);
+    }
+
+    function _buyTokens(bytes memory signature) internal {
         // Verify signature if required
         if (antiBotInfo.signatureRequired) {
             require(signature.length > 0, "Signature required");
@@ -230,9 +251,8 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
         uint256 tokenAmount = p.tokenAmount;
         
         // For fairlaunch, calculate token amount based on contribution percentage
-        if (isFairlaunch && totalRaised > 0) {
-            uint256 totalTokensForSale = saleInfo.token.balanceOf(address(this)) + totalTokensSold;
-            tokenAmount = (p.contribution * totalTokensForSale) / totalRaised;
+        if (isFairlaunch) {
+            tokenAmount = (p.contribution * totalTokensSold) / totalRaised;
         }
         
         if (!vestingInfo.enabled) return tokenAmount - p.claimedTokens;
@@ -284,9 +304,8 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
         if (totalRaised < saleInfo.softCap) {
             refundsEnabled = true;
         } else if (isFairlaunch) {
-            // For fairlaunch, calculate token distribution now
-            uint256 totalTokensForSale = saleInfo.token.balanceOf(address(this));
-            totalTokensSold = totalTokensForSale;
+            // Snapshot the pool so allocations don't shrink as participants claim
+            totalTokensSold = saleInfo.token.balanceOf(address(this));
         }
 
         emit SaleFinalized(totalRaised, totalTokensSold);
@@ -305,6 +324,34 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    /**
+     * @dev Set the Merkle root of the whitelist, replacing per-address updates for large lists
+     * @param merkleRoot Root of the whitelist tree, or zero to disable proofs
+     */
+    function setWhitelistMerkleRoot(bytes32 merkleRoot) external onlyOwner {
+        whitelistMerkleRoot = merkleRoot;
+        emit WhitelistMerkleRootUpdated(merkleRoot);
+    }
+
+    /**
+     * @dev Check whether an address is in the Merkle whitelist
+     */
+    function isWhitelistedByProof(address account, bytes32[] calldata proof) public view returns (bool) {
+        return whitelistMerkleRoot != bytes32(0) &&
+            MerkleProof.verify(proof, whitelistMerkleRoot, keccak256(abi.encodePacked(account)));
+    }
+
+    /**
+     * @dev Whitelist msg.sender from a Merkle proof, so later purchases need no proof
+     */
+    function _verifyWhitelistProof(bytes32[] calldata proof) internal {
+        if (!whitelist[msg.sender]) {
+            require(isWhitelistedByProof(msg.sender, proof), "Invalid whitelist proof");
+            whitelist[msg.sender] = true;
+            emit WhitelistUpdated(msg.sender, true);
+        }
+    }
+
     /**
      * @dev Update anti-bot protection parameters (owner only)
      */
@@ -380,6 +427,15 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    /**
+     * @dev Tokens shared among fairlaunch participants: the contract balance until finalization,
+     * then the amount snapshotted by finalizeSale
+     */
+    function getFairlaunchTokenAmount() public view returns (uint256) {
+        if (!isFairlaunch) return 0;
+        return saleFinalized ? totalTokensSold : saleInfo.token.balanceOf(address(this));
+    }
+
     /**
      * @dev Get participant information
      */
@@ -393,10 +449,10 @@ contract AntiBotPresaleContract is ReentrancyGuard, Ownable, Pausable {
     ) {
         Participant memory p = participants[participant];
         
+        // Before finalization this is the allocation at the current total raised
         uint256 calculatedTokenAmount = p.tokenAmount;
-        if (isFairlaunch && saleFinalized && totalRaised > 0) {
-            uint256 totalTokensForSale = saleInfo.token.balanceOf(address(this)) + totalTokensSold;
-            calculatedTokenAmount = (p.contribution * totalTokensForSale) / totalRaised;
+        if (isFairlaunch && totalRaised > 0) {
+            calculatedTokenAmount = (p.contribution * getFairlaunchTokenAmount()) / totalRaised;
         }
         
         uint256 cooldownEnd = 0;
@@ -3,7 +3,8 @@ module.exports = {
   testEnvironment: 'jsdom',
   roots: ['<rootDir>/src', '<rootDir>/tests'],
   transform: {
-    '^.+\\.tsx?$': 'ts-jest',
+    // Tests import the CommonJS server modules with default imports and use BigInt literals
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { esModuleInterop: true, target: 'ES2020' } }],
   },
   testRegex: '(/__tests__/.*|(\\.|/)(test|spec))\\.tsx?$',
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
@@ -12,7 +12,10 @@ const contractTypes = [
   'FeeToken',
   'RedistributionToken',
   'AdvancedToken',
+  'TokenFactory',
   'PresaleContract',
+  'PresaleContractV2',
+  'PresaleFactory',
   'AntiBotPresaleContract',
   'TokenVesting',
   'LiquidityLocker',
@@ -45,7 +48,7 @@ contractTypes.forEach(contractType => {
   try {
     // Find the contract artifact
     let artifactPath;
-    if (contractType === 'PresaleContract' || contractType === 'AntiBotPresaleContract') {
+    if (['PresaleContract', 'PresaleContractV2', 'PresaleFactory', 'AntiBotPresaleContract'].includes(contractType)) {
       artifactPath = path.join(artifactsDir, 'presale', `${contractType}.sol`, `${contractType}.json`);
     } else if (contractType === 'TokenGovernance') {
       artifactPath = path.join(artifactsDir, 'governance', `${contractType}.sol`, `${contractType}.json`);
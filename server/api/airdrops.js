@@ -0,0 +1,160 @@
+const express = require('express');
+const { authenticate } = require('../middleware/auth');
+const {
+  findAirdropCampaignById,
+  findAirdropCampaignsBySender,
+  updateAirdropCampaignStatus
+} = require('../db/models/AirdropCampaign');
+const airdropCampaignService = require('../services/airdropCampaignService');
+
+const router = express.Router();
+
+// Statuses the sender can report; completion is derived from confirmed batches
+const REPORTABLE_STATUSES = ['running', 'failed', 'cancelled'];
+
+// Load a campaign owned by the caller, or answer 404
+async function findOwnCampaign(req, res) {
+  const campaign = await findAirdropCampaignById(req.params.id);
+  if (!campaign || campaign.sender_address !== req.user.id.toLowerCase()) {
+    res.status(404).json({ error: 'Airdrop campaign not found' });
+    return null;
+  }
+  return campaign;
+}
+
+// Create a campaign for an airdrop larger than one MultiSender batch
+router.post('/campaigns', authenticate, async (req, res) => {
+  try {
+    const { network, tokenAddress, decimals, batchSize, recipients } = req.body;
+
+    const result = await airdropCampaignService.createCampaign(req.user.id, {
+      network,
+      tokenAddress,
+      decimals,
+      batchSize,
+      recipients
+    });
+
+    if (result.errors) {
+      return res.status(400).json({ error: 'Invalid airdrop campaign', details: result.errors });
+    }
+
+    res.status(201).json(result.campaign);
+  } catch (error) {
+    console.error('Error creating airdrop campaign:', error);
+    res.status(500).json({ error: 'Failed to create airdrop campaign', details: error.message });
+  }
+});
+
+// The caller's campaigns, optionally for one token and network
+router.get('/campaigns', authenticate, async (req, res) => {
+  try {
+    const { token, network } = req.query;
+    const campaigns = await findAirdropCampaignsBySender(req.user.id, { tokenAddress: token, network });
+    res.json({ campaigns });
+  } catch (error) {
+    console.error('Error fetching airdrop campaigns:', error);
+    res.status(500).json({ error: 'Failed to fetch airdrop campaigns', details: error.message });
+  }
+});
+
+// A campaign with its recipients and batches
+router.get('/campaigns/:id', authenticate, async (req, res) => {
+  try {
+    const campaign = await findOwnCampaign(req, res);
+    if (!campaign) return;
+
+    res.json(campaign);
+  } catch (error) {
+    console.error('Error fetching airdrop campaign:', error);
+    res.status(500).json({ error: 'Failed to fetch airdrop campaign', details: error.message });
+  }
+});
+
+// Record a batch transaction; call again once it is mined to confirm it
+router.put('/campaigns/:id/batches/:index', authenticate, async (req, res) => {
+  try {
+    const { transactionHash } = req.body;
+    const batchIndex = parseInt(req.params.index, 10);
+
+    if (!transactionHash || !/^0x[0-9a-fA-F]{64}$/.test(transactionHash)) {
+      return res.status(400).json({ error: 'A valid transaction hash is required' });
+    }
+    if (isNaN(batchIndex) || batchIndex < 0) {
+      return res.status(400).json({ error: 'Invalid batch index' });
+    }
+
+    const campaign = await findOwnCampaign(req, res);
+    if (!campaign) return;
+
+    if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+      return res.status(400).json({ error: `Airdrop campaign is already ${campaign.status}` });
+    }
+
+    const result = await airdropCampaignService.recordBatch(campaign, batchIndex, transactionHash);
+    if (result.error) {
+      return res.status(400).json({ error: result.error, code: result.code });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error recording airdrop batch:', error);
+    res.status(500).json({ error: 'Failed to record airdrop batch', details: error.message });
+  }
+});
+
+// Report that a campaign is running, has failed or was abandoned
+router.put('/campaigns/:id/status', authenticate, async (req, res) => {
+  try {
+    const { status, error } = req.body;
+
+    if (!REPORTABLE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid campaign status: ${status}` });
+    }
+
+    const campaign = await findOwnCampaign(req, res);
+    if (!campaign) return;
+
+    if (campaign.status === 'completed') {
+      return res.status(400).json({ error: 'Airdrop campaign is already completed' });
+    }
+
+    await updateAirdropCampaignStatus(campaign.id, status, status === 'failed' ? error || 'Campaign failed' : null);
+    res.json(await findAirdropCampaignById(campaign.id));
+  } catch (error) {
+    console.error('Error updating airdrop campaign:', error);
+    res.status(500).json({ error: 'Failed to update airdrop campaign', details: error.message });
+  }
+});
+
+// Per-recipient outcome of a campaign, as JSON or a CSV download
+router.get('/campaigns/:id/report', authenticate, async (req, res) => {
+  try {
+    const { format } = req.query;
+
+    if (format && !['csv', 'json'].includes(format)) {
+      return res.status(400).json({ error: 'Report format must be csv or json' });
+    }
+
+    const campaign = await findOwnCampaign(req, res);
+    if (!campaign) return;
+
+    const report = airdropCampaignService.getReport(campaign);
+
+    if (format) {
+      res.setHeader('Content-Disposition', `attachment; filename="airdrop-campaign-${campaign.id}.${format}"`);
+
+      if (format === 'csv') {
+        res.type('text/csv');
+        return res.send(airdropCampaignService.toCsv(report));
+      }
+    }
+
+    res.json({ recipients: report });
+  } catch (error) {
+    console.error('Error building airdrop report:', error);
+    res.status(500).json({ error: 'Failed to build airdrop report', details: error.message });
+  }
+});
+
+module.exports = router;
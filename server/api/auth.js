@@ -1,4 +1,6 @@
 /* ... (imports unchanged) ... */
+const { authenticate } = require('../middleware/auth');
+const esrPaymentService = require('../services/esrPaymentService');
 
 // Generate authentication token for wallet address
 router.post('/login', verifySignature, async (req, res) => {
@@ -77,17 +79,30 @@ router.get('/esr/balance/:address', async (req, res) => {
   }
 });
 
-// ESR Token deduction endpoint
-router.post('/esr/deduct', async (req, res) => {
+// ESR Token deduction endpoint: verifies the signed-in wallet's ESR transfer to the platform wallet on-chain
+router.post('/esr/deduct', authenticate, async (req, res) => {
   try {
-    // ... (deduction logic unchanged) ...
-    await query(
-      'INSERT INTO transactions (transaction_hash, transaction_type, from_address, to_address, amount, token_address, network_id, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-      [txHash, 'ESR_DEDUCTION', receipt.from.toLowerCase(), PLATFORM_WALLET.toLowerCase(), amount, ESR_TOKEN_ADDRESS, 'ethereum', 'confirmed']
-    );
-    // ... (rest unchanged) ...
+    const { txHash, network } = req.body;
+
+    if (!txHash || !network) {
+      return res.status(400).json({ error: 'Transaction hash and network are required' });
+    }
+
+    const verification = await esrPaymentService.verifyPayment(txHash, network, req.user.id);
+
+    if (!verification.verified) {
+      return res.status(400).json({ error: verification.error, code: verification.code });
+    }
+
+    res.json({
+      success: true,
+      transactionHash: verification.payment.transaction_hash,
+      amount: verification.payment.amount,
+      from: verification.payment.from_address
+    });
   } catch (error) {
-    // ... (error handling unchanged) ...
+    console.error('Error verifying ESR payment:', error);
+    res.status(500).json({ error: 'Failed to verify ESR payment', details: error.message });
   }
 });
 
@@ -6,6 +6,17 @@ const path = require('path');
 const { ethers } = require('ethers');
 const { authenticate } = require('../middleware/auth');
 const { query } = require('../db');
+const { getProvider } = require('../utils/blockchain');
+const { isSourceVerified, submitVerification, checkVerificationStatus } = require('../utils/explorer');
+const { findTokenByAddress, setTokenVerified } = require('../db/models/Token');
+const { createPresale, findPresaleByAddress } = require('../db/models/Presale');
+const eventIndexer = require('../services/eventIndexer');
+const esrPaymentService = require('../services/esrPaymentService');
+const presaleWhitelistService = require('../services/presaleWhitelistService');
+const antiBotSignatureService = require('../services/antiBotSignatureService');
+const factoryTokenService = require('../services/factoryTokenService');
+const tokenImportService = require('../services/tokenImportService');
+const holderAnalyticsService = require('../services/holderAnalyticsService');
 
 const router = express.Router();
 
@@ -44,7 +55,11 @@ router.get('/deployed', authenticate, async (req, res) => {
       decimals: token.decimals,
       totalSupply: token.initial_supply,
       maxSupply: token.max_supply || '0',
-      features: token.features
+      features: token.features,
+      currentSupply: token.total_supply || token.initial_supply,
+      holders: token.holders_count || 0,
+      transfers: token.transfer_count || 0,
+      statsUpdatedAt: token.last_updated
     }));
 
     // Format presales
@@ -85,7 +100,9 @@ router.get('/deployed', authenticate, async (req, res) => {
         saleType: presale.sale_type || 'presale',
         status: status,
         totalRaised: presale.total_raised || '0',
-        participantCount: presale.participant_count || 0
+        participantCount: presale.participant_count || 0,
+        totalTokensSold: presale.total_tokens_sold || '0',
+        statsUpdatedAt: presale.last_updated
       };
     });
 
@@ -208,6 +225,19 @@ router.get('/:address/stats', authenticate, async (req, res) => {
 
     const token = tokenResult.rows[0];
 
+    // Serve precomputed statistics once the indexer has caught up with this token
+    if (token.indexer_synced) {
+      return res.json({
+        holders: token.holders_count || 0,
+        transfers: token.transfer_count || 0,
+        totalSupply: token.total_supply || token.initial_supply,
+        name: token.name,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        lastUpdated: token.last_updated
+      });
+    }
+
     // Get network information
     const networkName = networkParam || token.network_id || 'ethereum';
 
@@ -315,15 +345,78 @@ router.get('/:address/stats', authenticate, async (req, res) => {
   }
 });
 
+// Holder analytics derived from indexed Transfer events, public so sale pages can show them
+router.get('/:address/holders', async (req, res) => {
+  try {
+    const token = await findTokenByAddress(req.params.address);
+
+    if (!token) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    res.json(await holderAnalyticsService.getAnalytics(token, { limit: req.query.limit }));
+  } catch (error) {
+    console.error('Error fetching holder analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch holder analytics', details: error.message });
+  }
+});
+
+// What a registered token can do, for the token management page
+router.get('/:address/capabilities', async (req, res) => {
+  try {
+    const token = await findTokenByAddress(req.params.address);
+
+    if (!token) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    res.json(await tokenImportService.getCapabilities(token));
+  } catch (error) {
+    console.error('Error fetching token capabilities:', error);
+    res.status(500).json({ error: 'Failed to fetch token capabilities', details: error.message });
+  }
+});
+
+// Balances of every holder at a block, as JSON or as a CSV the Airdrop tool loads
+router.post('/:address/snapshot', authenticate, async (req, res) => {
+  try {
+    const { format } = req.query;
+
+    if (format && format !== 'csv') {
+      return res.status(400).json({ error: 'Export format must be csv' });
+    }
+
+    // Snapshots call every sizeable holder on-chain, so only the token owner can take them
+    const token = await findOwnedToken(req, res);
+    if (!token) return;
+
+    const snapshot = await holderAnalyticsService.getSnapshot(token, req.body);
+    if (snapshot.error) {
+      return res.status(400).json({ error: snapshot.error, code: snapshot.code });
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Disposition', `attachment; filename="snapshot-${token.contract_address}-${snapshot.blockNumber}.csv"`);
+      res.type('text/csv');
+      return res.send(holderAnalyticsService.toCsv(snapshot.holders));
+    }
+
+    res.json(snapshot);
+  } catch (error) {
+    console.error('Error creating holder snapshot:', error);
+    res.status(500).json({ error: 'Failed to create holder snapshot', details: error.message });
+  }
+});
+
 // Get all public presales (for explorer)
 router.get('/presales/public', async (req, res) => {
   try {
     // Get public presales from database
     const presalesResult = await query(
       `SELECT * FROM presales 
-       WHERE sale_type = ? 
+       WHERE sale_type IN (?, ?) 
        ORDER BY created_at DESC`,
-      ['presale']
+      ['presale', 'fairlaunch']
     );
 
     // Format presales
@@ -356,11 +449,14 @@ router.get('/presales/public', async (req, res) => {
         softCap: presale.sale_configuration?.softCap || '0',
         hardCap: presale.sale_configuration?.hardCap || '0',
         tokenPrice: presale.sale_configuration?.tokenPrice || '0',
+        tokensForSale: presale.token_info?.allocatedAmount || '0',
         startDate: presale.sale_configuration?.startDate,
         endDate: presale.sale_configuration?.endDate,
         status: status,
         totalRaised: presale.total_raised || '0',
-        participantCount: presale.participant_count || 0
+        participantCount: presale.participant_count || 0,
+        totalTokensSold: presale.total_tokens_sold || '0',
+        statsUpdatedAt: presale.last_updated
       };
     });
 
@@ -372,6 +468,81 @@ router.get('/presales/public', async (req, res) => {
   }
 });
 
+// Get source verification status
+router.get('/:address/verification', async (req, res) => {
+  try {
+    const token = await findTokenByAddress(req.params.address);
+
+    if (!token) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    res.json({ verified: !!token.verified });
+  } catch (error) {
+    console.error('Error fetching verification status:', error);
+    res.status(500).json({ error: 'Failed to fetch verification status', details: error.message });
+  }
+});
+
+// Submit a token's flattened source to its block explorer; the API key never leaves the server
+router.post('/:address/verification', authenticate, async (req, res) => {
+  try {
+    const { source, constructorArgs } = req.body;
+
+    if (!source) {
+      return res.status(400).json({ error: 'Contract source is required' });
+    }
+
+    const token = await findOwnedToken(req, res);
+    if (!token) return;
+
+    const response = await submitVerification(token.network_id, {
+      address: token.contract_address,
+      contractName: token.contract_type,
+      source,
+      constructorArgs
+    });
+
+    if (response.status === '1') {
+      return res.json({ status: 'pending', guid: response.result, message: response.message });
+    }
+
+    // The explorer has not picked up the deployment yet; the client submits again later
+    if (/unable to locate contract ?code/i.test(response.result)) {
+      return res.json({ status: 'indexing', guid: null, message: response.result });
+    }
+
+    const verified = /already verified/i.test(response.result)
+      && await recordVerification(token, null, response.result);
+
+    res.json({ status: verified ? 'verified' : 'failed', guid: null, message: response.result });
+  } catch (error) {
+    console.error('Error submitting source verification:', error);
+    res.status(500).json({ error: 'Failed to submit source verification', details: error.message });
+  }
+});
+
+// Poll a verification request and save the explorer's result once it is final
+router.get('/:address/verification/:guid', authenticate, async (req, res) => {
+  try {
+    const { guid } = req.params;
+    const token = await findOwnedToken(req, res);
+    if (!token) return;
+
+    const response = await checkVerificationStatus(token.network_id, guid);
+
+    if (/pending/i.test(response.result)) {
+      return res.json({ status: 'pending', guid, message: response.result });
+    }
+
+    const verified = await recordVerification(token, guid, response.result);
+    res.json({ status: verified ? 'verified' : 'failed', guid, message: response.result });
+  } catch (error) {
+    console.error('Error checking source verification:', error);
+    res.status(500).json({ error: 'Failed to check source verification', details: error.message });
+  }
+});
+
 // Get presale contract statistics
 router.get('/presale/:address/stats', authenticate, async (req, res) => {
   try {
@@ -505,6 +676,17 @@ router.get('/presale/:address/stats', authenticate, async (req, res) => {
   }
 });
 
+// Index token, presale and liquidity locker events (called by cron)
+router.put('/indexer/sync', async (req, res) => {
+  try {
+    const results = await eventIndexer.syncAll();
+    res.json({ results });
+  } catch (error) {
+    console.error('Error running event indexer:', error);
+    res.status(500).json({ error: 'Failed to run event indexer', details: error.message });
+  }
+});
+
 // Register a contract deployed via fallback method
 router.post('/register', authenticate, async (req, res) => {
   try {
@@ -519,6 +701,7 @@ router.post('/register', authenticate, async (req, res) => {
       initialSupply, 
       maxSupply, 
       features,
+      presaleConfig,
       deploymentMethod = 'fallback'
     } = req.body;
 
@@ -529,6 +712,48 @@ router.post('/register', authenticate, async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    // Presales deployed from the wallet carry their wizard configuration
+    if (presaleConfig) {
+      if (await findPresaleByAddress(contractAddress)) {
+        return res.status(400).json({ error: 'Contract already registered' });
+      }
+
+      // Only the wallet that deployed and owns the presale can register it
+      const deploymentError = await verifyPresaleDeployment(network, contractAddress, transactionHash, userId);
+      if (deploymentError) {
+        return res.status(403).json({ error: deploymentError });
+      }
+
+      await createPresale({
+        contractAddress,
+        tokenAddress: presaleConfig.tokenInfo.tokenAddress,
+        owner: userId,
+        saleType: presaleConfig.saleType,
+        tokenInfo: presaleConfig.tokenInfo,
+        saleConfiguration: presaleConfig.saleConfiguration,
+        vestingConfig: presaleConfig.vestingConfig,
+        walletSetup: presaleConfig.walletSetup,
+        network: {
+          id: network,
+          name: presaleConfig.network?.name || network,
+          chainId: getChainId(network)
+        },
+        status: 'upcoming',
+        transactionHash
+      });
+
+      await spendUnusedPayment(userId, network, contractAddress);
+      await antiBotSignatureService.assignSigner(contractAddress, network, userId)
+        .catch(error => console.error('Error assigning presale signer:', error));
+
+      if (presaleConfig.saleConfiguration?.whitelistId) {
+        await presaleWhitelistService.assignWhitelist(presaleConfig.saleConfiguration.whitelistId, contractAddress, userId);
+      }
+
+      const presale = await findPresaleByAddress(contractAddress);
+      return res.status(201).json(presale);
+    }
+
     // Check if contract already exists
     const existingContract = await query(
       'SELECT * FROM tokens WHERE contract_address = ?',
@@ -564,6 +789,8 @@ router.post('/register', authenticate, async (req, res) => {
       ]
     );
 
+    await spendUnusedPayment(userId, network, contractAddress);
+
     res.status(201).json(result.rows[0]);
   } catch (error) {
     console.error('Error registering contract:', error);
@@ -571,6 +798,102 @@ router.post('/register', authenticate, async (req, res) => {
   }
 });
 
+// Import tokens the user created through the network's TokenFactory
+router.post('/factory-backfill', authenticate, async (req, res) => {
+  try {
+    const { network } = req.body;
+    if (!network) {
+      return res.status(400).json({ error: 'Network is required' });
+    }
+
+    const result = await factoryTokenService.backfillCreatorTokens(network, req.user.id);
+    if (result.error) {
+      return res.status(400).json({ error: result.error, code: result.code });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error importing factory tokens:', error);
+    res.status(500).json({ error: 'Failed to import factory tokens', details: error.message });
+  }
+});
+
+// Import a token deployed outside the platform that the signed-in wallet owns
+router.post('/import', authenticate, async (req, res) => {
+  try {
+    const { network, contractAddress } = req.body;
+    if (!network || !contractAddress) {
+      return res.status(400).json({ error: 'Network and contract address are required' });
+    }
+
+    const result = await tokenImportService.importToken(network, contractAddress, req.user.id);
+    if (result.error) {
+      return res.status(result.code === 'NOT_OWNER' ? 403 : 400).json({ error: result.error, code: result.code });
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error importing token:', error);
+    res.status(500).json({ error: 'Failed to import token', details: error.message });
+  }
+});
+
+// Wallet deployments bypass /api/deploy, so the ESR payment made for them is used up on registration
+async function spendUnusedPayment(userId, network, contractAddress) {
+  const payment = await esrPaymentService.reserveUnspentPayment(userId, network);
+  if (payment) {
+    await esrPaymentService.spendPayment(payment.transaction_hash, contractAddress);
+  }
+}
+
+// Check a presale was deployed by the transaction, from the wallet, and is owned by it. Returns the problem, if any.
+async function verifyPresaleDeployment(network, contractAddress, transactionHash, wallet) {
+  const provider = getProvider(network);
+  const receipt = await provider.getTransactionReceipt(transactionHash);
+
+  if (!receipt || !receipt.contractAddress || receipt.contractAddress.toLowerCase() !== contractAddress.toLowerCase()) {
+    return 'Transaction did not deploy the presale contract';
+  }
+  if (receipt.from.toLowerCase() !== wallet.toLowerCase()) {
+    return 'Presale was not deployed by the signed-in wallet';
+  }
+
+  const presale = new ethers.Contract(contractAddress, ['function owner() view returns (address)'], provider);
+  const owner = await presale.owner().catch(() => null);
+  if (!owner || owner.toLowerCase() !== wallet.toLowerCase()) {
+    return 'The signed-in wallet is not the presale owner';
+  }
+
+  return null;
+}
+
+// Save what the explorer reports for a token's source, whatever the verification request said
+async function recordVerification(token, guid, message) {
+  const verified = await isSourceVerified(token.network_id, token.contract_address);
+
+  await setTokenVerified(token.contract_address, verified);
+  console.log(`Verification for ${token.contract_address}: ${verified ? 'verified' : 'failed'} (${guid || 'no guid'}) ${message || ''}`);
+
+  return verified;
+}
+
+// Load a token the signed-in user owns, or send the error response
+async function findOwnedToken(req, res) {
+  const token = await findTokenByAddress(req.params.address);
+
+  if (!token) {
+    res.status(404).json({ error: 'Token not found' });
+    return null;
+  }
+
+  if (token.owner_address.toLowerCase() !== req.user.id.toLowerCase()) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return token;
+}
+
 // Helper function to get chain ID for network
 function getChainId(network) {
   const chainIds = {
@@ -1,7 +1,24 @@
 /* ... (imports unchanged) ... */
+const { validatePresaleConfig } = require('../middleware/validation');
+const { requireESRPayment, releaseESRPayment, spendESRPayment } = require('../middleware/payment');
+const esrPaymentService = require('../services/esrPaymentService');
+const presaleDeploymentService = require('../services/presaleDeploymentService');
+const presaleWhitelistService = require('../services/presaleWhitelistService');
+const antiBotSignatureService = require('../services/antiBotSignatureService');
+const { createPresale } = require('../db/models/Presale');
+const {
+  JOB_STEPS,
+  createDeploymentJob,
+  findDeploymentJobById,
+  findActiveDeploymentJob,
+  updateDeploymentJobStep,
+  cancelDeploymentJob
+} = require('../db/models/DeploymentJob');
+
+const STEP_STATUSES = ['pending', 'running', 'completed', 'failed', 'skipped'];
 
 // Deploy token contract
-router.post('/token', authenticate, validateTokenConfig, async (req, res) => {
+router.post('/token', authenticate, validateTokenConfig, requireESRPayment, async (req, res) => {
   try {
     // ... (logic unchanged) ...
     if (!network.includes('testnet') && !network.includes('goerli') && !network.includes('sepolia')) {
@@ -16,6 +33,15 @@ router.post('/token', authenticate, validateTokenConfig, async (req, res) => {
       }
     }
     // ... (deployment logic unchanged) ...
+
+    // Spent as soon as the contract exists, so a later failure cannot release it for another deploy
+    await spendESRPayment(req, result.contractAddress);
+
+    if (req.body.jobId) {
+      await recordJobDeployment(req.body.jobId, req.user.id, result)
+        .catch(error => console.error('Error recording deployment on job:', error));
+    }
+
     try {
       await query(
         `INSERT INTO tokens 
@@ -61,12 +87,218 @@ router.post('/token', authenticate, validateTokenConfig, async (req, res) => {
     } catch (dbError) {
       // ... (error handling unchanged) ...
     }
+
     // ... (rest unchanged) ...
   } catch (error) {
+    await releaseESRPayment(req);
     // ... (error handling unchanged) ...
   }
 });
 
+// Deploy presale contract
+router.post('/presale', authenticate, validatePresaleConfig, requireESRPayment, async (req, res) => {
+  try {
+    const { presaleConfig, network } = req.body;
+    const userId = req.user.id;
+
+    const result = await presaleDeploymentService.deployPresale(presaleConfig, network, userId);
+
+    // Spent as soon as the contract exists, so a later failure cannot release it for another deploy
+    await spendESRPayment(req, result.contractAddress);
+
+    try {
+      await createPresale({
+        contractAddress: result.contractAddress,
+        tokenAddress: presaleConfig.tokenInfo.tokenAddress,
+        owner: userId,
+        saleType: presaleConfig.saleType,
+        tokenInfo: presaleConfig.tokenInfo,
+        saleConfiguration: presaleConfig.saleConfiguration,
+        vestingConfig: presaleConfig.vestingConfig,
+        walletSetup: presaleConfig.walletSetup,
+        network: {
+          id: network,
+          name: network,
+          chainId: getChainId(network)
+        },
+        status: 'upcoming',
+        transactionHash: result.transactionHash
+      });
+    } catch (dbError) {
+      // The presale is already deployed, so still return its address
+      console.error('Error saving presale to database:', dbError);
+    }
+
+    await antiBotSignatureService.assignSigner(result.contractAddress, network, userId)
+      .catch(error => console.error('Error assigning presale signer:', error));
+
+    if (presaleConfig.saleConfiguration.whitelistId) {
+      await presaleWhitelistService.assignWhitelist(presaleConfig.saleConfiguration.whitelistId, result.contractAddress, userId)
+        .catch(error => console.error('Error assigning presale whitelist:', error));
+    }
+
+    res.status(201).json({
+      success: true,
+      contractAddress: result.contractAddress,
+      contractType: result.contractType,
+      transactionHash: result.transactionHash,
+      gasUsed: result.gasUsed,
+      deploymentCost: result.deploymentCost,
+      salePageUrl: result.salePageUrl
+    });
+  } catch (error) {
+    await releaseESRPayment(req);
+    console.error('Error deploying presale:', error);
+    res.status(500).json({ error: 'Failed to deploy presale', details: error.message });
+  }
+});
+
+// Verified ESR payment that has not paid for a deployment yet, so an interrupted deployment is not charged twice
+router.get('/payment', authenticate, async (req, res) => {
+  try {
+    const { network } = req.query;
+
+    if (!network) {
+      return res.status(400).json({ error: 'Network is required' });
+    }
+
+    const payment = await esrPaymentService.findUnspentPayment(req.user.id, network);
+    res.json({ payment });
+  } catch (error) {
+    console.error('Error fetching ESR payment:', error);
+    res.status(500).json({ error: 'Failed to fetch ESR payment', details: error.message });
+  }
+});
+
+// Create a resumable deployment job for the token wizard
+router.post('/jobs', authenticate, async (req, res) => {
+  try {
+    const { config, metadata } = req.body;
+    const userId = req.user.id;
+
+    if (!config || !config.name || !config.symbol || !config.network?.id) {
+      return res.status(400).json({ error: 'Token configuration with a network is required' });
+    }
+
+    const network = config.network.id;
+    const isTestnet = network.includes('testnet') || network.includes('goerli') || network.includes('sepolia');
+    const skippedSteps = [];
+    if (isTestnet) skippedSteps.push('payment');
+    if (!config.vesting?.some(vest => vest.enabled)) skippedSteps.push('vesting');
+    if (!metadata) skippedSteps.push('metadata');
+
+    const job = await createDeploymentJob({
+      owner: userId,
+      jobType: 'token',
+      network,
+      config: { token: config, metadata: metadata || null },
+      skippedSteps
+    });
+
+    res.status(201).json(job);
+  } catch (error) {
+    console.error('Error creating deployment job:', error);
+    res.status(500).json({ error: 'Failed to create deployment job', details: error.message });
+  }
+});
+
+// Get the caller's unfinished deployment job, if any
+router.get('/jobs/active', authenticate, async (req, res) => {
+  try {
+    const job = await findActiveDeploymentJob(req.user.id);
+    res.json({ job });
+  } catch (error) {
+    console.error('Error fetching active deployment job:', error);
+    res.status(500).json({ error: 'Failed to fetch deployment job', details: error.message });
+  }
+});
+
+// Poll a deployment job
+router.get('/jobs/:id', authenticate, async (req, res) => {
+  try {
+    const job = await findDeploymentJobById(req.params.id);
+
+    if (!job || job.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(404).json({ error: 'Deployment job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching deployment job:', error);
+    res.status(500).json({ error: 'Failed to fetch deployment job', details: error.message });
+  }
+});
+
+// Report progress of a deployment job step
+router.put('/jobs/:id/steps/:step', authenticate, async (req, res) => {
+  try {
+    const { id, step } = req.params;
+    const { status, transactionHash, contractAddress, data, error } = req.body;
+
+    if (!JOB_STEPS.includes(step)) {
+      return res.status(400).json({ error: `Unknown step: ${step}` });
+    }
+
+    if (!STEP_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid step status: ${status}` });
+    }
+
+    const job = await findDeploymentJobById(id);
+
+    if (!job || job.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(404).json({ error: 'Deployment job not found' });
+    }
+
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      return res.status(400).json({ error: `Deployment job is already ${job.status}` });
+    }
+
+    const updatedJob = await updateDeploymentJobStep(id, step, {
+      status,
+      transactionHash,
+      contractAddress,
+      data,
+      error
+    });
+
+    res.json(updatedJob);
+  } catch (error) {
+    console.error('Error updating deployment job step:', error);
+    res.status(500).json({ error: 'Failed to update deployment job', details: error.message });
+  }
+});
+
+// Abandon a deployment job
+router.delete('/jobs/:id', authenticate, async (req, res) => {
+  try {
+    const job = await findDeploymentJobById(req.params.id);
+
+    if (!job || job.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(404).json({ error: 'Deployment job not found' });
+    }
+
+    await cancelDeploymentJob(job.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling deployment job:', error);
+    res.status(500).json({ error: 'Failed to cancel deployment job', details: error.message });
+  }
+});
+
 // ... (repeat for all other queries in this file, ensuring all use ? placeholders) ...
 
+// Record a token deployed here on the wizard's deployment job, so a client that reloaded while the
+// deployment was running resumes from the deployed contract instead of deploying another
+async function recordJobDeployment(jobId, owner, result) {
+  const job = await findDeploymentJobById(jobId);
+  if (!job || job.owner_address !== owner.toLowerCase()) return;
+
+  await updateDeploymentJobStep(job.id, 'deploy', {
+    status: 'running',
+    transactionHash: result.transactionHash,
+    contractAddress: result.contractAddress,
+    data: { contractAddress: result.contractAddress, deploymentMethod: 'primary' }
+  });
+}
+
 module.exports = router;
@@ -1,4 +1,9 @@
 /* ... (imports unchanged) ... */
+const { ethers } = require('ethers');
+const governanceIndexer = require('../services/governanceIndexer');
+const { getProvider } = require('../utils/blockchain');
+const { getBalanceAtBlock } = require('../utils/tokenVerification');
+const TokenGovernanceABI = require('../../src/abis/TokenGovernance.json');
 
 // Get all proposals for a token
 router.get('/token/:tokenAddress', async (req, res) => {
@@ -32,6 +37,7 @@ router.get('/proposal/:proposalId', async (req, res) => {
               u.address as creator_address,
               t.name as token_name, 
               t.symbol as token_symbol,
+              t.decimals as token_decimals,
               t.contract_address as token_address
        FROM governance_proposals p
        JOIN tokens t ON p.token_address = t.contract_address
@@ -58,10 +64,25 @@ router.get('/proposal/:proposalId', async (req, res) => {
 router.post('/', authenticate, async (req, res) => {
   try {
     // ... (ownership check unchanged) ...
+    const modeResult = await query(
+      'SELECT governance_mode, network_id FROM tokens WHERE contract_address = ?',
+      [tokenAddress.toLowerCase()]
+    );
+    if (modeResult.rows[0]?.governance_mode === 'onchain') {
+      return res.status(400).json({ error: 'Token uses on-chain governance; create proposals through the governance contract' });
+    }
+
+    // Nothing executes an off-chain proposal, so it cannot carry a token action
+    if (executionData) {
+      return res.status(400).json({ error: 'Only on-chain proposals can execute token functions' });
+    }
+
+    // Voting power is measured at the block the proposal was created in
+    const snapshotBlock = await getProvider(modeResult.rows[0].network_id).getBlockNumber();
     const result = await query(
       `INSERT INTO governance_proposals 
-       (token_address, title, description, creator, start_time, end_time, status, quorum, execution_time, execution_data) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       (token_address, title, description, creator, start_time, end_time, status, quorum, execution_time, execution_data, snapshot_block) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
        RETURNING *`,
       [
         tokenAddress.toLowerCase(),
@@ -73,7 +94,8 @@ router.post('/', authenticate, async (req, res) => {
         now >= proposalStartTime ? 'active' : 'pending',
         proposalQuorum,
         proposalExecutionTime,
-        executionData || null
+        null,
+        snapshotBlock
       ]
     );
     res.status(201).json(result.rows[0]);
@@ -86,17 +108,46 @@ router.post('/', authenticate, async (req, res) => {
 router.post('/vote', authenticate, async (req, res) => {
   try {
     // ... (proposal check unchanged) ...
+    const snapshotResult = await query(
+      `SELECT p.onchain_proposal_id, p.snapshot_block, t.contract_address, t.network_id, t.decimals
+       FROM governance_proposals p
+       JOIN tokens t ON p.token_address = t.contract_address
+       WHERE p.id = ?`,
+      [proposalId]
+    );
+    const snapshot = snapshotResult.rows[0];
+    if (snapshot?.onchain_proposal_id !== null && snapshot?.onchain_proposal_id !== undefined) {
+      return res.status(400).json({ error: 'On-chain proposals must be voted on through the governance contract' });
+    }
     const existingVoteResult = await query(
       'SELECT * FROM governance_votes WHERE proposal_id = ? AND voter = ?',
       [proposalId, req.user.id]
     );
     // ... (rest unchanged) ...
+
+    // Weight votes by the balance held at the proposal's snapshot block so tokens
+    // moved to another wallet after the proposal was created cannot vote twice
+    let snapshotWeight = voteWeight;
+    if (snapshot?.snapshot_block !== null && snapshot?.snapshot_block !== undefined) {
+      snapshotWeight = await getBalanceAtBlock(
+        snapshot.contract_address,
+        req.user.address,
+        snapshot.network_id,
+        snapshot.snapshot_block,
+        snapshot.decimals
+      );
+
+      if (parseFloat(snapshotWeight) <= 0) {
+        return res.status(403).json({ error: `No voting power at snapshot block ${snapshot.snapshot_block}` });
+      }
+    }
+
     const result = await query(
       `INSERT INTO governance_votes 
        (proposal_id, voter, vote, vote_weight) 
        VALUES (?, ?, ?, ?)
        RETURNING *`,
-      [proposalId, req.user.id, vote, voteWeight]
+      [proposalId, req.user.id, vote, snapshotWeight]
     );
     res.status(201).json(result.rows[0]);
   } catch (error) {
@@ -111,14 +162,14 @@ router.put('/update-statuses', async (req, res) => {
     await query(
       `UPDATE governance_proposals 
        SET status = 'active' 
-       WHERE status = 'pending' AND start_time <= ?`,
+       WHERE status = 'pending' AND start_time <= ? AND onchain_proposal_id IS NULL`,
       [now]
     );
     const endedProposalsResult = await query(
       `SELECT p.*, t.contract_address as token_address
        FROM governance_proposals p
        JOIN tokens t ON p.token_address = t.contract_address
-       WHERE p.status = 'active' AND p.end_time <= ?`,
+       WHERE p.status = 'active' AND p.end_time <= ? AND p.onchain_proposal_id IS NULL`,
       [now]
     );
     // ... (rest unchanged, update all queries to use ? placeholders) ...
@@ -127,4 +178,200 @@ router.put('/update-statuses', async (req, res) => {
   }
 });
 
+// Get governance settings for a token
+router.get('/settings/:tokenAddress', async (req, res) => {
+  try {
+    const { tokenAddress } = req.params;
+    const tokenResult = await query(
+      'SELECT governance_mode, governance_contract, network_id, contract_type, decimals FROM tokens WHERE contract_address = ?',
+      [tokenAddress.toLowerCase()]
+    );
+
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    const token = tokenResult.rows[0];
+    res.json({
+      mode: token.governance_mode || 'offchain',
+      contractAddress: token.governance_contract || null,
+      networkId: token.network_id,
+      contractType: token.contract_type,
+      decimals: token.decimals
+    });
+  } catch (error) {
+    console.error('Error fetching governance settings:', error);
+    res.status(500).json({ error: 'Failed to fetch governance settings', details: error.message });
+  }
+});
+
+// Switch a token between off-chain and on-chain governance
+router.put('/settings/:tokenAddress', authenticate, async (req, res) => {
+  try {
+    const { tokenAddress } = req.params;
+    const { mode, contractAddress, transactionHash } = req.body;
+
+    if (!['offchain', 'onchain'].includes(mode)) {
+      return res.status(400).json({ error: 'Invalid governance mode' });
+    }
+
+    const tokenResult = await query(
+      'SELECT * FROM tokens WHERE contract_address = ?',
+      [tokenAddress.toLowerCase()]
+    );
+
+    if (tokenResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    const token = tokenResult.rows[0];
+    if (token.owner_address.toLowerCase() !== req.user.id.toLowerCase()) {
+      return res.status(403).json({ error: 'Only the token owner can change governance settings' });
+    }
+
+    if (mode === 'offchain') {
+      await query(
+        'UPDATE tokens SET governance_mode = ? WHERE contract_address = ?',
+        ['offchain', token.contract_address]
+      );
+      return res.json({
+        mode: 'offchain',
+        contractAddress: token.governance_contract || null,
+        networkId: token.network_id,
+        contractType: token.contract_type,
+        decimals: token.decimals
+      });
+    }
+
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      return res.status(400).json({ error: 'A valid governance contract address is required' });
+    }
+
+    const governanceAddress = contractAddress.toLowerCase();
+    const existingResult = await query(
+      'SELECT * FROM governance_contracts WHERE contract_address = ?',
+      [governanceAddress]
+    );
+
+    let governance = existingResult.rows[0];
+    if (governance && governance.token_address.toLowerCase() !== token.contract_address.toLowerCase()) {
+      return res.status(400).json({ error: 'Governance contract belongs to a different token' });
+    }
+
+    if (!governance) {
+      if (!transactionHash) {
+        return res.status(400).json({ error: 'Deployment transaction hash is required to register a governance contract' });
+      }
+
+      // Verify the contract was deployed by this transaction and governs this token
+      const provider = getProvider(token.network_id);
+      const receipt = await provider.getTransactionReceipt(transactionHash);
+      if (!receipt || !receipt.contractAddress || receipt.contractAddress.toLowerCase() !== governanceAddress) {
+        return res.status(400).json({ error: 'Transaction did not deploy the governance contract' });
+      }
+
+      const governanceContract = new ethers.Contract(contractAddress, TokenGovernanceABI, provider);
+      const governedToken = await governanceContract.token();
+      if (governedToken.toLowerCase() !== token.contract_address.toLowerCase()) {
+        return res.status(400).json({ error: 'Governance contract is not configured for this token' });
+      }
+
+      const insertResult = await query(
+        `INSERT INTO governance_contracts 
+         (contract_address, token_address, owner_address, network_id, network_name, network_chain_id, transaction_hash) 
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`,
+        [
+          governanceAddress,
+          token.contract_address.toLowerCase(),
+          req.user.id,
+          token.network_id,
+          token.network_name,
+          token.network_chain_id,
+          transactionHash
+        ]
+      );
+      governance = insertResult.rows[0];
+    }
+
+    // Passed proposals are executed by the governance contract calling the token, so it must own the token
+    const tokenOwner = await getTokenOwner(token.network_id, token.contract_address);
+    if (tokenOwner && tokenOwner.toLowerCase() !== governanceAddress) {
+      return res.status(400).json({ error: 'Transfer token ownership to the governance contract before enabling on-chain governance' });
+    }
+
+    await query(
+      'UPDATE tokens SET governance_mode = ?, governance_contract = ? WHERE contract_address = ?',
+      ['onchain', governanceAddress, token.contract_address]
+    );
+
+    try {
+      await governanceIndexer.syncContract(governance);
+    } catch (syncError) {
+      console.error('Error indexing governance contract after registration:', syncError);
+    }
+
+    res.json({
+      mode: 'onchain',
+      contractAddress: governanceAddress,
+      networkId: token.network_id,
+      contractType: token.contract_type,
+      decimals: token.decimals
+    });
+  } catch (error) {
+    console.error('Error updating governance settings:', error);
+    res.status(500).json({ error: 'Failed to update governance settings', details: error.message });
+  }
+});
+
+// Index events for a single governance contract (called after on-chain transactions)
+router.post('/onchain/:contractAddress/sync', async (req, res) => {
+  try {
+    const { contractAddress } = req.params;
+    const governanceResult = await query(
+      'SELECT * FROM governance_contracts WHERE contract_address = ?',
+      [contractAddress.toLowerCase()]
+    );
+
+    if (governanceResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Governance contract not found' });
+    }
+
+    const sync = await governanceIndexer.syncContract(governanceResult.rows[0]);
+    const proposalsResult = await query(
+      `SELECT * FROM governance_proposals 
+       WHERE governance_contract = ? 
+       ORDER BY onchain_proposal_id DESC`,
+      [contractAddress.toLowerCase()]
+    );
+
+    res.json({ sync, proposals: proposalsResult.rows });
+  } catch (error) {
+    console.error('Error syncing governance contract:', error);
+    res.status(500).json({ error: 'Failed to sync governance contract', details: error.message });
+  }
+});
+
+// Index events for all on-chain governance contracts (for background job)
+router.put('/onchain/sync', async (req, res) => {
+  try {
+    const results = await governanceIndexer.syncAll();
+    res.json({ success: true, results });
+  } catch (error) {
+    console.error('Error syncing governance contracts:', error);
+    res.status(500).json({ error: 'Failed to sync governance contracts', details: error.message });
+  }
+});
+
+// Owner of an Ownable token, or null for a token without one
+async function getTokenOwner(network, tokenAddress) {
+  const token = new ethers.Contract(tokenAddress, ['function owner() view returns (address)'], getProvider(network));
+  try {
+    return await token.owner();
+  } catch (error) {
+    if (error.code === 'CALL_EXCEPTION' || error.code === 'BAD_DATA') return null;
+    throw error;
+  }
+}
+
 module.exports = router;
@@ -0,0 +1,46 @@
+const express = require('express');
+const { authenticate, isAdmin } = require('../middleware/auth');
+const networkRegistryService = require('../services/networkRegistryService');
+
+const router = express.Router();
+
+// Get the DEX routers, base tokens and platform contracts of a chain
+router.get('/:chainId/registry', async (req, res) => {
+  try {
+    const chainId = parseInt(req.params.chainId, 10);
+
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      return res.status(400).json({ error: 'Valid chain ID is required' });
+    }
+
+    const registry = await networkRegistryService.getRegistry(chainId);
+    res.json(registry);
+  } catch (error) {
+    console.error('Error fetching network registry:', error);
+    res.status(500).json({ error: 'Failed to fetch network registry', details: error.message });
+  }
+});
+
+// Override the registry of a chain (admin only)
+router.put('/:chainId/registry', authenticate, isAdmin, async (req, res) => {
+  try {
+    const chainId = parseInt(req.params.chainId, 10);
+
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      return res.status(400).json({ error: 'Valid chain ID is required' });
+    }
+
+    const errors = networkRegistryService.validateOverrides(req.body || {});
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid registry overrides', details: errors.join('; ') });
+    }
+
+    const registry = await networkRegistryService.saveOverrides(chainId, req.body, req.user.id);
+    res.json(registry);
+  } catch (error) {
+    console.error('Error updating network registry:', error);
+    res.status(500).json({ error: 'Failed to update network registry', details: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,348 @@
+const express = require('express');
+const { ethers } = require('ethers');
+const rateLimit = require('express-rate-limit');
+const { authenticate } = require('../middleware/auth');
+const { verifyCaptcha } = require('../middleware/captcha');
+const antiBotSignatureService = require('../services/antiBotSignatureService');
+const presaleWhitelistService = require('../services/presaleWhitelistService');
+const participantLedgerService = require('../services/participantLedgerService');
+const referralService = require('../services/referralService');
+const liquidityListingService = require('../services/liquidityListingService');
+const { findPresaleByAddress } = require('../db/models/Presale');
+const { createTransaction, findTransactionByHash, findTransactionsTo } = require('../db/models/Transaction');
+const { getProvider } = require('../utils/blockchain');
+
+const router = express.Router();
+
+// Owner actions from the sale control panel and how they are stored in transactions
+const ADMIN_TRANSACTION_TYPES = {
+  finalizeSale: 'FINALIZE_SALE',
+  autoListToken: 'AUTO_LIST',
+  pause: 'PAUSE_SALE',
+  unpause: 'UNPAUSE_SALE',
+  updateWhitelist: 'UPDATE_WHITELIST',
+  updatePenaltyRate: 'UPDATE_PENALTY_RATE',
+  withdrawPenalties: 'WITHDRAW_PENALTIES',
+  updateFeaturedStatus: 'UPDATE_FEATURED',
+  emergencyWithdrawTokens: 'EMERGENCY_WITHDRAW'
+};
+
+// Purchase signatures are cheap to request, so limit them per wallet as well as per IP
+const signatureLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 5,
+  keyGenerator: (req) => req.user.id,
+  message: {
+    error: 'Rate limit exceeded',
+    message: 'Too many signature requests, please try again in a minute',
+    code: 'RATE_LIMIT'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Signing keys are stored for good, so their creation is limited per wallet
+const signerLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  keyGenerator: (req) => req.user.id,
+  message: {
+    error: 'Rate limit exceeded',
+    message: 'Too many signer requests, please try again later',
+    code: 'RATE_LIMIT'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Signing key for an anti-bot presale being configured; the wallet's pending key is reused until a presale is registered with it
+router.post('/signers', authenticate, signerLimiter, async (req, res) => {
+  try {
+    const { network } = req.body;
+
+    if (!network) {
+      return res.status(400).json({ error: 'Network is required' });
+    }
+
+    const signerAddress = await antiBotSignatureService.createSigner(req.user.id, network);
+    res.status(201).json({ signerAddress });
+  } catch (error) {
+    console.error('Error creating presale signer:', error);
+    res.status(500).json({ error: 'Failed to create presale signer', details: error.message });
+  }
+});
+
+// Issue a purchase signature for the authenticated wallet
+router.post('/:address/signature', authenticate, signatureLimiter, verifyCaptcha, async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { network } = req.body;
+
+    if (!ethers.isAddress(address) || !network) {
+      return res.status(400).json({ error: 'Valid presale address and network are required' });
+    }
+
+    const result = await antiBotSignatureService.issueSignature(address, network, req.user.id);
+
+    if (result.signatureRequired === false) {
+      return res.json({ signatureRequired: false });
+    }
+
+    if (!result.issued) {
+      return res.status(403).json({ error: result.error, code: result.code });
+    }
+
+    res.json({ signatureRequired: true, signature: result.signature });
+  } catch (error) {
+    console.error('Error issuing purchase signature:', error);
+    res.status(500).json({ error: 'Failed to issue purchase signature', details: error.message });
+  }
+});
+
+// Build a Merkle whitelist, for a presale being configured or an existing one
+router.post('/whitelists', authenticate, async (req, res) => {
+  try {
+    const { addresses, network, presaleAddress } = req.body;
+
+    if (!Array.isArray(addresses) || !network) {
+      return res.status(400).json({ error: 'Addresses and network are required' });
+    }
+
+    if (presaleAddress) {
+      const presale = await findPresaleByAddress(presaleAddress);
+      if (!presale || presale.owner_address !== req.user.id.toLowerCase()) {
+        return res.status(403).json({ error: 'Only the sale owner can update its whitelist' });
+      }
+    }
+
+    const whitelist = await presaleWhitelistService.createWhitelist(req.user.id, network, addresses, presaleAddress);
+
+    res.status(201).json({
+      id: whitelist.id,
+      merkleRoot: whitelist.merkle_root,
+      addressCount: whitelist.address_count,
+      invalidAddresses: whitelist.invalid_addresses
+    });
+  } catch (error) {
+    console.error('Error creating whitelist:', error);
+    res.status(500).json({ error: 'Failed to create whitelist', details: error.message });
+  }
+});
+
+// Attach a whitelist built in the wizard to its deployed presale
+router.put('/whitelists/:id/presale', authenticate, async (req, res) => {
+  try {
+    const { presaleAddress } = req.body;
+
+    if (!ethers.isAddress(presaleAddress)) {
+      return res.status(400).json({ error: 'Valid presale address is required' });
+    }
+
+    const assigned = await presaleWhitelistService.assignWhitelist(req.params.id, presaleAddress, req.user.id);
+
+    if (!assigned) {
+      return res.status(404).json({ error: 'Whitelist not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error assigning whitelist:', error);
+    res.status(500).json({ error: 'Failed to assign whitelist', details: error.message });
+  }
+});
+
+// Merkle proof for an account against the presale's current whitelist root
+router.get('/:address/whitelist/proof/:account', async (req, res) => {
+  try {
+    const { address, account } = req.params;
+    const { network } = req.query;
+
+    if (!ethers.isAddress(address) || !ethers.isAddress(account) || !network) {
+      return res.status(400).json({ error: 'Valid presale address, account and network are required' });
+    }
+
+    const result = await presaleWhitelistService.getProof(address, network, account);
+    res.json(result);
+  } catch (error) {
+    console.error('Error fetching whitelist proof:', error);
+    res.status(500).json({ error: 'Failed to fetch whitelist proof', details: error.message });
+  }
+});
+
+// Record an owner action sent to the presale from the wallet
+router.post('/:address/transactions', authenticate, async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { network, transactionHash, action } = req.body;
+    const transactionType = ADMIN_TRANSACTION_TYPES[action];
+
+    if (!ethers.isAddress(address) || !network || !transactionType || !/^0x[0-9a-fA-F]{64}$/.test(transactionHash || '')) {
+      return res.status(400).json({ error: 'Valid presale address, network, action and transaction hash are required' });
+    }
+
+    const presale = await findPresaleByAddress(address);
+    if (!presale || presale.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(403).json({ error: 'Only the sale owner can record sale transactions' });
+    }
+
+    if (await findTransactionByHash(transactionHash)) {
+      return res.status(409).json({ error: 'Transaction has already been recorded', code: 'TX_RECORDED' });
+    }
+
+    const receipt = await getProvider(network).getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      return res.status(404).json({ error: 'Transaction not found or still pending', code: 'TX_PENDING' });
+    }
+
+    if (receipt.from.toLowerCase() !== req.user.id.toLowerCase() || receipt.to?.toLowerCase() !== address.toLowerCase()) {
+      return res.status(400).json({ error: 'Transaction was not sent by the owner to this presale', code: 'TX_MISMATCH' });
+    }
+
+    const transaction = await createTransaction({
+      hash: transactionHash,
+      type: transactionType,
+      from: receipt.from,
+      to: address,
+      network,
+      status: receipt.status === 1 ? 'confirmed' : 'failed',
+      gasUsed: receipt.gasUsed.toString(),
+      blockNumber: receipt.blockNumber
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    console.error('Error recording presale transaction:', error);
+    res.status(500).json({ error: 'Failed to record presale transaction', details: error.message });
+  }
+});
+
+// Owner actions recorded for a presale
+router.get('/:address/transactions', authenticate, async (req, res) => {
+  try {
+    const presale = await findPresaleByAddress(req.params.address);
+    if (!presale || presale.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(403).json({ error: 'Only the sale owner can view sale transactions' });
+    }
+
+    const transactions = await findTransactionsTo(req.params.address);
+    res.json(transactions);
+  } catch (error) {
+    console.error('Error fetching presale transactions:', error);
+    res.status(500).json({ error: 'Failed to fetch presale transactions', details: error.message });
+  }
+});
+
+// Per-wallet participant ledger, paginated or exported as CSV/JSON
+router.get('/:address/participants', authenticate, async (req, res) => {
+  try {
+    const { page, limit, format } = req.query;
+
+    if (format && !['csv', 'json'].includes(format)) {
+      return res.status(400).json({ error: 'Export format must be csv or json' });
+    }
+
+    const presale = await findPresaleByAddress(req.params.address);
+    if (!presale || presale.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(403).json({ error: 'Only the sale owner can view participants' });
+    }
+
+    // Exports always contain every participant
+    const ledger = await participantLedgerService.getLedger(presale, format ? {} : { page, limit: limit || 25 });
+
+    if (format) {
+      const fileName = `participants-${presale.contract_address}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      if (format === 'csv') {
+        res.type('text/csv');
+        return res.send(participantLedgerService.toCsv(ledger.participants));
+      }
+    }
+
+    res.json(ledger);
+  } catch (error) {
+    console.error('Error fetching presale participants:', error);
+    res.status(500).json({ error: 'Failed to fetch presale participants', details: error.message });
+  }
+});
+
+// Referral leaderboard of a presale
+router.get('/:address/referrals', async (req, res) => {
+  try {
+    const presale = await findPresaleByAddress(req.params.address);
+    if (!presale) {
+      return res.status(404).json({ error: 'Presale not found' });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 20, 1), 100);
+    const leaderboard = await referralService.getLeaderboard(presale, limit);
+    res.json(leaderboard);
+  } catch (error) {
+    console.error('Error fetching referral leaderboard:', error);
+    res.status(500).json({ error: 'Failed to fetch referral leaderboard', details: error.message });
+  }
+});
+
+// Referral rewards owed versus funded in the tracker
+router.get('/:address/referrals/rewards', authenticate, async (req, res) => {
+  try {
+    const presale = await findPresaleByAddress(req.params.address);
+    if (!presale || presale.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(403).json({ error: 'Only the sale owner can view referral rewards' });
+    }
+
+    const summary = await referralService.getRewardsSummary(presale);
+    res.json(summary);
+  } catch (error) {
+    console.error('Error fetching referral rewards:', error);
+    res.status(500).json({ error: 'Failed to fetch referral rewards', details: error.message });
+  }
+});
+
+// Publish the LP lock made after auto-listing so the sale page can show it
+router.post('/:address/liquidity-lock', authenticate, async (req, res) => {
+  try {
+    const { network, transactionHash } = req.body;
+
+    if (!ethers.isAddress(req.params.address) || !network || !/^0x[0-9a-fA-F]{64}$/.test(transactionHash || '')) {
+      return res.status(400).json({ error: 'Valid presale address, network and transaction hash are required' });
+    }
+
+    const presale = await findPresaleByAddress(req.params.address);
+    if (!presale || presale.owner_address !== req.user.id.toLowerCase()) {
+      return res.status(403).json({ error: 'Only the sale owner can publish a liquidity lock' });
+    }
+
+    const result = await liquidityListingService.publishLock(presale, network, transactionHash);
+    if (!result.published) {
+      return res.status(400).json({ error: result.error, code: result.code });
+    }
+
+    res.status(201).json({ lockId: result.lockId });
+  } catch (error) {
+    console.error('Error publishing liquidity lock:', error);
+    res.status(500).json({ error: 'Failed to publish liquidity lock', details: error.message });
+  }
+});
+
+// Published LP lock of a presale
+router.get('/:address/liquidity-lock', async (req, res) => {
+  try {
+    const presale = await findPresaleByAddress(req.params.address);
+    if (!presale) {
+      return res.status(404).json({ error: 'Presale not found' });
+    }
+
+    const lock = await liquidityListingService.getLock(presale);
+    if (!lock) {
+      return res.status(404).json({ error: 'No liquidity lock published for this sale' });
+    }
+
+    res.json(lock);
+  } catch (error) {
+    console.error('Error fetching liquidity lock:', error);
+    res.status(500).json({ error: 'Failed to fetch liquidity lock', details: error.message });
+  }
+});
+
+module.exports = router;
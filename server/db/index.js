@@ -1,5 +1,6 @@
 // server/db/index.js
 const mysql = require('mysql2/promise');
+const { AsyncLocalStorage } = require('async_hooks');
 const fs = require('fs');
 const path = require('path');
 
@@ -69,11 +70,15 @@ const initializeDatabase = async () => {
   }
 };
 
+// Connection of the transaction the current call runs in, if any
+const transactionStorage = new AsyncLocalStorage();
+
 const query = async (sql, params) => {
   const start = Date.now();
+  const transactionConnection = transactionStorage.getStore();
   let connection;
   try {
-    connection = await pool.getConnection();
+    connection = transactionConnection || await pool.getConnection();
     const [rows] = await connection.query(sql, params);
     const duration = Date.now() - start;
     if (process.env.NODE_ENV === 'development') {
@@ -84,12 +89,34 @@ const query = async (sql, params) => {
     console.error('Query error', { sql, error });
     throw error;
   } finally {
-    if (connection) connection.release();
+    if (connection && !transactionConnection) connection.release();
+  }
+};
+
+// Run a callback in a transaction: every query it makes, directly or through models, is committed
+// together or rolled back if it throws. Nested calls join the outer transaction.
+const withTransaction = async (callback) => {
+  if (transactionStorage.getStore()) {
+    return callback();
+  }
+
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await transactionStorage.run(connection, callback);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
   }
 };
 
 module.exports = {
   connectDB,
   query,
+  withTransaction,
   pool
 };
@@ -0,0 +1,116 @@
+const { query } = require('../index');
+
+// Create an airdrop campaign with its recipient list
+async function createAirdropCampaign(campaign) {
+  const result = await query(
+    `INSERT INTO airdrop_campaigns
+     (sender_address, token_address, network_id, token_decimals, batch_size, recipient_count, total_amount, recipients, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', NOW(), NOW())
+     RETURNING *`,
+    [
+      campaign.sender.toLowerCase(),
+      campaign.tokenAddress.toLowerCase(),
+      campaign.network,
+      campaign.decimals,
+      campaign.batchSize,
+      campaign.recipients.length,
+      campaign.totalAmount,
+      JSON.stringify(campaign.recipients)
+    ]
+  );
+  return findAirdropCampaignById(result.rows[0].id);
+}
+
+// Find a campaign with its recipients and recorded batches
+async function findAirdropCampaignById(id) {
+  const campaignResult = await query(`SELECT * FROM airdrop_campaigns WHERE id = ? LIMIT 1`, [id]);
+  const campaign = campaignResult.rows[0];
+  if (!campaign) return null;
+
+  const batchesResult = await query(
+    `SELECT * FROM airdrops WHERE campaign_id = ? ORDER BY batch_index ASC`,
+    [id]
+  );
+
+  return {
+    ...campaign,
+    recipients: typeof campaign.recipients === 'string' ? JSON.parse(campaign.recipients) : campaign.recipients,
+    batches: batchesResult.rows
+  };
+}
+
+// Find a sender's campaigns, newest first, without their recipient lists
+async function findAirdropCampaignsBySender(sender, { tokenAddress, network } = {}) {
+  const conditions = ['sender_address = ?'];
+  const params = [sender.toLowerCase()];
+
+  if (tokenAddress) {
+    conditions.push('token_address = ?');
+    params.push(tokenAddress.toLowerCase());
+  }
+  if (network) {
+    conditions.push('network_id = ?');
+    params.push(network);
+  }
+
+  const result = await query(
+    `SELECT c.id, c.sender_address, c.token_address, c.network_id, c.token_decimals, c.batch_size,
+       c.recipient_count, c.total_amount, c.status, c.error, c.created_at, c.updated_at,
+       (SELECT COUNT(*) FROM airdrops a WHERE a.campaign_id = c.id AND a.status = 'confirmed') AS confirmed_batches
+     FROM airdrop_campaigns c
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY c.created_at DESC`,
+    params
+  );
+  return result.rows;
+}
+
+// Record a batch of a campaign, replacing the earlier record of the same batch
+async function saveAirdropBatch(campaign, batch) {
+  const existing = await query(
+    `SELECT id FROM airdrops WHERE campaign_id = ? AND batch_index = ? LIMIT 1`,
+    [campaign.id, batch.batchIndex]
+  );
+
+  if (existing.rows.length > 0) {
+    await query(
+      `UPDATE airdrops SET transaction_hash = ?, status = ?, airdrop_id = ?, total_amount = ?, recipient_count = ?
+       WHERE id = ?`,
+      [batch.transactionHash, batch.status, batch.airdropId, batch.totalAmount, batch.recipientCount, existing.rows[0].id]
+    );
+  } else {
+    await query(
+      `INSERT INTO airdrops
+       (campaign_id, batch_index, airdrop_id, token_address, sender_address, network_id, total_amount, recipient_count, transaction_hash, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        campaign.id,
+        batch.batchIndex,
+        batch.airdropId,
+        campaign.token_address,
+        campaign.sender_address,
+        campaign.network_id,
+        batch.totalAmount,
+        batch.recipientCount,
+        batch.transactionHash,
+        batch.status
+      ]
+    );
+  }
+}
+
+// Update a campaign's status
+async function updateAirdropCampaignStatus(id, status, error = null) {
+  await query(
+    `UPDATE airdrop_campaigns SET status = ?, error = ?, updated_at = NOW() WHERE id = ?`,
+    [status, error, id]
+  );
+}
+
+module.exports = {
+  createAirdropCampaign,
+  findAirdropCampaignById,
+  findAirdropCampaignsBySender,
+  saveAirdropBatch,
+  updateAirdropCampaignStatus
+};
@@ -0,0 +1,114 @@
+const { query } = require('../index');
+
+// Steps of a token deployment job, in execution order. The token is registered right after
+// deployment because verification and metadata both look it up in the tokens table.
+const JOB_STEPS = ['payment', 'deploy', 'register', 'verify', 'vesting', 'metadata'];
+
+// Create a deployment job with its steps
+async function createDeploymentJob(job) {
+  const result = await query(
+    `INSERT INTO deployment_jobs (owner_address, job_type, network_id, config, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, 'pending', NOW(), NOW())
+     RETURNING *`,
+    [
+      job.owner.toLowerCase(),
+      job.jobType || 'token',
+      job.network,
+      JSON.stringify(job.config)
+    ]
+  );
+  const created = result.rows[0];
+
+  for (const [position, step] of JOB_STEPS.entries()) {
+    await query(
+      `INSERT INTO deployment_job_steps (job_id, step, position, status) VALUES (?, ?, ?, ?)`,
+      [created.id, step, position, job.skippedSteps?.includes(step) ? 'skipped' : 'pending']
+    );
+  }
+
+  return findDeploymentJobById(created.id);
+}
+
+// Find a deployment job with its steps
+async function findDeploymentJobById(id) {
+  const jobResult = await query(`SELECT * FROM deployment_jobs WHERE id = ? LIMIT 1`, [id]);
+  const job = jobResult.rows[0];
+  if (!job) return null;
+
+  const stepsResult = await query(
+    `SELECT * FROM deployment_job_steps WHERE job_id = ? ORDER BY position ASC`,
+    [id]
+  );
+  return { ...job, steps: stepsResult.rows };
+}
+
+// Find the most recent unfinished job for an owner
+async function findActiveDeploymentJob(owner) {
+  const result = await query(
+    `SELECT id FROM deployment_jobs
+     WHERE owner_address = ? AND status IN ('pending', 'running', 'failed')
+     ORDER BY created_at DESC LIMIT 1`,
+    [owner.toLowerCase()]
+  );
+  return result.rows[0] ? findDeploymentJobById(result.rows[0].id) : null;
+}
+
+// Update a single step and recompute the job status
+async function updateDeploymentJobStep(id, step, update) {
+  await query(
+    `UPDATE deployment_job_steps SET
+       status = ?,
+       transaction_hash = COALESCE(?, transaction_hash),
+       data = COALESCE(?, data),
+       error = ?,
+       started_at = CASE WHEN ? = 'running' THEN NOW() ELSE started_at END,
+       completed_at = CASE WHEN ? IN ('completed', 'skipped') THEN NOW() ELSE completed_at END
+     WHERE job_id = ? AND step = ?`,
+    [
+      update.status,
+      update.transactionHash || null,
+      update.data ? JSON.stringify(update.data) : null,
+      update.error || null,
+      update.status,
+      update.status,
+      id,
+      step
+    ]
+  );
+
+  if (update.contractAddress) {
+    await query(
+      `UPDATE deployment_jobs SET contract_address = ? WHERE id = ?`,
+      [update.contractAddress.toLowerCase(), id]
+    );
+  }
+
+  const job = await findDeploymentJobById(id);
+  const failedStep = job.steps.find(s => s.status === 'failed');
+  const finished = job.steps.every(s => s.status === 'completed' || s.status === 'skipped');
+  const status = failedStep ? 'failed' : finished ? 'completed' : 'running';
+
+  await query(
+    `UPDATE deployment_jobs SET status = ?, error = ?, updated_at = NOW() WHERE id = ?`,
+    [status, failedStep ? failedStep.error : null, id]
+  );
+
+  return { ...job, status, error: failedStep ? failedStep.error : null };
+}
+
+// Abandon a job so it is no longer offered for resuming
+async function cancelDeploymentJob(id) {
+  await query(
+    `UPDATE deployment_jobs SET status = 'cancelled', updated_at = NOW() WHERE id = ?`,
+    [id]
+  );
+}
+
+module.exports = {
+  JOB_STEPS,
+  createDeploymentJob,
+  findDeploymentJobById,
+  findActiveDeploymentJob,
+  updateDeploymentJobStep,
+  cancelDeploymentJob
+};
@@ -0,0 +1,44 @@
+const { query } = require('../index');
+
+// Registry overrides stored for a chain
+async function findNetworkRegistryOverride(chainId) {
+  const result = await query(
+    `SELECT * FROM network_registry_overrides WHERE chain_id = ? LIMIT 1`,
+    [chainId]
+  );
+  return result.rows[0] || null;
+}
+
+// Replace the registry overrides of a chain
+async function saveNetworkRegistryOverride(chainId, overrides, updatedBy) {
+  const values = [
+    overrides.routers ? JSON.stringify(overrides.routers) : null,
+    overrides.wrappedNative ? JSON.stringify(overrides.wrappedNative) : null,
+    overrides.stablecoins ? JSON.stringify(overrides.stablecoins) : null,
+    overrides.contracts ? JSON.stringify(overrides.contracts) : null,
+    updatedBy.toLowerCase()
+  ];
+
+  const existing = await findNetworkRegistryOverride(chainId);
+  if (existing) {
+    await query(
+      `UPDATE network_registry_overrides
+       SET routers = ?, wrapped_native = ?, stablecoins = ?, contracts = ?, updated_by = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE chain_id = ?`,
+      [...values, chainId]
+    );
+  } else {
+    await query(
+      `INSERT INTO network_registry_overrides (routers, wrapped_native, stablecoins, contracts, updated_by, chain_id)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [...values, chainId]
+    );
+  }
+
+  return findNetworkRegistryOverride(chainId);
+}
+
+module.exports = {
+  findNetworkRegistryOverride,
+  saveNetworkRegistryOverride
+};
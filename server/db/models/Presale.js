@@ -43,6 +43,13 @@ async function findPresalesByOwner(owner) {
   return result.rows;
 }
 
+// Find presales selling a token
+async function findPresalesByToken(tokenAddress) {
+  const sql = `SELECT * FROM presales WHERE token_address = ?`;
+  const result = await query(sql, [tokenAddress.toLowerCase()]);
+  return result.rows;
+}
+
 // Update presale status
 async function updatePresaleStatus(address, status) {
   const sql = `UPDATE presales SET status = ? WHERE contract_address = ?`;
@@ -67,11 +74,26 @@ async function setPresaleVerified(address, verified = true) {
   await query(sql, [verified, address.toLowerCase()]);
 }
 
+// Record the auto-listing LP token and the lock holding it
+async function setPresaleLiquidityLock(address, { lpTokenAddress, lockerAddress, lockId }) {
+  const sql = `
+    UPDATE presales SET
+      auto_listed = true,
+      lp_token_address = ?,
+      liquidity_locker_address = ?,
+      liquidity_lock_id = ?
+    WHERE contract_address = ?
+  `;
+  await query(sql, [lpTokenAddress.toLowerCase(), lockerAddress.toLowerCase(), lockId, address.toLowerCase()]);
+}
+
 module.exports = {
   createPresale,
   findPresaleByAddress,
   findPresalesByOwner,
+  findPresalesByToken,
   updatePresaleStatus,
   updatePresaleStats,
-  setPresaleVerified
+  setPresaleVerified,
+  setPresaleLiquidityLock
 };
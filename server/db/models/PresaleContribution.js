@@ -0,0 +1,35 @@
+const { query } = require('../index');
+
+// Rows for wallets that took part in the sale, as opposed to only being whitelisted
+const PARTICIPANT_FILTER = `(contributed > 0 OR tokens_claimed > 0 OR refunded > 0 OR withdrawn > 0)`;
+
+// Find participants of a presale, largest contributions first
+async function findContributionsByPresale(presaleAddress, { limit, offset = 0 } = {}) {
+  const params = [presaleAddress.toLowerCase()];
+  let sql = `SELECT * FROM presale_contributions
+     WHERE presale_address = ? AND ${PARTICIPANT_FILTER}
+     ORDER BY contributed DESC, first_contribution_at ASC, contributor_address ASC`;
+
+  if (limit) {
+    sql += ' LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+  }
+
+  const result = await query(sql, params);
+  return result.rows;
+}
+
+// Participant count and total contributed for a presale
+async function getContributionTotals(presaleAddress) {
+  const result = await query(
+    `SELECT COUNT(*) AS participants, SUM(contributed) AS contributed
+     FROM presale_contributions WHERE presale_address = ? AND ${PARTICIPANT_FILTER}`,
+    [presaleAddress.toLowerCase()]
+  );
+  return result.rows[0];
+}
+
+module.exports = {
+  findContributionsByPresale,
+  getContributionTotals
+};
@@ -0,0 +1,30 @@
+const { query } = require('../index');
+
+// Referrers of a presale ranked by the volume they brought in
+async function findReferralLeaderboard(presaleAddress, limit = 20) {
+  const result = await query(
+    `SELECT referrer_address, COUNT(*) AS referrals, SUM(volume) AS volume, SUM(rewards) AS rewards
+     FROM presale_referrals
+     WHERE presale_address = ? AND volume > 0
+     GROUP BY referrer_address
+     ORDER BY volume DESC, referrer_address ASC
+     LIMIT ?`,
+    [presaleAddress.toLowerCase(), limit]
+  );
+  return result.rows;
+}
+
+// Referral volume and rewards accrued by a presale
+async function getReferralTotals(presaleAddress) {
+  const result = await query(
+    `SELECT COUNT(DISTINCT referrer_address) AS referrers, SUM(volume) AS volume, SUM(rewards) AS rewards
+     FROM presale_referrals WHERE presale_address = ? AND volume > 0`,
+    [presaleAddress.toLowerCase()]
+  );
+  return result.rows[0];
+}
+
+module.exports = {
+  findReferralLeaderboard,
+  getReferralTotals
+};
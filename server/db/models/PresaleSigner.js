@@ -0,0 +1,80 @@
+const { query } = require('../index');
+
+// Store an encrypted anti-bot signing key
+async function createPresaleSigner(signer) {
+  await query(
+    `INSERT INTO presale_signers (signer_address, owner_address, network_id, encrypted_key, created_at)
+     VALUES (?, ?, ?, ?, NOW())`,
+    [
+      signer.address.toLowerCase(),
+      signer.owner.toLowerCase(),
+      signer.network,
+      signer.encryptedKey
+    ]
+  );
+}
+
+// Find a signing key by its address
+async function findPresaleSigner(address) {
+  const result = await query(
+    `SELECT * FROM presale_signers WHERE signer_address = ? LIMIT 1`,
+    [address.toLowerCase()]
+  );
+  return result.rows[0] || null;
+}
+
+// Find an owner's signing key on a network that no presale has been assigned yet
+async function findPendingPresaleSigner(owner, network) {
+  const result = await query(
+    `SELECT * FROM presale_signers WHERE owner_address = ? AND network_id = ? AND presale_address IS NULL
+     ORDER BY created_at DESC LIMIT 1`,
+    [owner.toLowerCase(), network]
+  );
+  return result.rows[0] || null;
+}
+
+// Tie a pending signing key to the presale that was deployed with it
+async function assignPresaleSigner(signerAddress, owner, presaleAddress) {
+  await query(
+    `UPDATE presale_signers SET presale_address = ?
+     WHERE signer_address = ? AND owner_address = ? AND presale_address IS NULL`,
+    [presaleAddress.toLowerCase(), signerAddress.toLowerCase(), owner.toLowerCase()]
+  );
+}
+
+// Find the signature already issued to a buyer for a presale
+async function findIssuedSignature(presaleAddress, buyer) {
+  const result = await query(
+    `SELECT * FROM presale_signatures WHERE presale_address = ? AND buyer_address = ? LIMIT 1`,
+    [presaleAddress.toLowerCase(), buyer.toLowerCase()]
+  );
+  return result.rows[0] || null;
+}
+
+// Record a signature issued to a buyer
+async function recordIssuedSignature(presaleAddress, buyer, signerAddress, signature) {
+  await query(
+    `INSERT INTO presale_signatures (presale_address, buyer_address, signer_address, signature, issued_at)
+     VALUES (?, ?, ?, ?, NOW())`,
+    [presaleAddress.toLowerCase(), buyer.toLowerCase(), signerAddress.toLowerCase(), signature]
+  );
+}
+
+// Replace a buyer's unused signature after the presale signer was rotated
+async function replaceIssuedSignature(presaleAddress, buyer, signerAddress, signature) {
+  await query(
+    `UPDATE presale_signatures SET signer_address = ?, signature = ?, issued_at = NOW()
+     WHERE presale_address = ? AND buyer_address = ?`,
+    [signerAddress.toLowerCase(), signature, presaleAddress.toLowerCase(), buyer.toLowerCase()]
+  );
+}
+
+module.exports = {
+  createPresaleSigner,
+  findPresaleSigner,
+  findPendingPresaleSigner,
+  assignPresaleSigner,
+  findIssuedSignature,
+  recordIssuedSignature,
+  replaceIssuedSignature
+};
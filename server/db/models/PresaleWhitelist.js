@@ -0,0 +1,50 @@
+const { query } = require('../index');
+
+// Store a whitelist and its Merkle root
+async function createPresaleWhitelist(whitelist) {
+  const result = await query(
+    `INSERT INTO presale_whitelists (owner_address, presale_address, network_id, merkle_root, addresses, address_count, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, NOW())
+     RETURNING *`,
+    [
+      whitelist.owner.toLowerCase(),
+      whitelist.presaleAddress ? whitelist.presaleAddress.toLowerCase() : null,
+      whitelist.network,
+      whitelist.merkleRoot,
+      JSON.stringify(whitelist.addresses),
+      whitelist.addresses.length
+    ]
+  );
+  return result.rows[0];
+}
+
+// Find a whitelist by id
+async function findPresaleWhitelistById(id) {
+  const result = await query(`SELECT * FROM presale_whitelists WHERE id = ? LIMIT 1`, [id]);
+  return result.rows[0] || null;
+}
+
+// Find the whitelist of a presale with a given root
+async function findPresaleWhitelistByRoot(presaleAddress, merkleRoot) {
+  const result = await query(
+    `SELECT * FROM presale_whitelists WHERE presale_address = ? AND merkle_root = ?
+     ORDER BY created_at DESC LIMIT 1`,
+    [presaleAddress.toLowerCase(), merkleRoot.toLowerCase()]
+  );
+  return result.rows[0] || null;
+}
+
+// Attach a whitelist created in the wizard to the deployed presale
+async function assignPresaleWhitelist(id, presaleAddress) {
+  await query(
+    `UPDATE presale_whitelists SET presale_address = ? WHERE id = ?`,
+    [presaleAddress.toLowerCase(), id]
+  );
+}
+
+module.exports = {
+  createPresaleWhitelist,
+  findPresaleWhitelistById,
+  findPresaleWhitelistByRoot,
+  assignPresaleWhitelist
+};
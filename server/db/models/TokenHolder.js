@@ -0,0 +1,43 @@
+const { query } = require('../index');
+
+// Largest holders of a token, as maintained by the event indexer
+async function findTopHolders(tokenAddress, limit) {
+  const result = await query(
+    `SELECT holder_address, balance FROM token_holders
+     WHERE token_address = ? AND balance > 0
+     ORDER BY balance DESC, holder_address ASC
+     LIMIT ?`,
+    [tokenAddress.toLowerCase(), limit]
+  );
+  return result.rows;
+}
+
+// Holder count and summed balances of a token
+async function getHolderTotals(tokenAddress) {
+  const result = await query(
+    'SELECT COUNT(*) AS holders, SUM(balance) AS supply FROM token_holders WHERE token_address = ? AND balance > 0',
+    [tokenAddress.toLowerCase()]
+  );
+  return result.rows[0];
+}
+
+// Indexed Transfer events of a token in chain order, optionally up to a block
+async function findTransferEvents(networkId, tokenAddress, toBlock = null) {
+  const params = [networkId, tokenAddress.toLowerCase()];
+  let sql = `SELECT block_number, log_index, args FROM indexed_events
+     WHERE network_id = ? AND contract_address = ? AND event_name = 'Transfer'`;
+
+  if (toBlock !== null) {
+    sql += ' AND block_number <= ?';
+    params.push(toBlock);
+  }
+
+  const result = await query(`${sql} ORDER BY block_number ASC, log_index ASC`, params);
+  return result.rows;
+}
+
+module.exports = {
+  findTopHolders,
+  getHolderTotals,
+  findTransferEvents
+};
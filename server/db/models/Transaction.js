@@ -0,0 +1,48 @@
+const { query } = require('../index');
+
+// Record a transaction
+async function createTransaction(transaction) {
+  const result = await query(
+    `INSERT INTO transactions
+     (transaction_hash, transaction_type, from_address, to_address, amount, token_address, network_id, status, gas_used, block_number)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [
+      transaction.hash.toLowerCase(),
+      transaction.type,
+      transaction.from.toLowerCase(),
+      transaction.to ? transaction.to.toLowerCase() : null,
+      transaction.amount || null,
+      transaction.tokenAddress ? transaction.tokenAddress.toLowerCase() : null,
+      transaction.network,
+      transaction.status,
+      transaction.gasUsed || null,
+      transaction.blockNumber || null
+    ]
+  );
+  return result.rows[0];
+}
+
+// Find a transaction by hash
+async function findTransactionByHash(hash) {
+  const result = await query(
+    `SELECT * FROM transactions WHERE transaction_hash = ? LIMIT 1`,
+    [hash.toLowerCase()]
+  );
+  return result.rows[0] || null;
+}
+
+// Find transactions sent to a contract, newest first
+async function findTransactionsTo(address, limit = 50) {
+  const result = await query(
+    `SELECT * FROM transactions WHERE to_address = ? ORDER BY created_at DESC LIMIT ?`,
+    [address.toLowerCase(), limit]
+  );
+  return result.rows;
+}
+
+module.exports = {
+  createTransaction,
+  findTransactionByHash,
+  findTransactionsTo
+};
@@ -13,6 +13,9 @@ const tokenMetadataRoutes = require('./api/token-metadata');
 const badgeRoutes = require('./api/badges');
 const governanceRoutes = require('./api/governance');
 const emergencyDeployRoutes = require('./api/emergency-deploy');
+const presaleRoutes = require('./api/presale');
+const networkRoutes = require('./api/networks');
+const airdropRoutes = require('./api/airdrops');
 const connectDB = require('./db');
 const applySecurityMiddleware = require('./middleware/security');
 
@@ -48,6 +51,9 @@ app.use('/api/token-metadata', tokenMetadataRoutes);
 app.use('/api/badges', badgeRoutes);
 app.use('/api/governance', governanceRoutes);
 app.use('/api/emergency-deploy', emergencyDeployRoutes);
+app.use('/api/presale', presaleRoutes);
+app.use('/api/networks', networkRoutes);
+app.use('/api/airdrops', airdropRoutes);
 
 // Set up cron job to update governance proposal statuses
 cron.schedule('*/10 * * * *', async () => { // Run every 10 minutes
@@ -69,6 +75,36 @@ cron.schedule('*/10 * * * *', async () => { // Run every 10 minutes
   }
 });
 
+// Set up cron job to index on-chain governance events
+cron.schedule('*/2 * * * *', async () => { // Run every 2 minutes
+  try {
+    const response = await fetch(`http://localhost:${PORT}/api/governance/onchain/sync`, {
+      method: 'PUT'
+    });
+    
+    if (!response.ok) {
+      console.error('Failed to index on-chain governance events:', response.status, response.statusText);
+    }
+  } catch (error) {
+    console.error('Error running governance indexer cron job:', error);
+  }
+});
+
+// Set up cron job to index token, presale and liquidity lock events
+cron.schedule('* * * * *', async () => { // Run every minute
+  try {
+    const response = await fetch(`http://localhost:${PORT}/api/contracts/indexer/sync`, {
+      method: 'PUT'
+    });
+    
+    if (!response.ok) {
+      console.error('Failed to index contract events:', response.status, response.statusText);
+    }
+  } catch (error) {
+    console.error('Error running event indexer cron job:', error);
+  }
+});
+
 // Serve deployment files
 app.use('/deployments', express.static(path.join(__dirname, '..', 'deployments')));
 
@@ -0,0 +1,45 @@
+// Verify a captcha response when CAPTCHA_SECRET_KEY is configured (hCaptcha by default,
+// any provider with a compatible siteverify endpoint via CAPTCHA_VERIFY_URL)
+async function verifyCaptcha(req, res, next) {
+  const secret = process.env.CAPTCHA_SECRET_KEY;
+
+  if (!secret) {
+    return next();
+  }
+
+  const { captchaToken } = req.body;
+
+  if (!captchaToken) {
+    return res.status(400).json({
+      error: 'Captcha required',
+      message: 'Please complete the captcha to continue',
+      code: 'CAPTCHA_REQUIRED'
+    });
+  }
+
+  try {
+    const response = await fetch(process.env.CAPTCHA_VERIFY_URL || 'https://hcaptcha.com/siteverify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ secret, response: captchaToken, remoteip: req.ip }).toString()
+    });
+    const result = await response.json();
+
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Captcha verification failed',
+        message: 'Please complete the captcha again',
+        code: 'CAPTCHA_INVALID'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Captcha verification error:', error);
+    res.status(500).json({ error: 'Failed to verify captcha', details: error.message });
+  }
+}
+
+module.exports = {
+  verifyCaptcha
+};
@@ -0,0 +1,66 @@
+const esrPaymentService = require('../services/esrPaymentService');
+
+// Require a verified, unspent ESR payment from the caller before a paid deployment and reserve it for this request.
+// A payment transaction hash in the body is verified first, so the client can pay and deploy in one request.
+// Routes spend the reservation after deploying, or release it with releaseESRPayment when the deploy fails.
+async function requireESRPayment(req, res, next) {
+  try {
+    const { network, paymentTxHash } = req.body;
+    const chainId = await esrPaymentService.getChainId(network);
+
+    if (esrPaymentService.getESRRequirement(chainId) === 0) {
+      return next();
+    }
+
+    if (paymentTxHash) {
+      const verification = await esrPaymentService.verifyPayment(paymentTxHash, network, req.user.id);
+
+      if (!verification.verified && verification.code !== 'PAYMENT_REUSED') {
+        return res.status(400).json({ error: verification.error, code: verification.code });
+      }
+    }
+
+    const payment = await esrPaymentService.reserveUnspentPayment(req.user.id, network);
+
+    if (!payment) {
+      return res.status(402).json({
+        error: 'ESR payment required',
+        message: `Pay ${esrPaymentService.getESRRequirement(chainId)} ESR to the platform wallet before deploying`,
+        code: 'PAYMENT_REQUIRED'
+      });
+    }
+
+    req.esrPayment = payment;
+    next();
+  } catch (error) {
+    console.error('ESR payment check error:', error);
+    res.status(500).json({ error: 'Failed to verify ESR payment', details: error.message });
+  }
+}
+
+// Give the reserved payment back when the deployment it was reserved for failed
+async function releaseESRPayment(req) {
+  if (!req.esrPayment) return;
+
+  try {
+    await esrPaymentService.releasePayment(req.esrPayment.transaction_hash);
+  } catch (error) {
+    console.error('Error releasing ESR payment:', error);
+  }
+}
+
+// Use the reserved payment up on the deployed contract
+async function spendESRPayment(req, contractAddress) {
+  if (!req.esrPayment) return;
+
+  const spent = await esrPaymentService.spendPayment(req.esrPayment.transaction_hash, contractAddress);
+  if (!spent) {
+    console.error(`ESR payment ${req.esrPayment.transaction_hash} was no longer reserved when ${contractAddress} was deployed`);
+  }
+}
+
+module.exports = {
+  requireESRPayment,
+  releaseESRPayment,
+  spendESRPayment
+};
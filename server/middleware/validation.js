@@ -136,16 +136,29 @@ function validatePresaleConfig(req, res, next) {
       return res.status(400).json({ error: 'Valid soft cap is required' });
     }
     
-    if (!hardCap || parseFloat(hardCap) <= 0) {
-      return res.status(400).json({ error: 'Valid hard cap is required' });
-    }
-    
-    if (parseFloat(softCap) >= parseFloat(hardCap)) {
-      return res.status(400).json({ error: 'Hard cap must be greater than soft cap' });
-    }
-    
-    if (!tokenPrice || parseFloat(tokenPrice) <= 0) {
-      return res.status(400).json({ error: 'Valid token price is required' });
+    // Fairlaunches have no hard cap or fixed price; the allocation is shared pro rata at finalization
+    const isFairlaunch = presaleConfig.saleType === 'fairlaunch';
+    
+    if (isFairlaunch) {
+      if (!tokenInfo.allocatedAmount || parseFloat(tokenInfo.allocatedAmount) <= 0) {
+        return res.status(400).json({ error: 'Fairlaunch requires a token allocation' });
+      }
+      
+      if (saleConfiguration.baseToken) {
+        return res.status(400).json({ error: 'Fairlaunch contributions must be in the native currency' });
+      }
+    } else {
+      if (!hardCap || parseFloat(hardCap) <= 0) {
+        return res.status(400).json({ error: 'Valid hard cap is required' });
+      }
+      
+      if (parseFloat(softCap) >= parseFloat(hardCap)) {
+        return res.status(400).json({ error: 'Hard cap must be greater than soft cap' });
+      }
+      
+      if (!tokenPrice || parseFloat(tokenPrice) <= 0) {
+        return res.status(400).json({ error: 'Valid token price is required' });
+      }
     }
     
     if (!minPurchase || parseFloat(minPurchase) <= 0) {
@@ -160,6 +173,14 @@ function validatePresaleConfig(req, res, next) {
       return res.status(400).json({ error: 'Maximum purchase must be greater than minimum purchase' });
     }
     
+    if (!isFairlaunch && parseFloat(maxPurchase) > parseFloat(hardCap)) {
+      return res.status(400).json({ error: 'Maximum purchase cannot exceed the hard cap' });
+    }
+    
+    if (saleConfiguration.baseToken && !ethers.isAddress(saleConfiguration.baseToken)) {
+      return res.status(400).json({ error: 'Base token must be a valid address' });
+    }
+    
     // Validate dates
     const start = new Date(startDate);
     const end = new Date(endDate);
@@ -177,6 +198,55 @@ function validatePresaleConfig(req, res, next) {
       return res.status(400).json({ error: 'End date must be after start date' });
     }
     
+    // Validate vesting
+    const { vestingConfig } = presaleConfig;
+    if (vestingConfig?.enabled) {
+      if (!(vestingConfig.duration > 0)) {
+        return res.status(400).json({ error: 'Vesting duration must be greater than zero' });
+      }
+      
+      if (!(vestingConfig.initialRelease >= 0 && vestingConfig.initialRelease <= 100)) {
+        return res.status(400).json({ error: 'Initial release must be between 0 and 100 percent' });
+      }
+    }
+    
+    // Validate auto-listing
+    const { autoListingConfig, antiBotConfig } = presaleConfig;
+    if (autoListingConfig?.enabled) {
+      if (!autoListingConfig.listingPrice || parseFloat(autoListingConfig.listingPrice) <= 0) {
+        return res.status(400).json({ error: 'Valid listing price is required' });
+      }
+      
+      const percentages = [autoListingConfig.lpTokenPercentage, autoListingConfig.lpBaseTokenPercentage];
+      if (percentages.some(percentage => !(percentage > 0 && percentage <= 100))) {
+        return res.status(400).json({ error: 'Liquidity percentages must be between 1 and 100' });
+      }
+      
+      if (!(autoListingConfig.lockDuration > 0)) {
+        return res.status(400).json({ error: 'Liquidity lock duration must be greater than zero' });
+      }
+      
+      // Auto-listing is implemented by PresaleContractV2, which raises in an ERC20 base token
+      if (!ethers.isAddress(saleConfiguration.baseToken)) {
+        return res.status(400).json({ error: 'Auto-listing requires a base token address' });
+      }
+      
+      if (antiBotConfig?.enabled || presaleConfig.saleType === 'fairlaunch') {
+        return res.status(400).json({ error: 'Auto-listing cannot be combined with anti-bot protection or fairlaunch' });
+      }
+    }
+    
+    // Validate anti-bot protection
+    if (antiBotConfig?.enabled) {
+      if (!(antiBotConfig.maxGasPrice > 0)) {
+        return res.status(400).json({ error: 'Maximum gas price must be greater than zero' });
+      }
+      
+      if (antiBotConfig.protectionDelay < 0 || antiBotConfig.walletCooldown < 0) {
+        return res.status(400).json({ error: 'Anti-bot delays cannot be negative' });
+      }
+    }
+    
     // Validate wallet setup
     const { walletSetup } = presaleConfig;
     if (!walletSetup || !ethers.isAddress(walletSetup.saleReceiver) || !ethers.isAddress(walletSetup.refundWallet)) {
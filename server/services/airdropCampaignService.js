@@ -0,0 +1,250 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const {
+  createAirdropCampaign,
+  findAirdropCampaignById,
+  saveAirdropBatch,
+  updateAirdropCampaignStatus
+} = require('../db/models/AirdropCampaign');
+const networkRegistryService = require('./networkRegistryService');
+
+const MULTI_SENDER_ABI = [
+  'event TokensAirdropped(uint256 indexed airdropId, address indexed token, address indexed sender, uint256 totalAmount, uint256 recipientCount)',
+  'function maxBatchSize() view returns (uint256)'
+];
+
+const REPORT_COLUMNS = ['address', 'amount', 'batch', 'status', 'transactionHash'];
+
+/**
+ * Quote a CSV field when it contains a separator, quote or newline
+ * @param {*} value - Field value
+ * @returns {string}
+ */
+function escapeCsv(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Sum recipient amounts in base units
+ * @param {Array} recipients - { address, amount } entries in token units
+ * @param {number} decimals - Token decimals
+ * @returns {bigint}
+ */
+function sumAmounts(recipients, decimals) {
+  return recipients.reduce((sum, recipient) => sum + ethers.parseUnits(String(recipient.amount), decimals), 0n);
+}
+
+/**
+ * Runs MultiSender airdrops too large for one transaction as a campaign of sequential batches
+ */
+class AirdropCampaignService {
+  /**
+   * Validate and store a new campaign
+   * @param {string} sender - Sending wallet
+   * @param {Object} params - { network, tokenAddress, decimals, batchSize, recipients }
+   * @returns {Promise<Object>} - { campaign } or { errors }
+   */
+  async createCampaign(sender, { network, tokenAddress, decimals, batchSize, recipients }) {
+    const errors = [];
+
+    if (!network) errors.push('Network is required');
+    if (!tokenAddress || !ethers.isAddress(tokenAddress)) errors.push('A valid token address is required');
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) errors.push('Token decimals must be an integer between 0 and 255');
+    if (!Number.isInteger(batchSize) || batchSize < 1) errors.push('Batch size must be a positive integer');
+    if (!Array.isArray(recipients) || recipients.length === 0) errors.push('At least one recipient is required');
+    if (errors.length > 0) return { errors };
+
+    recipients.forEach((recipient, index) => {
+      if (!recipient || !ethers.isAddress(recipient.address) || recipient.address === ethers.ZeroAddress) {
+        errors.push(`Recipient ${index + 1}: invalid address`);
+        return;
+      }
+      try {
+        if (ethers.parseUnits(String(recipient.amount), decimals) <= 0n) {
+          errors.push(`Recipient ${index + 1}: amount must be greater than 0`);
+        }
+      } catch {
+        errors.push(`Recipient ${index + 1}: invalid amount`);
+      }
+    });
+    if (errors.length > 0) return { errors: errors.slice(0, 20) };
+
+    const multiSenderAddress = await networkRegistryService.getContractAddress(network, 'multiSender');
+    if (!multiSenderAddress) {
+      return { errors: [`No MultiSender configured for ${network}`] };
+    }
+
+    const multiSender = new ethers.Contract(multiSenderAddress, MULTI_SENDER_ABI, getProvider(network));
+    const maxBatchSize = Number(await multiSender.maxBatchSize());
+    if (batchSize > maxBatchSize) {
+      return { errors: [`Batch size cannot exceed the MultiSender limit of ${maxBatchSize}`] };
+    }
+
+    const normalized = recipients.map(recipient => ({
+      address: ethers.getAddress(recipient.address),
+      amount: String(recipient.amount)
+    }));
+
+    const campaign = await createAirdropCampaign({
+      sender,
+      tokenAddress,
+      network,
+      decimals,
+      batchSize,
+      recipients: normalized,
+      totalAmount: ethers.formatUnits(sumAmounts(normalized, decimals), decimals)
+    });
+
+    return { campaign };
+  }
+
+  /**
+   * Recipients of one batch of a campaign
+   * @param {Object} campaign - Campaign with recipients
+   * @param {number} batchIndex - Zero-based batch index
+   * @returns {Array}
+   */
+  getBatchRecipients(campaign, batchIndex) {
+    const start = batchIndex * campaign.batch_size;
+    return campaign.recipients.slice(start, start + campaign.batch_size);
+  }
+
+  /**
+   * Number of batches a campaign is split into
+   * @param {Object} campaign - Campaign row
+   * @returns {number}
+   */
+  getBatchCount(campaign) {
+    return Math.ceil(campaign.recipient_count / campaign.batch_size);
+  }
+
+  /**
+   * Record a batch transaction. The batch only counts as sent once its receipt shows a
+   * TokensAirdropped event from the network's MultiSender matching the batch exactly.
+   * @param {Object} campaign - Campaign with recipients and batches
+   * @param {number} batchIndex - Zero-based batch index
+   * @param {string} transactionHash - multiSend transaction
+   * @returns {Promise<Object>} - { campaign, batchStatus } or { error, code }
+   */
+  async recordBatch(campaign, batchIndex, transactionHash) {
+    const batchRecipients = this.getBatchRecipients(campaign, batchIndex);
+    if (batchRecipients.length === 0) {
+      return { error: `Campaign has no batch ${batchIndex}`, code: 'INVALID_BATCH' };
+    }
+
+    // One multiSend transaction can only ever be one batch
+    const otherBatch = campaign.batches.find(batch => batch.batch_index !== batchIndex
+      && batch.transaction_hash && batch.transaction_hash.toLowerCase() === transactionHash.toLowerCase());
+    if (otherBatch) {
+      return { error: `Transaction was already recorded for batch ${otherBatch.batch_index}`, code: 'DUPLICATE_TRANSACTION' };
+    }
+
+    const confirmedBatch = campaign.batches.find(batch => batch.batch_index === batchIndex && batch.status === 'confirmed');
+    if (confirmedBatch && confirmedBatch.transaction_hash !== transactionHash) {
+      return { error: `Batch ${batchIndex} was already sent`, code: 'BATCH_CONFIRMED' };
+    }
+
+    const multiSenderAddress = await networkRegistryService.getContractAddress(campaign.network_id, 'multiSender');
+    if (!multiSenderAddress) {
+      return { error: `No MultiSender configured for ${campaign.network_id}`, code: 'MULTISENDER_NOT_CONFIGURED' };
+    }
+
+    const batchTotal = sumAmounts(batchRecipients, campaign.token_decimals);
+    const batch = {
+      batchIndex,
+      transactionHash,
+      airdropId: null,
+      totalAmount: ethers.formatUnits(batchTotal, campaign.token_decimals),
+      recipientCount: batchRecipients.length
+    };
+
+    const receipt = await getProvider(campaign.network_id).getTransactionReceipt(transactionHash);
+
+    if (!receipt) {
+      batch.status = 'submitted';
+    } else if (receipt.status !== 1) {
+      batch.status = 'failed';
+    } else {
+      const multiSenderInterface = new ethers.Interface(MULTI_SENDER_ABI);
+      const airdropEvent = receipt.logs
+        .filter(log => log.address.toLowerCase() === multiSenderAddress)
+        .map(log => multiSenderInterface.parseLog(log))
+        .find(parsed => parsed && parsed.name === 'TokensAirdropped'
+          && parsed.args.sender.toLowerCase() === campaign.sender_address
+          && parsed.args.token.toLowerCase() === campaign.token_address);
+
+      if (!airdropEvent) {
+        return { error: 'Transaction is not a MultiSender airdrop of this campaign', code: 'NOT_AN_AIRDROP' };
+      }
+      if (airdropEvent.args.totalAmount !== batchTotal || Number(airdropEvent.args.recipientCount) !== batchRecipients.length) {
+        return { error: `Transaction does not match batch ${batchIndex}`, code: 'BATCH_MISMATCH' };
+      }
+
+      batch.status = 'confirmed';
+      batch.airdropId = Number(airdropEvent.args.airdropId);
+    }
+
+    await saveAirdropBatch(campaign, batch);
+
+    const updated = await findAirdropCampaignById(campaign.id);
+    const confirmed = updated.batches.filter(row => row.status === 'confirmed').length;
+    const status = confirmed === this.getBatchCount(updated) ? 'completed' : 'running';
+    await updateAirdropCampaignStatus(campaign.id, status, null);
+
+    return { campaign: { ...updated, status, error: null }, batchStatus: batch.status };
+  }
+
+  /**
+   * Per-recipient outcome of a campaign
+   * @param {Object} campaign - Campaign with recipients and batches
+   * @returns {Array} - { address, amount, batch, status, transactionHash }
+   */
+  getReport(campaign) {
+    const batches = new Map(campaign.batches.map(batch => [batch.batch_index, batch]));
+
+    // A failed campaign stopped at its first batch that was not confirmed
+    let failedBatch = -1;
+    if (campaign.status === 'failed') {
+      failedBatch = 0;
+      while (batches.get(failedBatch)?.status === 'confirmed') failedBatch++;
+    }
+
+    return campaign.recipients.map((recipient, index) => {
+      const batchIndex = Math.floor(index / campaign.batch_size);
+      const batch = batches.get(batchIndex);
+
+      let status = 'pending';
+      if (batch?.status === 'confirmed') {
+        status = 'sent';
+      } else if (batch?.status === 'failed' || batchIndex === failedBatch) {
+        status = 'failed';
+      } else if (batch?.status === 'submitted') {
+        status = 'submitted';
+      }
+
+      return {
+        address: recipient.address,
+        amount: recipient.amount,
+        batch: batchIndex,
+        status,
+        transactionHash: batch?.transaction_hash || null
+      };
+    });
+  }
+
+  /**
+   * Report rows as CSV with a header line
+   * @param {Array} rows - Rows from getReport
+   * @returns {string}
+   */
+  toCsv(rows) {
+    const lines = [REPORT_COLUMNS.join(',')];
+    for (const row of rows) {
+      lines.push(REPORT_COLUMNS.map(column => escapeCsv(row[column])).join(','));
+    }
+    return lines.join('\n');
+  }
+}
+
+module.exports = new AirdropCampaignService();
@@ -0,0 +1,167 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const presaleWhitelistService = require('./presaleWhitelistService');
+const { encrypt, decrypt } = require('../utils/encryption');
+const {
+  createPresaleSigner,
+  findPresaleSigner,
+  findPendingPresaleSigner,
+  assignPresaleSigner,
+  findIssuedSignature,
+  recordIssuedSignature,
+  replaceIssuedSignature
+} = require('../db/models/PresaleSigner');
+
+const ANTIBOT_PRESALE_ABI = [
+  'function saleInfo() view returns (address token, uint256 tokenPrice, uint256 softCap, uint256 hardCap, uint256 minPurchase, uint256 maxPurchase, uint256 startTime, uint256 endTime, bool whitelistEnabled)',
+  'function antiBotInfo() view returns (uint256 protectionDelay, uint256 maxGasPrice, uint256 walletCooldown, bool signatureRequired)',
+  'function signerAddress() view returns (address)',
+  'function whitelist(address) view returns (bool)',
+  'function usedSignatures(bytes) view returns (bool)',
+  'function saleFinalized() view returns (bool)'
+];
+
+/**
+ * Manages per-presale signing keys and issues the purchase signatures
+ * AntiBotPresaleContract.buyTokens checks when signatureRequired is on
+ */
+class AntiBotSignatureService {
+  /**
+   * Signing key for a presale being configured. A key not yet assigned to a presale is reused,
+   * so an owner has at most one pending key per network however often this is called.
+   * @param {string} ownerAddress - Presale creator
+   * @param {string} network - Network identifier
+   * @returns {Promise<string>} - Signer address to pass to the presale constructor
+   */
+  async createSigner(ownerAddress, network) {
+    const pending = await findPendingPresaleSigner(ownerAddress, network);
+    if (pending) {
+      return ethers.getAddress(pending.signer_address);
+    }
+
+    const wallet = ethers.Wallet.createRandom();
+
+    await createPresaleSigner({
+      address: wallet.address,
+      owner: ownerAddress,
+      network,
+      encryptedKey: encrypt(wallet.privateKey)
+    });
+
+    return wallet.address;
+  }
+
+  /**
+   * Assign the pending signing key a newly registered presale was deployed with, so the next
+   * presale gets a key of its own. Presales without a platform key are left alone.
+   * @param {string} presaleAddress - Registered presale
+   * @param {string} network - Network identifier
+   * @param {string} ownerAddress - Presale owner
+   */
+  async assignSigner(presaleAddress, network, ownerAddress) {
+    const presale = new ethers.Contract(presaleAddress, ANTIBOT_PRESALE_ABI, getProvider(network));
+
+    let signerAddress;
+    try {
+      signerAddress = await presale.signerAddress();
+    } catch (error) {
+      return; // Not an anti-bot presale
+    }
+
+    await assignPresaleSigner(signerAddress, ownerAddress, presaleAddress);
+  }
+
+  // Whitelisted on-chain, or in the Merkle whitelist the buyer will prove membership of when buying
+  async isWhitelisted(presale, presaleAddress, network, buyer) {
+    if (await presale.whitelist(buyer)) {
+      return true;
+    }
+
+    try {
+      const { whitelisted } = await presaleWhitelistService.getProof(presaleAddress, network, buyer);
+      return whitelisted;
+    } catch (error) {
+      console.error('Error checking Merkle whitelist:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check a buyer against the presale and sign `(buyer, presale)` with the presale's signing key
+   * @param {string} presaleAddress - AntiBotPresaleContract address
+   * @param {string} network - Network identifier
+   * @param {string} buyer - Buyer wallet
+   * @returns {Promise<Object>} - { issued, signature, signatureRequired } or { issued: false, error, code }
+   */
+  async issueSignature(presaleAddress, network, buyer) {
+    const presale = new ethers.Contract(presaleAddress, ANTIBOT_PRESALE_ABI, getProvider(network));
+
+    let antiBotInfo;
+    try {
+      antiBotInfo = await presale.antiBotInfo();
+    } catch (error) {
+      return { issued: false, error: 'Contract is not an anti-bot presale', code: 'NOT_ANTIBOT_PRESALE' };
+    }
+
+    if (!antiBotInfo.signatureRequired) {
+      return { issued: false, signatureRequired: false };
+    }
+
+    const [saleInfo, signerAddress, saleFinalized] = await Promise.all([
+      presale.saleInfo(),
+      presale.signerAddress(),
+      presale.saleFinalized()
+    ]);
+
+    const now = Math.floor(Date.now() / 1000);
+    if (saleFinalized || now > Number(saleInfo.endTime)) {
+      return { issued: false, error: 'Sale has ended', code: 'SALE_ENDED' };
+    }
+
+    // Whitelisted wallets only, either for the whole sale or during the protection period
+    const protectionActive = now < Number(saleInfo.startTime) + Number(antiBotInfo.protectionDelay);
+    if ((saleInfo.whitelistEnabled || protectionActive) && !(await this.isWhitelisted(presale, presaleAddress, network, buyer))) {
+      return {
+        issued: false,
+        error: saleInfo.whitelistEnabled ? 'Wallet is not whitelisted' : 'Only whitelisted wallets can buy during the protection period',
+        code: 'NOT_WHITELISTED'
+      };
+    }
+
+    // One signature per wallet; it is returned again until the buyer has used it
+    const existing = await findIssuedSignature(presaleAddress, buyer);
+    if (existing) {
+      if (await presale.usedSignatures(existing.signature)) {
+        return { issued: false, error: 'Wallet has already purchased in this sale', code: 'SIGNATURE_USED' };
+      }
+      if (existing.signer_address === signerAddress.toLowerCase()) {
+        return { issued: true, signatureRequired: true, signature: existing.signature };
+      }
+    }
+
+    const signer = await findPresaleSigner(signerAddress);
+    if (!signer) {
+      return { issued: false, error: 'Purchase signatures for this presale are not issued by the platform', code: 'SIGNER_NOT_MANAGED' };
+    }
+
+    // A key only signs for the sale it was assigned to, even if another contract names it as signer
+    if (signer.presale_address !== presaleAddress.toLowerCase()) {
+      return { issued: false, error: 'Signer is not assigned to this presale', code: 'SIGNER_NOT_ASSIGNED' };
+    }
+
+    const wallet = new ethers.Wallet(decrypt(signer.encrypted_key));
+    const messageHash = ethers.solidityPackedKeccak256(['address', 'address'], [buyer, presaleAddress]);
+    const signature = await wallet.signMessage(ethers.getBytes(messageHash));
+
+    // An unused signature from a rotated signer is replaced rather than counted as a purchase
+    if (existing) {
+      await replaceIssuedSignature(presaleAddress, buyer, signerAddress, signature);
+    } else {
+      await recordIssuedSignature(presaleAddress, buyer, signerAddress, signature);
+    }
+
+    return { issued: true, signatureRequired: true, signature };
+  }
+}
+
+module.exports = new AntiBotSignatureService();
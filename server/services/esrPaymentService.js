@@ -0,0 +1,217 @@
+const { ethers } = require('ethers');
+const { query } = require('../db');
+const { getProvider } = require('../utils/blockchain');
+
+const ESR_TOKEN_ADDRESS = (process.env.ESR_TOKEN_ADDRESS || '0x742d35Cc6634C0532925a3b8D4C9db96590c6C8C').toLowerCase();
+const PLATFORM_WALLET = (process.env.PLATFORM_WALLET || '0x742d35Cc6634C0532925a3b8D4C9db96590c6C8C').toLowerCase();
+const REQUIRED_CONFIRMATIONS = parseInt(process.env.ESR_PAYMENT_CONFIRMATIONS || '3');
+
+// Keep in sync with src/config/constants.ts
+const MAINNET_ESR_REQUIREMENT = 100;
+const TESTNET_ESR_REQUIREMENT = 0;
+const TESTNET_CHAIN_IDS = [25062019, 5, 97, 80001, 421614];
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function decimals() view returns (uint8)'
+]);
+
+/**
+ * Verifies ESR fee payments on-chain and tracks which payments have paid for a deployment
+ */
+class ESRPaymentService {
+  /**
+   * ESR fee for deploying to a chain
+   * @param {number} chainId - Chain ID of the deployment network
+   * @returns {number} - Required ESR amount
+   */
+  getESRRequirement(chainId) {
+    return TESTNET_CHAIN_IDS.includes(Number(chainId)) ? TESTNET_ESR_REQUIREMENT : MAINNET_ESR_REQUIREMENT;
+  }
+
+  async getChainId(network) {
+    const { chainId } = await getProvider(network).getNetwork();
+    return Number(chainId);
+  }
+
+  /**
+   * Verify an ESR transfer to the platform wallet and record it as an unspent payment
+   * @param {string} txHash - Payment transaction hash
+   * @param {string} network - Network the payment was made on
+   * @param {string} payer - Signed-in wallet, which must have sent the transaction
+   * @returns {Promise<Object>} - { verified, payment } or { verified: false, error, code }
+   */
+  async verifyPayment(txHash, network, payer) {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(txHash || '')) {
+      return { verified: false, error: 'Invalid transaction hash', code: 'PAYMENT_INVALID' };
+    }
+
+    const existing = await query(
+      'SELECT * FROM transactions WHERE transaction_hash = ?',
+      [txHash.toLowerCase()]
+    );
+    if (existing.rows.length > 0) {
+      return { verified: false, error: 'Payment transaction has already been used', code: 'PAYMENT_REUSED' };
+    }
+
+    const provider = getProvider(network);
+    const receipt = await provider.getTransactionReceipt(txHash);
+
+    if (!receipt) {
+      return { verified: false, error: 'Payment transaction not found or still pending', code: 'PAYMENT_PENDING' };
+    }
+
+    if (receipt.status !== 1) {
+      return { verified: false, error: 'Payment transaction failed', code: 'PAYMENT_FAILED' };
+    }
+
+    const confirmations = await receipt.confirmations();
+    if (confirmations < REQUIRED_CONFIRMATIONS) {
+      return {
+        verified: false,
+        error: `Payment needs ${REQUIRED_CONFIRMATIONS} confirmations, has ${confirmations}`,
+        code: 'PAYMENT_UNCONFIRMED'
+      };
+    }
+
+    // Only the payer can record their payment, so nobody can claim another wallet's transfer
+    const sender = payer.toLowerCase();
+    if (receipt.from.toLowerCase() !== sender) {
+      return { verified: false, error: 'Payment transaction was not sent by the signed-in wallet', code: 'PAYMENT_INVALID' };
+    }
+    const transferTopic = ERC20_INTERFACE.getEvent('Transfer').topicHash;
+
+    // A payment may be split across several transfers in one transaction
+    let paid = 0n;
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== ESR_TOKEN_ADDRESS || log.topics[0] !== transferTopic) continue;
+
+      const { args } = ERC20_INTERFACE.parseLog(log);
+      if (args.from.toLowerCase() === sender && args.to.toLowerCase() === PLATFORM_WALLET) {
+        paid += args.value;
+      }
+    }
+
+    if (paid === 0n) {
+      return {
+        verified: false,
+        error: 'Transaction does not transfer ESR from the payer to the platform wallet',
+        code: 'PAYMENT_INVALID'
+      };
+    }
+
+    const esrToken = new ethers.Contract(ESR_TOKEN_ADDRESS, ERC20_INTERFACE, provider);
+    const decimals = await esrToken.decimals();
+    const chainId = await this.getChainId(network);
+    const required = ethers.parseUnits(this.getESRRequirement(chainId).toString(), decimals);
+
+    if (paid < required) {
+      return {
+        verified: false,
+        error: `Payment of ${ethers.formatUnits(paid, decimals)} ESR is below the required ${ethers.formatUnits(required, decimals)} ESR`,
+        code: 'PAYMENT_INSUFFICIENT'
+      };
+    }
+
+    const result = await query(
+      `INSERT INTO transactions
+       (transaction_hash, transaction_type, from_address, to_address, amount, token_address, network_id, status, gas_used, block_number)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [
+        txHash.toLowerCase(),
+        'ESR_PAYMENT',
+        sender,
+        PLATFORM_WALLET,
+        ethers.formatUnits(paid, decimals),
+        ESR_TOKEN_ADDRESS,
+        network,
+        'verified',
+        receipt.gasUsed.toString(),
+        receipt.blockNumber
+      ]
+    );
+
+    return { verified: true, payment: result.rows[0] };
+  }
+
+  /**
+   * Oldest verified payment from a payer that has not paid for a deployment yet
+   * @param {string} payer - Payer address
+   * @param {string} network - Network identifier
+   * @returns {Promise<Object|null>} - Payment record
+   */
+  async findUnspentPayment(payer, network) {
+    const result = await query(
+      `SELECT * FROM transactions
+       WHERE transaction_type = 'ESR_PAYMENT' AND status = 'verified' AND from_address = ? AND network_id = ?
+       ORDER BY created_at ASC LIMIT 1`,
+      [payer.toLowerCase(), network]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Claim a verified payment for one deployment, so concurrent requests cannot deploy on it too
+   * @param {string} txHash - Payment transaction hash
+   * @returns {Promise<boolean>} - False if another request reserved or spent it first
+   */
+  async reservePayment(txHash) {
+    const result = await query(
+      `UPDATE transactions SET status = 'reserved'
+       WHERE transaction_hash = ? AND status = 'verified'
+       RETURNING *`,
+      [txHash.toLowerCase()]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Claim the payer's oldest unspent payment, skipping payments other requests claim in the meantime
+   * @param {string} payer - Payer address
+   * @param {string} network - Network identifier
+   * @returns {Promise<Object|null>} - Reserved payment record, or null if none is left
+   */
+  async reserveUnspentPayment(payer, network) {
+    let payment = await this.findUnspentPayment(payer, network);
+
+    while (payment && !(await this.reservePayment(payment.transaction_hash))) {
+      payment = await this.findUnspentPayment(payer, network);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Return a reserved payment to the payer after the deployment it was reserved for failed
+   * @param {string} txHash - Payment transaction hash
+   * @returns {Promise<boolean>} - False if the payment was not reserved
+   */
+  async releasePayment(txHash) {
+    const result = await query(
+      `UPDATE transactions SET status = 'verified'
+       WHERE transaction_hash = ? AND status = 'reserved'
+       RETURNING *`,
+      [txHash.toLowerCase()]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Mark a reserved payment as used by a deployment
+   * @param {string} txHash - Payment transaction hash
+   * @param {string} contractAddress - Contract the payment was spent on
+   * @returns {Promise<boolean>} - False if the payment was not reserved
+   */
+  async spendPayment(txHash, contractAddress) {
+    const result = await query(
+      `UPDATE transactions SET status = 'spent', spent_for = ?, spent_at = NOW()
+       WHERE transaction_hash = ? AND status = 'reserved'
+       RETURNING *`,
+      [contractAddress.toLowerCase(), txHash.toLowerCase()]
+    );
+    return result.rows.length > 0;
+  }
+}
+
+module.exports = new ESRPaymentService();
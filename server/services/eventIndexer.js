@@ -0,0 +1,713 @@
+const crypto = require('crypto');
+const { ethers } = require('ethers');
+const { query, withTransaction } = require('../db');
+const { getProvider, getLogsInChunks } = require('../utils/blockchain');
+const networkRegistryService = require('./networkRegistryService');
+const referralService = require('./referralService');
+
+// Only blocks this deep are indexed; reorgs past it are rolled back by REORG_DEPTH blocks
+const CONFIRMATIONS = parseInt(process.env.INDEXER_CONFIRMATIONS || '12', 10);
+const REORG_DEPTH = parseInt(process.env.INDEXER_REORG_DEPTH || '64', 10);
+const MAX_BLOCKS_PER_RUN = parseInt(process.env.INDEXER_MAX_BLOCKS || '5000', 10);
+const ADDRESS_BATCH_SIZE = 100;
+
+const EVENTS_INTERFACE = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event TokensPurchased(address indexed buyer, uint256 amount, uint256 tokenAmount)',
+  'event TokensPurchased(address indexed buyer, uint256 amount, uint256 tokenAmount, address referrer)',
+  'event TokensClaimed(address indexed buyer, uint256 amount)',
+  'event RefundClaimed(address indexed buyer, uint256 amount)',
+  'event EmergencyWithdraw(address indexed user, uint256 contribution, uint256 penalty)',
+  'event WhitelistUpdated(address indexed user, bool status)',
+  'event SaleFinalized(uint256 totalRaised, uint256 totalTokensSold)',
+  'event ReferralPurchase(address indexed referrer, address indexed referee, uint256 amount, uint256 reward)',
+  'event LiquidityLocked(uint256 indexed lockId, address indexed token, address indexed owner, uint256 amount, uint256 unlockTime)',
+  'event LiquidityWithdrawn(uint256 indexed lockId, address indexed token, address indexed owner, uint256 amount)'
+]);
+
+// Events followed for each kind of contract
+const CONTRACT_EVENTS = {
+  token: ['Transfer'],
+  presale: ['TokensPurchased', 'TokensClaimed', 'RefundClaimed', 'EmergencyWithdraw', 'WhitelistUpdated', 'SaleFinalized'],
+  locker: ['LiquidityLocked', 'LiquidityWithdrawn'],
+  referral: ['ReferralPurchase']
+};
+
+const EVENT_TOPICS = [];
+EVENTS_INTERFACE.forEachEvent(event => EVENT_TOPICS.push(event.topicHash));
+
+// PresaleContractV2 purchases, used to tell which sale a shared referral tracker recorded a purchase for
+const REFERRED_PURCHASE_TOPIC = EVENTS_INTERFACE.getEvent('TokensPurchased(address,uint256,uint256,address)').topicHash;
+
+/**
+ * Convert a stored NUMERIC value to a BigInt
+ * @param {string|number|null} value - Database value
+ * @returns {bigint}
+ */
+function toBigInt(value) {
+  if (value === null || value === undefined) return 0n;
+  return BigInt(String(value).split('.')[0]);
+}
+
+/**
+ * Convert parsed event arguments to a JSON-safe object
+ * @param {ethers.LogDescription} parsed - Parsed log
+ * @returns {Object} - Argument values keyed by name
+ */
+function serializeArgs(parsed) {
+  const args = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    const value = parsed.args[index];
+    args[input.name] = typeof value === 'string' ? value.toLowerCase() : value.toString();
+  });
+  return args;
+}
+
+/**
+ * Make sure an address has a users row so foreign keys hold
+ * @param {string} address - Wallet address
+ */
+async function ensureUser(address) {
+  const userResult = await query(
+    'SELECT address FROM users WHERE address = ?',
+    [address.toLowerCase()]
+  );
+
+  if (userResult.rows.length === 0) {
+    await query(
+      'INSERT INTO users (address, nonce) VALUES (?, ?)',
+      [address.toLowerCase(), crypto.randomBytes(16).toString('hex')]
+    );
+  }
+}
+
+/**
+ * Indexes token, presale, referral tracker and liquidity locker events into precomputed tables
+ */
+class EventIndexer {
+  constructor() {
+    this.isRunning = false;
+    // Decimals of the currency each presale raises, which never changes after deployment
+    this.raiseDecimals = new Map();
+  }
+
+  /**
+   * Index every network that has registered contracts
+   * @returns {Promise<Array>} - Sync result per network
+   */
+  async syncAll() {
+    if (this.isRunning) {
+      return [{ skipped: true, reason: 'Indexer already running' }];
+    }
+
+    this.isRunning = true;
+    try {
+      const networksResult = await query(
+        `SELECT DISTINCT network_id FROM tokens
+         UNION SELECT DISTINCT network_id FROM presales
+         UNION SELECT DISTINCT network_id FROM liquidity_locks WHERE network_id IS NOT NULL`
+      );
+
+      const results = [];
+      for (const { network_id: networkId } of networksResult.rows) {
+        try {
+          results.push(await this.syncNetwork(networkId));
+        } catch (error) {
+          console.error(`Error indexing network ${networkId}:`, error);
+          results.push({ networkId, error: error.message });
+        }
+      }
+
+      return results;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Index new confirmed blocks for a network
+   * @param {string} networkId - Network identifier
+   * @returns {Promise<Object>} - Indexed block range
+   */
+  async syncNetwork(networkId) {
+    const provider = getProvider(networkId);
+    const head = (await provider.getBlockNumber()) - CONFIRMATIONS;
+    const touched = { tokens: new Set(), presales: new Set() };
+
+    let cursor = await this.getCursor(networkId);
+    if (!cursor) {
+      // Start at the current head; existing contracts are backfilled from their deployment block
+      cursor = await this.saveCursor(networkId, provider, head);
+    } else {
+      const block = await provider.getBlock(Number(cursor.last_block));
+      if (!block || block.hash !== cursor.last_block_hash) {
+        console.warn(`Reorg detected on ${networkId} at block ${cursor.last_block}`);
+        cursor = await this.rollback(networkId, provider, Number(cursor.last_block) - REORG_DEPTH, touched);
+      }
+    }
+
+    const cursorBlock = Number(cursor.last_block);
+    await this.backfillContracts(networkId, provider, cursorBlock, touched);
+
+    const fromBlock = cursorBlock + 1;
+    const toBlock = Math.min(head, fromBlock + MAX_BLOCKS_PER_RUN - 1);
+
+    if (fromBlock <= toBlock) {
+      const contracts = await this.getContracts(networkId);
+      await this.indexRange(networkId, provider, contracts, fromBlock, toBlock, touched);
+      await this.saveCursor(networkId, provider, toBlock);
+    }
+
+    await this.refreshStats(touched);
+
+    return {
+      networkId,
+      fromBlock,
+      toBlock: Math.max(toBlock, cursorBlock),
+      tokensUpdated: touched.tokens.size,
+      presalesUpdated: touched.presales.size
+    };
+  }
+
+  async getCursor(networkId) {
+    const cursorResult = await query(
+      'SELECT * FROM indexer_cursors WHERE network_id = ?',
+      [networkId]
+    );
+    return cursorResult.rows[0] || null;
+  }
+
+  async saveCursor(networkId, provider, blockNumber) {
+    const block = await provider.getBlock(blockNumber);
+    const existing = await this.getCursor(networkId);
+
+    if (existing) {
+      await query(
+        'UPDATE indexer_cursors SET last_block = ?, last_block_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE network_id = ?',
+        [blockNumber, block.hash, networkId]
+      );
+    } else {
+      await query(
+        'INSERT INTO indexer_cursors (network_id, last_block, last_block_hash) VALUES (?, ?, ?)',
+        [networkId, blockNumber, block.hash]
+      );
+    }
+
+    return { network_id: networkId, last_block: blockNumber, last_block_hash: block.hash };
+  }
+
+  /**
+   * Map of contract address to the kind of contract indexed on a network
+   * @param {string} networkId - Network identifier
+   * @returns {Promise<Map<string, string>>}
+   */
+  async getContracts(networkId) {
+    const contracts = new Map();
+
+    const tokensResult = await query('SELECT contract_address FROM tokens WHERE network_id = ?', [networkId]);
+    tokensResult.rows.forEach(row => contracts.set(row.contract_address.toLowerCase(), 'token'));
+
+    const presalesResult = await query('SELECT contract_address FROM presales WHERE network_id = ?', [networkId]);
+    presalesResult.rows.forEach(row => contracts.set(row.contract_address.toLowerCase(), 'presale'));
+
+    const lockersResult = await query(
+      'SELECT DISTINCT contract_address FROM liquidity_locks WHERE network_id = ?',
+      [networkId]
+    );
+    lockersResult.rows.forEach(row => contracts.set(row.contract_address.toLowerCase(), 'locker'));
+
+    const lockerAddress = await networkRegistryService.getContractAddress(networkId, 'liquidityLocker');
+    if (lockerAddress) {
+      contracts.set(lockerAddress, 'locker');
+    }
+
+    // Referral tracker shared by the PresaleContractV2 sales of the network
+    const referralTrackerAddress = await networkRegistryService.getContractAddress(networkId, 'referralTracker');
+    if (referralTrackerAddress) {
+      contracts.set(referralTrackerAddress, 'referral');
+    }
+
+    return contracts;
+  }
+
+  /**
+   * Index history of newly registered tokens and presales up to the network cursor
+   */
+  async backfillContracts(networkId, provider, cursorBlock, touched) {
+    const pending = [];
+
+    const tokensResult = await query(
+      'SELECT contract_address, transaction_hash FROM tokens WHERE network_id = ? AND (indexer_synced IS NULL OR indexer_synced = false)',
+      [networkId]
+    );
+    tokensResult.rows.forEach(row => pending.push({ ...row, kind: 'token', table: 'tokens' }));
+
+    const presalesResult = await query(
+      'SELECT contract_address, transaction_hash FROM presales WHERE network_id = ? AND (indexer_synced IS NULL OR indexer_synced = false)',
+      [networkId]
+    );
+    presalesResult.rows.forEach(row => pending.push({ ...row, kind: 'presale', table: 'presales' }));
+
+    const referralTrackerAddress = await networkRegistryService.getContractAddress(networkId, 'referralTracker');
+
+    for (const contract of pending) {
+      const receipt = contract.transaction_hash
+        ? await provider.getTransactionReceipt(contract.transaction_hash).catch(() => null)
+        : null;
+      const startBlock = receipt
+        ? receipt.blockNumber
+        : await this.findCreationBlock(provider, contract.contract_address, cursorBlock);
+
+      // Left unsynced, so its history is backfilled by a later run that can find where it starts
+      if (startBlock === null) continue;
+
+      if (startBlock <= cursorBlock) {
+        const contracts = new Map([[contract.contract_address.toLowerCase(), contract.kind]]);
+
+        // Referral purchases are logged by the tracker, not the presale
+        if (contract.kind === 'presale' && referralTrackerAddress) {
+          contracts.set(referralTrackerAddress, 'referral');
+        }
+        await this.indexRange(networkId, provider, contracts, startBlock, cursorBlock, touched);
+      }
+
+      await query(
+        `UPDATE ${contract.table} SET indexer_synced = true WHERE contract_address = ?`,
+        [contract.contract_address.toLowerCase()]
+      );
+
+      if (contract.kind === 'token') touched.tokens.add(contract.contract_address.toLowerCase());
+      if (contract.kind === 'presale') touched.presales.add(contract.contract_address.toLowerCase());
+    }
+  }
+
+  /**
+   * First block a contract has code at, by binary search up to the block after `toBlock`.
+   * Returns null when the node cannot serve historical state.
+   */
+  async findCreationBlock(provider, address, toBlock) {
+    let low = 0;
+    let high = toBlock + 1;
+
+    try {
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const code = await provider.getCode(address, middle);
+        if (code === '0x') {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+    } catch (error) {
+      console.error(`Error finding creation block of ${address}:`, error);
+      return null;
+    }
+
+    return low;
+  }
+
+  /**
+   * Fetch and apply events for a set of contracts over a block range
+   */
+  async indexRange(networkId, provider, contracts, fromBlock, toBlock, touched) {
+    const addresses = [...contracts.keys()];
+
+    for (let i = 0; i < addresses.length; i += ADDRESS_BATCH_SIZE) {
+      const batch = addresses.slice(i, i + ADDRESS_BATCH_SIZE);
+      const logs = await getLogsInChunks(
+        provider,
+        { address: batch, topics: [EVENT_TOPICS] },
+        fromBlock,
+        toBlock
+      );
+
+      for (const log of logs) {
+        const contractAddress = log.address.toLowerCase();
+        const parsed = EVENTS_INTERFACE.parseLog(log);
+        if (!parsed || !CONTRACT_EVENTS[contracts.get(contractAddress)].includes(parsed.name)) continue;
+
+        await this.recordEvent(networkId, provider, log, parsed, touched);
+      }
+    }
+  }
+
+  /**
+   * Store an event once and apply its effect
+   */
+  async recordEvent(networkId, provider, log, parsed, touched) {
+    const existingResult = await query(
+      'SELECT id FROM indexed_events WHERE network_id = ? AND transaction_hash = ? AND log_index = ?',
+      [networkId, log.transactionHash, log.index]
+    );
+    if (existingResult.rows.length > 0) return;
+
+    const args = serializeArgs(parsed);
+
+    if (parsed.name === 'LiquidityLocked') {
+      const block = await provider.getBlock(log.blockNumber);
+      const lockedToken = new ethers.Contract(args.token, ['function decimals() view returns (uint8)'], provider);
+      args.timestamp = String(block.timestamp);
+      args.decimals = String(await lockedToken.decimals().catch(() => 18));
+    }
+
+    if (parsed.name === 'TokensPurchased') {
+      const block = await provider.getBlock(log.blockNumber);
+      args.timestamp = String(block.timestamp);
+    }
+
+    if (parsed.name === 'ReferralPurchase') {
+      const receipt = await provider.getTransactionReceipt(log.transactionHash);
+      const purchaseLog = receipt.logs.find(entry => entry.topics[0] === REFERRED_PURCHASE_TOPIC);
+      args.presale = purchaseLog ? purchaseLog.address.toLowerCase() : null;
+    }
+
+    // The event leaves out the tokens given up, which are needed to undo it after a reorg
+    if (parsed.name === 'EmergencyWithdraw') {
+      const contributionResult = await query(
+        'SELECT tokens_purchased FROM presale_contributions WHERE presale_address = ? AND contributor_address = ?',
+        [log.address.toLowerCase(), args.user]
+      );
+      args.tokenAmount = toBigInt(contributionResult.rows[0]?.tokens_purchased).toString();
+    }
+
+    const event = {
+      network_id: networkId,
+      block_number: log.blockNumber,
+      block_hash: log.blockHash,
+      transaction_hash: log.transactionHash,
+      log_index: log.index,
+      contract_address: log.address.toLowerCase(),
+      event_name: parsed.name,
+      args
+    };
+
+    // The event row and its effects are written together, so a crash cannot leave one without the other
+    await withTransaction(async () => {
+      await query(
+        `INSERT INTO indexed_events
+         (network_id, block_number, block_hash, transaction_hash, log_index, contract_address, event_name, args)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.network_id,
+          event.block_number,
+          event.block_hash,
+          event.transaction_hash,
+          event.log_index,
+          event.contract_address,
+          event.event_name,
+          JSON.stringify(event.args)
+        ]
+      );
+
+      await this.applyEvent(event, 1n, touched);
+    });
+  }
+
+  /**
+   * Undo events above a block after a reorg and move the cursor back
+   */
+  async rollback(networkId, provider, toBlock, touched) {
+    const eventsResult = await query(
+      `SELECT * FROM indexed_events
+       WHERE network_id = ? AND block_number > ?
+       ORDER BY block_number DESC, log_index DESC`,
+      [networkId, toBlock]
+    );
+
+    // Reverted effects, removed events and the moved cursor are committed together
+    return withTransaction(async () => {
+      for (const event of eventsResult.rows) {
+        await this.applyEvent(event, -1n, touched);
+      }
+
+      await query(
+        'DELETE FROM indexed_events WHERE network_id = ? AND block_number > ?',
+        [networkId, toBlock]
+      );
+
+      return this.saveCursor(networkId, provider, toBlock);
+    });
+  }
+
+  /**
+   * Apply (direction 1n) or revert (direction -1n) an event
+   */
+  async applyEvent(event, direction, touched) {
+    const args = typeof event.args === 'string' ? JSON.parse(event.args) : event.args;
+    const contractAddress = event.contract_address.toLowerCase();
+
+    switch (event.event_name) {
+      case 'Transfer': {
+        const value = BigInt(args.value) * direction;
+        if (args.from !== ethers.ZeroAddress) {
+          await this.adjustHolder(contractAddress, args.from, -value);
+        }
+        if (args.to !== ethers.ZeroAddress) {
+          await this.adjustHolder(contractAddress, args.to, value);
+        }
+        touched.tokens.add(contractAddress);
+        break;
+      }
+      case 'TokensPurchased':
+        await this.adjustContribution(contractAddress, args.buyer, {
+          contributed: BigInt(args.amount) * direction,
+          tokens_purchased: BigInt(args.tokenAmount) * direction
+        });
+        if (direction > 0n) {
+          await this.recordPurchaseDetails(contractAddress, args);
+        }
+        touched.presales.add(contractAddress);
+        break;
+      case 'TokensClaimed':
+        await this.adjustContribution(contractAddress, args.buyer, {
+          tokens_claimed: BigInt(args.amount) * direction
+        });
+        touched.presales.add(contractAddress);
+        break;
+      case 'RefundClaimed':
+        await this.adjustContribution(contractAddress, args.buyer, {
+          refunded: BigInt(args.amount) * direction
+        });
+        touched.presales.add(contractAddress);
+        break;
+      case 'EmergencyWithdraw': {
+        const penalty = BigInt(args.penalty);
+        await this.adjustContribution(contractAddress, args.user, {
+          contributed: -BigInt(args.contribution) * direction,
+          tokens_purchased: -BigInt(args.tokenAmount || 0) * direction,
+          withdrawn: (BigInt(args.contribution) - penalty) * direction,
+          penalties: penalty * direction
+        });
+        touched.presales.add(contractAddress);
+        break;
+      }
+      case 'WhitelistUpdated': {
+        // Reverting an update assumes it flipped the previous status
+        const status = args.status === 'true';
+        await this.adjustContribution(contractAddress, args.user, {});
+        await query(
+          'UPDATE presale_contributions SET whitelisted = ? WHERE presale_address = ? AND contributor_address = ?',
+          [direction > 0n ? status : !status, contractAddress, args.user]
+        );
+        break;
+      }
+      case 'ReferralPurchase':
+        if (args.presale) {
+          await this.adjustReferral(args.presale, args.referrer, args.referee, {
+            volume: BigInt(args.amount) * direction,
+            rewards: BigInt(args.reward) * direction
+          });
+        }
+        break;
+      case 'SaleFinalized':
+        await query(
+          'UPDATE presales SET status = ? WHERE contract_address = ?',
+          [direction > 0n ? 'ended' : 'live', contractAddress]
+        );
+        touched.presales.add(contractAddress);
+        break;
+      case 'LiquidityLocked':
+        if (direction > 0n) {
+          const existingLock = await query(
+            'SELECT id FROM liquidity_locks WHERE contract_address = ? AND lock_id = ?',
+            [contractAddress, Number(args.lockId)]
+          );
+          if (existingLock.rows.length === 0) {
+            await ensureUser(args.owner);
+            await query(
+              `INSERT INTO liquidity_locks
+               (lock_id, contract_address, token_address, owner_address, amount, lock_time, unlock_time, network_id, transaction_hash)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [
+                Number(args.lockId),
+                contractAddress,
+                args.token,
+                args.owner,
+                ethers.formatUnits(args.amount, Number(args.decimals || 18)),
+                new Date(Number(args.timestamp) * 1000),
+                new Date(Number(args.unlockTime) * 1000),
+                event.network_id,
+                event.transaction_hash
+              ]
+            );
+          }
+        } else {
+          await query(
+            'DELETE FROM liquidity_locks WHERE contract_address = ? AND lock_id = ? AND transaction_hash = ?',
+            [contractAddress, Number(args.lockId), event.transaction_hash]
+          );
+        }
+        break;
+      case 'LiquidityWithdrawn':
+        await query(
+          'UPDATE liquidity_locks SET withdrawn = ? WHERE contract_address = ? AND lock_id = ?',
+          [direction > 0n, contractAddress, Number(args.lockId)]
+        );
+        break;
+    }
+  }
+
+  async adjustHolder(tokenAddress, holderAddress, delta) {
+    const holderResult = await query(
+      'SELECT balance FROM token_holders WHERE token_address = ? AND holder_address = ?',
+      [tokenAddress, holderAddress.toLowerCase()]
+    );
+
+    if (holderResult.rows.length === 0) {
+      await query(
+        'INSERT INTO token_holders (token_address, holder_address, balance) VALUES (?, ?, ?)',
+        [tokenAddress, holderAddress.toLowerCase(), delta.toString()]
+      );
+    } else {
+      const balance = toBigInt(holderResult.rows[0].balance) + delta;
+      await query(
+        'UPDATE token_holders SET balance = ?, updated_at = CURRENT_TIMESTAMP WHERE token_address = ? AND holder_address = ?',
+        [balance.toString(), tokenAddress, holderAddress.toLowerCase()]
+      );
+    }
+  }
+
+  async adjustContribution(presaleAddress, contributorAddress, deltas) {
+    const contributionResult = await query(
+      'SELECT * FROM presale_contributions WHERE presale_address = ? AND contributor_address = ?',
+      [presaleAddress, contributorAddress.toLowerCase()]
+    );
+
+    const current = contributionResult.rows[0] || {};
+    const fields = ['contributed', 'tokens_purchased', 'tokens_claimed', 'refunded', 'withdrawn', 'penalties'];
+    const values = fields.map(field => (toBigInt(current[field]) + (deltas[field] || 0n)).toString());
+
+    if (contributionResult.rows.length === 0) {
+      await query(
+        `INSERT INTO presale_contributions
+         (presale_address, contributor_address, contributed, tokens_purchased, tokens_claimed, refunded, withdrawn, penalties)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [presaleAddress, contributorAddress.toLowerCase(), ...values]
+      );
+    } else {
+      await query(
+        `UPDATE presale_contributions
+         SET contributed = ?, tokens_purchased = ?, tokens_claimed = ?, refunded = ?, withdrawn = ?, penalties = ?,
+         updated_at = CURRENT_TIMESTAMP
+         WHERE presale_address = ? AND contributor_address = ?`,
+        [...values, presaleAddress, contributorAddress.toLowerCase()]
+      );
+    }
+  }
+
+  async adjustReferral(presaleAddress, referrerAddress, refereeAddress, deltas) {
+    const referralResult = await query(
+      `SELECT * FROM presale_referrals
+       WHERE presale_address = ? AND referrer_address = ? AND referee_address = ?`,
+      [presaleAddress, referrerAddress.toLowerCase(), refereeAddress.toLowerCase()]
+    );
+
+    const current = referralResult.rows[0] || {};
+    const volume = (toBigInt(current.volume) + deltas.volume).toString();
+    const rewards = (toBigInt(current.rewards) + deltas.rewards).toString();
+
+    if (referralResult.rows.length === 0) {
+      await query(
+        `INSERT INTO presale_referrals (presale_address, referrer_address, referee_address, volume, rewards)
+         VALUES (?, ?, ?, ?, ?)`,
+        [presaleAddress, referrerAddress.toLowerCase(), refereeAddress.toLowerCase(), volume, rewards]
+      );
+    } else {
+      await query(
+        `UPDATE presale_referrals SET volume = ?, rewards = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE presale_address = ? AND referrer_address = ? AND referee_address = ?`,
+        [volume, rewards, presaleAddress, referrerAddress.toLowerCase(), refereeAddress.toLowerCase()]
+      );
+    }
+  }
+
+  /**
+   * Keep the first purchase time and the first referrer a participant came in with
+   */
+  async recordPurchaseDetails(presaleAddress, args) {
+    const referrer = args.referrer && args.referrer !== ethers.ZeroAddress ? args.referrer : null;
+
+    await query(
+      `UPDATE presale_contributions
+       SET first_contribution_at = COALESCE(first_contribution_at, ?),
+       referrer_address = COALESCE(referrer_address, ?)
+       WHERE presale_address = ? AND contributor_address = ?`,
+      [new Date(Number(args.timestamp) * 1000), referrer, presaleAddress, args.buyer]
+    );
+  }
+
+  /**
+   * Recompute precomputed statistics for touched tokens and presales
+   */
+  async refreshStats(touched) {
+    for (const tokenAddress of touched.tokens) {
+      const [holdersResult, transfersResult, tokenResult] = await Promise.all([
+        query(
+          'SELECT COUNT(*) AS holders, SUM(balance) AS supply FROM token_holders WHERE token_address = ? AND balance > 0',
+          [tokenAddress]
+        ),
+        query(
+          `SELECT COUNT(*) AS transfers FROM indexed_events WHERE contract_address = ? AND event_name = 'Transfer'`,
+          [tokenAddress]
+        ),
+        query('SELECT decimals FROM tokens WHERE contract_address = ?', [tokenAddress])
+      ]);
+
+      await query(
+        `UPDATE tokens SET
+         total_supply = ?,
+         holders_count = ?,
+         transfer_count = ?,
+         last_updated = CURRENT_TIMESTAMP
+         WHERE contract_address = ?`,
+        [
+          ethers.formatUnits(toBigInt(holdersResult.rows[0].supply), tokenResult.rows[0]?.decimals ?? 18),
+          Number(holdersResult.rows[0].holders),
+          Number(transfersResult.rows[0].transfers),
+          tokenAddress
+        ]
+      );
+    }
+
+    for (const presaleAddress of touched.presales) {
+      const [contributionsResult, tokenResult] = await Promise.all([
+        query(
+          `SELECT COUNT(*) AS participants, SUM(contributed) AS raised, SUM(tokens_purchased) AS sold
+           FROM presale_contributions WHERE presale_address = ? AND contributed > 0`,
+          [presaleAddress]
+        ),
+        query(
+          `SELECT p.network_id, p.sale_configuration, t.decimals FROM presales p
+           LEFT JOIN tokens t ON p.token_address = t.contract_address
+           WHERE p.contract_address = ?`,
+          [presaleAddress]
+        )
+      ]);
+      const stats = contributionsResult.rows[0];
+      const presale = tokenResult.rows[0];
+
+      // Base-token sales raise in that token, e.g. a 6-decimal stablecoin, rather than the native coin
+      if (!this.raiseDecimals.has(presaleAddress)) {
+        this.raiseDecimals.set(presaleAddress, presale ? await referralService.getBaseTokenDecimals(presale) : 18);
+      }
+
+      await query(
+        `UPDATE presales SET
+         total_raised = ?,
+         participant_count = ?,
+         total_tokens_sold = ?,
+         last_updated = CURRENT_TIMESTAMP
+         WHERE contract_address = ?`,
+        [
+          ethers.formatUnits(toBigInt(stats.raised), this.raiseDecimals.get(presaleAddress)),
+          Number(stats.participants),
+          ethers.formatUnits(toBigInt(stats.sold), presale?.decimals ?? 18),
+          presaleAddress
+        ]
+      );
+    }
+  }
+}
+
+module.exports = new EventIndexer();
@@ -0,0 +1,191 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const { query } = require('../db');
+const { findTokenByAddress } = require('../db/models/Token');
+const networkRegistryService = require('./networkRegistryService');
+
+const TOKEN_FACTORY_ABI = [
+  'event TokenCreated(address indexed creator, address indexed tokenAddress, string tokenType, uint256 timestamp)',
+  'function getTokensByCreator(address creator) view returns (tuple(address tokenAddress, string tokenType, address creator, uint256 createdAt)[])'
+];
+
+const FACTORY_TOKEN_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function maxSupply() view returns (uint256)',
+  'function transferFeePercentage() view returns (uint256)',
+  'function feeRecipient() view returns (address)',
+  'function redistributionPercentage() view returns (uint256)'
+];
+
+// Token types TokenFactory creates, mapped to the features the builder would have selected
+const TOKEN_TYPE_FEATURES = {
+  BasicToken: { burnable: false, mintable: false, fees: false, redistribution: false },
+  BurnableToken: { burnable: true, mintable: false, fees: false, redistribution: false },
+  MintableToken: { burnable: false, mintable: true, fees: false, redistribution: false },
+  BurnableMintableToken: { burnable: true, mintable: true, fees: false, redistribution: false },
+  FeeToken: { burnable: false, mintable: false, fees: true, redistribution: false },
+  RedistributionToken: { burnable: false, mintable: false, fees: false, redistribution: true },
+  AdvancedToken: { burnable: true, mintable: true, fees: true, redistribution: true }
+};
+
+// Whole-token amounts are stored the way the builder submits them, without a trailing ".0"
+function formatAmount(amount, decimals) {
+  return ethers.formatUnits(amount, decimals).replace(/\.0$/, '');
+}
+
+/**
+ * Imports tokens a wallet created through TokenFactory outside the platform's deploy flow
+ */
+class FactoryTokenService {
+  /**
+   * Register every token the factory reports for a creator that is not registered yet.
+   * Backfilled tokens were paid for at the factory, so no ESR payment is spent on them.
+   * A token that cannot be read or located is left out and reported in `failed`, so one bad token
+   * does not stop the rest from being imported.
+   * @param {string} network - Network identifier
+   * @param {string} creator - Creator wallet address
+   * @returns {Promise<Object>} - { imported, skipped, failed } or { error, code }
+   */
+  async backfillCreatorTokens(network, creator) {
+    const factoryAddress = await networkRegistryService.getContractAddress(network, 'tokenFactory');
+    if (!factoryAddress) {
+      return { error: `No TokenFactory configured for ${network}`, code: 'FACTORY_NOT_CONFIGURED' };
+    }
+
+    const provider = getProvider(network);
+    const factory = new ethers.Contract(factoryAddress, TOKEN_FACTORY_ABI, provider);
+    const createdTokens = await factory.getTokensByCreator(creator);
+
+    const imported = [];
+    const failed = [];
+    let skipped = 0;
+
+    for (const info of createdTokens) {
+      if (await findTokenByAddress(info.tokenAddress)) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        await this.importToken(network, provider, factory, creator, info);
+        imported.push(info.tokenAddress.toLowerCase());
+      } catch (error) {
+        console.error(`Error importing factory token ${info.tokenAddress}:`, error);
+        failed.push(info.tokenAddress.toLowerCase());
+      }
+    }
+
+    return { imported, skipped, failed };
+  }
+
+  /**
+   * Register one factory-created token
+   */
+  async importToken(network, provider, factory, creator, info) {
+    const transactionHash = await this.findCreationTransaction(provider, factory, creator, info);
+    const token = await this.readToken(provider, info);
+
+    await query(
+      `INSERT INTO tokens
+      (contract_address, contract_type, name, symbol, decimals, initial_supply, max_supply,
+       owner_address, network_id, network_name, network_chain_id, transaction_hash, verified, features, deployment_method)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        info.tokenAddress.toLowerCase(),
+        info.tokenType,
+        token.name,
+        token.symbol,
+        token.decimals,
+        token.totalSupply,
+        token.maxSupply,
+        creator.toLowerCase(),
+        network,
+        network,
+        networkRegistryService.getChainId(network),
+        transactionHash,
+        false,
+        JSON.stringify(token.features),
+        'factory'
+      ]
+    );
+  }
+
+  /**
+   * Find the factory call that created a token. The factory only records the block timestamp,
+   * so the blocks with that timestamp (several on chains with sub-second blocks) are found by
+   * binary search before their TokenCreated log is looked up.
+   */
+  async findCreationTransaction(provider, factory, creator, info) {
+    const createdAt = Number(info.createdAt);
+    const head = await provider.getBlockNumber();
+    const firstBlock = await this.findFirstBlockAfter(provider, createdAt - 1, head);
+    const lastBlock = (await this.findFirstBlockAfter(provider, createdAt, head)) - 1;
+
+    const filter = factory.filters.TokenCreated(creator, info.tokenAddress);
+    const logs = await factory.queryFilter(filter, firstBlock, Math.max(firstBlock, lastBlock));
+    if (logs.length === 0) {
+      throw new Error(`TokenCreated not found for ${info.tokenAddress}`);
+    }
+
+    return logs[0].transactionHash;
+  }
+
+  /**
+   * First block with a timestamp later than the given one, or the block after the head if there is none
+   */
+  async findFirstBlockAfter(provider, timestamp, head) {
+    let low = 0;
+    let high = head + 1;
+
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const block = await provider.getBlock(mid);
+      if (block.timestamp <= timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Read a factory token's metadata and fee settings from the chain
+   */
+  async readToken(provider, info) {
+    const token = new ethers.Contract(info.tokenAddress, FACTORY_TOKEN_ABI, provider);
+    const type = TOKEN_TYPE_FEATURES[info.tokenType] || TOKEN_TYPE_FEATURES.BasicToken;
+
+    const [name, symbol, decimals, totalSupply, maxSupply, feePercentage, feeRecipient, redistributionPercentage] = await Promise.all([
+      token.name(),
+      token.symbol(),
+      token.decimals(),
+      token.totalSupply(),
+      token.maxSupply().catch(() => 0n),
+      type.fees ? token.transferFeePercentage() : 0n,
+      type.fees ? token.feeRecipient() : '',
+      type.redistribution ? token.redistributionPercentage() : 0n
+    ]);
+
+    return {
+      name,
+      symbol,
+      decimals: Number(decimals),
+      totalSupply: formatAmount(totalSupply, decimals),
+      maxSupply: formatAmount(maxSupply, decimals),
+      features: {
+        burnable: type.burnable,
+        mintable: type.mintable,
+        // Percentages are stored on-chain in basis points
+        transferFees: { enabled: type.fees, percentage: Number(feePercentage) / 100, recipient: feeRecipient },
+        holderRedistribution: { enabled: type.redistribution, percentage: Number(redistributionPercentage) / 100 }
+      }
+    };
+  }
+}
+
+module.exports = new FactoryTokenService();
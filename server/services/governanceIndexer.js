@@ -0,0 +1,275 @@
+const crypto = require('crypto');
+const { ethers } = require('ethers');
+const { query } = require('../db');
+const { getProvider, getLogsInChunks } = require('../utils/blockchain');
+const TokenGovernanceABI = require('../../src/abis/TokenGovernance.json');
+
+// TokenGovernance.VoteType: 0 = Against, 1 = For, 2 = Abstain
+const VOTE_TYPES = ['no', 'yes', 'abstain'];
+
+const INDEXED_EVENTS = ['ProposalCreated', 'VoteCast', 'ProposalExecuted', 'ProposalCanceled'];
+
+/**
+ * Map a TokenGovernance.getProposalState() string to a governance_proposals status
+ * @param {string} state - State returned by the contract
+ * @returns {string} - Proposal status
+ */
+function mapProposalState(state) {
+  if (state === 'Canceled') return 'canceled';
+  if (state === 'Executed') return 'executed';
+  if (state === 'Pending') return 'pending';
+  if (state === 'Active') return 'active';
+  if (state.startsWith('Succeeded')) return 'passed';
+  return 'rejected';
+}
+
+/**
+ * Make sure an on-chain participant has a users row so joins keep working
+ * @param {string} address - Wallet address
+ */
+async function ensureUser(address) {
+  const userResult = await query(
+    'SELECT address FROM users WHERE address = ?',
+    [address.toLowerCase()]
+  );
+
+  if (userResult.rows.length === 0) {
+    await query(
+      'INSERT INTO users (address, nonce) VALUES (?, ?)',
+      [address.toLowerCase(), crypto.randomBytes(16).toString('hex')]
+    );
+  }
+}
+
+/**
+ * Indexes TokenGovernance events into governance_proposals / governance_votes
+ */
+class GovernanceIndexer {
+  /**
+   * Index all governance contracts used by tokens in on-chain mode
+   * @returns {Promise<Array>} - Sync result per contract
+   */
+  async syncAll() {
+    const contractsResult = await query(
+      `SELECT gc.*
+       FROM governance_contracts gc
+       JOIN tokens t ON t.governance_contract = gc.contract_address
+       WHERE t.governance_mode = 'onchain'`
+    );
+
+    const results = [];
+    for (const governance of contractsResult.rows) {
+      try {
+        results.push(await this.syncContract(governance));
+      } catch (error) {
+        console.error(`Error indexing governance contract ${governance.contract_address}:`, error);
+        results.push({ contractAddress: governance.contract_address, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Index new events for a single governance contract
+   * @param {Object} governance - governance_contracts row
+   * @returns {Promise<Object>} - Indexed block range and number of events
+   */
+  async syncContract(governance) {
+    const provider = getProvider(governance.network_id);
+    const contract = new ethers.Contract(governance.contract_address, TokenGovernanceABI, provider);
+    const latestBlock = await provider.getBlockNumber();
+
+    let fromBlock;
+    if (governance.last_indexed_block !== null && governance.last_indexed_block !== undefined) {
+      fromBlock = Number(governance.last_indexed_block) + 1;
+    } else {
+      const receipt = await provider.getTransactionReceipt(governance.transaction_hash);
+      fromBlock = receipt ? receipt.blockNumber : Math.max(0, latestBlock - 10000);
+    }
+
+    let eventCount = 0;
+
+    if (fromBlock <= latestBlock) {
+      const tokenResult = await query(
+        'SELECT decimals FROM tokens WHERE contract_address = ?',
+        [governance.token_address.toLowerCase()]
+      );
+      const decimals = tokenResult.rows[0]?.decimals ?? 18;
+
+      const logs = await getLogsInChunks(
+        provider,
+        {
+          address: governance.contract_address,
+          topics: [INDEXED_EVENTS.map(name => contract.interface.getEvent(name).topicHash)]
+        },
+        fromBlock,
+        latestBlock
+      );
+
+      for (const log of logs) {
+        const parsed = contract.interface.parseLog(log);
+        if (!parsed) continue;
+
+        switch (parsed.name) {
+          case 'ProposalCreated':
+            await this.handleProposalCreated(contract, governance, log, parsed);
+            break;
+          case 'VoteCast':
+            await this.handleVoteCast(governance, log, parsed, decimals);
+            break;
+          case 'ProposalExecuted':
+            await query(
+              `UPDATE governance_proposals
+               SET status = 'executed', execution_tx_hash = ?
+               WHERE governance_contract = ? AND onchain_proposal_id = ?`,
+              [log.transactionHash, governance.contract_address.toLowerCase(), Number(parsed.args.proposalId)]
+            );
+            break;
+          case 'ProposalCanceled':
+            await query(
+              `UPDATE governance_proposals
+               SET status = 'canceled'
+               WHERE governance_contract = ? AND onchain_proposal_id = ?`,
+              [governance.contract_address.toLowerCase(), Number(parsed.args.proposalId)]
+            );
+            break;
+        }
+        eventCount++;
+      }
+
+      await query(
+        'UPDATE governance_contracts SET last_indexed_block = ? WHERE contract_address = ?',
+        [latestBlock, governance.contract_address.toLowerCase()]
+      );
+    }
+
+    // Time-based transitions (Active -> Succeeded/Defeated) emit no events
+    await this.refreshOpenProposals(contract, governance);
+
+    return {
+      contractAddress: governance.contract_address,
+      fromBlock,
+      toBlock: latestBlock,
+      events: eventCount
+    };
+  }
+
+  /**
+   * Store a newly created on-chain proposal
+   */
+  async handleProposalCreated(contract, governance, log, parsed) {
+    const onchainId = Number(parsed.args.proposalId);
+
+    const existingResult = await query(
+      'SELECT id FROM governance_proposals WHERE governance_contract = ? AND onchain_proposal_id = ?',
+      [governance.contract_address.toLowerCase(), onchainId]
+    );
+    if (existingResult.rows.length > 0) return;
+
+    const [details, state] = await Promise.all([
+      contract.getProposal(onchainId),
+      contract.getProposalState(onchainId)
+    ]);
+
+    // executionData is not exposed by getProposal, so recover it from the createProposal call
+    let executionData = null;
+    try {
+      const tx = await contract.runner.getTransaction(log.transactionHash);
+      const decoded = tx ? contract.interface.parseTransaction({ data: tx.data, value: tx.value }) : null;
+      if (decoded && decoded.name === 'createProposal' && decoded.args.executionData !== '0x') {
+        executionData = decoded.args.executionData;
+      }
+    } catch (error) {
+      console.error(`Could not decode createProposal transaction ${log.transactionHash}:`, error.message);
+    }
+
+    await ensureUser(details.proposer);
+
+    await query(
+      `INSERT INTO governance_proposals
+       (token_address, title, description, creator, start_time, end_time, status, quorum, execution_time, execution_data,
+        governance_contract, onchain_proposal_id, transaction_hash, snapshot_block)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        governance.token_address.toLowerCase(),
+        details.title,
+        details.description,
+        details.proposer.toLowerCase(),
+        new Date(Number(details.startTime) * 1000),
+        new Date(Number(details.endTime) * 1000),
+        mapProposalState(state),
+        Number(details.quorum),
+        new Date(Number(details.executionTime) * 1000),
+        executionData,
+        governance.contract_address.toLowerCase(),
+        onchainId,
+        log.transactionHash,
+        log.blockNumber
+      ]
+    );
+  }
+
+  /**
+   * Store a vote cast on-chain
+   */
+  async handleVoteCast(governance, log, parsed, decimals) {
+    const proposalResult = await query(
+      'SELECT id FROM governance_proposals WHERE governance_contract = ? AND onchain_proposal_id = ?',
+      [governance.contract_address.toLowerCase(), Number(parsed.args.proposalId)]
+    );
+    if (proposalResult.rows.length === 0) return;
+
+    const proposalId = proposalResult.rows[0].id;
+    const voter = parsed.args.voter.toLowerCase();
+
+    const existingVoteResult = await query(
+      'SELECT id FROM governance_votes WHERE proposal_id = ? AND voter = ?',
+      [proposalId, voter]
+    );
+    if (existingVoteResult.rows.length > 0) return;
+
+    await ensureUser(voter);
+
+    await query(
+      `INSERT INTO governance_votes
+       (proposal_id, voter, vote, vote_weight, transaction_hash)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        proposalId,
+        voter,
+        VOTE_TYPES[Number(parsed.args.voteType)] || 'abstain',
+        ethers.formatUnits(parsed.args.weight, decimals),
+        log.transactionHash
+      ]
+    );
+  }
+
+  /**
+   * Re-read the state of proposals that can still change
+   */
+  async refreshOpenProposals(contract, governance) {
+    const openResult = await query(
+      `SELECT id, onchain_proposal_id, status
+       FROM governance_proposals
+       WHERE governance_contract = ? AND status IN ('pending', 'active', 'passed')`,
+      [governance.contract_address.toLowerCase()]
+    );
+
+    for (const proposal of openResult.rows) {
+      try {
+        const status = mapProposalState(await contract.getProposalState(proposal.onchain_proposal_id));
+        if (status !== proposal.status) {
+          await query(
+            'UPDATE governance_proposals SET status = ? WHERE id = ?',
+            [status, proposal.id]
+          );
+        }
+      } catch (error) {
+        console.error(`Error refreshing state of proposal ${proposal.onchain_proposal_id}:`, error.message);
+      }
+    }
+  }
+}
+
+module.exports = new GovernanceIndexer();
@@ -0,0 +1,416 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const { findTopHolders, getHolderTotals, findTransferEvents } = require('../db/models/TokenHolder');
+const { findPresalesByToken } = require('../db/models/Presale');
+const networkRegistryService = require('./networkRegistryService');
+const eventIndexer = require('./eventIndexer');
+
+const DEFAULT_TOP_HOLDERS = 20;
+const MAX_TOP_HOLDERS = 100;
+const CONCENTRATION_HOLDERS = 10;
+const HISTORY_POINTS = 30;
+// Holders called at the same time when labelling contracts
+const PROBE_CONCURRENCY = 8;
+
+// Labels a snapshot can exclude; the last three are only found by calling the holder
+const LABEL_TYPES = ['dead', 'liquidityLocker', 'presale', 'dexPair', 'vesting', 'contract'];
+const ON_CHAIN_LABEL_TYPES = ['dexPair', 'vesting', 'contract'];
+
+const DEAD_ADDRESSES = new Set([
+  ethers.ZeroAddress,
+  '0x000000000000000000000000000000000000dead'
+]);
+
+const PAIR_ABI = [
+  'function factory() view returns (address)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)'
+];
+
+const VESTING_ABI = [
+  'function token() view returns (address)',
+  'function totalVestedAmount() view returns (uint256)'
+];
+
+/**
+ * Convert a stored NUMERIC value to a BigInt
+ * @param {string|number|null} value - Database value
+ * @returns {bigint}
+ */
+function toBigInt(value) {
+  if (value === null || value === undefined) return 0n;
+  return BigInt(String(value).split('.')[0]);
+}
+
+/**
+ * Percentage of a total, to two decimals
+ * @param {bigint} amount - Part
+ * @param {bigint} total - Whole
+ * @returns {number}
+ */
+function percentageOf(amount, total) {
+  return total > 0n ? Number((amount * 10000n) / total) / 100 : 0;
+}
+
+/**
+ * Apply Transfer events in chain order to per-address balances. Addresses that end up negative
+ * received tokens before the first indexed event.
+ * @param {Object[]} events - indexed_events rows
+ * @param {Function} [beforeEvent] - Called with each event's block number and the holder count so far
+ * @returns {Object} - { balances: Map<string, bigint>, holders }
+ */
+function replayTransfers(events, beforeEvent) {
+  const balances = new Map();
+  let holders = 0;
+
+  const adjust = (address, delta) => {
+    if (address === ethers.ZeroAddress) return;
+    const before = balances.get(address) || 0n;
+    const after = before + delta;
+    balances.set(address, after);
+    if (before <= 0n && after > 0n) holders++;
+    if (before > 0n && after <= 0n) holders--;
+  };
+
+  for (const event of events) {
+    if (beforeEvent) beforeEvent(Number(event.block_number), holders);
+
+    const args = typeof event.args === 'string' ? JSON.parse(event.args) : event.args;
+    const value = BigInt(args.value);
+    adjust(args.from.toLowerCase(), -value);
+    adjust(args.to.toLowerCase(), value);
+  }
+
+  return { balances, holders };
+}
+
+/**
+ * Who holds a token, derived from the Transfer events the indexer has stored
+ */
+class HolderAnalyticsService {
+  constructor() {
+    // Contract kinds found on-chain never change, so probes are kept per network and address
+    this.probedLabels = new Map();
+    this.blockTimestamps = new Map();
+  }
+
+  /**
+   * Top holders with labels, concentration and holder count over time
+   * @param {Object} token - Token row
+   * @param {Object} [options] - { limit }
+   * @returns {Promise<Object>} - { holders, totalSupply, topHolders, concentration, history, synced, lastUpdated }
+   */
+  async getAnalytics(token, { limit } = {}) {
+    const pageSize = Math.min(
+      Math.max(parseInt(limit, 10) || DEFAULT_TOP_HOLDERS, CONCENTRATION_HOLDERS),
+      MAX_TOP_HOLDERS
+    );
+
+    let provider = null;
+    try {
+      provider = getProvider(token.network_id);
+    } catch (error) {
+      console.warn(`Holder labels and dates unavailable for ${token.contract_address}:`, error.message);
+    }
+
+    const [rows, totals] = await Promise.all([
+      findTopHolders(token.contract_address, pageSize),
+      getHolderTotals(token.contract_address)
+    ]);
+
+    const supply = toBigInt(totals.supply);
+    const labels = await this.labelHolders(token, rows.map(row => row.holder_address), provider);
+
+    const topHolders = rows.map(row => {
+      const balance = toBigInt(row.balance);
+      return {
+        address: row.holder_address,
+        balance: ethers.formatUnits(balance, token.decimals),
+        share: percentageOf(balance, supply),
+        label: labels.get(row.holder_address) || null,
+        rawBalance: balance
+      };
+    });
+
+    return {
+      holders: Number(totals.holders) || 0,
+      totalSupply: ethers.formatUnits(supply, token.decimals),
+      topHolders: topHolders.map(({ rawBalance, ...holder }) => holder),
+      concentration: this.getConcentration(topHolders, supply, token.decimals),
+      history: await this.getHolderHistory(token, provider),
+      synced: !!token.indexer_synced,
+      lastUpdated: token.last_updated
+    };
+  }
+
+  /**
+   * Share of supply held by the largest holders, over all tokens and over the circulating supply,
+   * which leaves out tokens held by labelled contracts and dead addresses
+   * @param {Object[]} topHolders - Holders with rawBalance and label, largest first
+   * @param {bigint} supply - Sum of all balances
+   * @param {number} decimals - Token decimals
+   * @returns {Object} - { topHolders, topShare, circulatingSupply, topCirculatingShare }
+   */
+  getConcentration(topHolders, supply, decimals) {
+    const isWallet = holder => !holder.label || holder.label.type === 'contract';
+    const sum = holders => holders.reduce((total, holder) => total + holder.rawBalance, 0n);
+
+    const excluded = sum(topHolders.filter(holder => !isWallet(holder)));
+    const circulatingSupply = supply - excluded;
+
+    return {
+      topHolders: CONCENTRATION_HOLDERS,
+      topShare: percentageOf(sum(topHolders.slice(0, CONCENTRATION_HOLDERS)), supply),
+      circulatingSupply: ethers.formatUnits(circulatingSupply, decimals),
+      topCirculatingShare: percentageOf(
+        sum(topHolders.filter(isWallet).slice(0, CONCENTRATION_HOLDERS)),
+        circulatingSupply
+      )
+    };
+  }
+
+  /**
+   * Label holders that are known contracts: the platform's LiquidityLocker, the token's presales
+   * and their LP pairs from the database, then DEX pairs and TokenVesting contracts found on-chain
+   * @param {Object} token - Token row
+   * @param {string[]} addresses - Lowercase holder addresses
+   * @param {ethers.Provider|null} provider - Provider, or null to skip on-chain checks
+   * @returns {Promise<Map<string, Object>>} - { type, name } by address, wallets left out
+   */
+  async labelHolders(token, addresses, provider) {
+    const known = new Map();
+
+    const presales = await findPresalesByToken(token.contract_address);
+    for (const presale of presales) {
+      known.set(presale.contract_address.toLowerCase(), { type: 'presale', name: 'Presale' });
+      if (presale.lp_token_address) {
+        known.set(presale.lp_token_address.toLowerCase(), { type: 'dexPair', name: 'DEX pair' });
+      }
+      if (presale.liquidity_locker_address) {
+        known.set(presale.liquidity_locker_address.toLowerCase(), { type: 'liquidityLocker', name: 'LiquidityLocker' });
+      }
+    }
+
+    const lockerAddress = await networkRegistryService.getContractAddress(token.network_id, 'liquidityLocker');
+    if (lockerAddress) {
+      known.set(lockerAddress, { type: 'liquidityLocker', name: 'LiquidityLocker' });
+    }
+
+    const chainId = networkRegistryService.getChainId(token.network_id);
+    const routers = chainId !== null ? (await networkRegistryService.getRegistry(chainId)).routers : [];
+    const routersByFactory = new Map(routers.map(router => [router.factory.toLowerCase(), router]));
+
+    const labels = new Map();
+    const unknown = [];
+    for (const address of addresses) {
+      if (DEAD_ADDRESSES.has(address)) {
+        labels.set(address, { type: 'dead', name: 'Dead address' });
+      } else if (known.has(address)) {
+        labels.set(address, known.get(address));
+      } else if (provider) {
+        unknown.push(address);
+      }
+    }
+
+    // Each worker takes the next unprobed holder until none are left
+    let next = 0;
+    const probeNext = async () => {
+      while (next < unknown.length) {
+        const address = unknown[next++];
+        const label = await this.probeHolder(token, address, provider, routersByFactory);
+        if (label) labels.set(address, label);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, unknown.length) }, probeNext));
+
+    return labels;
+  }
+
+  /**
+   * Label a holder by calling it: pairs of this token answer token0/token1, vesting contracts
+   * for this token answer token/totalVestedAmount
+   * @returns {Promise<Object|null>} - { type, name }, or null for wallets and failed lookups
+   */
+  async probeHolder(token, address, provider, routersByFactory) {
+    const key = `${token.network_id}:${token.contract_address}:${address}`;
+    if (this.probedLabels.has(key)) return this.probedLabels.get(key);
+
+    let code;
+    try {
+      code = await provider.getCode(address);
+    } catch (error) {
+      console.warn(`Could not look up holder ${address}:`, error.message);
+      return null;
+    }
+
+    let label = null;
+    if (code !== '0x') {
+      const tokenAddress = token.contract_address.toLowerCase();
+
+      const pair = new ethers.Contract(address, PAIR_ABI, provider);
+      const [factory, token0, token1] = await Promise.all([
+        pair.factory().catch(() => null),
+        pair.token0().catch(() => null),
+        pair.token1().catch(() => null)
+      ]);
+
+      const vesting = new ethers.Contract(address, VESTING_ABI, provider);
+      const [vestedToken, totalVested] = await Promise.all([
+        vesting.token().catch(() => null),
+        vesting.totalVestedAmount().catch(() => null)
+      ]);
+
+      if (token0 && token1 && [token0.toLowerCase(), token1.toLowerCase()].includes(tokenAddress)) {
+        const router = factory ? routersByFactory.get(factory.toLowerCase()) : null;
+        label = { type: 'dexPair', name: router ? `${router.name} pair` : 'DEX pair' };
+      } else if (vestedToken && vestedToken.toLowerCase() === tokenAddress && totalVested !== null) {
+        label = { type: 'vesting', name: 'TokenVesting' };
+      } else {
+        label = { type: 'contract', name: 'Contract' };
+      }
+    }
+
+    this.probedLabels.set(key, label);
+    return label;
+  }
+
+  /**
+   * Holder count at evenly spaced blocks, replaying the indexed Transfer events. Tokens the
+   * indexer picked up after deployment only count holders from their first indexed block.
+   * @param {Object} token - Token row
+   * @param {ethers.Provider|null} provider - Provider for block dates, or null to leave them out
+   * @returns {Promise<Object[]>} - { blockNumber, timestamp, holders }, timestamp in seconds or null
+   */
+  async getHolderHistory(token, provider) {
+    const events = await findTransferEvents(token.network_id, token.contract_address);
+    if (events.length === 0) return [];
+
+    const firstBlock = Number(events[0].block_number);
+    const lastBlock = Number(events[events.length - 1].block_number);
+    const step = Math.max(1, Math.ceil((lastBlock - firstBlock) / HISTORY_POINTS));
+
+    const points = [];
+    let boundary = firstBlock;
+
+    const { holders } = replayTransfers(events, (blockNumber, holdersBefore) => {
+      while (blockNumber > boundary) {
+        points.push({ blockNumber: boundary, holders: holdersBefore });
+        boundary = Math.min(boundary + step, lastBlock);
+      }
+    });
+    points.push({ blockNumber: lastBlock, holders });
+
+    return Promise.all(points.map(async point => ({
+      ...point,
+      timestamp: provider ? await this.getBlockTimestamp(token.network_id, point.blockNumber, provider) : null
+    })));
+  }
+
+  /**
+   * Balance of every holder at a block, replaying the indexed Transfer events up to it
+   * @param {Object} token - Token row
+   * @param {Object} options - { blockNumber, minBalance, excludeLabels, excludeAddresses }
+   * @returns {Promise<Object>} - { blockNumber, totalSupply, holders, excluded, complete } or { error, code }
+   */
+  async getSnapshot(token, { blockNumber, minBalance = '0', excludeLabels = [], excludeAddresses = [] }) {
+    const block = Number(blockNumber);
+    if (!Number.isInteger(block) || block < 0) {
+      return { error: 'A valid block number is required', code: 'INVALID_BLOCK' };
+    }
+    if (!Array.isArray(excludeLabels) || excludeLabels.some(type => !LABEL_TYPES.includes(type))) {
+      return { error: `Excluded labels must be any of: ${LABEL_TYPES.join(', ')}`, code: 'INVALID_EXCLUSION' };
+    }
+    if (!Array.isArray(excludeAddresses) || !excludeAddresses.every(address => ethers.isAddress(address))) {
+      return { error: 'Excluded addresses must be valid addresses', code: 'INVALID_ADDRESS' };
+    }
+
+    let threshold;
+    try {
+      threshold = ethers.parseUnits(String(minBalance || '0'), token.decimals);
+    } catch (error) {
+      return { error: 'Invalid minimum balance', code: 'INVALID_MIN_BALANCE' };
+    }
+
+    if (!token.indexer_synced) {
+      return { error: 'Transfers of this token are still being indexed', code: 'NOT_INDEXED' };
+    }
+    const cursor = await eventIndexer.getCursor(token.network_id);
+    if (!cursor || block > Number(cursor.last_block)) {
+      const latest = cursor ? `; the latest indexed block is ${cursor.last_block}` : '';
+      return { error: `Block ${block} has not been indexed yet${latest}`, code: 'BLOCK_NOT_INDEXED' };
+    }
+
+    // Holders are only called when a label that needs it is excluded
+    let provider = null;
+    if (excludeLabels.some(type => ON_CHAIN_LABEL_TYPES.includes(type))) {
+      try {
+        provider = getProvider(token.network_id);
+      } catch (error) {
+        return { error: error.message, code: 'RPC_NOT_CONFIGURED' };
+      }
+    }
+
+    const events = await findTransferEvents(token.network_id, token.contract_address, block);
+    const { balances } = replayTransfers(events);
+
+    const positions = [...balances.entries()]
+      .filter(([, balance]) => balance > 0n)
+      .sort(([, a], [, b]) => (a === b ? 0 : a > b ? -1 : 1));
+    const supply = positions.reduce((total, [, balance]) => total + balance, 0n);
+
+    const excludedAddresses = new Set(excludeAddresses.map(address => address.toLowerCase()));
+
+    // Only holders that would otherwise make the snapshot are labelled, so dust wallets are never called
+    const candidates = positions
+      .filter(([address, balance]) => balance >= threshold && !excludedAddresses.has(address))
+      .map(([address]) => address);
+    const labels = await this.labelHolders(token, candidates, provider);
+
+    const holders = [];
+    const excluded = [];
+    for (const [address, balance] of positions) {
+      const label = labels.get(address) || null;
+      const holder = { address: ethers.getAddress(address), balance: ethers.formatUnits(balance, token.decimals), label };
+
+      if (excludedAddresses.has(address)) {
+        excluded.push({ ...holder, reason: 'Excluded address' });
+      } else if (balance < threshold) {
+        excluded.push({ ...holder, reason: 'Below minimum balance' });
+      } else if (label && excludeLabels.includes(label.type)) {
+        excluded.push({ ...holder, reason: label.name });
+      } else {
+        holders.push(holder);
+      }
+    }
+
+    return {
+      blockNumber: block,
+      totalSupply: ethers.formatUnits(supply, token.decimals),
+      holders,
+      excluded,
+      // Tokens indexed from a recent window instead of their deployment miss earlier transfers
+      complete: !!token.transaction_hash
+    };
+  }
+
+  /**
+   * Snapshot holders as "address,balance" lines without a header, the format the Airdrop tool loads
+   * @param {Object[]} holders - Snapshot holders
+   * @returns {string}
+   */
+  toCsv(holders) {
+    return holders.map(holder => `${holder.address},${holder.balance}`).join('\n');
+  }
+
+  async getBlockTimestamp(networkId, blockNumber, provider) {
+    const key = `${networkId}:${blockNumber}`;
+    if (!this.blockTimestamps.has(key)) {
+      const block = await provider.getBlock(blockNumber).catch(() => null);
+      if (!block) return null;
+      this.blockTimestamps.set(key, block.timestamp);
+    }
+    return this.blockTimestamps.get(key);
+  }
+}
+
+module.exports = new HolderAnalyticsService();
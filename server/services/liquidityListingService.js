@@ -0,0 +1,111 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const { setPresaleLiquidityLock } = require('../db/models/Presale');
+const networkRegistryService = require('./networkRegistryService');
+
+const PRESALE_LISTING_ABI = [
+  'function autoListed() view returns (bool)',
+  'function lpTokenAddress() view returns (address)'
+];
+
+const LIQUIDITY_LOCKER_ABI = [
+  'event LiquidityLocked(uint256 indexed lockId, address indexed token, address indexed owner, uint256 amount, uint256 unlockTime)',
+  'function getLockInfo(uint256 lockId) view returns (address token, address owner, uint256 amount, uint256 lockTime, uint256 unlockTime, bool withdrawn)'
+];
+
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)'
+];
+
+/**
+ * Publishes the LP lock created after a PresaleContractV2 sale is auto-listed
+ */
+class LiquidityListingService {
+  /**
+   * Verify a lock transaction and attach the lock to its presale
+   * @param {Object} presale - Presale row
+   * @param {string} network - Network identifier
+   * @param {string} transactionHash - lockLiquidity transaction
+   * @returns {Promise<Object>} - { published, lockId } or { published: false, error, code }
+   */
+  async publishLock(presale, network, transactionHash) {
+    const lockerAddress = await networkRegistryService.getContractAddress(network, 'liquidityLocker');
+    if (!lockerAddress) {
+      return { published: false, error: `No liquidity locker configured for ${network}`, code: 'LOCKER_NOT_CONFIGURED' };
+    }
+
+    const provider = getProvider(network);
+    const presaleContract = new ethers.Contract(presale.contract_address, PRESALE_LISTING_ABI, provider);
+
+    const [autoListed, lpTokenAddress, receipt] = await Promise.all([
+      presaleContract.autoListed().catch(() => false),
+      presaleContract.lpTokenAddress().catch(() => ethers.ZeroAddress),
+      provider.getTransactionReceipt(transactionHash)
+    ]);
+
+    if (!autoListed || lpTokenAddress === ethers.ZeroAddress) {
+      return { published: false, error: 'Sale has not been auto-listed', code: 'NOT_LISTED' };
+    }
+
+    if (!receipt || receipt.status !== 1) {
+      return { published: false, error: 'Lock transaction not found or failed', code: 'TX_PENDING' };
+    }
+
+    // Only a lock of the sale's own LP token, by the sale owner, in the platform locker counts
+    const lockerInterface = new ethers.Interface(LIQUIDITY_LOCKER_ABI);
+    const lockEvent = receipt.logs
+      .filter(log => log.address.toLowerCase() === lockerAddress)
+      .map(log => lockerInterface.parseLog(log))
+      .find(parsed => parsed && parsed.name === 'LiquidityLocked'
+        && parsed.args.token.toLowerCase() === lpTokenAddress.toLowerCase()
+        && parsed.args.owner.toLowerCase() === presale.owner_address);
+
+    if (!lockEvent) {
+      return { published: false, error: 'Transaction does not lock this sale\'s LP tokens', code: 'TX_MISMATCH' };
+    }
+
+    const lockId = Number(lockEvent.args.lockId);
+    await setPresaleLiquidityLock(presale.contract_address, {
+      lpTokenAddress,
+      lockerAddress,
+      lockId
+    });
+
+    return { published: true, lockId };
+  }
+
+  /**
+   * Current state of a presale's published LP lock, read from the locker
+   * @param {Object} presale - Presale row
+   * @returns {Promise<Object|null>} - Lock details, or null if nothing was published
+   */
+  async getLock(presale) {
+    if (presale.liquidity_lock_id === null || presale.liquidity_lock_id === undefined || !presale.liquidity_locker_address) {
+      return null;
+    }
+
+    const provider = getProvider(presale.network_id);
+    const locker = new ethers.Contract(presale.liquidity_locker_address, LIQUIDITY_LOCKER_ABI, provider);
+    const lpToken = new ethers.Contract(presale.lp_token_address, ERC20_ABI, provider);
+
+    const [lockInfo, decimals, symbol] = await Promise.all([
+      locker.getLockInfo(presale.liquidity_lock_id),
+      lpToken.decimals().catch(() => 18),
+      lpToken.symbol().catch(() => 'LP')
+    ]);
+
+    return {
+      lockId: Number(presale.liquidity_lock_id),
+      lockerAddress: presale.liquidity_locker_address,
+      lpTokenAddress: presale.lp_token_address,
+      lpTokenSymbol: symbol,
+      amount: ethers.formatUnits(lockInfo.amount, decimals),
+      lockTime: Number(lockInfo.lockTime),
+      unlockTime: Number(lockInfo.unlockTime),
+      withdrawn: lockInfo.withdrawn
+    };
+  }
+}
+
+module.exports = new LiquidityListingService();
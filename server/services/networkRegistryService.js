@@ -0,0 +1,290 @@
+const { ethers } = require('ethers');
+const { findNetworkRegistryOverride, saveNetworkRegistryOverride } = require('../db/models/NetworkRegistryOverride');
+
+// Network identifiers by chain ID, as used in the per-network env variables
+const NETWORK_IDS = {
+  1: 'ethereum',
+  56: 'bsc',
+  137: 'polygon',
+  42161: 'arbitrum',
+  250: 'fantom',
+  43114: 'avalanche',
+  25: 'cronos',
+  1116: 'core',
+  2000: 'dogechain',
+  369: 'pulsechain',
+  7000: 'zetachain',
+  130: 'unichain',
+  7171: 'bitrock',
+  3797: 'alveychain',
+  1071: 'opengpu',
+  8453: 'base',
+  25062019: 'estar-testnet',
+  5: 'goerli',
+  97: 'bsc-testnet',
+  80001: 'mumbai',
+  421614: 'arbitrum-sepolia',
+  4002: 'fantom-testnet',
+  43113: 'avalanche-fuji',
+  338: 'cronos-testnet',
+  7771: 'bitrock-testnet'
+};
+
+// Platform contracts and the env variable suffix each is configured with
+const PLATFORM_CONTRACTS = {
+  multiSender: 'MULTISENDER_ADDRESS',
+  liquidityLocker: 'LIQUIDITY_LOCKER_ADDRESS',
+  tokenFactory: 'TOKEN_FACTORY_ADDRESS',
+  presaleFactory: 'PRESALE_FACTORY_ADDRESS',
+  referralTracker: 'REFERRAL_TRACKER_ADDRESS'
+};
+
+// Built-in DEX routers and base tokens, mirrored by src/config/networkRegistry.ts
+const DEFAULT_REGISTRY = {
+  1: {
+    routers: [
+      { name: 'Uniswap V2', router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', factory: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f' }
+    ],
+    wrappedNative: { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+      { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 }
+    ]
+  },
+  56: {
+    routers: [
+      { name: 'PancakeSwap V2', router: '0x10ED43C718714eb63d5aA57B78B54704E256024E', factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73' }
+    ],
+    wrappedNative: { symbol: 'WBNB', address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0x55d398326f99059fF775485246999027B3197955', decimals: 18 },
+      { symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18 },
+      { symbol: 'BUSD', address: '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', decimals: 18 }
+    ]
+  },
+  137: {
+    routers: [
+      { name: 'QuickSwap', router: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff', factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32' }
+    ],
+    wrappedNative: { symbol: 'WMATIC', address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
+      { symbol: 'USDC', address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6 }
+    ]
+  },
+  42161: {
+    routers: [
+      { name: 'SushiSwap', router: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', factory: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4' }
+    ],
+    wrappedNative: { symbol: 'WETH', address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6 },
+      { symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 }
+    ]
+  },
+  250: {
+    routers: [
+      { name: 'SpookySwap', router: '0xF491e7B69E4244ad4002BC14e878a34207E38c29', factory: '0x152eE697f2E276fA89E96742e9bB9aB1F2E61bE3' }
+    ],
+    wrappedNative: { symbol: 'WFTM', address: '0x21be370D5312f44cB42ce377BC9b8a0cEF1A4C83', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDC', address: '0x04068DA6C83AFCFA0e13ba15A6696662335D5B75', decimals: 6 }
+    ]
+  },
+  43114: {
+    routers: [
+      { name: 'Trader Joe', router: '0x60aE616a2155Ee3d9A68541Ba4544862310933d4', factory: '0x9Ad6C38BE94206cA50bb0d90783181662f0Cfa10' }
+    ],
+    wrappedNative: { symbol: 'WAVAX', address: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7', decimals: 6 },
+      { symbol: 'USDC', address: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E', decimals: 6 }
+    ]
+  },
+  8453: {
+    routers: [
+      { name: 'Uniswap V2', router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24', factory: '0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6' }
+    ],
+    wrappedNative: { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 }
+    ]
+  },
+  97: {
+    routers: [
+      { name: 'PancakeSwap V2', router: '0xD99D1c33F9fC3444f8101754aBC46c52416550D1', factory: '0x6725F303b657a9451d8BA641348b6761A6CC7a17' }
+    ],
+    wrappedNative: { symbol: 'WBNB', address: '0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0x337610d27c682E347C9cD60BD4b3b107C9d34dDd', decimals: 18 }
+    ]
+  }
+};
+
+/**
+ * Parse a JSON column that the driver may return as a string
+ * @param {string|Object|null} value - Column value
+ * @returns {*}
+ */
+function parseJsonColumn(value) {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+/**
+ * Check a registry token entry
+ * @param {Object} token - { symbol, address, decimals }
+ * @returns {boolean}
+ */
+function isValidToken(token) {
+  return !!token && typeof token.symbol === 'string' && ethers.isAddress(token.address)
+    && Number.isInteger(token.decimals) && token.decimals >= 0 && token.decimals <= 255;
+}
+
+/**
+ * DEX routers, base tokens and platform contracts per chain.
+ * Built-in values are replaced by env variables, then by admin overrides stored in the database.
+ */
+class NetworkRegistryService {
+  /**
+   * Network identifier of a chain
+   * @param {number} chainId - Chain ID
+   * @returns {string|null}
+   */
+  getNetworkId(chainId) {
+    return NETWORK_IDS[chainId] || null;
+  }
+
+  /**
+   * Chain ID of a network identifier
+   * @param {string} networkId - Network identifier
+   * @returns {number|null}
+   */
+  getChainId(networkId) {
+    const entry = Object.entries(NETWORK_IDS).find(([, id]) => id === networkId);
+    return entry ? Number(entry[0]) : null;
+  }
+
+  /**
+   * Platform contracts configured through env variables
+   * @param {string|null} networkId - Network identifier
+   * @returns {Object} - Address (lowercase) or null by contract name
+   */
+  getEnvContracts(networkId) {
+    const contracts = {};
+
+    for (const [name, suffix] of Object.entries(PLATFORM_CONTRACTS)) {
+      const address = networkId ? process.env[`${networkId.toUpperCase().replace(/-/g, '_')}_${suffix}`] : null;
+      contracts[name] = address ? address.toLowerCase() : null;
+    }
+
+    return contracts;
+  }
+
+  /**
+   * Resolved registry of a chain
+   * @param {number} chainId - Chain ID
+   * @returns {Promise<Object>} - { chainId, networkId, routers, wrappedNative, stablecoins, contracts }
+   */
+  async getRegistry(chainId) {
+    const networkId = this.getNetworkId(chainId);
+    const defaults = DEFAULT_REGISTRY[chainId] || { routers: [], wrappedNative: null, stablecoins: [] };
+    const override = await findNetworkRegistryOverride(chainId);
+
+    const contracts = this.getEnvContracts(networkId);
+    const contractOverrides = override ? parseJsonColumn(override.contracts) || {} : {};
+    for (const name of Object.keys(PLATFORM_CONTRACTS)) {
+      if (contractOverrides[name]) {
+        contracts[name] = contractOverrides[name].toLowerCase();
+      }
+    }
+
+    return {
+      chainId,
+      networkId,
+      routers: (override && parseJsonColumn(override.routers)) || defaults.routers,
+      wrappedNative: (override && parseJsonColumn(override.wrapped_native)) || defaults.wrappedNative,
+      stablecoins: (override && parseJsonColumn(override.stablecoins)) || defaults.stablecoins,
+      contracts
+    };
+  }
+
+  /**
+   * Address of a platform contract on a network
+   * @param {string} networkId - Network identifier
+   * @param {string} name - Contract name, e.g. 'liquidityLocker'
+   * @returns {Promise<string|null>} - Lowercase address, or null if it is not deployed there
+   */
+  async getContractAddress(networkId, name) {
+    const chainId = this.getChainId(networkId);
+
+    if (chainId === null) {
+      return this.getEnvContracts(networkId)[name] || null;
+    }
+
+    const registry = await this.getRegistry(chainId);
+    return registry.contracts[name] || null;
+  }
+
+  /**
+   * Check admin overrides before they are stored
+   * @param {Object} overrides - { routers, wrappedNative, stablecoins, contracts }, each optional
+   * @returns {string[]} - Validation errors
+   */
+  validateOverrides(overrides) {
+    const errors = [];
+
+    if (overrides.routers) {
+      const valid = Array.isArray(overrides.routers) && overrides.routers.every(router =>
+        router && typeof router.name === 'string' && ethers.isAddress(router.router) && ethers.isAddress(router.factory));
+      if (!valid) errors.push('routers must be a list of { name, router, factory }');
+    }
+
+    if (overrides.wrappedNative && !isValidToken(overrides.wrappedNative)) {
+      errors.push('wrappedNative must be { symbol, address, decimals }');
+    }
+
+    if (overrides.stablecoins) {
+      if (!Array.isArray(overrides.stablecoins) || !overrides.stablecoins.every(isValidToken)) {
+        errors.push('stablecoins must be a list of { symbol, address, decimals }');
+      }
+    }
+
+    if (overrides.contracts) {
+      for (const [name, address] of Object.entries(overrides.contracts)) {
+        if (!PLATFORM_CONTRACTS[name]) {
+          errors.push(`Unknown platform contract: ${name}`);
+        } else if (address !== null && !ethers.isAddress(address)) {
+          errors.push(`Invalid address for ${name}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Store admin overrides for a chain, replacing any previous ones
+   * @param {number} chainId - Chain ID
+   * @param {Object} overrides - { routers, wrappedNative, stablecoins, contracts }, each optional
+   * @param {string} updatedBy - Admin address
+   * @returns {Promise<Object>} - Resolved registry
+   */
+  async saveOverrides(chainId, overrides, updatedBy) {
+    // Null contract entries fall back to the env configuration
+    const contracts = overrides.contracts
+      ? Object.fromEntries(Object.entries(overrides.contracts).filter(([, address]) => address))
+      : null;
+
+    await saveNetworkRegistryOverride(chainId, {
+      routers: overrides.routers || null,
+      wrappedNative: overrides.wrappedNative || null,
+      stablecoins: overrides.stablecoins || null,
+      contracts: contracts && Object.keys(contracts).length > 0 ? contracts : null
+    }, updatedBy);
+
+    return this.getRegistry(chainId);
+  }
+}
+
+module.exports = new NetworkRegistryService();
@@ -0,0 +1,118 @@
+const { ethers } = require('ethers');
+const { findTokenByAddress } = require('../db/models/Token');
+const { findContributionsByPresale, getContributionTotals } = require('../db/models/PresaleContribution');
+
+const MAX_PAGE_SIZE = 100;
+
+const CSV_COLUMNS = [
+  'address',
+  'contributed',
+  'tokensOwed',
+  'tokensClaimed',
+  'refunded',
+  'withdrawn',
+  'penalty',
+  'referrer',
+  'isWhitelisted',
+  'firstContributionAt'
+];
+
+/**
+ * Convert a stored NUMERIC value to a BigInt
+ * @param {string|number|null} value - Database value
+ * @returns {bigint}
+ */
+function toBigInt(value) {
+  if (value === null || value === undefined) return 0n;
+  return BigInt(String(value).split('.')[0]);
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or newline
+ * @param {*} value - Field value
+ * @returns {string}
+ */
+function escapeCsv(value) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds the per-wallet ledger of a presale from indexed contributions
+ */
+class ParticipantLedgerService {
+  /**
+   * A page of the ledger, or every participant when no limit is given
+   * @param {Object} presale - Presale row
+   * @param {Object} [options] - { page, limit }
+   * @returns {Promise<Object>} - { participants, total, page, limit, whitelistEnabled }
+   */
+  async getLedger(presale, { page = 1, limit } = {}) {
+    const pageSize = limit ? Math.min(Math.max(parseInt(limit, 10) || 1, 1), MAX_PAGE_SIZE) : null;
+    const pageNumber = Math.max(parseInt(page, 10) || 1, 1);
+
+    const [rows, totals, token] = await Promise.all([
+      findContributionsByPresale(presale.contract_address, {
+        limit: pageSize,
+        offset: pageSize ? (pageNumber - 1) * pageSize : 0
+      }),
+      getContributionTotals(presale.contract_address),
+      presale.token_address ? findTokenByAddress(presale.token_address) : null
+    ]);
+
+    const tokenDecimals = token?.decimals ?? 18;
+    const fairlaunchPool = presale.sale_type === 'fairlaunch'
+      ? ethers.parseUnits(String(presale.token_info?.allocatedAmount || '0'), tokenDecimals)
+      : null;
+    const totalContributed = toBigInt(totals.contributed);
+
+    const participants = rows.map(row => {
+      const contributed = toBigInt(row.contributed);
+      const claimed = toBigInt(row.tokens_claimed);
+      const refunded = toBigInt(row.refunded);
+
+      // Fairlaunch buyers get a share of the pool in proportion to their contribution
+      let entitled = toBigInt(row.tokens_purchased);
+      if (fairlaunchPool !== null) {
+        entitled = totalContributed > 0n ? (contributed * fairlaunchPool) / totalContributed : 0n;
+      }
+      const owed = refunded > 0n || entitled < claimed ? 0n : entitled - claimed;
+
+      return {
+        address: row.contributor_address,
+        contributed: ethers.formatEther(contributed),
+        tokensOwed: ethers.formatUnits(owed, tokenDecimals),
+        tokensClaimed: ethers.formatUnits(claimed, tokenDecimals),
+        refunded: ethers.formatEther(refunded),
+        withdrawn: ethers.formatEther(toBigInt(row.withdrawn)),
+        penalty: ethers.formatEther(toBigInt(row.penalties)),
+        referrer: row.referrer_address || null,
+        isWhitelisted: !!row.whitelisted,
+        firstContributionAt: row.first_contribution_at ? new Date(row.first_contribution_at).toISOString() : null
+      };
+    });
+
+    return {
+      participants,
+      total: Number(totals.participants),
+      page: pageSize ? pageNumber : 1,
+      limit: pageSize,
+      whitelistEnabled: !!presale.sale_configuration?.whitelistEnabled
+    };
+  }
+
+  /**
+   * Ledger rows as CSV with a header line
+   * @param {Array} participants - Rows from getLedger
+   * @returns {string}
+   */
+  toCsv(participants) {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const participant of participants) {
+      lines.push(CSV_COLUMNS.map(column => escapeCsv(participant[column])).join(','));
+    }
+    return lines.join('\n');
+  }
+}
+
+module.exports = new ParticipantLedgerService();
@@ -0,0 +1,250 @@
+const fs = require('fs');
+const path = require('path');
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const antiBotSignatureService = require('./antiBotSignatureService');
+const networkRegistryService = require('./networkRegistryService');
+
+const EXPORTS_DIR = path.join(__dirname, '..', '..', 'src', 'contracts', 'exports');
+
+/**
+ * Deploys presale contracts with the platform deployer wallet
+ */
+class PresaleDeploymentService {
+  /**
+   * Pick the presale contract that implements a configuration
+   * @param {Object} presaleConfig - PresaleConfig from the wizard
+   * @returns {string} - Contract type
+   */
+  getContractType(presaleConfig) {
+    if (presaleConfig.antiBotConfig?.enabled || presaleConfig.saleType === 'fairlaunch') {
+      return 'AntiBotPresaleContract';
+    }
+
+    if (presaleConfig.autoListingConfig?.enabled || presaleConfig.saleConfiguration.baseToken) {
+      return 'PresaleContractV2';
+    }
+
+    return 'PresaleContract';
+  }
+
+  /**
+   * Load an exported contract artifact ({ contractName, abi, bytecode })
+   * @param {string} contractType - Contract name
+   * @returns {Object} - Artifact
+   */
+  loadArtifact(contractType) {
+    const artifactPath = path.join(EXPORTS_DIR, `${contractType}.json`);
+
+    if (!fs.existsSync(artifactPath)) {
+      throw new Error(`Contract artifact not found for ${contractType}. Run npm run export-contracts.`);
+    }
+
+    return JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+  }
+
+  /**
+   * Presale factory to deploy through, if one is registered and charges no creation fee.
+   * The fee would be paid by the platform wallet rather than the sale owner, so a charging
+   * factory is skipped and the presale is deployed directly instead.
+   * @param {string} network - Network identifier
+   * @returns {Promise<string|null>}
+   */
+  async getFactoryAddress(network) {
+    const factoryAddress = await networkRegistryService.getContractAddress(network, 'presaleFactory');
+    if (!factoryAddress) {
+      return null;
+    }
+
+    const factory = new ethers.Contract(factoryAddress, this.loadArtifact('PresaleFactory').abi, getProvider(network));
+    const creationFee = await factory.creationFee();
+
+    return creationFee === 0n ? factoryAddress : null;
+  }
+
+  getWallet(network) {
+    const privateKey = process.env.PRIVATE_KEY;
+
+    if (!privateKey) {
+      throw new Error('Deployer private key not configured');
+    }
+
+    return new ethers.Wallet(privateKey, getProvider(network));
+  }
+
+  /**
+   * Decimals of the currency a sale raises: its base token for PresaleContractV2, otherwise the native coin
+   * @param {string} contractType - Presale contract type
+   * @param {Object} presaleConfig - PresaleConfig from the wizard
+   * @param {string} network - Network identifier
+   * @returns {Promise<number>}
+   */
+  async getRaiseDecimals(contractType, presaleConfig, network) {
+    const { baseToken } = presaleConfig.saleConfiguration;
+    if (contractType !== 'PresaleContractV2' || !baseToken) {
+      return 18;
+    }
+
+    const token = new ethers.Contract(baseToken, ['function decimals() view returns (uint8)'], getProvider(network));
+    return Number(await token.decimals());
+  }
+
+  /**
+   * Build constructor arguments for a presale contract
+   * @param {string} contractType - Presale contract type
+   * @param {Object} presaleConfig - PresaleConfig from the wizard
+   * @param {string} network - Network identifier
+   * @param {string} signerAddress - Signer for anti-bot purchase signatures
+   * @returns {Promise<Array>} - Constructor arguments
+   */
+  async buildConstructorArgs(contractType, presaleConfig, network, signerAddress) {
+    const { tokenInfo, saleConfiguration, vestingConfig, walletSetup } = presaleConfig;
+
+    // Fairlaunch contracts ignore the price and hard cap
+    const isFairlaunch = presaleConfig.saleType === 'fairlaunch';
+    // Caps and purchase limits are amounts of the raise currency, e.g. a 6-decimal stablecoin
+    const raiseDecimals = await this.getRaiseDecimals(contractType, presaleConfig, network);
+    const toRaiseUnits = amount => ethers.parseUnits(amount.toString(), raiseDecimals);
+
+    const saleInfo = {
+      token: tokenInfo.tokenAddress,
+      tokenPrice: isFairlaunch ? 0n : ethers.parseUnits(saleConfiguration.tokenPrice.toString(), 18),
+      softCap: toRaiseUnits(saleConfiguration.softCap),
+      hardCap: isFairlaunch ? 0n : toRaiseUnits(saleConfiguration.hardCap),
+      minPurchase: toRaiseUnits(saleConfiguration.minPurchase),
+      maxPurchase: toRaiseUnits(saleConfiguration.maxPurchase),
+      startTime: Math.floor(new Date(saleConfiguration.startDate).getTime() / 1000),
+      endTime: Math.floor(new Date(saleConfiguration.endDate).getTime() / 1000),
+      whitelistEnabled: !!saleConfiguration.whitelistEnabled
+    };
+
+    const vestingInfo = {
+      enabled: !!vestingConfig?.enabled,
+      initialRelease: vestingConfig?.enabled ? vestingConfig.initialRelease : 100,
+      vestingDuration: vestingConfig?.enabled ? vestingConfig.duration * 24 * 60 * 60 : 0 // Convert days to seconds
+    };
+
+    switch (contractType) {
+      case 'AntiBotPresaleContract': {
+        const { antiBotConfig } = presaleConfig;
+        const antiBotInfo = {
+          protectionDelay: antiBotConfig?.protectionDelay || 300, // 5 minutes default
+          maxGasPrice: ethers.parseUnits((antiBotConfig?.maxGasPrice || 50).toString(), 'gwei'),
+          walletCooldown: antiBotConfig?.walletCooldown || 60, // 1 minute default
+          signatureRequired: !!antiBotConfig?.signatureRequired
+        };
+
+        return [
+          saleInfo,
+          vestingInfo,
+          antiBotInfo,
+          walletSetup.saleReceiver,
+          walletSetup.refundWallet,
+          signerAddress,
+          isFairlaunch
+        ];
+      }
+      case 'PresaleContractV2': {
+        const { autoListingConfig } = presaleConfig;
+        const autoListingInfo = {
+          enabled: !!autoListingConfig?.enabled,
+          listingPrice: autoListingConfig?.enabled ? ethers.parseUnits(autoListingConfig.listingPrice.toString(), 18) : 0n,
+          lpTokenPercentage: autoListingConfig?.enabled ? autoListingConfig.lpTokenPercentage : 0,
+          lpBaseTokenPercentage: autoListingConfig?.enabled ? autoListingConfig.lpBaseTokenPercentage : 0,
+          lockDuration: autoListingConfig?.enabled ? autoListingConfig.lockDuration * 24 * 60 * 60 : 0 // Convert days to seconds
+        };
+        const referralTracker = await networkRegistryService.getContractAddress(network, 'referralTracker');
+
+        return [
+          { ...saleInfo, baseToken: saleConfiguration.baseToken },
+          vestingInfo,
+          autoListingInfo,
+          walletSetup.saleReceiver,
+          walletSetup.refundWallet,
+          referralTracker || ethers.ZeroAddress
+        ];
+      }
+      default:
+        return [saleInfo, vestingInfo, walletSetup.saleReceiver, walletSetup.refundWallet];
+    }
+  }
+
+  /**
+   * Deploy a presale and hand ownership to the sale creator
+   * @param {Object} presaleConfig - PresaleConfig from the wizard
+   * @param {string} network - Network identifier
+   * @param {string} ownerAddress - Address that will own the presale
+   * @returns {Promise<Object>} - Deployment result
+   */
+  async deployPresale(presaleConfig, network, ownerAddress) {
+    const contractType = this.getContractType(presaleConfig);
+    const wallet = this.getWallet(network);
+    const artifact = this.loadArtifact(contractType);
+    // Anti-bot presales get their own signing key so signatureRequired can be turned on at any time
+    const signerAddress = contractType === 'AntiBotPresaleContract'
+      ? await antiBotSignatureService.createSigner(ownerAddress, network)
+      : wallet.address;
+    const constructorArgs = await this.buildConstructorArgs(contractType, presaleConfig, network, signerAddress);
+    const factoryAddress = contractType === 'PresaleContract' ? await this.getFactoryAddress(network) : null;
+
+    console.log(`Deploying ${contractType} to ${network} for ${ownerAddress}${factoryAddress ? ` via factory ${factoryAddress}` : ''}`);
+
+    let contractAddress;
+    let receipt;
+
+    if (factoryAddress) {
+      const factory = new ethers.Contract(factoryAddress, this.loadArtifact('PresaleFactory').abi, wallet);
+      const tx = await factory.createPresale(...constructorArgs);
+      receipt = await tx.wait();
+
+      const createdEvent = receipt.logs
+        .map(log => {
+          try {
+            return factory.interface.parseLog(log);
+          } catch {
+            return null;
+          }
+        })
+        .find(parsed => parsed && parsed.name === 'PresaleCreated');
+
+      if (!createdEvent) {
+        throw new Error('PresaleCreated event not found in factory transaction');
+      }
+
+      contractAddress = createdEvent.args.presaleContract;
+    } else {
+      const contractFactory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, wallet);
+      const presale = await contractFactory.deploy(...constructorArgs);
+      await presale.waitForDeployment();
+
+      contractAddress = await presale.getAddress();
+      receipt = await presale.deploymentTransaction().wait();
+    }
+
+    // Both paths leave the deployer wallet as owner
+    const presale = new ethers.Contract(contractAddress, artifact.abi, wallet);
+
+    const { whitelistMerkleRoot } = presaleConfig.saleConfiguration;
+    if (whitelistMerkleRoot) {
+      const rootTx = await presale.setWhitelistMerkleRoot(whitelistMerkleRoot);
+      await rootTx.wait();
+    }
+
+    const ownershipTx = await presale.transferOwnership(ownerAddress);
+    await ownershipTx.wait();
+
+    const gasPrice = receipt.gasPrice || receipt.effectiveGasPrice || 0n;
+
+    return {
+      contractType,
+      contractAddress,
+      transactionHash: receipt.hash,
+      gasUsed: receipt.gasUsed.toString(),
+      deploymentCost: ethers.formatEther(receipt.gasUsed * gasPrice),
+      factoryAddress,
+      salePageUrl: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/sale/${contractAddress}`
+    };
+  }
+}
+
+module.exports = new PresaleDeploymentService();
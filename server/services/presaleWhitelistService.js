@@ -0,0 +1,149 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const { buildMerkleTree, getMerkleRoot, getMerkleProof } = require('../utils/merkle');
+const {
+  createPresaleWhitelist,
+  findPresaleWhitelistById,
+  findPresaleWhitelistByRoot,
+  assignPresaleWhitelist
+} = require('../db/models/PresaleWhitelist');
+
+const MAX_WHITELIST_SIZE = 50000;
+
+// Trees of the most recently proven whitelists; a 50k address tree takes a while to hash
+const MAX_CACHED_TREES = 10;
+
+const PRESALE_WHITELIST_ABI = [
+  'function whitelistMerkleRoot() view returns (bytes32)'
+];
+
+/**
+ * Builds Merkle whitelists for presales and serves proofs for them
+ */
+class PresaleWhitelistService {
+  constructor() {
+    // Tree layers by presale and Merkle root. A stored whitelist never changes for its root.
+    this.trees = new Map();
+  }
+
+  /**
+   * Dedupe and checksum a list of addresses
+   * @param {string[]} addresses - Raw addresses
+   * @returns {Object} - { addresses, invalid }
+   */
+  normalizeAddresses(addresses) {
+    const seen = new Set();
+    const valid = [];
+    const invalid = [];
+
+    for (const raw of addresses) {
+      const value = String(raw).trim();
+      if (!ethers.isAddress(value)) {
+        invalid.push(value);
+        continue;
+      }
+
+      const checksummed = ethers.getAddress(value);
+      if (!seen.has(checksummed)) {
+        seen.add(checksummed);
+        valid.push(checksummed);
+      }
+    }
+
+    return { addresses: valid, invalid };
+  }
+
+  /**
+   * Build and store a whitelist tree
+   * @param {string} ownerAddress - Sale owner
+   * @param {string} network - Network identifier
+   * @param {string[]} addresses - Whitelisted addresses
+   * @param {string} [presaleAddress] - Presale, if already deployed
+   * @returns {Promise<Object>} - Stored whitelist with the addresses that were skipped as invalid
+   */
+  async createWhitelist(ownerAddress, network, addresses, presaleAddress) {
+    const normalized = this.normalizeAddresses(addresses);
+
+    if (normalized.addresses.length === 0) {
+      throw new Error('Whitelist contains no valid addresses');
+    }
+
+    if (normalized.addresses.length > MAX_WHITELIST_SIZE) {
+      throw new Error(`Whitelist cannot contain more than ${MAX_WHITELIST_SIZE} addresses`);
+    }
+
+    const merkleRoot = getMerkleRoot(buildMerkleTree(normalized.addresses));
+    const whitelist = await createPresaleWhitelist({
+      owner: ownerAddress,
+      presaleAddress,
+      network,
+      merkleRoot,
+      addresses: normalized.addresses
+    });
+
+    return { ...whitelist, invalid_addresses: normalized.invalid };
+  }
+
+  /**
+   * Attach a whitelist built before deployment to its presale
+   * @returns {Promise<boolean>} - False if the whitelist does not belong to the owner
+   */
+  async assignWhitelist(id, presaleAddress, ownerAddress) {
+    const whitelist = await findPresaleWhitelistById(id);
+
+    if (!whitelist || whitelist.owner_address !== ownerAddress.toLowerCase()) {
+      return false;
+    }
+
+    await assignPresaleWhitelist(id, presaleAddress);
+    return true;
+  }
+
+  /**
+   * Merkle proof for an account against the presale's current on-chain root
+   * @param {string} presaleAddress - Presale contract
+   * @param {string} network - Network identifier
+   * @param {string} account - Buyer address
+   * @returns {Promise<Object>} - { merkleRoot, whitelisted, proof }
+   */
+  async getProof(presaleAddress, network, account) {
+    const presale = new ethers.Contract(presaleAddress, PRESALE_WHITELIST_ABI, getProvider(network));
+    const merkleRoot = await presale.whitelistMerkleRoot();
+
+    if (merkleRoot === ethers.ZeroHash) {
+      return { merkleRoot: null, whitelisted: false, proof: [] };
+    }
+
+    const layers = await this.getTree(presaleAddress, merkleRoot);
+    const proof = getMerkleProof(layers, ethers.getAddress(account));
+
+    return { merkleRoot, whitelisted: proof !== null, proof: proof || [] };
+  }
+
+  /**
+   * Layers of a presale's stored whitelist tree, built once and kept for the next proofs
+   */
+  async getTree(presaleAddress, merkleRoot) {
+    const key = `${presaleAddress.toLowerCase()}:${merkleRoot.toLowerCase()}`;
+
+    let layers = this.trees.get(key);
+    if (layers) {
+      this.trees.delete(key); // Re-inserted below as the most recently used
+    } else {
+      const whitelist = await findPresaleWhitelistByRoot(presaleAddress, merkleRoot);
+      if (!whitelist) {
+        throw new Error('Whitelist for the current Merkle root is not stored on the platform');
+      }
+      layers = buildMerkleTree(whitelist.addresses);
+    }
+
+    this.trees.set(key, layers);
+    if (this.trees.size > MAX_CACHED_TREES) {
+      this.trees.delete(this.trees.keys().next().value);
+    }
+
+    return layers;
+  }
+}
+
+module.exports = new PresaleWhitelistService();
@@ -0,0 +1,123 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const { findReferralLeaderboard, getReferralTotals } = require('../db/models/PresaleReferral');
+
+const PRESALE_REFERRAL_ABI = [
+  'function referralTracker() view returns (address)'
+];
+
+const REFERRAL_TRACKER_ABI = [
+  'function owner() view returns (address)',
+  'function baseToken() view returns (address)',
+  'function referralRate() view returns (uint256)',
+  'function totalReferralRewards() view returns (uint256)',
+  'function totalClaimedRewards() view returns (uint256)'
+];
+
+const ERC20_ABI = [
+  'function balanceOf(address) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)'
+];
+
+/**
+ * Convert a stored NUMERIC value to a BigInt
+ * @param {string|number|null} value - Database value
+ * @returns {bigint}
+ */
+function toBigInt(value) {
+  if (value === null || value === undefined) return 0n;
+  return BigInt(String(value).split('.')[0]);
+}
+
+/**
+ * Referral leaderboards and reward funding for PresaleContractV2 sales
+ */
+class ReferralService {
+  /**
+   * Decimals of the token a presale raises in
+   * @param {Object} presale - Presale row
+   * @returns {Promise<number>}
+   */
+  async getBaseTokenDecimals(presale) {
+    const baseToken = presale.sale_configuration?.baseToken;
+    if (!baseToken || !ethers.isAddress(baseToken)) return 18;
+
+    const token = new ethers.Contract(baseToken, ERC20_ABI, getProvider(presale.network_id));
+    return Number(await token.decimals().catch(() => 18));
+  }
+
+  /**
+   * Top referrers of a presale
+   * @param {Object} presale - Presale row
+   * @param {number} [limit] - Number of referrers
+   * @returns {Promise<Array>} - { referrer, referrals, volume, rewards }
+   */
+  async getLeaderboard(presale, limit = 20) {
+    const [rows, decimals] = await Promise.all([
+      findReferralLeaderboard(presale.contract_address, limit),
+      this.getBaseTokenDecimals(presale)
+    ]);
+
+    return rows.map((row, index) => ({
+      rank: index + 1,
+      referrer: row.referrer_address,
+      referrals: Number(row.referrals),
+      volume: ethers.formatUnits(toBigInt(row.volume), decimals),
+      rewards: ethers.formatUnits(toBigInt(row.rewards), decimals)
+    }));
+  }
+
+  /**
+   * Rewards accrued by a presale against what its referral tracker can pay out
+   * @param {Object} presale - Presale row
+   * @returns {Promise<Object>} - Reward totals, or { enabled: false } without a tracker
+   */
+  async getRewardsSummary(presale) {
+    const provider = getProvider(presale.network_id);
+    const presaleContract = new ethers.Contract(presale.contract_address, PRESALE_REFERRAL_ABI, provider);
+
+    // Only PresaleContractV2 has a tracker
+    const trackerAddress = await presaleContract.referralTracker().catch(() => ethers.ZeroAddress);
+    if (trackerAddress === ethers.ZeroAddress) {
+      return { enabled: false };
+    }
+
+    const tracker = new ethers.Contract(trackerAddress, REFERRAL_TRACKER_ABI, provider);
+    const [owner, baseTokenAddress, referralRate, totalRewards, totalClaimed, totals] = await Promise.all([
+      tracker.owner(),
+      tracker.baseToken(),
+      tracker.referralRate(),
+      tracker.totalReferralRewards(),
+      tracker.totalClaimedRewards(),
+      getReferralTotals(presale.contract_address)
+    ]);
+
+    const baseToken = new ethers.Contract(baseTokenAddress, ERC20_ABI, provider);
+    const [funded, decimals, symbol] = await Promise.all([
+      baseToken.balanceOf(trackerAddress),
+      baseToken.decimals(),
+      baseToken.symbol()
+    ]);
+
+    const owed = totalRewards - totalClaimed;
+    const shortfall = owed > funded ? owed - funded : 0n;
+
+    return {
+      enabled: true,
+      trackerAddress,
+      // recordPurchase is owner-only, so purchases are only credited when the tracker is owned by this sale
+      recordsPurchases: owner.toLowerCase() === presale.contract_address.toLowerCase(),
+      referralRate: Number(referralRate) / 10,
+      rewardSymbol: symbol,
+      referrers: Number(totals.referrers),
+      saleVolume: ethers.formatUnits(toBigInt(totals.volume), decimals),
+      saleRewards: ethers.formatUnits(toBigInt(totals.rewards), decimals),
+      trackerRewardsOwed: ethers.formatUnits(owed, decimals),
+      trackerFunded: ethers.formatUnits(funded, decimals),
+      shortfall: ethers.formatUnits(shortfall, decimals)
+    };
+  }
+}
+
+module.exports = new ReferralService();
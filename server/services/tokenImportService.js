@@ -0,0 +1,218 @@
+const { ethers } = require('ethers');
+const { getProvider } = require('../utils/blockchain');
+const { query } = require('../db');
+const { findTokenByAddress } = require('../db/models/Token');
+const networkRegistryService = require('./networkRegistryService');
+
+const EXTERNAL_TOKEN_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function owner() view returns (address)',
+  'function maxSupply() view returns (uint256)',
+  'function transferFeePercentage() view returns (uint256)',
+  'function feeRecipient() view returns (address)',
+  'function redistributionPercentage() view returns (uint256)'
+];
+
+// Capabilities of each token contract the platform deploys, by the contract_type it registers
+const PLATFORM_TOKENS = {
+  BasicToken: ['ownable', 'maxSupply'],
+  BurnableToken: ['ownable', 'maxSupply', 'burnable'],
+  MintableToken: ['ownable', 'maxSupply', 'mintable'],
+  BurnableMintableToken: ['ownable', 'maxSupply', 'mintable', 'burnable'],
+  FeeToken: ['ownable', 'maxSupply', 'transferFees'],
+  RedistributionToken: ['ownable', 'maxSupply', 'redistribution'],
+  AdvancedToken: ['ownable', 'maxSupply', 'mintable', 'burnable', 'transferFees', 'redistribution']
+};
+
+// Functions a token must expose for each management capability
+const CAPABILITY_FUNCTIONS = {
+  mintable: ['mint(address,uint256)'],
+  burnable: ['burn(uint256)'],
+  transferFees: ['transferFeePercentage()', 'feeRecipient()', 'setTransferFee(uint256)'],
+  redistribution: ['redistributionPercentage()', 'claimRewards()'],
+  maxSupply: ['maxSupply()'],
+  ownable: ['owner()']
+};
+
+const PUSH1 = 0x60;
+const PUSH4 = 0x63;
+const PUSH32 = 0x7f;
+
+// Whole-token amounts are stored the way the builder submits them, without a trailing ".0"
+function formatAmount(amount, decimals) {
+  return ethers.formatUnits(amount, decimals).replace(/\.0$/, '');
+}
+
+/**
+ * 4-byte values pushed by runtime code, which include the selectors its dispatcher compares against
+ * @param {string} code - Runtime bytecode
+ * @returns {Set<string>}
+ */
+function extractSelectors(code) {
+  const bytes = ethers.getBytes(code);
+  const selectors = new Set();
+
+  for (let i = 0; i < bytes.length; i++) {
+    const opcode = bytes[i];
+    if (opcode < PUSH1 || opcode > PUSH32) continue;
+
+    if (opcode === PUSH4) {
+      selectors.add(ethers.hexlify(bytes.slice(i + 1, i + 5)));
+    }
+    // Skip push data so it is never read as opcodes
+    i += opcode - PUSH1 + 1;
+  }
+
+  return selectors;
+}
+
+/**
+ * Registers tokens deployed outside the platform so their owners can manage them here
+ */
+class TokenImportService {
+  /**
+   * Import a token owned by the signed-in wallet as an "external" token
+   * @param {string} network - Network identifier
+   * @param {string} contractAddress - Token address
+   * @param {string} wallet - Signed-in wallet address
+   * @returns {Promise<Object>} - { token, capabilities } or { error, code }
+   */
+  async importToken(network, contractAddress, wallet) {
+    if (!networkRegistryService.getChainId(network)) {
+      return { error: `Unsupported network: ${network}`, code: 'UNSUPPORTED_NETWORK' };
+    }
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      return { error: 'A valid token address is required', code: 'INVALID_ADDRESS' };
+    }
+    if (await findTokenByAddress(contractAddress)) {
+      return { error: 'Token is already registered', code: 'ALREADY_REGISTERED' };
+    }
+
+    let provider;
+    try {
+      provider = getProvider(network);
+    } catch (error) {
+      return { error: error.message, code: 'RPC_NOT_CONFIGURED' };
+    }
+
+    const code = await provider.getCode(contractAddress);
+    if (code === '0x') {
+      return { error: 'No contract is deployed at this address', code: 'NOT_A_CONTRACT' };
+    }
+
+    const token = new ethers.Contract(contractAddress, EXTERNAL_TOKEN_ABI, provider);
+
+    // Ownership is proven by the contract itself, not by who deployed it
+    const owner = await token.owner().catch(() => null);
+    if (!owner) {
+      return { error: 'Token has no owner() to prove ownership with', code: 'NOT_OWNABLE' };
+    }
+    if (owner.toLowerCase() !== wallet.toLowerCase()) {
+      return { error: 'The signed-in wallet is not the token owner', code: 'NOT_OWNER' };
+    }
+
+    let name, symbol, decimals, totalSupply;
+    try {
+      [name, symbol, decimals, totalSupply] = await Promise.all([
+        token.name(),
+        token.symbol(),
+        token.decimals(),
+        token.totalSupply()
+      ]);
+    } catch (error) {
+      return { error: 'Contract is not an ERC-20 token', code: 'NOT_ERC20' };
+    }
+
+    const capabilities = this.detectCapabilities(code);
+
+    const [maxSupply, feePercentage, feeRecipient, redistributionPercentage] = await Promise.all([
+      capabilities.maxSupply ? token.maxSupply().catch(() => 0n) : 0n,
+      capabilities.transferFees ? token.transferFeePercentage().catch(() => 0n) : 0n,
+      capabilities.transferFees ? token.feeRecipient().catch(() => '') : '',
+      capabilities.redistribution ? token.redistributionPercentage().catch(() => 0n) : 0n
+    ]);
+
+    const features = {
+      burnable: capabilities.burnable,
+      mintable: capabilities.mintable,
+      // Percentages are stored on-chain in basis points
+      transferFees: { enabled: capabilities.transferFees, percentage: Number(feePercentage) / 100, recipient: feeRecipient },
+      holderRedistribution: { enabled: capabilities.redistribution, percentage: Number(redistributionPercentage) / 100 },
+      capabilities
+    };
+
+    // The deployment transaction is unknown; the indexer starts such tokens from its recent window
+    await query(
+      `INSERT INTO tokens
+      (contract_address, contract_type, name, symbol, decimals, initial_supply, max_supply,
+       owner_address, network_id, network_name, network_chain_id, transaction_hash, verified, features, deployment_method)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        contractAddress.toLowerCase(),
+        'external',
+        name,
+        symbol,
+        Number(decimals),
+        formatAmount(totalSupply, decimals),
+        formatAmount(maxSupply, decimals),
+        wallet.toLowerCase(),
+        network,
+        network,
+        networkRegistryService.getChainId(network),
+        null,
+        false,
+        JSON.stringify(features),
+        'import'
+      ]
+    );
+
+    return { token: await findTokenByAddress(contractAddress), capabilities };
+  }
+
+  /**
+   * What a registered token can do. Imported tokens keep what was detected at import, platform
+   * tokens get their contract type's capabilities and any other token is read from its code.
+   * @param {Object} token - Token record
+   * @returns {Promise<Object>} - { capabilities, contractType }
+   */
+  async getCapabilities(token) {
+    const contractType = token.contract_type;
+
+    if (token.features?.capabilities) {
+      return { capabilities: token.features.capabilities, contractType };
+    }
+
+    if (PLATFORM_TOKENS[contractType]) {
+      const capabilities = {};
+      for (const capability of Object.keys(CAPABILITY_FUNCTIONS)) {
+        capabilities[capability] = PLATFORM_TOKENS[contractType].includes(capability);
+      }
+      return { capabilities, contractType };
+    }
+
+    const code = await getProvider(token.network_id).getCode(token.contract_address);
+    return { capabilities: this.detectCapabilities(code), contractType };
+  }
+
+  /**
+   * Capabilities from the function selectors in the runtime code. A token behind a proxy shows
+   * only the proxy's selectors, so none of its implementation's capabilities are found.
+   * @param {string} code - Runtime bytecode
+   * @returns {Object} - Flag per capability
+   */
+  detectCapabilities(code) {
+    const selectors = extractSelectors(code);
+    const capabilities = {};
+
+    for (const [capability, signatures] of Object.entries(CAPABILITY_FUNCTIONS)) {
+      capabilities[capability] = signatures.every(signature => selectors.has(ethers.id(signature).slice(0, 10)));
+    }
+
+    return capabilities;
+  }
+}
+
+module.exports = new TokenImportService();
@@ -0,0 +1,51 @@
+// server/utils/blockchain.js
+const { ethers } = require('ethers');
+
+// Cache providers so repeated lookups reuse the same connection
+const providers = {};
+
+/**
+ * Get a JSON-RPC provider for a network
+ * @param {string} networkId - Network identifier (e.g. 'ethereum', 'bsc-testnet')
+ * @returns {ethers.JsonRpcProvider} - Provider connected to the network's RPC URL
+ */
+function getProvider(networkId) {
+  const rpcEnvVar = `${networkId.toUpperCase().replace(/-/g, '_')}_RPC_URL`;
+  const rpcUrl = process.env[rpcEnvVar];
+
+  if (!rpcUrl) {
+    throw new Error(`RPC URL not configured for network: ${networkId}`);
+  }
+
+  if (!providers[networkId]) {
+    providers[networkId] = new ethers.JsonRpcProvider(rpcUrl);
+  }
+
+  return providers[networkId];
+}
+
+/**
+ * Fetch logs for a block range in chunks to stay under RPC log-range limits
+ * @param {ethers.Provider} provider - Provider to query
+ * @param {Object} filter - Log filter (address, topics)
+ * @param {number} fromBlock - First block to include
+ * @param {number} toBlock - Last block to include
+ * @param {number} chunkSize - Maximum number of blocks per request
+ * @returns {Promise<Array>} - Logs ordered by block
+ */
+async function getLogsInChunks(provider, filter, fromBlock, toBlock, chunkSize = 2000) {
+  const logs = [];
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    const chunk = await provider.getLogs({ ...filter, fromBlock: start, toBlock: end });
+    logs.push(...chunk);
+  }
+
+  return logs;
+}
+
+module.exports = {
+  getProvider,
+  getLogsInChunks
+};
@@ -0,0 +1,117 @@
+// server/utils/explorer.js
+
+// Compiler settings the contracts are built with (must match hardhat.config.js)
+const COMPILER_SETTINGS = {
+  version: 'v0.8.19+commit.7dd6d404',
+  optimizer: {
+    enabled: true,
+    runs: 200
+  }
+};
+
+/**
+ * Get the Etherscan-compatible API of a network's block explorer
+ * @param {string} networkId - Network identifier (e.g. 'ethereum', 'bsc-testnet')
+ * @returns {{apiUrl: string, apiKey: string}} - API endpoint and key, which stay on the server
+ */
+function getExplorerConfig(networkId) {
+  const prefix = networkId.toUpperCase().replace(/-/g, '_');
+  const apiUrl = process.env[`${prefix}_EXPLORER_API_URL`];
+
+  if (!apiUrl) {
+    throw new Error(`Block explorer API not configured for network: ${networkId}`);
+  }
+
+  return {
+    apiUrl,
+    apiKey: process.env[`${prefix}_EXPLORER_API_KEY`] || process.env.EXPLORER_API_KEY || ''
+  };
+}
+
+/**
+ * Call a network's explorer API
+ * @param {string} networkId - Network identifier
+ * @param {Object} params - API parameters (module, action, ...), without the key
+ * @param {string} method - 'GET' sends the parameters as a query string, 'POST' as a form body
+ * @returns {Promise<{status: string, message: string, result: any}>} - Etherscan-style response envelope
+ */
+async function callExplorer(networkId, params, method = 'GET') {
+  const { apiUrl, apiKey } = getExplorerConfig(networkId);
+  const body = new URLSearchParams({ apikey: apiKey, ...params });
+
+  const response = method === 'POST'
+    ? await fetch(apiUrl, { method: 'POST', body })
+    : await fetch(`${apiUrl}?${body.toString()}`);
+
+  if (!response.ok) {
+    throw new Error(`Block explorer API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Check with the explorer whether a contract's source is verified
+ * @param {string} networkId - Network identifier
+ * @param {string} address - Contract address
+ * @returns {Promise<boolean>} - True if the explorer has source code for the contract
+ */
+async function isSourceVerified(networkId, address) {
+  const response = await callExplorer(networkId, {
+    module: 'contract',
+    action: 'getsourcecode',
+    address
+  });
+
+  // Unverified contracts come back with an empty SourceCode
+  const [contract] = Array.isArray(response.result) ? response.result : [];
+  return response.status === '1' && !!contract && !!contract.SourceCode;
+}
+
+/**
+ * Submit a single-file source for verification
+ * @param {string} networkId - Network identifier
+ * @param {Object} params - Verification request
+ * @param {string} params.address - Contract address
+ * @param {string} params.contractName - Contract name in the source
+ * @param {string} params.source - Flattened Solidity source
+ * @param {string} params.constructorArgs - ABI-encoded constructor arguments
+ * @returns {Promise<{status: string, message: string, result: string}>} - Result holds the GUID on success
+ */
+async function submitVerification(networkId, { address, contractName, source, constructorArgs }) {
+  return callExplorer(networkId, {
+    module: 'contract',
+    action: 'verifysourcecode',
+    contractaddress: address,
+    sourceCode: source,
+    codeformat: 'solidity-single-file',
+    contractname: contractName,
+    compilerversion: COMPILER_SETTINGS.version,
+    optimizationUsed: COMPILER_SETTINGS.optimizer.enabled ? '1' : '0',
+    runs: COMPILER_SETTINGS.optimizer.runs.toString(),
+    constructorArguements: (constructorArgs || '').replace(/^0x/, ''), // Etherscan's spelling
+    licenseType: '3' // MIT
+  }, 'POST');
+}
+
+/**
+ * Get the state of a submitted verification request
+ * @param {string} networkId - Network identifier
+ * @param {string} guid - GUID returned by the submission
+ * @returns {Promise<{status: string, message: string, result: string}>}
+ */
+async function checkVerificationStatus(networkId, guid) {
+  return callExplorer(networkId, {
+    module: 'contract',
+    action: 'checkverifystatus',
+    guid
+  });
+}
+
+module.exports = {
+  getExplorerConfig,
+  callExplorer,
+  isSourceVerified,
+  submitVerification,
+  checkVerificationStatus
+};
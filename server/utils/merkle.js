@@ -0,0 +1,59 @@
+const { ethers } = require('ethers');
+
+// Leaves are keccak256(abi.encodePacked(address)) and pairs are hashed in sorted order,
+// which is what OpenZeppelin's MerkleProof.verify expects
+
+function hashLeaf(address) {
+  return ethers.solidityPackedKeccak256(['address'], [address]);
+}
+
+function hashPair(a, b) {
+  return BigInt(a) < BigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+// Build every layer of the tree, leaves first. A node without a sibling moves up unchanged.
+function buildMerkleTree(addresses) {
+  const leaves = addresses.map(hashLeaf).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  const layers = [leaves];
+
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+
+  return layers;
+}
+
+function getMerkleRoot(layers) {
+  return layers[layers.length - 1][0] || ethers.ZeroHash;
+}
+
+// Proof for an address, or null if it is not a leaf of the tree
+function getMerkleProof(layers, address) {
+  let index = layers[0].indexOf(hashLeaf(address));
+  if (index === -1) return null;
+
+  const proof = [];
+  for (let depth = 0; depth < layers.length - 1; depth++) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < layers[depth].length) {
+      proof.push(layers[depth][siblingIndex]);
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return proof;
+}
+
+module.exports = {
+  hashLeaf,
+  buildMerkleTree,
+  getMerkleRoot,
+  getMerkleProof
+};
@@ -1,6 +1,7 @@
 // server/utils/tokenVerification.js
 const { query } = require('../db');
 const { ethers } = require('ethers');
+const { getProvider } = require('./blockchain');
 
 /**
  * Verify if a user is the owner of a token
@@ -71,7 +72,29 @@ async function isTokenHolder(tokenAddress, walletAddress) {
   }
 }
 
+/**
+ * Get a holder's token balance at a past block (requires an archive-capable RPC)
+ * @param {string} tokenAddress - The token contract address
+ * @param {string} walletAddress - The wallet address to check
+ * @param {string} networkId - Network the token is deployed on
+ * @param {number} blockNumber - Snapshot block
+ * @param {number} decimals - Token decimals
+ * @returns {Promise<string>} - Formatted balance at the snapshot block
+ */
+async function getBalanceAtBlock(tokenAddress, walletAddress, networkId, blockNumber, decimals = 18) {
+  const provider = getProvider(networkId);
+  const tokenContract = new ethers.Contract(
+    tokenAddress,
+    ['function balanceOf(address) view returns (uint256)'],
+    provider
+  );
+
+  const balance = await tokenContract.balanceOf(walletAddress, { blockTag: Number(blockNumber) });
+  return ethers.formatUnits(balance, decimals);
+}
+
 module.exports = {
   verifyTokenOwnership,
-  isTokenHolder
+  isTokenHolder,
+  getBalanceAtBlock
 };
@@ -40,7 +40,7 @@ function App() {
   const [currentStep, setCurrentStep] = useState<'landing' | 'builder' | 'vesting' | 'review' | 'success' | 'presale' | 'sales' | 'tokens' | 'sale' | 'explore' | 'manage' | 'liquidity-lock' | 'airdrop' | 'admin' | 'governance' | 'proposal'>('landing');
   const [tokenConfig, setTokenConfig] = useState<TokenConfig | null>(null);
   const [deploymentResult, setDeploymentResult] = useState<DeploymentResult | null>(null);
-  const [deploymentMethod, setDeploymentMethod] = useState<'primary' | 'fallback' | 'emergency'>('primary');
+  const [deploymentMethod, setDeploymentMethod] = useState<'primary' | 'fallback' | 'emergency' | 'factory'>('primary');
 
   // Handle network switching when mode changes or wallet connects
   useEffect(() => {
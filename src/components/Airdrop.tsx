@@ -18,6 +18,10 @@ import { saveAs } from 'file-saver';
 import { ethers } from 'ethers';
 import { useWallet } from '../hooks/useWallet';
 import { web3Service } from '../services/web3Service';
+import { useNetworkRegistry } from '../hooks/useNetworkRegistry';
+import { airdropCampaignService } from '../services/airdropCampaignService';
+import { networks } from '../data/networks';
+import { AirdropCampaignPanel } from './AirdropCampaignPanel';
 import MultiSenderABI from '../abis/MultiSender.json';
 
 interface AirdropRecipient {
@@ -28,7 +32,8 @@ interface AirdropRecipient {
 }
 
 export const Airdrop: React.FC = () => {
-  const { isConnected, address } = useWallet();
+  const { isConnected, address, chainId } = useWallet();
+  const { registry, isLoading: isRegistryLoading } = useNetworkRegistry(chainId);
   const [token, setToken] = useState('');
   const [tokenInfo, setTokenInfo] = useState<{
     name: string;
@@ -48,9 +53,23 @@ export const Airdrop: React.FC = () => {
   const [txHash, setTxHash] = useState<string | null>(null);
   const [isTokenApproved, setIsTokenApproved] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
+  const [batchLimit, setBatchLimit] = useState<number | null>(null);
 
-  // MultiSender contract address - using lowercase to avoid checksum errors
-  const MULTI_SENDER_ADDRESS = '0x742d35cc6634c0532925a3b8d4c9db96590c6c8c'.toLowerCase();
+  // MultiSender of the connected network, from the network registry - using lowercase to avoid checksum errors
+  const MULTI_SENDER_ADDRESS = (registry?.contracts.multiSender || '').toLowerCase();
+  const networkId = networks.find(n => n.chainId === chainId)?.id;
+  const validRecipientCount = recipients.filter(r => r.valid).length;
+  // More recipients than one multiSend call accepts are sent as a batched campaign
+  const isCampaign = batchLimit !== null && validRecipientCount > batchLimit;
+
+  useEffect(() => {
+    setBatchLimit(null);
+    if (!MULTI_SENDER_ADDRESS) return;
+
+    airdropCampaignService.getBatchLimit(MULTI_SENDER_ADDRESS)
+      .then(setBatchLimit)
+      .catch(error => console.error('Error loading MultiSender batch limit:', error));
+  }, [MULTI_SENDER_ADDRESS]);
 
   useEffect(() => {
     if (token && ethers.isAddress(token)) {
@@ -59,7 +78,7 @@ export const Airdrop: React.FC = () => {
       setTokenInfo(null);
       setIsTokenApproved(false);
     }
-  }, [token, address]);
+  }, [token, address, MULTI_SENDER_ADDRESS]);
 
   useEffect(() => {
     calculateTotalAmount();
@@ -93,7 +112,7 @@ export const Airdrop: React.FC = () => {
         tokenContract.symbol(),
         tokenContract.decimals(),
         tokenContract.balanceOf(address),
-        tokenContract.allowance(address, ethers.getAddress(MULTI_SENDER_ADDRESS))
+        MULTI_SENDER_ADDRESS ? tokenContract.allowance(address, ethers.getAddress(MULTI_SENDER_ADDRESS)) : 0n
       ]);
       
       setTokenInfo({
@@ -152,7 +171,7 @@ export const Airdrop: React.FC = () => {
   const estimateGas = async () => {
     try {
       const provider = web3Service.getProvider();
-      if (!provider || !token || !tokenInfo) return;
+      if (!provider || !token || !tokenInfo || !MULTI_SENDER_ADDRESS) return;
       
       try {
         const multiSenderContract = new ethers.Contract(
@@ -300,6 +319,7 @@ export const Airdrop: React.FC = () => {
     try {
       const signer = web3Service.getSigner();
       if (!signer) throw new Error('Wallet connection issue');
+      if (!MULTI_SENDER_ADDRESS) throw new Error('Airdrops are not available on this network');
       
       try {
         // Calculate total amount to approve (with some buffer)
@@ -351,6 +371,7 @@ export const Airdrop: React.FC = () => {
     try {
       const signer = web3Service.getSigner();
       if (!signer) throw new Error('Wallet connection issue');
+      if (!MULTI_SENDER_ADDRESS) throw new Error('Airdrops are not available on this network');
       
       try {
         // Prepare recipient addresses and amounts
@@ -572,9 +593,17 @@ export const Airdrop: React.FC = () => {
                 <div className="flex justify-between">
                   <span className="text-gray-300">Recipients</span>
                   <span className="text-white font-medium">
-                    {recipients.filter(r => r.valid).length}
+                    {validRecipientCount}
                   </span>
                 </div>
+                {isCampaign && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Batches</span>
+                    <span className="text-white font-medium">
+                      {Math.ceil(validRecipientCount / batchLimit!)} of up to {batchLimit}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-300">Total Amount</span>
                   <span className="text-white font-medium">
@@ -590,52 +619,64 @@ export const Airdrop: React.FC = () => {
                   </div>
                 )}
                 
-                <div className="border-t border-white/20 pt-4">
-                  {tokenInfo && !isTokenApproved ? (
-                    <button
-                      onClick={handleApproveToken}
-                      disabled={isApproving || !tokenInfo || parseFloat(totalAmount) <= 0}
-                      className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
-                    >
-                      {isApproving ? (
-                        <>
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                          <span>Approving...</span>
-                        </>
-                      ) : (
-                        <>
-                          <span>Approve Token</span>
-                        </>
-                      )}
-                    </button>
-                  ) : (
-                    <button
-                      onClick={handleSendAirdrop}
-                      disabled={
-                        isSending || 
-                        !tokenInfo || 
-                        !isTokenApproved || 
-                        recipients.filter(r => r.valid).length === 0 ||
-                        parseFloat(totalAmount) <= 0
-                      }
-                      className="w-full bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
-                    >
-                      {isSending ? (
-                        <>
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                          <span>Sending...</span>
-                        </>
-                      ) : (
-                        <>
-                          <Send className="w-4 h-4" />
-                          <span>Send Airdrop</span>
-                        </>
-                      )}
-                    </button>
-                  )}
-                </div>
+                {!isCampaign && (
+                  <div className="border-t border-white/20 pt-4">
+                    {tokenInfo && !isTokenApproved ? (
+                      <button
+                        onClick={handleApproveToken}
+                        disabled={isApproving || !tokenInfo || !MULTI_SENDER_ADDRESS || parseFloat(totalAmount) <= 0}
+                        className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+                      >
+                        {isApproving ? (
+                          <>
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            <span>Approving...</span>
+                          </>
+                        ) : (
+                          <>
+                            <span>Approve Token</span>
+                          </>
+                        )}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleSendAirdrop}
+                        disabled={
+                          isSending || 
+                          !tokenInfo || 
+                          !MULTI_SENDER_ADDRESS || 
+                          !isTokenApproved || 
+                          recipients.filter(r => r.valid).length === 0 ||
+                          parseFloat(totalAmount) <= 0
+                        }
+                        className="w-full bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+                      >
+                        {isSending ? (
+                          <>
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                            <span>Sending...</span>
+                          </>
+                        ) : (
+                          <>
+                            <Send className="w-4 h-4" />
+                            <span>Send Airdrop</span>
+                          </>
+                        )}
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
               
+              {isConnected && !isRegistryLoading && !MULTI_SENDER_ADDRESS && (
+                <div className="mt-4 p-3 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+                  <div className="flex items-start space-x-3">
+                    <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+                    <p className="text-amber-300 text-sm">No MultiSender contract is deployed on the connected network.</p>
+                  </div>
+                </div>
+              )}
+
               {error && (
                 <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
                   <div className="flex items-start space-x-3">
@@ -670,15 +711,28 @@ export const Airdrop: React.FC = () => {
               )}
             </div>
 
+            {tokenInfo && MULTI_SENDER_ADDRESS && networkId && batchLimit !== null && (
+              <AirdropCampaignPanel
+                tokenAddress={token}
+                tokenSymbol={tokenInfo.symbol}
+                tokenDecimals={tokenInfo.decimals}
+                networkId={networkId}
+                multiSenderAddress={MULTI_SENDER_ADDRESS}
+                batchLimit={batchLimit}
+                recipients={recipients.filter(r => r.valid).map(r => ({ address: r.address, amount: r.amount }))}
+              />
+            )}
+
             {/* Instructions */}
             <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
               <h3 className="text-lg font-semibold text-white mb-4">Instructions</h3>
               
               <ol className="space-y-3 text-gray-300 text-sm list-decimal list-inside">
                 <li>Enter the token contract address</li>
-                <li>Add recipient addresses and amounts manually or upload a CSV file</li>
+                <li>Add recipient addresses and amounts manually or upload a CSV file, such as a holder snapshot from Token Management</li>
                 <li>Approve the token for airdrop (one-time per token)</li>
                 <li>Review the summary and send the airdrop</li>
+                <li>Lists larger than the MultiSender batch limit run as a campaign that can be resumed if interrupted</li>
               </ol>
               
               <div className="mt-4 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg">
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Layers, Play, RotateCcw, Download, XCircle, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { airdropCampaignService } from '../services/airdropCampaignService';
+import {
+  AirdropCampaign,
+  AirdropCampaignProgress,
+  AirdropCampaignRecipient,
+  AirdropCampaignSummary
+} from '../types/airdrop';
+
+interface AirdropCampaignPanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  networkId: string;
+  multiSenderAddress: string;
+  batchLimit: number;
+  recipients: AirdropCampaignRecipient[];
+}
+
+const STATUS_COLORS: Record<AirdropCampaignSummary['status'], string> = {
+  pending: 'text-gray-300',
+  running: 'text-blue-400',
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-400'
+};
+
+export const AirdropCampaignPanel: React.FC<AirdropCampaignPanelProps> = ({
+  tokenAddress,
+  tokenSymbol,
+  tokenDecimals,
+  networkId,
+  multiSenderAddress,
+  batchLimit,
+  recipients
+}) => {
+  const [campaigns, setCampaigns] = useState<AirdropCampaignSummary[]>([]);
+  const [runningId, setRunningId] = useState<number | null>(null);
+  const [progress, setProgress] = useState<AirdropCampaignProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadCampaigns = useCallback(async () => {
+    try {
+      setCampaigns(await airdropCampaignService.getCampaigns(tokenAddress, networkId));
+    } catch (error) {
+      console.error('Error loading airdrop campaigns:', error);
+    }
+  }, [tokenAddress, networkId]);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const run = async (campaign: AirdropCampaign) => {
+    setRunningId(campaign.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const finished = await airdropCampaignService.runCampaign(campaign, multiSenderAddress, (_, update) => setProgress(update));
+      setSuccess(`Campaign #${finished.id} sent ${finished.recipientCount.toLocaleString()} transfers`);
+    } catch (error) {
+      setError((error as Error).message || 'Airdrop campaign failed');
+    } finally {
+      setRunningId(null);
+      setProgress(null);
+      await loadCampaigns();
+    }
+  };
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      const campaign = await airdropCampaignService.createCampaign({
+        networkId,
+        tokenAddress,
+        decimals: tokenDecimals,
+        batchSize: batchLimit,
+        recipients
+      });
+      await run(campaign);
+    } catch (error) {
+      setError((error as Error).message || 'Failed to start airdrop campaign');
+    }
+  };
+
+  const handleResume = async (id: number) => {
+    setError(null);
+    try {
+      await run(await airdropCampaignService.getCampaign(id));
+    } catch (error) {
+      setError((error as Error).message || 'Failed to resume airdrop campaign');
+    }
+  };
+
+  const handleCancel = async (id: number) => {
+    try {
+      await airdropCampaignService.cancelCampaign(id);
+      await loadCampaigns();
+    } catch (error) {
+      setError((error as Error).message || 'Failed to cancel airdrop campaign');
+    }
+  };
+
+  const handleReport = async (id: number) => {
+    try {
+      const blob = await airdropCampaignService.exportReport(id, 'csv');
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `airdrop-campaign-${id}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting airdrop report:', error);
+      setError((error as Error).message || 'Failed to export airdrop report');
+    }
+  };
+
+  const isRunning = runningId !== null;
+  const batchCount = Math.ceil(recipients.length / batchLimit);
+  const stageLabels: Record<NonNullable<AirdropCampaignProgress['stage']>, string> = {
+    approving: 'Approving the total amount',
+    sending: 'Sending',
+    confirming: 'Confirming'
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center space-x-2">
+        <Layers className="w-5 h-5 text-blue-400" />
+        <span>Campaigns</span>
+      </h3>
+
+      {recipients.length > batchLimit && (
+        <div className="mb-4 space-y-3">
+          <p className="text-gray-300 text-sm">
+            {recipients.length.toLocaleString()} recipients exceed the MultiSender limit of {batchLimit}, so they are sent
+            as a campaign of {batchCount} batches. One approval covers every batch.
+          </p>
+          <button
+            onClick={handleStart}
+            disabled={isRunning}
+            className="w-full bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            <span>Start Campaign</span>
+          </button>
+        </div>
+      )}
+
+      {progress && (
+        <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg">
+          <div className="flex items-center space-x-2 text-blue-300 text-sm mb-2">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>
+              {progress.stage ? stageLabels[progress.stage] : 'Working'}
+              {progress.currentBatch !== null && ` batch ${progress.currentBatch + 1} of ${progress.totalBatches}`}
+            </span>
+          </div>
+          <div className="w-full bg-white/10 rounded-full h-2">
+            <div
+              className="bg-blue-500 h-2 rounded-full transition-all"
+              style={{ width: `${(progress.confirmedBatches / progress.totalBatches) * 100}%` }}
+            />
+          </div>
+          <p className="text-gray-400 text-xs mt-1">
+            {progress.confirmedBatches} of {progress.totalBatches} batches confirmed
+          </p>
+        </div>
+      )}
+
+      {campaigns.length === 0 ? (
+        <p className="text-gray-400 text-sm">No campaigns for this token yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {campaigns.map(campaign => {
+            const canResume = ['pending', 'running', 'failed'].includes(campaign.status);
+            return (
+              <div key={campaign.id} className="p-3 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <span className="text-white text-sm font-medium">Campaign #{campaign.id}</span>
+                  <span className={`text-xs font-medium capitalize ${STATUS_COLORS[campaign.status]}`}>{campaign.status}</span>
+                </div>
+                <p className="text-gray-400 text-xs mt-1">
+                  {parseFloat(campaign.totalAmount).toLocaleString()} {tokenSymbol} to {campaign.recipientCount.toLocaleString()} recipients
+                  {' · '}{campaign.confirmedBatches} of {airdropCampaignService.getBatchCount(campaign)} batches sent
+                </p>
+                {campaign.error && campaign.status === 'failed' && (
+                  <p className="text-red-300 text-xs mt-1 break-words">{campaign.error}</p>
+                )}
+                <div className="flex space-x-2 mt-2">
+                  {canResume && (
+                    <button
+                      onClick={() => handleResume(campaign.id)}
+                      disabled={isRunning}
+                      className="px-2 py-1 bg-blue-500/20 text-blue-400 rounded text-xs flex items-center space-x-1 hover:bg-blue-500/30 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>{runningId === campaign.id ? 'Running...' : 'Resume'}</span>
+                    </button>
+                  )}
+                  {canResume && (
+                    <button
+                      onClick={() => handleCancel(campaign.id)}
+                      disabled={isRunning}
+                      className="px-2 py-1 bg-red-500/20 text-red-400 rounded text-xs flex items-center space-x-1 hover:bg-red-500/30 disabled:opacity-50"
+                    >
+                      <XCircle className="w-3 h-3" />
+                      <span>Cancel</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleReport(campaign.id)}
+                    className="px-2 py-1 bg-white/10 text-gray-300 rounded text-xs flex items-center space-x-1 hover:bg-white/20"
+                  >
+                    <Download className="w-3 h-3" />
+                    <span>Report</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mt-4 p-3 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-400 mt-0.5" />
+            <p className="text-green-400 text-sm">{success}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
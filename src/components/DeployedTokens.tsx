@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   ExternalLink, 
   Copy, 
@@ -15,7 +15,9 @@ import {
   Twitter,
   MessageCircle,
   Settings,
-  VoteIcon
+  VoteIcon,
+  RefreshCw,
+  Plus
 } from 'lucide-react';
 import { Network } from '../types';
 import { networks } from '../data/networks';
@@ -42,6 +44,51 @@ interface DeployedToken {
   transfers: number;
 }
 
+// Features as stored for a registered token: an object for registered tokens, labels for mock data
+interface RegisteredToken {
+  contractType?: string;
+  features?: string[] | {
+    burnable?: boolean;
+    mintable?: boolean;
+    transferFees?: { enabled?: boolean };
+    holderRedistribution?: { enabled?: boolean };
+  };
+}
+
+// Labels for the features a token was registered with; external tokens carry what was detected on import
+const getFeatureLabels = (token: RegisteredToken): string[] => {
+  if (Array.isArray(token.features)) return token.features;
+
+  const features = token.features || {};
+  const labels: string[] = token.contractType === 'external' ? ['External'] : [];
+  if (features.burnable || token.contractType?.includes('Burnable')) labels.push('Burnable');
+  if (features.mintable) labels.push('Mintable');
+  if (features.transferFees?.enabled) labels.push('Transfer Fees');
+  if (features.holderRedistribution?.enabled) labels.push('Redistribution');
+  return labels;
+};
+
+// Map API tokens to the DeployedToken interface; statistics are precomputed by the backend indexer
+const mapDeployedTokens = (tokens: Awaited<ReturnType<typeof contractService.getDeployedTokens>>): DeployedToken[] => {
+  return tokens.map((token: any, index: number) => ({
+    id: (index + 1).toString(),
+    name: token.name,
+    symbol: token.symbol,
+    contractAddress: token.contractAddress,
+    network: networks.find(n => n.id === token.network.id) || networks[0],
+    deploymentDate: new Date(token.timestamp || token.deploymentDate).toISOString(),
+    totalSupply: token.currentSupply || token.totalSupply || '0',
+    maxSupply: token.maxSupply || '0',
+    decimals: token.decimals || 18,
+    transactionHash: token.transactionHash || '',
+    features: getFeatureLabels(token),
+    status: 'verified',
+    holders: token.holders || 0,
+    transfers: token.transfers || 0
+  }));
+};
+
+
 export const DeployedTokens: React.FC = () => {
   const [selectedNetwork, setSelectedNetwork] = useState<Network | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -57,6 +104,13 @@ export const DeployedTokens: React.FC = () => {
 
   // State for deployed tokens
   const [deployedTokens, setDeployedTokens] = useState<DeployedToken[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [showExternalImport, setShowExternalImport] = useState(false);
+  const [externalNetworkId, setExternalNetworkId] = useState('');
+  const [externalAddress, setExternalAddress] = useState('');
+  
   
   // Load deployed tokens from contractService
   useEffect(() => {
@@ -64,26 +118,7 @@ export const DeployedTokens: React.FC = () => {
       try {
         // Get deployed tokens from API
         const tokens = await contractService.getDeployedTokens();
-        
-        // Map to DeployedToken interface
-        const mappedTokens: DeployedToken[] = tokens.map((token: any, index: number) => {
-          return {
-            id: (index + 1).toString(),
-            name: token.name,
-            symbol: token.symbol,
-            contractAddress: token.contractAddress,
-            network: networks.find(n => n.id === token.network.id) || networks[0],
-            deploymentDate: new Date(token.timestamp).toISOString(),
-            totalSupply: token.totalSupply || '0',
-            maxSupply: token.maxSupply || '0',
-            decimals: token.decimals || 18,
-            transactionHash: token.transactionHash || '',
-            features: token.contractType.includes('Burnable') ? ['Burnable'] : [],
-            status: 'verified',
-            holders: 0, // Will be updated by fetchTokenStatistics
-            transfers: 0 // Will be updated by fetchTokenStatistics
-          };
-        });
+        const mappedTokens = mapDeployedTokens(tokens);
         
         setDeployedTokens(mappedTokens);
         
@@ -92,16 +127,60 @@ export const DeployedTokens: React.FC = () => {
         
         // Fetch badges for each token
         fetchTokenBadges(mappedTokens);
-        
-        // Fetch real statistics for each token
-        await fetchTokenStatistics(mappedTokens);
       } catch (error) {
         console.error('Error loading deployed tokens:', error);
       }
     };
     
     loadDeployedTokens();
-  }, []);
+  }, [reloadKey]);
+
+  // Pick up tokens created through TokenFactory outside the platform's deploy flow
+  const handleImportFactoryTokens = async () => {
+    if (!selectedNetwork) return;
+
+    setIsImporting(true);
+    setImportMessage(null);
+    try {
+      const { imported, failed } = await contractService.importFactoryTokens(selectedNetwork);
+      const importedMessage = imported.length > 0
+        ? `Imported ${imported.length} token${imported.length === 1 ? '' : 's'} from TokenFactory`
+        : 'No new TokenFactory tokens found';
+      setImportMessage(
+        failed.length > 0
+          ? `${importedMessage}; ${failed.length} could not be read and ${failed.length === 1 ? 'was' : 'were'} skipped`
+          : importedMessage
+      );
+      if (imported.length > 0) {
+        setReloadKey(key => key + 1);
+      }
+    } catch (error) {
+      console.error('Error importing factory tokens:', error);
+      setImportMessage((error as Error).message || 'Failed to import factory tokens');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Register a token deployed elsewhere that the connected wallet owns
+  const handleImportExternalToken = async () => {
+    if (!externalNetworkId || !externalAddress) return;
+
+    setIsImporting(true);
+    setImportMessage(null);
+    try {
+      const { token } = await contractService.importExternalToken(externalNetworkId, externalAddress.trim());
+      setImportMessage(`Imported ${token.name} (${token.symbol})`);
+      setExternalAddress('');
+      setShowExternalImport(false);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error importing external token:', error);
+      setImportMessage((error as Error).message || 'Failed to import token');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   const fetchTokenMetadata = async (tokens: DeployedToken[]) => {
     try {
@@ -168,48 +247,29 @@ export const DeployedTokens: React.FC = () => {
     }
   };
 
-  const fetchTokenStatistics = async (tokens: DeployedToken[]) => {
+  const fetchTokenStatistics = useCallback(async () => {
     try {
-      // Fetch statistics for all tokens in parallel
-      const updatedTokens = await Promise.all(
-        tokens.map(async (token) => {
-          try {
-            const stats = await contractService.getTokenStatistics(token.contractAddress, token.network);
-            return {
-              ...token,
-              holders: stats.holders,
-              transfers: stats.transfers,
-              totalSupply: stats.totalSupply || token.totalSupply
-            };
-          } catch (error) {
-            console.error(`Error fetching stats for token ${token.contractAddress}:`, error);
-            return token; // Return original token if stats fetch fails
-          }
-        })
-      );
-      
-      // Update state with real statistics
-      setDeployedTokens(updatedTokens);
+      // One request returns every token with its indexed statistics
+      const tokens = await contractService.getDeployedTokens();
+      setDeployedTokens(mapDeployedTokens(tokens));
     } catch (error) {
       console.error('Error fetching token statistics:', error);
     }
-  };
+  }, []);
 
   // Refresh statistics periodically
   useEffect(() => {
     if (deployedTokens.length > 0) {
       const interval = setInterval(() => {
-        fetchTokenStatistics(deployedTokens);
+        fetchTokenStatistics();
       }, 30000); // Refresh every 30 seconds
       
       return () => clearInterval(interval);
     }
-  }, [deployedTokens.length]);
+  }, [deployedTokens.length, fetchTokenStatistics]);
 
   const refreshTokenData = async () => {
-    if (deployedTokens.length > 0) {
-      await fetchTokenStatistics(deployedTokens);
-    }
+    await fetchTokenStatistics();
   };
 
   const getTokenStatsSummary = () => {
@@ -354,7 +414,67 @@ export const DeployedTokens: React.FC = () => {
 
         {/* Network Selection */}
         <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10 mb-8">
-          <h2 className="text-xl font-semibold text-white mb-4">Filter by Network</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-white">Filter by Network</h2>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => {
+                  setShowExternalImport(!showExternalImport);
+                  setExternalNetworkId(selectedNetwork?.id || externalNetworkId);
+                }}
+                className="flex items-center space-x-2 px-3 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Import Token</span>
+              </button>
+              {selectedNetwork && (
+                <button
+                  onClick={handleImportFactoryTokens}
+                  disabled={isImporting}
+                  className="flex items-center space-x-2 px-3 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isImporting ? 'animate-spin' : ''}`} />
+                  <span>Import from TokenFactory</span>
+                </button>
+              )}
+            </div>
+          </div>
+          {showExternalImport && (
+            <div className="bg-white/5 rounded-lg p-4 mb-4">
+              <p className="text-sm text-gray-300 mb-3">
+                Import a token deployed outside the platform. Its owner() must be your connected wallet.
+              </p>
+              <div className="flex flex-col md:flex-row gap-3">
+                <select
+                  value={externalNetworkId}
+                  onChange={(e) => setExternalNetworkId(e.target.value)}
+                  className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="" className="bg-slate-800">Select network</option>
+                  {networks.map(network => (
+                    <option key={network.id} value={network.id} className="bg-slate-800">{network.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={externalAddress}
+                  onChange={(e) => setExternalAddress(e.target.value)}
+                  placeholder="Token address (0x...)"
+                  className="flex-1 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleImportExternalToken}
+                  disabled={isImporting || !externalNetworkId || !/^0x[a-fA-F0-9]{40}$/.test(externalAddress.trim())}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  {isImporting ? 'Importing...' : 'Import'}
+                </button>
+              </div>
+            </div>
+          )}
+          {importMessage && (
+            <p className="text-sm text-gray-300 mb-4">{importMessage}</p>
+          )}
           
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 mb-4">
             <button
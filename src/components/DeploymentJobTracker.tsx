@@ -0,0 +1,110 @@
+import React from 'react';
+import { CheckCircle, XCircle, MinusCircle, Circle, ExternalLink, RefreshCw, Trash2 } from 'lucide-react';
+import { DeploymentJob, DeploymentJobStep, DeploymentStepStatus } from '../types/deploymentJob';
+
+interface DeploymentJobTrackerProps {
+  job: DeploymentJob;
+  isRunning: boolean;
+  onResume?: () => void;
+  onDiscard?: () => void;
+}
+
+const STEP_LABELS: Record<DeploymentJobStep, { title: string; description: string }> = {
+  payment: { title: 'Service Fee', description: 'Pay the ESR deployment fee' },
+  deploy: { title: 'Deploy Token', description: 'Deploy the token contract' },
+  register: { title: 'Register', description: 'Record the token in your dashboard' },
+  verify: { title: 'Verify Source', description: 'Publish the source code on the explorer' },
+  vesting: { title: 'Vesting', description: 'Deploy and fund the vesting contract' },
+  metadata: { title: 'Metadata', description: 'Save description and social links' }
+};
+
+const StepIcon: React.FC<{ status: DeploymentStepStatus }> = ({ status }) => {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle className="w-5 h-5 text-green-400" />;
+    case 'failed':
+      return <XCircle className="w-5 h-5 text-red-400" />;
+    case 'skipped':
+      return <MinusCircle className="w-5 h-5 text-gray-500" />;
+    case 'running':
+      return <div className="w-5 h-5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />;
+    default:
+      return <Circle className="w-5 h-5 text-gray-500" />;
+  }
+};
+
+export const DeploymentJobTracker: React.FC<DeploymentJobTrackerProps> = ({ job, isRunning, onResume, onDiscard }) => {
+  const explorerUrl = job.config.token.network.explorerUrl;
+  const canResume = !isRunning && job.status !== 'completed' && job.status !== 'cancelled';
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Deployment Progress</h2>
+          <p className="text-sm text-gray-400">
+            {job.config.token.name} ({job.config.token.symbol}) on {job.config.token.network.name}
+          </p>
+        </div>
+        {job.status === 'failed' && !isRunning && (
+          <span className="px-3 py-1 rounded-full text-sm text-red-400 bg-red-500/20">Interrupted</span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {job.steps.map(step => (
+          <div key={step.step} className="flex items-start justify-between p-3 bg-white/5 rounded-lg">
+            <div className="flex items-start space-x-3">
+              <StepIcon status={step.status} />
+              <div>
+                <div className={`font-medium ${step.status === 'skipped' ? 'text-gray-400' : 'text-white'}`}>
+                  {STEP_LABELS[step.step].title}
+                </div>
+                <div className="text-sm text-gray-400">{STEP_LABELS[step.step].description}</div>
+                {step.error && (
+                  <div className={`text-sm mt-1 ${step.status === 'failed' ? 'text-red-400' : 'text-amber-400'}`}>
+                    {step.error}
+                  </div>
+                )}
+              </div>
+            </div>
+            {step.transactionHash && (
+              <a
+                href={`${explorerUrl}/tx/${step.transactionHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center space-x-1 text-sm text-blue-400 hover:text-blue-300"
+              >
+                <span className="font-mono">{step.transactionHash.slice(0, 10)}...</span>
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canResume && (onResume || onDiscard) && (
+        <div className="flex justify-end space-x-3 mt-4">
+          {onDiscard && (
+            <button
+              onClick={onDiscard}
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors flex items-center space-x-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Discard</span>
+            </button>
+          )}
+          {onResume && (
+            <button
+              onClick={onResume}
+              className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>{job.status === 'failed' ? 'Retry' : 'Resume'}</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
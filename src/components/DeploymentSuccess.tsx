@@ -1,11 +1,12 @@
 import React from 'react';
-import { CheckCircle, ExternalLink, Copy, Share2, Download, RefreshCw, ArrowLeft } from 'lucide-react';
+import { CheckCircle, ExternalLink, Copy, Share2, Download, RefreshCw, ArrowLeft, Lock, AlertTriangle } from 'lucide-react';
 import { DeploymentResult } from '../types';
 import { TokenMetadataForm } from './TokenMetadataForm';
+import { vestingCategories } from '../data/vestingCategories';
 
 interface DeploymentSuccessProps {
   result: DeploymentResult;
-  deploymentMethod?: 'primary' | 'fallback' | 'emergency';
+  deploymentMethod?: 'primary' | 'fallback' | 'emergency' | 'factory';
   onStartNew: () => void;
 }
 
@@ -71,6 +72,8 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({
         return { label: 'Fallback (Frontend)', color: 'text-yellow-400 bg-yellow-500/20' };
       case 'emergency':
         return { label: 'Emergency (Backend)', color: 'text-red-400 bg-red-500/20' };
+      case 'factory':
+        return { label: 'TokenFactory (Wallet)', color: 'text-blue-400 bg-blue-500/20' };
       default:
         return { label: 'Unknown', color: 'text-gray-400 bg-gray-500/20' };
     }
@@ -201,6 +204,78 @@ export const DeploymentSuccess: React.FC<DeploymentSuccessProps> = ({
           </div>
         </div>
 
+        {/* Vesting */}
+        {result.vesting && (
+          <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 mb-8">
+            <div className="flex items-center space-x-3 mb-6">
+              <Lock className="w-6 h-6 text-blue-400" />
+              <h2 className="text-2xl font-semibold text-white">Vesting Contract</h2>
+            </div>
+
+            <div className="flex items-center space-x-2 bg-white/10 rounded-lg p-3 mb-6">
+              <code className="text-white font-mono text-sm flex-1">
+                {result.vesting.contractAddress}
+              </code>
+              <button
+                onClick={() => copyToClipboard(result.vesting!.contractAddress, 'vesting')}
+                className="p-1 text-gray-400 hover:text-white transition-colors"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <a
+                href={`${result.network.explorerUrl}/address/${result.vesting.contractAddress}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="p-1 text-gray-400 hover:text-white transition-colors"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            </div>
+            {copied === 'vesting' && <p className="text-green-400 text-sm -mt-4 mb-4">Copied!</p>}
+
+            <div className="space-y-3">
+              {result.vesting.schedules.map(schedule => {
+                const category = vestingCategories.find(c => c.id === schedule.category);
+                return (
+                  <div key={schedule.beneficiary} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+                    <div>
+                      <div className="text-white font-medium">{category?.name || schedule.category}</div>
+                      <div className="text-xs text-gray-400 font-mono">{schedule.beneficiary}</div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-white font-medium">{parseFloat(schedule.amount).toLocaleString()}</div>
+                      <div className="text-sm text-gray-300">
+                        {schedule.duration} days from {new Date(schedule.startTime * 1000).toLocaleDateString()}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="text-sm text-gray-300 mt-4">
+              Total vested: {parseFloat(result.vesting.totalAmount).toLocaleString()}
+            </div>
+          </div>
+        )}
+
+        {result.vestingError && (
+          <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-xl p-6 mb-8">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-400 mt-0.5" />
+              <div>
+                <h3 className="font-medium text-yellow-400 mb-1">Vesting Setup Incomplete</h3>
+                <p className="text-yellow-300 text-sm">
+                  Your token was deployed, but the vesting contract could not be set up: {result.vestingError}
+                </p>
+                <p className="text-yellow-300 text-sm mt-2">
+                  You can create vesting schedules later from the token management page.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Token Metadata Form */}
         {showMetadataForm && (
           <div className="bg-white/5 backdrop-blur-sm rounded-xl p-8 border border-white/10 mb-8">
@@ -14,6 +14,7 @@ import { ethers } from 'ethers';
 import { useWallet } from '../hooks/useWallet';
 import { web3Service } from '../services/web3Service';
 import LiquidityLockerABI from '../abis/LiquidityLocker.json';
+import { useNetworkRegistry } from '../hooks/useNetworkRegistry';
 
 interface LockInfo {
   id: string;
@@ -26,7 +27,8 @@ interface LockInfo {
 }
 
 export const LiquidityLock: React.FC = () => {
-  const { isConnected, address } = useWallet();
+  const { isConnected, address, chainId } = useWallet();
+  const { registry, isLoading: isRegistryLoading } = useNetworkRegistry(chainId);
   const [locks, setLocks] = useState<LockInfo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [token, setToken] = useState('');
@@ -37,18 +39,24 @@ export const LiquidityLock: React.FC = () => {
   const [success, setSuccess] = useState<string | null>(null);
   const [copied, setCopied] = useState<string | null>(null);
 
-  // Liquidity Locker contract address
+  // Liquidity Locker of the connected network, from the network registry
   // Using lowercase to avoid checksum errors during initialization
-  const LOCKER_ADDRESS = '0x742d35cc6634c0532925a3b8d4c9db96590c6c8c'.toLowerCase();
+  const LOCKER_ADDRESS = (registry?.contracts.liquidityLocker || '').toLowerCase();
 
   useEffect(() => {
-    if (isConnected && address) {
+    if (isConnected && address && !isRegistryLoading) {
       loadUserLocks();
     }
-  }, [isConnected, address]);
+  }, [isConnected, address, isRegistryLoading, LOCKER_ADDRESS]);
 
   const loadUserLocks = async () => {
     if (!address) return;
+
+    if (!LOCKER_ADDRESS) {
+      setLocks([]);
+      setIsLoading(false);
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
@@ -154,6 +162,10 @@ export const LiquidityLock: React.FC = () => {
         }
       };
       
+      if (!LOCKER_ADDRESS) {
+        throw new Error('Liquidity locking is not available on this network');
+      }
+
       // Check if token is valid
       if (!ethers.isAddress(token)) {
         throw new Error('Invalid token address');
@@ -390,7 +402,7 @@ export const LiquidityLock: React.FC = () => {
           
           <button
             onClick={handleLockLiquidity}
-            disabled={!isConnected || !token || !amount || !duration || isLocking}
+            disabled={!isConnected || !LOCKER_ADDRESS || !token || !amount || !duration || isLocking}
             className="mt-6 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 w-full md:w-auto disabled:opacity-50"
           >
             {isLocking ? (
@@ -406,6 +418,15 @@ export const LiquidityLock: React.FC = () => {
             )}
           </button>
           
+          {isConnected && !isRegistryLoading && !LOCKER_ADDRESS && (
+            <div className="mt-4 p-3 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+                <p className="text-amber-300 text-sm">No liquidity locker is deployed on the connected network.</p>
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
               <div className="flex items-start space-x-3">
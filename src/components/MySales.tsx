@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Calendar, 
   Clock, 
@@ -15,89 +15,97 @@ import {
   Pause,
   CheckCircle,
   AlertCircle,
-  ArrowLeft
+  ArrowLeft,
+  ListChecks
 } from 'lucide-react';
 import { PresaleConfig } from '../types/presale';
 import { networks } from '../data/networks';
 import { contractService } from '../services/contractService';
+import { WhitelistManager } from './presale/WhitelistManager';
+import { SaleAdminPanel } from './presale/SaleAdminPanel';
+import { ParticipantLedger } from './presale/ParticipantLedger';
+import { ReferralRewardsPanel } from './presale/ReferralRewardsPanel';
+
+// Map API presales to the PresaleConfig interface; statistics are precomputed by the backend indexer
+const mapSales = (presales: Awaited<ReturnType<typeof contractService.getDeployedPresales>>): PresaleConfig[] => {
+  return presales.map((sale: any, index: number) => {
+    // Calculate real status based on current time vs sale dates
+    const now = new Date();
+    const startDate = new Date(sale.presaleConfig?.saleConfiguration?.startDate || Date.now() + 86400000);
+    const endDate = new Date(sale.presaleConfig?.saleConfiguration?.endDate || Date.now() + 14 * 86400000);
+    
+    let status: 'upcoming' | 'live' | 'ended' = 'upcoming';
+    if (now >= startDate && now <= endDate) {
+      status = 'live';
+    } else if (now > endDate) {
+      status = 'ended';
+    }
+
+    // Finalized sales are marked ended by the indexer
+    if (sale.isFinalized || sale.status === 'ended') {
+      status = 'ended';
+    }
+    
+    return {
+      id: (index + 1).toString(),
+      saleType: sale.saleType || 'presale',
+      tokenInfo: {
+        tokenAddress: sale.tokenAddress,
+        tokenName: sale.tokenName,
+        tokenSymbol: sale.tokenSymbol,
+        maxSupply: '0',
+        allocatedAmount: '0'
+      },
+      saleConfiguration: {
+        saleName: sale.saleName,
+        softCap: sale.presaleConfig?.saleConfiguration?.softCap || '10',
+        hardCap: sale.presaleConfig?.saleConfiguration?.hardCap || '100',
+        tokenPrice: sale.presaleConfig?.saleConfiguration?.tokenPrice || '1000',
+        minPurchase: sale.presaleConfig?.saleConfiguration?.minPurchase || '0.1',
+        maxPurchase: sale.presaleConfig?.saleConfiguration?.maxPurchase || '10',
+        startDate: sale.presaleConfig?.saleConfiguration?.startDate || new Date().toISOString(),
+        endDate: sale.presaleConfig?.saleConfiguration?.endDate || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+        whitelistEnabled: sale.presaleConfig?.saleConfiguration?.whitelistEnabled || false
+      },
+      vestingConfig: {
+        enabled: sale.presaleConfig?.vestingConfig?.enabled || false,
+        duration: sale.presaleConfig?.vestingConfig?.duration || 0,
+        initialRelease: sale.presaleConfig?.vestingConfig?.initialRelease || 0
+      },
+      walletSetup: {
+        saleReceiver: '',
+        refundWallet: ''
+      },
+      network: networks.find(n => n.id === sale.network.id) || networks[0],
+      status: status,
+      contractAddress: sale.contractAddress,
+      totalRaised: sale.totalRaised || '0',
+      participantCount: sale.participantCount || 0,
+      createdAt: new Date(sale.timestamp).toISOString()
+    };
+  });
+};
+
 
 export const MySales: React.FC = () => {
   const [selectedStatus, setSelectedStatus] = useState<'all' | 'upcoming' | 'live' | 'ended'>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'date' | 'name' | 'raised'>('date');
+  const [whitelistSaleId, setWhitelistSaleId] = useState<string | null>(null);
+  const [adminSaleId, setAdminSaleId] = useState<string | null>(null);
+  const [participantsSaleId, setParticipantsSaleId] = useState<string | null>(null);
 
   // State for sales data
   const [sales, setSales] = useState<PresaleConfig[]>([]);
   
+  
   // Load sales data from contractService
   useEffect(() => {
     const loadSales = async () => {
       try {
         // Get deployed presales from API
         const presales = await contractService.getDeployedPresales();
-        
-        // Map to PresaleConfig interface
-        const mappedSales: PresaleConfig[] = presales.map((sale: any, index: number) => {
-          // Calculate real status based on current time vs sale dates
-          const now = new Date();
-          const startDate = new Date(sale.presaleConfig?.saleConfiguration?.startDate || Date.now() + 86400000);
-          const endDate = new Date(sale.presaleConfig?.saleConfiguration?.endDate || Date.now() + 14 * 86400000);
-          
-          let status: 'upcoming' | 'live' | 'ended' = 'upcoming';
-          if (now >= startDate && now <= endDate) {
-            status = 'live';
-          } else if (now > endDate) {
-            status = 'ended';
-          }
-
-          // Check if sale is finalized (this would come from contract state)
-          if (sale.isFinalized) {
-            status = 'ended';
-          }
-          
-          return {
-            id: (index + 1).toString(),
-            saleType: sale.saleType || 'presale',
-            tokenInfo: {
-              tokenAddress: sale.tokenAddress,
-              tokenName: sale.tokenName,
-              tokenSymbol: sale.tokenSymbol,
-              maxSupply: '0',
-              allocatedAmount: '0'
-            },
-            saleConfiguration: {
-              saleName: sale.saleName,
-              softCap: sale.presaleConfig?.saleConfiguration?.softCap || '10',
-              hardCap: sale.presaleConfig?.saleConfiguration?.hardCap || '100',
-              tokenPrice: sale.presaleConfig?.saleConfiguration?.tokenPrice || '1000',
-              minPurchase: sale.presaleConfig?.saleConfiguration?.minPurchase || '0.1',
-              maxPurchase: sale.presaleConfig?.saleConfiguration?.maxPurchase || '10',
-              startDate: sale.presaleConfig?.saleConfiguration?.startDate || new Date().toISOString(),
-              endDate: sale.presaleConfig?.saleConfiguration?.endDate || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-              whitelistEnabled: sale.presaleConfig?.saleConfiguration?.whitelistEnabled || false
-            },
-            vestingConfig: {
-              enabled: sale.presaleConfig?.vestingConfig?.enabled || false,
-              duration: sale.presaleConfig?.vestingConfig?.duration || 0,
-              initialRelease: sale.presaleConfig?.vestingConfig?.initialRelease || 0
-            },
-            walletSetup: {
-              saleReceiver: '',
-              refundWallet: ''
-            },
-            network: networks.find(n => n.id === sale.network.id) || networks[0],
-            status: status,
-            contractAddress: sale.contractAddress,
-            totalRaised: '0', // Will be updated by fetchSaleStatistics
-            participantCount: 0, // Will be updated by fetchSaleStatistics
-            createdAt: new Date(sale.timestamp).toISOString()
-          };
-        });
-        
-        setSales(mappedSales);
-        
-        // Fetch real-time sale data from contracts
-        await fetchSaleStatistics(mappedSales);
+        setSales(mapSales(presales));
       } catch (error) {
         console.error('Error loading sales:', error);
       }
@@ -106,34 +114,15 @@ export const MySales: React.FC = () => {
     loadSales();
   }, []);
 
-  const fetchSaleStatistics = async (sales: PresaleConfig[]) => {
+  const fetchSaleStatistics = useCallback(async () => {
     try {
-      // Fetch real-time statistics from presale contracts in parallel
-      const updatedSales = await Promise.all(
-        sales.map(async (sale) => {
-          try {
-            if (sale.contractAddress) {
-              const stats = await contractService.getSaleStatistics(sale.contractAddress);
-              return {
-                ...sale,
-                totalRaised: stats.totalRaised,
-                participantCount: stats.participantCount,
-                status: stats.status
-              };
-            }
-            return sale;
-          } catch (error) {
-            console.error(`Error fetching stats for sale ${sale.id}:`, error);
-            return sale;
-          }
-        })
-      );
-      
-      setSales(updatedSales);
+      // One request returns every sale with its indexed statistics
+      const presales = await contractService.getDeployedPresales();
+      setSales(mapSales(presales));
     } catch (error) {
       console.error('Error fetching sale statistics:', error);
     }
-  };
+  }, []);
 
   // Refresh statistics periodically for live sales
   useEffect(() => {
@@ -141,18 +130,16 @@ export const MySales: React.FC = () => {
       const interval = setInterval(() => {
         const liveSales = sales.filter(sale => sale.status === 'live');
         if (liveSales.length > 0) {
-          fetchSaleStatistics(sales);
+          fetchSaleStatistics();
         }
       }, 15000); // Refresh every 15 seconds for live sales
       
       return () => clearInterval(interval);
     }
-  }, [sales]);
+  }, [sales, fetchSaleStatistics]);
 
   const refreshSaleData = async () => {
-    if (sales.length > 0) {
-      await fetchSaleStatistics(sales);
-    }
+    await fetchSaleStatistics();
   };
 
   const filteredSales = sales.filter(sale => {
@@ -199,8 +186,9 @@ export const MySales: React.FC = () => {
 
   const getProgressPercentage = (sale: PresaleConfig) => {
     const raised = parseFloat(sale.totalRaised || '0');
-    const hardCap = parseFloat(sale.saleConfiguration.hardCap);
-    return Math.min((raised / hardCap) * 100, 100);
+    // Fairlaunches have no hard cap, so track progress toward the soft cap
+    const target = parseFloat(sale.saleType === 'fairlaunch' ? sale.saleConfiguration.softCap : sale.saleConfiguration.hardCap);
+    return Math.min((raised / target) * 100, 100);
   };
 
   const formatDate = (dateString: string) => {
@@ -363,9 +351,11 @@ export const MySales: React.FC = () => {
                           <div className="text-white font-medium">{sale.network.name}</div>
                         </div>
                         <div>
-                          <div className="text-sm text-gray-300">Raised / Hard Cap</div>
+                          <div className="text-sm text-gray-300">
+                            {sale.saleType === 'fairlaunch' ? 'Raised / Soft Cap' : 'Raised / Hard Cap'}
+                          </div>
                           <div className="text-white font-medium">
-                            {sale.totalRaised} / {sale.saleConfiguration.hardCap} {sale.network.symbol}
+                            {sale.totalRaised} / {sale.saleType === 'fairlaunch' ? sale.saleConfiguration.softCap : sale.saleConfiguration.hardCap} {sale.network.symbol}
                           </div>
                         </div>
                         <div>
@@ -400,9 +390,29 @@ export const MySales: React.FC = () => {
                     <button className="p-2 text-gray-400 hover:text-white transition-colors">
                       <Eye className="w-4 h-4" />
                     </button>
-                    <button className="p-2 text-gray-400 hover:text-white transition-colors">
+                    <button
+                      onClick={() => setAdminSaleId(adminSaleId === sale.id ? null : sale.id!)}
+                      className={`p-2 transition-colors ${adminSaleId === sale.id ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                      title="Manage sale"
+                    >
                       <Settings className="w-4 h-4" />
                     </button>
+                    <button
+                      onClick={() => setParticipantsSaleId(participantsSaleId === sale.id ? null : sale.id!)}
+                      className={`p-2 transition-colors ${participantsSaleId === sale.id ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                      title="View participants"
+                    >
+                      <Users className="w-4 h-4" />
+                    </button>
+                    {sale.saleConfiguration.whitelistEnabled && (
+                      <button
+                        onClick={() => setWhitelistSaleId(whitelistSaleId === sale.id ? null : sale.id!)}
+                        className={`p-2 transition-colors ${whitelistSaleId === sale.id ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                        title="Manage whitelist"
+                      >
+                        <ListChecks className="w-4 h-4" />
+                      </button>
+                    )}
                     <a
                       href={`${sale.network.explorerUrl}/address/${sale.contractAddress}`}
                       target="_blank"
@@ -416,6 +426,33 @@ export const MySales: React.FC = () => {
                     </button>
                   </div>
                 </div>
+
+                {whitelistSaleId === sale.id && sale.contractAddress && (
+                  <div className="mt-6 pt-6 border-t border-white/10">
+                    <h4 className="text-lg font-semibold text-white mb-2">Whitelist</h4>
+                    <p className="text-gray-300 text-sm mb-4">
+                      Uploading a new list replaces the current one. Your wallet signs a transaction to set the new Merkle root.
+                    </p>
+                    <WhitelistManager network={sale.network} presaleAddress={sale.contractAddress} />
+                  </div>
+                )}
+
+                {adminSaleId === sale.id && sale.contractAddress && (
+                  <div className="mt-6 pt-6 border-t border-white/10">
+                    <h4 className="text-lg font-semibold text-white mb-4">Sale Controls</h4>
+                    <SaleAdminPanel contractAddress={sale.contractAddress} network={sale.network} />
+                  </div>
+                )}
+
+                {participantsSaleId === sale.id && sale.contractAddress && (
+                  <div className="mt-6 pt-6 border-t border-white/10">
+                    <h4 className="text-lg font-semibold text-white mb-4">Participants</h4>
+                    <ParticipantLedger presaleAddress={sale.contractAddress} network={sale.network} />
+
+                    <h4 className="text-lg font-semibold text-white mt-6 mb-4">Referral Rewards</h4>
+                    <ReferralRewardsPanel presaleAddress={sale.contractAddress} />
+                  </div>
+                )}
               </div>
             ))
           )}
@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import { ArrowLeft, ArrowRight, Rocket, Shield, Clock, Users } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Rocket, Shield, Clock, Users, Zap } from 'lucide-react';
 import { PresaleConfig, PresaleStep, PresaleDeploymentResult } from '../types/presale';
 import { Network } from '../types';
 import { SaleTypeStep } from './presale/SaleTypeStep';
 import { TokenInfoStep } from './presale/TokenInfoStep';
 import { SaleConfigStep } from './presale/SaleConfigStep';
 import { VestingStep } from './presale/VestingStep';
+import { AutoListingConfig } from './presale/AutoListingConfig';
 import { WalletSetupStep } from './presale/WalletSetupStep';
 import { PresaleReviewStep } from './presale/PresaleReviewStep';
 import { PresaleSuccessStep } from './presale/PresaleSuccessStep';
@@ -56,6 +57,8 @@ export const PresaleWizard: React.FC<PresaleWizardProps> = ({ onBack }) => {
     { id: 'token', title: 'Token Info', icon: Shield },
     { id: 'config', title: 'Configuration', icon: Clock },
     { id: 'vesting', title: 'Vesting', icon: Users },
+    // Fairlaunches deploy AntiBotPresaleContract, which cannot auto-list
+    ...(config.saleType !== 'fairlaunch' ? [{ id: 'autoListing' as PresaleStep, title: 'Auto-Listing', icon: Zap }] : []),
     { id: 'wallet', title: 'Wallet Setup', icon: Shield },
     { id: 'review', title: 'Review', icon: Clock }
   ];
@@ -98,6 +101,8 @@ export const PresaleWizard: React.FC<PresaleWizardProps> = ({ onBack }) => {
         return <SaleConfigStep config={config} onNext={handleNext} onBack={handleBack} />;
       case 'vesting':
         return <VestingStep config={config} onNext={handleNext} onBack={handleBack} />;
+      case 'autoListing':
+        return <AutoListingConfig config={config} onNext={handleNext} onBack={handleBack} />;
       case 'wallet':
         return <WalletSetupStep config={config} onNext={handleNext} onBack={handleBack} />;
       case 'review':
@@ -4,7 +4,11 @@ import { TokenConfig, DeploymentResult } from '../types';
 import { DeploymentFallback } from './DeploymentFallback';
 import { NetworkMismatchModal } from './NetworkMismatchModal';
 import { TokenMetadataForm } from './TokenMetadataForm';
+import { DeploymentJobTracker } from './DeploymentJobTracker';
 import { contractService } from '../services/contractService'; 
+import { deploymentJobService } from '../services/deploymentJobService';
+import { FactoryCostComparison } from '../services/fallbackDeploymentService';
+import { DeploymentJob, DeploymentJobMetadata } from '../types/deploymentJob';
 import { vestingCategories } from '../data/vestingCategories';
 import { web3Service } from '../services/web3Service';
 import { useNetworkMode } from '../hooks/useNetworkMode';
@@ -25,7 +29,7 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
   const [deploymentFailed, setDeploymentFailed] = useState(false);
   const [deploymentError, setDeploymentError] = useState<string | null>(null);
   const [useFactory, setUseFactory] = useState(true);
-  const [deploymentMethod, setDeploymentMethod] = useState<'primary' | 'fallback' | 'emergency'>('primary');
+  const [deploymentMethod, setDeploymentMethod] = useState<'primary' | 'fallback' | 'emergency' | 'factory'>('primary');
   const [showMetadataForm, setShowMetadataForm] = useState(false);
   const [tokenMetadata, setTokenMetadata] = useState({
     tokenAddress: '',
@@ -41,14 +45,34 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     whitePaperUrl: '',
     tags: []
   });
-  const [costEstimate, setCostEstimate] = useState({
+  const [costEstimate, setCostEstimate] = useState<{
+    gasEstimate: string;
+    gasCost: string;
+    gasCostUsd: string;
+    timeEstimate: string;
+    useFactory: boolean;
+    factoryAvailable: boolean;
+    factoryComparison: FactoryCostComparison | null;
+  }>({
     gasEstimate: '0',
     gasCost: '0.025',
     gasCostUsd: '$65',
     timeEstimate: '1-3 minutes',
-    useFactory: true
+    useFactory: true,
+    factoryAvailable: false,
+    factoryComparison: null
   });
   const [showNetworkModal, setShowNetworkModal] = useState(false);
+  const [job, setJob] = useState<DeploymentJob | null>(null);
+
+  // Offer to resume a deployment interrupted by a reload or closed tab
+  useEffect(() => {
+    deploymentJobService.getActiveJob().then(activeJob => {
+      if (activeJob) {
+        setJob(activeJob);
+      }
+    });
+  }, []);
 
   // Fetch real gas estimate on component mount
   useEffect(() => {
@@ -96,34 +120,34 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     }
   };
 
-  const handleDeploy = async () => {
-    if (!agreed) return;
-    
+  const getJobMetadata = (): DeploymentJobMetadata | null => {
+    const { description, websiteUrl, twitterUrl, telegramUrl, discordUrl, githubUrl, whitePaperUrl, tags } = tokenMetadata;
+    const metadata = { description, websiteUrl, twitterUrl, telegramUrl, discordUrl, githubUrl, whitePaperUrl, tags };
+    const hasMetadata = tags.length > 0 || Object.values(metadata).some(value => typeof value === 'string' && value.trim() !== '');
+    return hasMetadata ? metadata : null;
+  };
+
+  const runJob = async (deploymentJob: DeploymentJob) => {
     setIsDeploying(true);
     setDeploymentError(null);
+    setJob(deploymentJob);
     
     try {
-      // Store metadata for later use after deployment
-      localStorage.setItem('pendingTokenMetadata', JSON.stringify(tokenMetadata));
-      
       // Check if we're on the correct network
+      const targetNetwork = deploymentJob.config.token.network;
       const currentNetwork = await web3Service.getCurrentNetwork();
-      if (currentNetwork?.chainId !== config.network.chainId) {
+      if (currentNetwork?.chainId !== targetNetwork.chainId) {
         try {
-          await web3Service.switchNetwork(config.network);
+          await web3Service.switchNetwork(targetNetwork);
         } catch (error) {
-          throw new Error(`Please switch to ${config.network.name} network before deploying`);
+          throw new Error(`Please switch to ${targetNetwork.name} network before deploying`);
         }
       }
       
-      // Deploy token using contractService
-      const result = await contractService.deployToken({
-        ...config,
-        useFactory
-      });
+      const result = await deploymentJobService.runJob(deploymentJob, setJob);
       
       // Get deployment method
-      setDeploymentMethod(contractService.getDeploymentMethod());
+      setDeploymentMethod(result.deploymentMethod || contractService.getDeploymentMethod());
       
       onDeploy(result);
       
@@ -136,7 +160,16 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     } catch (error) {
       console.error('Deployment failed:', error);
       setDeploymentError((error as Error).message);
-      setDeploymentFailed(true);
+      
+      // Offer the manual fallbacks only while nothing is on-chain yet; later steps are retried from the tracker
+      const latestJob = await deploymentJobService.getJob(deploymentJob.id).catch(() => null);
+      if (latestJob) {
+        setJob(latestJob);
+      }
+      const deployStep = latestJob?.steps.find(step => step.step === 'deploy');
+      if (!deployStep || (deployStep.status !== 'completed' && !deployStep.transactionHash)) {
+        setDeploymentFailed(true);
+      }
       
       // Log detailed error for debugging
       if (error instanceof Error) {
@@ -151,6 +184,32 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
     }
   };
 
+  const handleDeploy = async () => {
+    if (!agreed) return;
+    
+    // Store metadata for later use after deployment
+    localStorage.setItem('pendingTokenMetadata', JSON.stringify(tokenMetadata));
+    
+    try {
+      const deploymentJob = await deploymentJobService.createJob({ ...config, useFactory }, getJobMetadata());
+      await runJob(deploymentJob);
+    } catch (error) {
+      console.error('Failed to start deployment:', error);
+      setDeploymentError((error as Error).message);
+    }
+  };
+
+  const handleDiscardJob = async () => {
+    if (!job) return;
+    
+    try {
+      await deploymentJobService.cancelJob(job.id);
+      setJob(null);
+    } catch (error) {
+      console.error('Failed to discard deployment job:', error);
+    }
+  };
+
   // Get deployment method label and color
   const getDeploymentMethodInfo = () => {
     switch (deploymentMethod) {
@@ -160,11 +219,15 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
         return { label: 'Fallback (Frontend)', color: 'text-yellow-400' };
       case 'emergency':
         return { label: 'Emergency (Backend)', color: 'text-red-400' };
+      case 'factory':
+        return { label: 'TokenFactory (Wallet)', color: 'text-blue-400' };
       default:
         return { label: 'Unknown', color: 'text-gray-400' };
     }
   };
 
+  const formatNativeCost = (amount: string) => parseFloat(amount).toFixed(6);
+
   const getActiveFeatures = () => {
     const features = [];
     if (config.features.burnable) features.push('Burnable');
@@ -197,7 +260,8 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
         name: category.name,
         percentage: vest.percentage,
         startDate: vest.startDate,
-        duration: vest.duration
+        duration: vest.duration,
+        beneficiary: vest.beneficiary
       };
     });
   };
@@ -222,6 +286,21 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
+            {job && (
+              <DeploymentJobTracker
+                job={job}
+                isRunning={isDeploying}
+                onResume={() => runJob(job)}
+                onDiscard={handleDiscardJob}
+              />
+            )}
+
+            {deploymentError && !deploymentFailed && (
+              <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4">
+                <p className="text-red-400 text-sm">{deploymentError}</p>
+              </div>
+            )}
+
             {/* Token Details */}
             <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
               <h2 className="text-xl font-semibold text-white mb-4">Token Details</h2>
@@ -300,7 +379,10 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                     <div key={index} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
                       <div className="flex items-center space-x-3">
                         <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
-                        <span className="text-white font-medium">{vest.name}</span>
+                        <div>
+                          <span className="text-white font-medium">{vest.name}</span>
+                          <div className="text-xs text-gray-400 font-mono">{vest.beneficiary}</div>
+                        </div>
                       </div>
                       <div className="text-right">
                         <div className="text-white font-medium">{vest.percentage}%</div>
@@ -311,6 +393,9 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                     </div>
                   ))}
                 </div>
+                <p className="text-sm text-gray-400 mt-4">
+                  A vesting contract will be deployed after the token and funded with these allocations from your wallet.
+                </p>
               </div>
             )}
 
@@ -403,12 +488,36 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-gray-300">Use Factory</span>
-                  <label className="inline-flex items-center cursor-pointer">
+                  <label className={`inline-flex items-center ${costEstimate.factoryAvailable ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}`}>
                     <input type="checkbox" checked={useFactory} onChange={(e) => setUseFactory(e.target.checked)} 
-                           className="sr-only peer" />
+                           disabled={!costEstimate.factoryAvailable} className="sr-only peer" />
                     <div className="relative w-11 h-6 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
                   </label>
                 </div>
+                {!costEstimate.factoryAvailable && !isEstimating && (
+                  <p className="text-gray-400 text-xs">
+                    No TokenFactory supports this token on {config.network.name}, so it is deployed directly.
+                  </p>
+                )}
+                {costEstimate.factoryComparison && (
+                  <div className="p-3 bg-white/5 rounded-lg space-y-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-400">Direct deployment</span>
+                      <span className="text-white">{formatNativeCost(costEstimate.factoryComparison.directCost)} {config.network.symbol}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-400">
+                        TokenFactory (gas + {formatNativeCost(costEstimate.factoryComparison.creationFee)} fee)
+                      </span>
+                      <span className="text-white">{formatNativeCost(costEstimate.factoryComparison.factoryCost)} {config.network.symbol}</span>
+                    </div>
+                    <p className={parseFloat(costEstimate.factoryComparison.savings) >= 0 ? 'text-green-400' : 'text-amber-400'}>
+                      {parseFloat(costEstimate.factoryComparison.savings) >= 0
+                        ? `The factory saves ${formatNativeCost(costEstimate.factoryComparison.savings)} ${config.network.symbol}`
+                        : `Direct deployment is ${formatNativeCost(costEstimate.factoryComparison.savings.replace('-', ''))} ${config.network.symbol} cheaper`}
+                    </p>
+                  </div>
+                )}
                 <div className="border-t border-white/20 pt-4">
                   <div className="flex items-center justify-between">
                     <span className="text-gray-300">Total Cost</span>
@@ -438,7 +547,7 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
                 {useFactory && (
                 <div className="flex items-center space-x-3">
                   <Zap className="w-4 h-4 text-green-400" />
-                  <span className="text-white text-sm">Factory deployment (saves ~30% gas)</span>
+                  <span className="text-white text-sm">Deployed through TokenFactory</span>
                 </div>
                 )}
                 <div className="flex items-center space-x-3">
@@ -474,7 +583,7 @@ export const ReviewDeploy: React.FC<ReviewDeployProps> = ({ config, onBack, onDe
           
           <button
             onClick={handleDeploy}
-            disabled={!agreed || isDeploying}
+            disabled={!agreed || isDeploying || (job !== null && job.status !== 'cancelled')}
             className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white px-8 py-3 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isDeploying ? (
@@ -10,6 +10,7 @@ import {
   ExternalLink,
   Globe,
   Lock,
+  Zap,
   Calendar
 } from 'lucide-react';
 import { contractService } from '../services/contractService';
@@ -24,12 +25,14 @@ interface PublicSale {
   saleName: string;
   tokenName: string;
   tokenSymbol: string;
-  saleType: 'presale' | 'private';
+  saleType: 'presale' | 'private' | 'fairlaunch';
   status: 'upcoming' | 'live' | 'ended';
   totalRaised: string;
+  softCap: string;
   hardCap: string;
   participants: number;
   tokenPrice: string;
+  tokensForSale: string;
   startDate: string;
   endDate: string;
   network: string;
@@ -41,7 +44,7 @@ export const SaleExplorer: React.FC = () => {
   const [filteredSales, setFilteredSales] = useState<PublicSale[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'upcoming' | 'live' | 'ended'>('all');
-  const [typeFilter, setTypeFilter] = useState<'all' | 'presale' | 'private'>('all');
+  const [typeFilter, setTypeFilter] = useState<'all' | 'presale' | 'private' | 'fairlaunch'>('all');
   const [sortBy, setSortBy] = useState<'date' | 'raised' | 'participants'>('date');
 
   // State for token metadata and badges
@@ -65,12 +68,14 @@ export const SaleExplorer: React.FC = () => {
             tokenSymbol: sale.tokenSymbol,
             saleType: sale.saleType || 'presale',
             status: sale.status || 'upcoming',
-            totalRaised: '0',
-            hardCap: '100',
-            participants: 0,
-            tokenPrice: '1000',
-            startDate: new Date().toISOString(),
-            endDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+            totalRaised: sale.totalRaised || '0',
+            softCap: sale.softCap || '10',
+            hardCap: sale.hardCap || '100',
+            participants: sale.participantCount || 0,
+            tokenPrice: sale.tokenPrice || '1000',
+            tokensForSale: sale.tokensForSale || '0',
+            startDate: sale.startDate || new Date().toISOString(),
+            endDate: sale.endDate || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
             network: sale.network.name,
             networkSymbol: sale.network.symbol
           };
@@ -196,7 +201,21 @@ export const SaleExplorer: React.FC = () => {
   };
 
   const getProgressPercentage = (sale: PublicSale) => {
-    return Math.min((parseFloat(sale.totalRaised) / parseFloat(sale.hardCap)) * 100, 100);
+    // Fairlaunches have no hard cap, so show progress toward the soft cap
+    const target = sale.saleType === 'fairlaunch' ? sale.softCap : sale.hardCap;
+    return Math.min((parseFloat(sale.totalRaised) / parseFloat(target)) * 100, 100);
+  };
+
+  const getPriceLabel = (sale: PublicSale) => {
+    if (sale.saleType !== 'fairlaunch') {
+      return `${sale.tokenPrice} ${sale.tokenSymbol}/${sale.networkSymbol}`;
+    }
+
+    const raised = parseFloat(sale.totalRaised);
+    if (!raised) return 'Set by total raised';
+
+    const impliedPrice = parseFloat(sale.tokensForSale) / raised;
+    return `~${impliedPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${sale.tokenSymbol}/${sale.networkSymbol}`;
   };
 
   const formatDate = (dateString: string) => {
@@ -343,7 +362,7 @@ export const SaleExplorer: React.FC = () => {
               <div className="space-y-2 text-sm mb-4">
                 <div className="flex justify-between">
                   <span className="text-gray-300">Price:</span>
-                  <span className="text-white">{sale.tokenPrice} {sale.tokenSymbol}/{sale.networkSymbol}</span>
+                  <span className="text-white">{getPriceLabel(sale)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-300">Network:</span>
@@ -1,5 +1,4 @@
 import React, { useState, useEffect } from 'react';
-import { ethers } from 'ethers';
 import { useWallet } from '../hooks/useWallet';
 import { useSaleContract } from '../hooks/useSaleContract';
 import { 
@@ -15,30 +14,52 @@ import {
   Zap 
 } from 'lucide-react';
 import { BadgeDisplay } from './badges/BadgeDisplay';
+import { ReferralSystem } from './presale/ReferralSystem';
+import { ReferralLeaderboard } from './presale/ReferralLeaderboard';
+import { HolderAnalyticsPanel } from './tokenManagement/HolderAnalyticsPanel';
+import { listingService, PublishedLiquidityLock } from '../services/listingService';
 import { BadgeInfo } from '../types/presale';
 
 interface SalePageProps {
   contractAddress: string;
+  referrer?: string | null; // From a referral link, passed to PresaleContractV2 purchases
 }
 
-export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
-  const { account, provider } = useWallet();
-  const { saleData, userInfo, loading, error, contribute, withdraw, claimTokens } = useSaleContract(contractAddress);
+export const SalePage: React.FC<SalePageProps> = ({ contractAddress, referrer }) => {
+  const { address } = useWallet();
+  const { saleData, userInfo, isLoading, buyTokens, claimTokens, loadSaleData, loadUserInfo } = useSaleContract(contractAddress);
   const [activeTab, setActiveTab] = useState('overview');
   const [contributionAmount, setContributionAmount] = useState('');
+  const [contributionError, setContributionError] = useState<string | null>(null);
+  const [claimError, setClaimError] = useState<string | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
   const [badges, setBadges] = useState<BadgeInfo[]>([]);
   const [tokenMetadata, setTokenMetadata] = useState<any>(null);
   const [isProtectionActive, setIsProtectionActive] = useState(false);
   const [protectionTimeRemaining, setProtectionTimeRemaining] = useState(0);
   const [isInCooldown, setIsInCooldown] = useState(false);
   const [cooldownTimeRemaining, setCooldownTimeRemaining] = useState(0);
+  const [liquidityLock, setLiquidityLock] = useState<PublishedLiquidityLock | null>(null);
 
   useEffect(() => {
     if (contractAddress) {
       loadBadges();
+      loadSaleData();
     }
+  }, [contractAddress, loadSaleData]);
+
+  useEffect(() => {
+    listingService.getPublishedLock(contractAddress)
+      .then(setLiquidityLock)
+      .catch(error => console.error('Error loading liquidity lock:', error));
   }, [contractAddress]);
 
+  useEffect(() => {
+    if (address) {
+      loadUserInfo(address);
+    }
+  }, [address, loadUserInfo]);
+
   const loadBadges = async () => {
     try {
       const response = await fetch(`/api/badges/token/${contractAddress}`);
@@ -55,19 +76,28 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
   const getStatus = () => {
     if (!saleData) return 'loading';
     const now = Date.now() / 1000;
+    if (saleData.isFinalized) return 'ended';
     if (now < saleData.startTime) return 'upcoming';
     if (now > saleData.endTime) return 'ended';
-    if (parseFloat(saleData.totalRaised) >= parseFloat(saleData.hardCap)) return 'success';
+    if (saleData.saleType !== 'fairlaunch' && parseFloat(saleData.totalRaised) >= parseFloat(saleData.hardCap)) return 'success';
     return 'live';
   };
 
   const status = getStatus();
+  const isFairlaunch = saleData?.saleType === 'fairlaunch';
 
-  // Calculate progress percentage
+  // Fairlaunches have no hard cap, so progress is measured against the soft cap
+  const progressTarget = saleData ? (isFairlaunch ? saleData.softCap : saleData.hardCap) : '0';
   const progressPercentage = saleData 
-    ? Math.min((parseFloat(saleData.totalRaised) / parseFloat(saleData.hardCap)) * 100, 100)
+    ? Math.min((parseFloat(saleData.totalRaised) / parseFloat(progressTarget)) * 100, 100)
     : 0;
 
+  // Fairlaunch price so far: the token pool divided by everything raised
+  const impliedPrice = saleData && isFairlaunch && parseFloat(saleData.totalRaised) > 0
+    ? parseFloat(saleData.tokensForSale) / parseFloat(saleData.totalRaised)
+    : null;
+  const softCapReached = saleData ? parseFloat(saleData.totalRaised) >= parseFloat(saleData.softCap) : false;
+
   // Format time remaining
   const getTimeRemaining = () => {
     if (!saleData) return '';
@@ -97,19 +127,31 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
 
   const handleContribute = async () => {
     if (!contributionAmount || parseFloat(contributionAmount) <= 0) return;
-    await contribute(contributionAmount);
-    setContributionAmount('');
-  };
-
-  const handleWithdraw = async () => {
-    await withdraw();
+    setContributionError(null);
+    try {
+      await buyTokens(contributionAmount, undefined, referrer);
+      setContributionAmount('');
+      await loadSaleData();
+      if (address) await loadUserInfo(address);
+    } catch (error) {
+      setContributionError((error as Error).message || 'Contribution failed');
+    }
   };
 
   const handleClaim = async () => {
-    await claimTokens();
+    setClaimError(null);
+    setIsClaiming(true);
+    try {
+      await claimTokens();
+      if (address) await loadUserInfo(address);
+    } catch (error) {
+      setClaimError((error as Error).message || 'Claim failed');
+    } finally {
+      setIsClaiming(false);
+    }
   };
 
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
         <div className="text-center">
@@ -120,17 +162,6 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
     );
   }
 
-  if (error) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
-        <div className="text-center">
-          <h1 className="text-2xl font-bold text-red-400 mb-2">Error Loading Sale</h1>
-          <p className="text-gray-300">{error}</p>
-        </div>
-      </div>
-    );
-  }
-
   if (!saleData) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
@@ -170,6 +201,8 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                 <div className="w-16 h-16 bg-gradient-to-br from-purple-500 to-pink-500 rounded-full flex items-center justify-center">
                   {saleData.saleType === 'private' ? (
                     <Lock className="w-8 h-8 text-white" />
+                  ) : saleData.saleType === 'fairlaunch' ? (
+                    <Zap className="w-8 h-8 text-white" />
                   ) : (
                     <Globe className="w-8 h-8 text-white" />
                   )}
@@ -281,11 +314,32 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                 ></div>
               </div>
               <div className="flex justify-between text-sm text-gray-300">
-                <span>{ethers.formatEther(saleData.totalRaised)} ETH raised</span>
-                <span>{ethers.formatEther(saleData.hardCap)} ETH goal</span>
+                <span>{saleData.totalRaised} {saleData.networkSymbol} raised</span>
+                <span>{progressTarget} {saleData.networkSymbol} {isFairlaunch ? 'soft cap' : 'goal'}</span>
               </div>
             </div>
 
+            {/* Fairlaunch Price */}
+            {isFairlaunch && (
+              <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+                <div className="flex items-center space-x-3 mb-4">
+                  <Zap className="w-6 h-6 text-green-400" />
+                  <h3 className="text-xl font-semibold text-white">
+                    {saleData.isFinalized ? 'Final Price' : 'Current Price'}
+                  </h3>
+                </div>
+                <p className="text-2xl font-semibold text-white">
+                  {impliedPrice !== null
+                    ? `${impliedPrice.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${saleData.tokenSymbol} per ${saleData.networkSymbol}`
+                    : 'Set by the first contribution'}
+                </p>
+                <p className="text-sm text-gray-300 mt-2">
+                  {parseFloat(saleData.tokensForSale).toLocaleString()} {saleData.tokenSymbol} are shared among all contributors
+                  in proportion to what they put in{saleData.isFinalized ? '.' : ', so the price falls as more is raised.'}
+                </p>
+              </div>
+            )}
+
             {/* Time Remaining */}
             {(status === 'live' || status === 'upcoming') && (
               <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
@@ -308,7 +362,7 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                   <Users className="w-5 h-5 text-blue-400" />
                   <div>
                     <p className="text-sm text-gray-400">Participants</p>
-                    <p className="text-lg font-semibold text-white">{saleData.participantCount || '0'}</p>
+                    <p className="text-lg font-semibold text-white">{saleData.totalParticipants}</p>
                   </div>
                 </div>
               </div>
@@ -317,7 +371,7 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                   <Target className="w-5 h-5 text-green-400" />
                   <div>
                     <p className="text-sm text-gray-400">Min Contribution</p>
-                    <p className="text-lg font-semibold text-white">{ethers.formatEther(saleData.minContribution)} ETH</p>
+                    <p className="text-lg font-semibold text-white">{saleData.minPurchase} {saleData.networkSymbol}</p>
                   </div>
                 </div>
               </div>
@@ -326,33 +380,67 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                   <TrendingUp className="w-5 h-5 text-purple-400" />
                   <div>
                     <p className="text-sm text-gray-400">Max Contribution</p>
-                    <p className="text-lg font-semibold text-white">{ethers.formatEther(saleData.maxContribution)} ETH</p>
+                    <p className="text-lg font-semibold text-white">{saleData.maxPurchase} {saleData.networkSymbol}</p>
                   </div>
                 </div>
               </div>
             </div>
 
-            {/* Description */}
-            {saleData.description && (
+            {/* Liquidity Lock */}
+            {liquidityLock && (
               <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
-                <h3 className="text-xl font-semibold text-white mb-4">About This Sale</h3>
-                <p className="text-gray-300 leading-relaxed">{saleData.description}</p>
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center space-x-3">
+                    <Lock className="w-6 h-6 text-green-400" />
+                    <h3 className="text-xl font-semibold text-white">Liquidity Locked</h3>
+                  </div>
+                  {liquidityLock.withdrawn ? (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium text-amber-400 bg-amber-500/20">Withdrawn</span>
+                  ) : (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium text-green-400 bg-green-500/20">Locked</span>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-400">Amount</p>
+                    <p className="text-white font-medium">{parseFloat(liquidityLock.amount).toLocaleString()} {liquidityLock.lpTokenSymbol}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-400">Unlocks</p>
+                    <p className="text-white font-medium">{new Date(liquidityLock.unlockTime * 1000).toLocaleString()}</p>
+                  </div>
+                  <div className="md:col-span-2">
+                    <p className="text-gray-400">LP Token</p>
+                    <p className="text-white font-mono break-all">{liquidityLock.lpTokenAddress}</p>
+                  </div>
+                </div>
               </div>
             )}
+
+            <HolderAnalyticsPanel tokenAddress={saleData.tokenAddress} tokenSymbol={saleData.tokenSymbol} />
+
+            {saleData.referralTracker && (
+              <ReferralLeaderboard presaleAddress={contractAddress} symbol={saleData.networkSymbol} />
+            )}
           </div>
 
           {/* Right Column - Contribution Panel */}
           <div className="space-y-6">
             {/* User Contribution Panel */}
-            {account && (
+            {address && (
               <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
                 <h3 className="text-xl font-semibold text-white mb-4">Your Contribution</h3>
                 
                 {userInfo && (
                   <div className="mb-4 p-4 bg-white/5 rounded-lg">
                     <p className="text-sm text-gray-400 mb-1">Contributed</p>
-                    <p className="text-lg font-semibold text-white">{ethers.formatEther(userInfo.contribution)} ETH</p>
-                    <p className="text-sm text-gray-400 mt-1">Tokens to receive: {ethers.formatUnits(userInfo.tokenAmount, 18)}</p>
+                    <p className="text-lg font-semibold text-white">{userInfo.contribution} {saleData.networkSymbol}</p>
+                    <p className="text-sm text-gray-400 mt-1">
+                      {isFairlaunch && !saleData.isFinalized ? 'Estimated tokens at current raise' : 'Tokens to receive'}: {userInfo.tokenAmount}
+                    </p>
+                    {saleData.isFinalized && (
+                      <p className="text-sm text-gray-400 mt-1">Claimed: {userInfo.claimedTokens}</p>
+                    )}
                   </div>
                 )}
 
@@ -370,6 +458,11 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                         className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
                       />
                     </div>
+                    {saleData.referralTracker && referrer && referrer.toLowerCase() !== address.toLowerCase() && (
+                      <p className="text-sm text-gray-400">
+                        Referred by <span className="font-mono">{referrer.slice(0, 6)}...{referrer.slice(-4)}</span>
+                      </p>
+                    )}
                     <button
                       onClick={handleContribute}
                       disabled={!contributionAmount || parseFloat(contributionAmount) <= 0 || isProtectionActive || isInCooldown}
@@ -377,6 +470,15 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                     >
                       Contribute
                     </button>
+
+                    {contributionError && (
+                      <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg mt-2">
+                        <div className="flex items-start space-x-2">
+                          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+                          <p className="text-red-300 text-sm">{contributionError}</p>
+                        </div>
+                      </div>
+                    )}
                     
                     {isProtectionActive && (
                       <div className="p-3 bg-amber-500/20 border border-amber-500/50 rounded-lg mt-2">
@@ -404,18 +506,37 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
 
                 {status === 'ended' && userInfo && parseFloat(userInfo.contribution) > 0 && (
                   <div className="space-y-3">
-                    <button
-                      onClick={handleClaim}
-                      className="w-full bg-gradient-to-r from-green-600 to-emerald-600 text-white py-3 px-6 rounded-lg font-semibold hover:from-green-700 hover:to-emerald-700 transition-all"
-                    >
-                      Claim Tokens
-                    </button>
-                    <button
-                      onClick={handleWithdraw}
-                      className="w-full bg-gradient-to-r from-red-600 to-rose-600 text-white py-3 px-6 rounded-lg font-semibold hover:from-red-700 hover:to-rose-700 transition-all"
-                    >
-                      Emergency Withdraw
-                    </button>
+                    {!saleData.isFinalized ? (
+                      <p className="text-sm text-gray-300">
+                        Tokens can be claimed once the sale owner finalizes the sale.
+                      </p>
+                    ) : !softCapReached ? (
+                      <p className="text-sm text-gray-300">
+                        The soft cap was not reached, so no tokens will be distributed.
+                      </p>
+                    ) : (
+                      <>
+                        <p className="text-sm text-gray-300">
+                          Claimable now: {userInfo.claimableTokens} {saleData.tokenSymbol}
+                        </p>
+                        <button
+                          onClick={handleClaim}
+                          disabled={isClaiming || parseFloat(userInfo.claimableTokens) <= 0}
+                          className="w-full bg-gradient-to-r from-green-600 to-emerald-600 text-white py-3 px-6 rounded-lg font-semibold hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                        >
+                          {isClaiming ? 'Claiming...' : 'Claim Tokens'}
+                        </button>
+                      </>
+                    )}
+
+                    {claimError && (
+                      <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+                        <div className="flex items-start space-x-2">
+                          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+                          <p className="text-red-300 text-sm">{claimError}</p>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -425,24 +546,34 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
             <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
               <h3 className="text-xl font-semibold text-white mb-4">Sale Information</h3>
               <div className="space-y-3 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-gray-400">Token Price</span>
-                  <span className="text-white">{ethers.formatEther(saleData.tokenPrice)} ETH</span>
-                </div>
                 {saleData.saleType === 'fairlaunch' ? (
-                  <div className="flex justify-between">
-                    <span className="text-gray-400">Distribution</span>
-                    <span className="text-white">Proportional to contribution</span>
-                  </div>
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Tokens for Sale</span>
+                      <span className="text-white">{parseFloat(saleData.tokensForSale).toLocaleString()} {saleData.tokenSymbol}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Distribution</span>
+                      <span className="text-white">Proportional to contribution</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Soft Cap</span>
+                      <span className="text-white">{saleData.softCap} {saleData.networkSymbol}</span>
+                    </div>
+                  </>
                 ) : (
                   <>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Token Price</span>
+                      <span className="text-white">{saleData.tokenPrice} {saleData.tokenSymbol} per {saleData.networkSymbol}</span>
+                    </div>
                     <div className="flex justify-between">
                       <span className="text-gray-400">Soft Cap</span>
-                      <span className="text-white">{ethers.formatEther(saleData.softCap)} {saleData.networkSymbol}</span>
+                      <span className="text-white">{saleData.softCap} {saleData.networkSymbol}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-400">Hard Cap</span>
-                      <span className="text-white">{ethers.formatEther(saleData.hardCap)} {saleData.networkSymbol}</span>
+                      <span className="text-white">{saleData.hardCap} {saleData.networkSymbol}</span>
                     </div>
                   </>
                 )}
@@ -466,6 +597,14 @@ export const SalePage: React.FC<SalePageProps> = ({ contractAddress }) => {
                 )}
               </div>
             </div>
+
+            {saleData.referralTracker && (
+              <ReferralSystem
+                presaleAddress={contractAddress}
+                referralTrackerAddress={saleData.referralTracker}
+                baseTokenSymbol={saleData.networkSymbol}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { SalePage } from './SalePage';
+import { referralService } from '../services/referralService';
 
 interface SaleRouterProps {
   contractAddress?: string;
@@ -26,5 +27,11 @@ export const SaleRouter: React.FC<SaleRouterProps> = ({ contractAddress }) => {
     );
   }
 
-  return <SalePage contractAddress={address} />;
-};
\ No newline at end of file
+  // Referral links look like /sale/<address>?ref=<referrer>
+  const ref = new URLSearchParams(window.location.search).get('ref');
+  if (ref) {
+    referralService.saveReferrer(address, ref);
+  }
+
+  return <SalePage contractAddress={address} referrer={referralService.getReferrer(address)} />;
+};
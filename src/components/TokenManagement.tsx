@@ -16,7 +16,9 @@ import {
   Percent,
   Wallet,
   Calendar,
-  BarChart3
+  BarChart3,
+  Image,
+  Camera
 } from 'lucide-react';
 import { useWallet } from '../hooks/useWallet';
 import { useTokenManagement } from '../hooks/useTokenManagement';
@@ -28,6 +30,8 @@ import { RedistributionPanel } from './tokenManagement/RedistributionPanel';
 import { VestingManagementPanel } from './tokenManagement/VestingManagementPanel';
 import { VerificationPanel } from './tokenManagement/VerificationPanel';
 import { TokenMetadataPanel } from './tokenManagement/TokenMetadataPanel';
+import { HolderAnalyticsPanel } from './tokenManagement/HolderAnalyticsPanel';
+import { HolderSnapshotPanel } from './tokenManagement/HolderSnapshotPanel';
 
 export const TokenManagement: React.FC = () => {
   const { tokenAddress } = useParams<{ tokenAddress: string }>();
@@ -46,7 +50,10 @@ export const TokenManagement: React.FC = () => {
     updateFeeSettings,
     updateRedistributionPercentage,
     claimRewards,
-    getUnclaimedRewards
+    getUnclaimedRewards,
+    getMintHistory,
+    getBurnHistory,
+    getFeeHistory
   } = useTokenManagement(address || '');
 
   useEffect(() => {
@@ -68,6 +75,7 @@ export const TokenManagement: React.FC = () => {
   const getAvailableFeatures = () => {
     if (!tokenData) return [];
     
+    const { capabilities } = tokenData.capabilities;
     const features = [
       {
         id: 'metadata',
@@ -78,7 +86,7 @@ export const TokenManagement: React.FC = () => {
       }
     ];
     
-    if (tokenData.features.mintable) {
+    if (capabilities.mintable) {
       features.push({
         id: 'mint',
         name: 'Mint Tokens',
@@ -88,7 +96,7 @@ export const TokenManagement: React.FC = () => {
       });
     }
     
-    if (tokenData.features.burnable) {
+    if (capabilities.burnable) {
       features.push({
         id: 'burn',
         name: 'Burn Tokens',
@@ -98,7 +106,7 @@ export const TokenManagement: React.FC = () => {
       });
     }
     
-    if (tokenData.features.transferFees.enabled) {
+    if (capabilities.transferFees) {
       features.push({
         id: 'fees',
         name: 'Transfer Fees',
@@ -108,7 +116,7 @@ export const TokenManagement: React.FC = () => {
       });
     }
     
-    if (tokenData.features.holderRedistribution.enabled) {
+    if (capabilities.redistribution) {
       features.push({
         id: 'redistribution',
         name: 'Holder Redistribution',
@@ -128,6 +136,22 @@ export const TokenManagement: React.FC = () => {
       });
     }
     
+    features.push({
+      id: 'holders',
+      name: 'Holder Analytics',
+      icon: Users,
+      description: 'Top holders, concentration and growth',
+      ownerOnly: false
+    });
+    
+    features.push({
+      id: 'snapshot',
+      name: 'Holder Snapshot',
+      icon: Camera,
+      description: 'Export holders at a block',
+      ownerOnly: false
+    });
+    
     features.push({
       id: 'verification',
       name: 'Contract Verification',
@@ -149,6 +173,7 @@ export const TokenManagement: React.FC = () => {
             tokenData={tokenData}
             isOwner={isOwner}
             onMint={mintTokens}
+            getMintHistory={getMintHistory}
           />
         );
       case 'burn':
@@ -157,6 +182,7 @@ export const TokenManagement: React.FC = () => {
             tokenData={tokenData}
             userAddress={address || ''}
             onBurn={burnTokens}
+            getBurnHistory={getBurnHistory}
           />
         );
       case 'fees':
@@ -165,6 +191,7 @@ export const TokenManagement: React.FC = () => {
             tokenData={tokenData}
             isOwner={isOwner}
             onUpdateFees={updateFeeSettings}
+            getFeeHistory={getFeeHistory}
           />
         );
       case 'redistribution':
@@ -189,6 +216,22 @@ export const TokenManagement: React.FC = () => {
         return (
           <VerificationPanel
             tokenData={tokenData}
+            isOwner={isOwner}
+            onVerified={() => loadTokenData(tokenData.address)}
+          />
+        );
+      case 'holders':
+        return (
+          <HolderAnalyticsPanel
+            tokenAddress={tokenData.address}
+            tokenSymbol={tokenData.symbol}
+          />
+        );
+      case 'snapshot':
+        return (
+          <HolderSnapshotPanel
+            tokenAddress={tokenData.address}
+            tokenSymbol={tokenData.symbol}
           />
         );
       case 'metadata':
@@ -55,37 +55,23 @@ export const TrendingProjects: React.FC = () => {
       // Get public presales from API
       const presales = await contractService.getPublicPresales();
       
-      // Map to TrendingProject interface
-      const mappedProjects: TrendingProject[] = await Promise.all(
-        presales.map(async (sale: any) => {
-          // Get real-time statistics for each sale
-          let stats = { totalRaised: '0', participantCount: 0, status: sale.status || 'upcoming' };
-          try {
-            if (sale.contractAddress) {
-              stats = await contractService.getSaleStatistics(sale.contractAddress);
-            }
-          } catch (error) {
-            console.error(`Error fetching stats for sale ${sale.contractAddress}:`, error);
-          }
-          
-          return {
-            id: sale.id,
-            contractAddress: sale.contractAddress,
-            name: sale.saleName || `${sale.tokenSymbol} Sale`,
-            tokenName: sale.tokenName,
-            tokenSymbol: sale.tokenSymbol,
-            softCap: sale.softCap || '10',
-            hardCap: sale.hardCap || '100',
-            totalRaised: stats.totalRaised || '0',
-            participants: stats.participantCount || 0,
-            startDate: sale.startDate || new Date().toISOString(),
-            endDate: sale.endDate || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-            status: stats.status || 'upcoming',
-            network: sale.network?.name || 'Ethereum',
-            featured: sale.featured || false
-          };
-        })
-      );
+      // Map to TrendingProject interface; statistics are precomputed by the backend indexer
+      const mappedProjects: TrendingProject[] = presales.map((sale: any) => ({
+        id: sale.id,
+        contractAddress: sale.contractAddress,
+        name: sale.saleName || `${sale.tokenSymbol} Sale`,
+        tokenName: sale.tokenName,
+        tokenSymbol: sale.tokenSymbol,
+        softCap: sale.softCap || '10',
+        hardCap: sale.hardCap || '100',
+        totalRaised: sale.totalRaised || '0',
+        participants: sale.participantCount || 0,
+        startDate: sale.startDate || new Date().toISOString(),
+        endDate: sale.endDate || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+        status: sale.status || 'upcoming',
+        network: sale.network?.name || 'Ethereum',
+        featured: sale.featured || false
+      }));
       
       setProjects(mappedProjects);
     } catch (error) {
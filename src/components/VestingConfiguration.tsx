@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { ArrowLeft, ArrowRight, Plus, Trash2, Calendar, Clock, Percent } from 'lucide-react';
+import { ethers } from 'ethers';
+import { ArrowLeft, ArrowRight, Plus, Trash2, Calendar, Clock, Percent, Wallet } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
 import { TokenConfig, VestingConfig } from '../types';
 import { vestingCategories } from '../data/vestingCategories';
@@ -18,7 +19,8 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
       percentage: 0,
       startDate: '',
       duration: category.suggestedDuration,
-      enabled: false
+      enabled: false,
+      beneficiary: ''
     }))
   );
 
@@ -60,6 +62,14 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
         if (vest.startDate && new Date(vest.startDate) <= new Date()) {
           newErrors[`startDate_${index}`] = 'Start date must be in the future';
         }
+        if (!vest.beneficiary || !ethers.isAddress(vest.beneficiary)) {
+          newErrors[`beneficiary_${index}`] = 'Please enter a valid beneficiary address';
+        } else if (vesting.some((other, otherIndex) =>
+          other.enabled && otherIndex < index && other.beneficiary.toLowerCase() === vest.beneficiary.toLowerCase()
+        )) {
+          // The vesting contract holds one schedule per beneficiary
+          newErrors[`beneficiary_${index}`] = 'Each category needs a different beneficiary';
+        }
       }
     });
 
@@ -238,6 +248,23 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
                           {formatDate(vest.duration)}
                         </div>
                       </div>
+
+                      <div className="md:col-span-3">
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          <Wallet className="w-4 h-4 inline mr-1" />
+                          Beneficiary Address
+                        </label>
+                        <input
+                          type="text"
+                          value={vest.beneficiary}
+                          onChange={(e) => updateVesting(index, { beneficiary: e.target.value.trim() })}
+                          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white font-mono placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="0x..."
+                        />
+                        {errors[`beneficiary_${index}`] && (
+                          <p className="text-red-400 text-sm mt-1">{errors[`beneficiary_${index}`]}</p>
+                        )}
+                      </div>
                     </div>
                   )}
                 </div>
@@ -253,6 +280,7 @@ export const VestingConfiguration: React.FC<VestingConfigurationProps> = ({ conf
             Vesting schedules lock tokens for a specified period, releasing them gradually over time. 
             This helps prevent token dumps and ensures long-term commitment from team members and investors.
             Tokens are released linearly over the specified duration starting from the start date.
+            A vesting contract is deployed with your token and each beneficiary claims their allocation from it.
           </p>
         </div>
 
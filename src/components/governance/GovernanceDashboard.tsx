@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   VoteIcon, 
   Clock, 
@@ -9,12 +9,14 @@ import {
   Loader2,
   Calendar,
   Users,
-  ArrowLeft
+  ArrowLeft,
+  Link as LinkIcon
 } from 'lucide-react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useWallet } from '../../hooks/useWallet';
 import { ProposalCard } from './ProposalCard';
 import { NewProposalForm } from './NewProposalForm';
+import { governanceService, GovernanceSettings } from '../../services/governanceService';
 
 interface Proposal {
   id: string;
@@ -24,7 +26,7 @@ interface Proposal {
   creator_address: string;
   start_time: string;
   end_time: string;
-  status: 'pending' | 'active' | 'passed' | 'rejected';
+  status: 'pending' | 'active' | 'passed' | 'rejected' | 'executed' | 'canceled';
   quorum: number;
   execution_time: string;
   token_address: string;
@@ -32,6 +34,8 @@ interface Proposal {
   token_symbol: string;
   vote_count: number;
   created_at: string;
+  governance_contract?: string | null;
+  onchain_proposal_id?: number | null;
 }
 
 export const GovernanceDashboard: React.FC = () => {
@@ -50,16 +54,13 @@ export const GovernanceDashboard: React.FC = () => {
     totalSupply: string;
     holders: number;
   } | null>(null);
+  const [settings, setSettings] = useState<GovernanceSettings | null>(null);
+  const [contractInput, setContractInput] = useState('');
+  const [txHashInput, setTxHashInput] = useState('');
+  const [isUpdatingSettings, setIsUpdatingSettings] = useState(false);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (tokenAddress) {
-      loadProposals();
-      checkOwnership();
-      loadTokenInfo();
-    }
-  }, [tokenAddress]);
-
-  const loadProposals = async () => {
+  const loadProposals = useCallback(async () => {
     if (!tokenAddress) return;
     
     setIsLoading(true);
@@ -80,9 +81,9 @@ export const GovernanceDashboard: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [tokenAddress]);
 
-  const checkOwnership = async () => {
+  const checkOwnership = useCallback(async () => {
     if (!tokenAddress || !isConnected || !address) return;
     
     try {
@@ -97,9 +98,9 @@ export const GovernanceDashboard: React.FC = () => {
     } catch (error) {
       console.error('Error checking ownership:', error);
     }
-  };
+  }, [tokenAddress, isConnected, address]);
 
-  const loadTokenInfo = async () => {
+  const loadTokenInfo = useCallback(async () => {
     if (!tokenAddress) return;
     
     try {
@@ -119,10 +120,95 @@ export const GovernanceDashboard: React.FC = () => {
     } catch (error) {
       console.error('Error loading token info:', error);
     }
+  }, [tokenAddress]);
+
+  const loadSettings = useCallback(async () => {
+    if (!tokenAddress) return;
+    
+    try {
+      const data = await governanceService.getSettings(tokenAddress);
+      setSettings(data);
+      setContractInput(data.contractAddress || '');
+    } catch (error) {
+      console.error('Error loading governance settings:', error);
+    }
+  }, [tokenAddress]);
+
+  useEffect(() => {
+    if (tokenAddress) {
+      loadProposals();
+      loadTokenInfo();
+      loadSettings();
+    }
+  }, [tokenAddress, loadProposals, loadTokenInfo, loadSettings]);
+
+  // Ownership is checked again when the wallet changes
+  useEffect(() => {
+    checkOwnership();
+  }, [checkOwnership]);
+
+  const updateMode = async (mode: 'offchain' | 'onchain', contractAddress?: string, transactionHash?: string) => {
+    if (!tokenAddress) return;
+    
+    setIsUpdatingSettings(true);
+    setSettingsError(null);
+    
+    try {
+      const data = await governanceService.updateSettings(tokenAddress, mode, contractAddress, transactionHash);
+      setSettings(data);
+      await loadProposals();
+    } catch (error) {
+      console.error('Error updating governance settings:', error);
+      setSettingsError((error as Error).message || 'Failed to update governance settings');
+    } finally {
+      setIsUpdatingSettings(false);
+    }
+  };
+
+  // The governance contract executes passed proposals on the token, so it takes over the token's ownership first
+  const enableOnchainGovernance = async (contractAddress: string, transactionHash?: string) => {
+    if (!tokenAddress) return;
+
+    setIsUpdatingSettings(true);
+    setSettingsError(null);
+
+    try {
+      await governanceService.transferTokenOwnership(tokenAddress, contractAddress);
+    } catch (error) {
+      console.error('Error transferring token ownership to governance contract:', error);
+      setSettingsError((error as Error).message || 'Failed to transfer token ownership');
+      setIsUpdatingSettings(false);
+      return;
+    }
+
+    await updateMode('onchain', contractAddress, transactionHash);
+  };
+
+  const handleDeployGovernance = async () => {
+    if (!tokenAddress) return;
+    
+    setIsUpdatingSettings(true);
+    setSettingsError(null);
+    
+    try {
+      const { address: contractAddress, txHash } = await governanceService.deployGovernanceContract(tokenAddress);
+      setContractInput(contractAddress);
+      setTxHashInput(txHash);
+      await enableOnchainGovernance(contractAddress, txHash);
+    } catch (error) {
+      console.error('Error deploying governance contract:', error);
+      setSettingsError((error as Error).message || 'Failed to deploy governance contract');
+      setIsUpdatingSettings(false);
+    }
   };
 
   const handleProposalCreated = (newProposal: Proposal) => {
-    setProposals(prev => [newProposal, ...prev]);
+    if (settings?.mode === 'onchain') {
+      // On-chain proposals are indexed by the backend, so reload the full list
+      loadProposals();
+    } else {
+      setProposals(prev => [newProposal, ...prev]);
+    }
     setShowNewProposalForm(false);
   };
 
@@ -239,11 +325,89 @@ export const GovernanceDashboard: React.FC = () => {
           </div>
         )}
 
+        {/* Governance Mode */}
+        {settings && (isOwner || settings.mode === 'onchain') && (
+          <div className="mb-8 bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-white flex items-center space-x-2">
+                  <LinkIcon className="w-5 h-5 text-blue-400" />
+                  <span>{settings.mode === 'onchain' ? 'On-chain Governance' : 'Off-chain Governance'}</span>
+                </h2>
+                <p className="text-sm text-gray-300 mt-1">
+                  {settings.mode === 'onchain'
+                    ? `Proposals and votes are recorded by the governance contract ${settings.contractAddress}`
+                    : 'Proposals and votes are recorded by the platform using signed wallet sessions; proposals cannot execute token functions'}
+                </p>
+              </div>
+              
+              {isOwner && (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => updateMode('offchain')}
+                    disabled={isUpdatingSettings || settings.mode === 'offchain'}
+                    className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                  >
+                    Off-chain
+                  </button>
+                  <button
+                    onClick={() => enableOnchainGovernance(contractInput, txHashInput || undefined)}
+                    disabled={isUpdatingSettings || settings.mode === 'onchain' || !contractInput}
+                    className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                  >
+                    On-chain
+                  </button>
+                </div>
+              )}
+            </div>
+            
+            {isOwner && settings.mode === 'offchain' && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input
+                  type="text"
+                  value={contractInput}
+                  onChange={(e) => setContractInput(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Governance contract address"
+                />
+                <input
+                  type="text"
+                  value={txHashInput}
+                  onChange={(e) => setTxHashInput(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Deployment transaction hash"
+                />
+                <button
+                  onClick={handleDeployGovernance}
+                  disabled={isUpdatingSettings}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-colors disabled:opacity-50 flex items-center justify-center space-x-2"
+                >
+                  {isUpdatingSettings ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                  <span>Deploy Governance Contract</span>
+                </button>
+                <p className="md:col-span-3 text-xs text-gray-400">
+                  Switching to on-chain governance transfers token ownership to the governance contract, so owner functions are only called by passed proposals.
+                </p>
+              </div>
+            )}
+            
+            {settingsError && (
+              <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+                {settingsError}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* New Proposal Form */}
         {showNewProposalForm && (
           <div className="mb-8">
             <NewProposalForm 
               tokenAddress={tokenAddress} 
+              governanceMode={settings?.mode || 'offchain'}
+              governanceContract={settings?.contractAddress || null}
+              contractType={settings?.contractType}
+              decimals={settings?.decimals}
               onProposalCreated={handleProposalCreated}
               onCancel={() => setShowNewProposalForm(false)}
             />
@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
-import { Calendar, Clock, Percent, AlertTriangle, Loader2, CheckCircle } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Calendar, Clock, Percent, AlertTriangle, Loader2, CheckCircle, Code } from 'lucide-react';
+import { governanceService, GovernanceMode } from '../../services/governanceService';
 
 interface Proposal {
   id: string;
@@ -9,7 +10,7 @@ interface Proposal {
   creator_address: string;
   start_time: string;
   end_time: string;
-  status: 'pending' | 'active' | 'passed' | 'rejected';
+  status: 'pending' | 'active' | 'passed' | 'rejected' | 'executed' | 'canceled';
   quorum: number;
   execution_time: string;
   token_address: string;
@@ -17,16 +18,26 @@ interface Proposal {
   token_symbol: string;
   vote_count: number;
   created_at: string;
+  governance_contract?: string | null;
+  onchain_proposal_id?: number | null;
 }
 
 interface NewProposalFormProps {
   tokenAddress: string;
+  governanceMode?: GovernanceMode;
+  governanceContract?: string | null;
+  contractType?: string;
+  decimals?: number;
   onProposalCreated: (proposal: Proposal) => void;
   onCancel: () => void;
 }
 
 export const NewProposalForm: React.FC<NewProposalFormProps> = ({ 
   tokenAddress, 
+  governanceMode = 'offchain',
+  governanceContract = null,
+  contractType = 'BasicToken',
+  decimals = 18,
   onProposalCreated,
   onCancel
 }) => {
@@ -40,6 +51,33 @@ export const NewProposalForm: React.FC<NewProposalFormProps> = ({
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [includeAction, setIncludeAction] = useState(false);
+  const [actionSignature, setActionSignature] = useState('');
+  const [actionArgs, setActionArgs] = useState<string[]>([]);
+
+  const actionFunctions = useMemo(() => governanceService.getActionFunctions(contractType), [contractType]);
+  const selectedFunction = actionFunctions.find(f => f.format() === actionSignature);
+
+  const handleActionChange = (signature: string) => {
+    setActionSignature(signature);
+    setActionArgs([]);
+  };
+
+  const handleArgChange = (index: number, value: string) => {
+    setActionArgs(prev => {
+      const next = [...prev];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const encodeExecutionData = (): string | undefined => {
+    if (!includeAction || governanceMode !== 'onchain') return undefined;
+    if (!selectedFunction) {
+      throw new Error('Select a function for the proposal action');
+    }
+    return governanceService.encodeAction(contractType, actionSignature, actionArgs, decimals);
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -63,6 +101,32 @@ export const NewProposalForm: React.FC<NewProposalFormProps> = ({
     setError(null);
     
     try {
+      const executionData = encodeExecutionData();
+      
+      if (governanceMode === 'onchain') {
+        if (!governanceContract) {
+          throw new Error('Governance contract not configured');
+        }
+        
+        const { proposalId } = await governanceService.createProposal(governanceContract, {
+          title: formData.title,
+          description: formData.description,
+          executionData,
+          quorum: formData.quorum,
+          votingPeriod: formData.votingPeriod * 24 * 60 * 60,
+          // The contract treats 0 as "use default timelock", so use 1 second for no delay
+          timeLockPeriod: Math.max(formData.executionDelay * 24 * 60 * 60, 1)
+        });
+        
+        const proposals = await governanceService.syncContract(governanceContract);
+        const proposal = proposals.find(p => Number(p.onchain_proposal_id) === proposalId);
+        if (!proposal) {
+          throw new Error('Proposal created on-chain but not indexed yet. Refresh in a moment.');
+        }
+        onProposalCreated(proposal as unknown as Proposal);
+        return;
+      }
+      
       const authToken = localStorage.getItem('authToken');
       if (!authToken) {
         throw new Error('Not authenticated');
@@ -89,7 +153,8 @@ export const NewProposalForm: React.FC<NewProposalFormProps> = ({
           startTime: now.toISOString(),
           endTime: endTime.toISOString(),
           quorum: formData.quorum,
-          executionTime: executionTime.toISOString()
+          executionTime: executionTime.toISOString(),
+          executionData
         })
       });
       
@@ -209,6 +274,74 @@ export const NewProposalForm: React.FC<NewProposalFormProps> = ({
           </div>
         </div>
         
+        {/* Executable Action */}
+        {governanceMode === 'onchain' ? (
+          <div className="p-4 bg-white/5 rounded-lg border border-white/10">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeAction}
+                onChange={(e) => setIncludeAction(e.target.checked)}
+                className="rounded border-white/20 bg-white/10 text-blue-500 focus:ring-blue-500"
+              />
+              <Code className="w-4 h-4" />
+              <span>Execute a token function if this proposal passes</span>
+            </label>
+            
+            {includeAction && (
+              <div className="mt-4 space-y-4">
+                <select
+                  value={actionSignature}
+                  onChange={(e) => handleActionChange(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Select a function</option>
+                  {actionFunctions.map(fragment => (
+                    <option key={fragment.format()} value={fragment.format()}>
+                      {fragment.format()}
+                    </option>
+                  ))}
+                </select>
+                
+                {selectedFunction?.inputs.map((param, index) => (
+                  <div key={`${actionSignature}-${index}`}>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      {param.name || `arg${index}`} ({param.type})
+                      {governanceService.isTokenAmountParam(param) && (
+                        <span className="text-gray-400 font-normal"> in tokens</span>
+                      )}
+                    </label>
+                    {param.baseType === 'bool' ? (
+                      <select
+                        value={actionArgs[index] || ''}
+                        onChange={(e) => handleArgChange(index, e.target.value)}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Select</option>
+                        <option value="true">true</option>
+                        <option value="false">false</option>
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={actionArgs[index] || ''}
+                        onChange={(e) => handleArgChange(index, e.target.value)}
+                        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder={param.baseType === 'address' ? '0x...' : param.type}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="p-4 bg-white/5 rounded-lg border border-white/10 flex items-start space-x-2 text-sm text-gray-300">
+            <Code className="w-4 h-4 mt-0.5" />
+            <span>Off-chain proposals record the holders' decision but cannot execute token functions. Switch to on-chain governance for executable proposals.</span>
+          </div>
+        )}
+        
         <div className="flex justify-end space-x-4">
           <button
             type="button"
@@ -231,7 +364,7 @@ export const NewProposalForm: React.FC<NewProposalFormProps> = ({
             ) : (
               <>
                 <CheckCircle className="w-4 h-4" />
-                <span>Create Proposal</span>
+                <span>{governanceMode === 'onchain' ? 'Create On-chain Proposal' : 'Create Proposal'}</span>
               </>
             )}
           </button>
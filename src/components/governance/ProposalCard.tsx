@@ -6,7 +6,9 @@ import {
   AlertCircle, 
   Calendar, 
   ExternalLink,
-  ChevronRight
+  ChevronRight,
+  Ban,
+  Link as LinkIcon
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
@@ -18,7 +20,7 @@ interface Proposal {
   creator_address: string;
   start_time: string;
   end_time: string;
-  status: 'pending' | 'active' | 'passed' | 'rejected';
+  status: 'pending' | 'active' | 'passed' | 'rejected' | 'executed' | 'canceled';
   quorum: number;
   execution_time: string;
   token_address: string;
@@ -26,6 +28,8 @@ interface Proposal {
   token_symbol: string;
   vote_count: number;
   created_at: string;
+  governance_contract?: string | null;
+  onchain_proposal_id?: number | null;
 }
 
 interface ProposalCardProps {
@@ -44,6 +48,10 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, tokenAddre
         return <CheckCircle className="w-5 h-5 text-green-400" />;
       case 'rejected':
         return <XCircle className="w-5 h-5 text-red-400" />;
+      case 'executed':
+        return <CheckCircle className="w-5 h-5 text-purple-400" />;
+      case 'canceled':
+        return <Ban className="w-5 h-5 text-gray-400" />;
       default:
         return <Clock className="w-5 h-5 text-gray-400" />;
     }
@@ -59,6 +67,8 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, tokenAddre
         return 'bg-green-500/20 text-green-400';
       case 'rejected':
         return 'bg-red-500/20 text-red-400';
+      case 'executed':
+        return 'bg-purple-500/20 text-purple-400';
       default:
         return 'bg-gray-500/20 text-gray-400';
     }
@@ -111,6 +121,13 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, tokenAddre
               <span className="capitalize">{proposal.status}</span>
             </span>
             
+            {proposal.onchain_proposal_id != null && (
+              <span className="px-3 py-1 rounded-full text-xs font-medium flex items-center space-x-1 bg-blue-500/20 text-blue-400">
+                <LinkIcon className="w-3 h-3" />
+                <span>On-chain #{proposal.onchain_proposal_id}</span>
+              </span>
+            )}
+            
             <span className="text-gray-400 text-sm">
               {proposal.status === 'active' ? getTimeRemaining() : formatDate(proposal.end_time)}
             </span>
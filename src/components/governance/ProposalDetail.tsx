@@ -10,10 +10,15 @@ import {
   ThumbsUp,
   ThumbsDown,
   Loader2,
-  ArrowLeft
+  ArrowLeft,
+  Play,
+  Ban,
+  Layers,
+  Code
 } from 'lucide-react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useWallet } from '../../hooks/useWallet';
+import { governanceService } from '../../services/governanceService';
 
 interface ProposalDetail {
   proposal: {
@@ -24,13 +29,20 @@ interface ProposalDetail {
     creator_address: string;
     start_time: string;
     end_time: string;
-    status: 'pending' | 'active' | 'passed' | 'rejected';
+    status: 'pending' | 'active' | 'passed' | 'rejected' | 'executed' | 'canceled';
     quorum: number;
     execution_time: string;
     token_address: string;
     token_name: string;
     token_symbol: string;
     created_at: string;
+    governance_contract?: string | null;
+    onchain_proposal_id?: number | null;
+    transaction_hash?: string | null;
+    execution_tx_hash?: string | null;
+    snapshot_block?: number | null;
+    execution_data?: string | null;
+    token_decimals?: number;
   };
   votes: Array<{
     id: string;
@@ -64,6 +76,8 @@ export const ProposalDetail: React.FC = () => {
   const [isVoting, setIsVoting] = useState(false);
   const [voteSuccess, setVoteSuccess] = useState<string | null>(null);
   const [hasVoted, setHasVoted] = useState(false);
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [executeError, setExecuteError] = useState<string | null>(null);
 
   useEffect(() => {
     if (proposalId) {
@@ -118,6 +132,19 @@ export const ProposalDetail: React.FC = () => {
     setVoteSuccess(null);
     
     try {
+      const { governance_contract, onchain_proposal_id } = proposalDetail?.proposal || {};
+      if (governance_contract && onchain_proposal_id != null) {
+        // On-chain votes are weighted by the contract and picked up by the indexer
+        await governanceService.castVote(governance_contract, onchain_proposal_id, voteType);
+        await governanceService.syncContract(governance_contract);
+        
+        setVoteSuccess('Your vote has been recorded on-chain!');
+        setUserVote(voteType);
+        setHasVoted(true);
+        await loadProposalDetail();
+        return;
+      }
+      
       const authToken = localStorage.getItem('authToken');
       if (!authToken) {
         throw new Error('Not authenticated');
@@ -155,6 +182,25 @@ export const ProposalDetail: React.FC = () => {
     }
   };
 
+  const handleExecute = async () => {
+    const { governance_contract, onchain_proposal_id } = proposalDetail?.proposal || {};
+    if (!governance_contract || onchain_proposal_id == null) return;
+    
+    setIsExecuting(true);
+    setExecuteError(null);
+    
+    try {
+      await governanceService.executeProposal(governance_contract, onchain_proposal_id);
+      await governanceService.syncContract(governance_contract);
+      await loadProposalDetail();
+    } catch (error) {
+      console.error('Error executing proposal:', error);
+      setExecuteError((error as Error).message || 'Failed to execute proposal');
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
   const getStatusIcon = () => {
     if (!proposalDetail) return null;
     
@@ -167,6 +213,10 @@ export const ProposalDetail: React.FC = () => {
         return <CheckCircle className="w-6 h-6 text-green-400" />;
       case 'rejected':
         return <XCircle className="w-6 h-6 text-red-400" />;
+      case 'executed':
+        return <CheckCircle className="w-6 h-6 text-purple-400" />;
+      case 'canceled':
+        return <Ban className="w-6 h-6 text-gray-400" />;
       default:
         return <Clock className="w-6 h-6 text-gray-400" />;
     }
@@ -184,6 +234,8 @@ export const ProposalDetail: React.FC = () => {
         return 'bg-green-500/20 text-green-400';
       case 'rejected':
         return 'bg-red-500/20 text-red-400';
+      case 'executed':
+        return 'bg-purple-500/20 text-purple-400';
       default:
         return 'bg-gray-500/20 text-gray-400';
     }
@@ -220,6 +272,10 @@ export const ProposalDetail: React.FC = () => {
     }
   };
 
+  const proposedAction = proposalDetail?.proposal.execution_data
+    ? governanceService.decodeAction(proposalDetail.proposal.execution_data, proposalDetail.proposal.token_decimals ?? 18)
+    : null;
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-6">
@@ -276,6 +332,12 @@ export const ProposalDetail: React.FC = () => {
                 {getTimeRemaining()}
               </span>
             )}
+            
+            {proposalDetail.proposal.onchain_proposal_id != null && (
+              <span className="px-3 py-1 rounded-full text-sm font-medium bg-blue-500/20 text-blue-400">
+                On-chain #{proposalDetail.proposal.onchain_proposal_id}
+              </span>
+            )}
           </div>
           
           <h1 className="text-3xl font-bold text-white mb-4">
@@ -294,6 +356,42 @@ export const ProposalDetail: React.FC = () => {
               </div>
             </div>
 
+            {/* Proposed Action */}
+            {proposalDetail.proposal.execution_data && (
+              <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                <h2 className="text-xl font-semibold text-white mb-4 flex items-center space-x-2">
+                  <Code className="w-5 h-5 text-blue-400" />
+                  <span>Proposed Action</span>
+                </h2>
+                
+                {proposedAction ? (
+                  <div className="space-y-3">
+                    <div className="font-mono text-blue-300">{proposedAction.signature}</div>
+                    {proposedAction.args.map((arg, index) => (
+                      <div key={index} className="flex justify-between text-sm">
+                        <span className="text-gray-300">{arg.name || `arg${index}`} ({arg.type})</span>
+                        <span className="text-white font-mono break-all ml-4">{arg.value}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-300 text-sm">Unrecognized calldata</p>
+                )}
+                
+                <div className="mt-4 p-3 bg-white/5 rounded-lg text-xs text-gray-400 font-mono break-all">
+                  {proposalDetail.proposal.execution_data}
+                </div>
+                
+                <p className="mt-3 text-sm text-gray-400">
+                  {proposalDetail.proposal.onchain_proposal_id == null
+                    ? 'Off-chain proposals are not executed on-chain; the token owner carries out this action if the proposal passes.'
+                    : proposalDetail.proposal.status === 'executed'
+                      ? 'This action has been executed.'
+                      : `Executable after ${formatDate(proposalDetail.proposal.execution_time)} if the proposal passes.`}
+                </p>
+              </div>
+            )}
+
             {/* Voting Results */}
             <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
               <h2 className="text-xl font-semibold text-white mb-4">Voting Results</h2>
@@ -438,7 +536,7 @@ export const ProposalDetail: React.FC = () => {
                       
                       <div className="text-right">
                         <div className="text-white font-medium">
-                          {parseFloat(vote.vote_weight).toLocaleString()} votes
+                          {parseFloat(vote.vote_weight).toLocaleString()} {proposalDetail.proposal.token_symbol}
                         </div>
                         <div className="text-gray-400 text-xs capitalize">
                           Voted {vote.vote}
@@ -505,9 +603,64 @@ export const ProposalDetail: React.FC = () => {
                     </div>
                   </div>
                 </div>
+                
+                {proposalDetail.proposal.snapshot_block != null && (
+                  <div className="flex items-start space-x-3">
+                    <Layers className="w-5 h-5 text-gray-400 mt-0.5" />
+                    <div>
+                      <div className="text-sm text-gray-300">Snapshot Block</div>
+                      <div className="text-white">
+                        #{Number(proposalDetail.proposal.snapshot_block).toLocaleString()}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        Voting power is your balance at this block
+                      </div>
+                    </div>
+                  </div>
+                )}
+                
+                {proposalDetail.proposal.governance_contract && (
+                  <div className="flex items-start space-x-3">
+                    <CheckCircle className="w-5 h-5 text-gray-400 mt-0.5" />
+                    <div>
+                      <div className="text-sm text-gray-300">Governance Contract</div>
+                      <div className="text-white font-mono text-sm">
+                        {proposalDetail.proposal.governance_contract.slice(0, 6)}...{proposalDetail.proposal.governance_contract.slice(-4)}
+                      </div>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* Execute Proposal */}
+            {proposalDetail.proposal.onchain_proposal_id != null && proposalDetail.proposal.status === 'passed' && isConnected && (
+              <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+                <h3 className="text-lg font-semibold text-white mb-4">Execute Proposal</h3>
+                
+                {executeError && (
+                  <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+                    {executeError}
+                  </div>
+                )}
+                
+                {new Date() < new Date(proposalDetail.proposal.execution_time) ? (
+                  <p className="text-gray-300 text-sm">
+                    Timelock active until {formatDate(proposalDetail.proposal.execution_time)}
+                  </p>
+                ) : (
+                  <button
+                    onClick={handleExecute}
+                    disabled={isExecuting}
+                    className="w-full py-3 px-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+                  >
+                    {isExecuting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                    <span>{isExecuting ? 'Executing...' : 'Execute'}</span>
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Cast Vote */}
             {proposalDetail.proposal.status === 'active' && isConnected && (
               <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Zap, Info, AlertTriangle } from 'lucide-react';
 import { PresaleConfig } from '../../types/presale';
+import { useNetworkRegistry } from '../../hooks/useNetworkRegistry';
+import { getBaseTokens } from '../../config/networkRegistry';
 
 interface AutoListingConfigProps {
   config: PresaleConfig;
@@ -16,8 +18,16 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
     lpBaseTokenPercentage: 70,
     lockDuration: 180 // 180 days
   });
+  const [baseTokenChoice, setBaseTokenChoice] = useState(config.saleConfiguration.baseToken || '');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  const { registry } = useNetworkRegistry(config.network.chainId);
+  const routers = registry?.routers || [];
+  const baseTokens = registry ? getBaseTokens(registry) : [];
+  // Default to the wrapped native token until a base token is picked
+  const baseToken = baseTokens.find(token => token.address === baseTokenChoice) || baseTokens[0] || null;
+  const baseSymbol = baseToken?.symbol || config.network.symbol;
+
   const updateConfig = (updates: Partial<typeof autoListingConfig>) => {
     setAutoListingConfig(prev => ({ ...prev, ...updates }));
   };
@@ -26,6 +36,10 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
     const newErrors: Record<string, string> = {};
 
     if (autoListingConfig.enabled) {
+      if (routers.length === 0 || !baseToken) {
+        newErrors.network = `Auto-listing is not available on ${config.network.name}`;
+      }
+
       if (!autoListingConfig.listingPrice || parseFloat(autoListingConfig.listingPrice) <= 0) {
         newErrors.listingPrice = 'Listing price must be greater than 0';
       }
@@ -49,7 +63,14 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
 
   const handleNext = () => {
     if (validateForm()) {
-      onNext({ autoListingConfig });
+      onNext({
+        autoListingConfig,
+        // PresaleContractV2 raises the base token, so the sale pairs it with its token when listing
+        saleConfiguration: {
+          ...config.saleConfiguration,
+          baseToken: autoListingConfig.enabled && baseToken ? baseToken.address : undefined
+        }
+      });
     }
   };
 
@@ -94,11 +115,50 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
       {autoListingConfig.enabled && (
         <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
           <h3 className="text-lg font-semibold text-white mb-4">Listing Parameters</h3>
-          
+
+          {errors.network && (
+            <p className="text-red-400 text-sm mb-4">{errors.network}</p>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Base Token
+              </label>
+              <select
+                value={baseToken?.address || ''}
+                onChange={(e) => setBaseTokenChoice(e.target.value)}
+                disabled={baseTokens.length === 0}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {baseTokens.map(token => (
+                  <option key={token.address} value={token.address} className="bg-slate-800">
+                    {token.symbol}
+                  </option>
+                ))}
+              </select>
+              <p className="text-gray-400 text-xs mt-1">
+                Contributions are made in {baseSymbol}, and the listing pairs your token with it
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                DEX
+              </label>
+              <div className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white">
+                {routers.length > 0 ? routers.map(router => router.name).join(', ') : 'None available'}
+              </div>
+              <p className="text-gray-400 text-xs mt-1">
+                The router is chosen when you list after the sale is finalized
+              </p>
+            </div>
+          </div>
+
           <div className="grid md:grid-cols-2 gap-6">
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Listing Price (tokens per {config.network.symbol})
+                Listing Price (tokens per {baseSymbol})
               </label>
               <input
                 type="number"
@@ -182,7 +242,7 @@ export const AutoListingConfig: React.FC<AutoListingConfigProps> = ({ config, on
           <div className="mt-6 p-4 bg-blue-500/20 rounded-lg">
             <h4 className="font-medium text-blue-400 mb-2">Liquidity Preview</h4>
             <p className="text-blue-300 text-sm">
-              After the presale ends, {autoListingConfig.lpBaseTokenPercentage}% of raised {config.network.symbol} and {autoListingConfig.lpTokenPercentage}% of unsold tokens will be used to create a liquidity pool. The LP tokens will be locked for {formatDuration(autoListingConfig.lockDuration)}.
+              After the presale ends, {autoListingConfig.lpBaseTokenPercentage}% of raised {baseSymbol} and {autoListingConfig.lpTokenPercentage}% of unsold tokens will be used to create a liquidity pool. The LP tokens will be locked for {formatDuration(autoListingConfig.lockDuration)}.
             </p>
           </div>
         </div>
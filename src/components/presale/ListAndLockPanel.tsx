@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { CheckCircle, AlertTriangle, RefreshCw, Lock, TrendingUp } from 'lucide-react';
+import { Network } from '../../types';
+import { useNetworkRegistry } from '../../hooks/useNetworkRegistry';
+import { listingService, ListingState, PublishedLiquidityLock } from '../../services/listingService';
+
+interface ListAndLockPanelProps {
+  contractAddress: string;
+  network: Network;
+}
+
+const CUSTOM_ROUTER = 'custom';
+
+export const ListAndLockPanel: React.FC<ListAndLockPanelProps> = ({ contractAddress, network }) => {
+  const { registry } = useNetworkRegistry(network.chainId);
+  const routers = registry?.routers || [];
+
+  const [state, setState] = useState<ListingState | null>(null);
+  const [publishedLock, setPublishedLock] = useState<PublishedLiquidityLock | null>(null);
+  const [routerChoice, setRouterChoice] = useState<string | null>(null);
+  const [customRouter, setCustomRouter] = useState('');
+  const [lockHash, setLockHash] = useState<string | null>(null);
+  const [pendingStep, setPendingStep] = useState<'list' | 'lock' | 'publish' | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadState = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [listingState, lock] = await Promise.all([
+        listingService.getListingState(contractAddress),
+        listingService.getPublishedLock(contractAddress).catch(() => null)
+      ]);
+      setState(listingState);
+      setPublishedLock(lock);
+    } catch (error) {
+      console.error('Error loading listing state:', error);
+      setError((error as Error).message || 'Failed to load listing state');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contractAddress]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const publish = async (hash: string) => {
+    setPendingStep('publish');
+    try {
+      await listingService.publishLock(contractAddress, network.id, hash);
+      setLockHash(null);
+      await loadState();
+    } finally {
+      setPendingStep(null);
+    }
+  };
+
+  // Default to the network's first router until one is picked
+  const selectedRouter = routerChoice || routers[0]?.router || CUSTOM_ROUTER;
+
+  const handleList = async () => {
+    const router = selectedRouter === CUSTOM_ROUTER ? customRouter : selectedRouter;
+    if (!ethers.isAddress(router)) {
+      setError('Enter a valid DEX router address');
+      return;
+    }
+
+    setPendingStep('list');
+    setError(null);
+
+    try {
+      await listingService.autoList(contractAddress, network.id, router);
+      await loadState();
+    } catch (error) {
+      setError((error as Error).message || 'Failed to list on the DEX');
+    } finally {
+      setPendingStep(null);
+    }
+  };
+
+  const handleLock = async () => {
+    if (!state?.lpTokenAddress) return;
+
+    setPendingStep('lock');
+    setError(null);
+
+    try {
+      const hash = await listingService.lockLiquidity(network.chainId, state.lpTokenAddress, state.lockDuration);
+      // Kept so publishing can be retried without locking again
+      setLockHash(hash);
+      await publish(hash);
+    } catch (error) {
+      setError((error as Error).message || 'Failed to lock liquidity');
+      setPendingStep(null);
+    }
+  };
+
+  const handleRetryPublish = async () => {
+    if (!lockHash) return;
+
+    setError(null);
+    try {
+      await publish(lockHash);
+    } catch (error) {
+      setError((error as Error).message || 'Failed to publish the lock');
+    }
+  };
+
+  if (isLoading && !state) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-300">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        <span>Loading listing state...</span>
+      </div>
+    );
+  }
+
+  if (state && !state.autoListingEnabled) {
+    return <p className="text-gray-300 text-sm">Auto-listing was not enabled for this sale.</p>;
+  }
+
+  const lockDays = state ? Math.round(state.lockDuration / 86400) : 0;
+  const buttonClassName = 'bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed';
+  const inputClassName = 'w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-4">
+      {/* Step 1: add liquidity */}
+      <div className="p-4 bg-white/5 rounded-lg">
+        <h5 className="text-white font-medium mb-2 flex items-center space-x-2">
+          {state?.autoListed ? <CheckCircle className="w-4 h-4 text-green-400" /> : <TrendingUp className="w-4 h-4 text-blue-400" />}
+          <span>1. List on DEX</span>
+        </h5>
+        {state?.autoListed ? (
+          <p className="text-gray-300 text-sm">
+            Listed. LP token: <span className="font-mono break-all">{state.lpTokenAddress}</span>
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <select
+              value={selectedRouter}
+              onChange={(e) => setRouterChoice(e.target.value)}
+              className={inputClassName}
+            >
+              {routers.map(router => (
+                <option key={router.router} value={router.router} className="bg-slate-800">
+                  {router.name}
+                </option>
+              ))}
+              <option value={CUSTOM_ROUTER} className="bg-slate-800">Custom router</option>
+            </select>
+            {selectedRouter === CUSTOM_ROUTER && (
+              <input
+                type="text"
+                value={customRouter}
+                onChange={(e) => setCustomRouter(e.target.value)}
+                className={inputClassName}
+                placeholder="UniswapV2-compatible router address"
+              />
+            )}
+            <button type="button" onClick={handleList} disabled={pendingStep !== null} className={buttonClassName}>
+              <TrendingUp className="w-4 h-4" />
+              <span>{pendingStep === 'list' ? 'Listing...' : 'Add Liquidity'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Step 2: lock the LP tokens */}
+      <div className="p-4 bg-white/5 rounded-lg">
+        <h5 className="text-white font-medium mb-2 flex items-center space-x-2">
+          {publishedLock ? <CheckCircle className="w-4 h-4 text-green-400" /> : <Lock className="w-4 h-4 text-blue-400" />}
+          <span>2. Lock LP Tokens</span>
+        </h5>
+        {publishedLock ? (
+          <p className="text-gray-300 text-sm">
+            {publishedLock.amount} {publishedLock.lpTokenSymbol} locked until{' '}
+            {new Date(publishedLock.unlockTime * 1000).toLocaleDateString()} (lock #{publishedLock.lockId}). Shown on the sale page.
+          </p>
+        ) : lockHash ? (
+          <div className="space-y-2">
+            <p className="text-amber-300 text-sm">The LP tokens are locked, but the lock could not be published yet.</p>
+            <button type="button" onClick={handleRetryPublish} disabled={pendingStep !== null} className={buttonClassName}>
+              <RefreshCw className={`w-4 h-4 ${pendingStep === 'publish' ? 'animate-spin' : ''}`} />
+              <span>{pendingStep === 'publish' ? 'Publishing...' : 'Retry Publishing'}</span>
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-gray-300 text-sm">
+              {state?.autoListed
+                ? `Lock ${state.lpBalance} LP tokens for ${lockDays} days, as configured for this sale.`
+                : 'Available once the sale is listed.'}
+            </p>
+            <button
+              type="button"
+              onClick={handleLock}
+              disabled={!state?.autoListed || parseFloat(state.lpBalance) <= 0 || pendingStep !== null}
+              className={buttonClassName}
+            >
+              <Lock className="w-4 h-4" />
+              <span>{pendingStep === 'lock' ? 'Locking...' : pendingStep === 'publish' ? 'Publishing...' : 'Approve & Lock'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-start space-x-2 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
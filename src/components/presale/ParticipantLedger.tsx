@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Download, RefreshCw } from 'lucide-react';
+import { Network } from '../../types';
+import { presaleService, ParticipantLedger as Ledger, ParticipantExportFormat } from '../../services/presaleService';
+
+interface ParticipantLedgerProps {
+  presaleAddress: string;
+  network: Network;
+}
+
+const PAGE_SIZE = 25;
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Drop trailing zeros so base-unit precision stays readable in the table
+const formatAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return amount === 0 ? '0' : amount.toLocaleString(undefined, { maximumFractionDigits: 6 });
+};
+
+export const ParticipantLedger: React.FC<ParticipantLedgerProps> = ({ presaleAddress, network }) => {
+  const [ledger, setLedger] = useState<Ledger | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [exportingFormat, setExportingFormat] = useState<ParticipantExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setLedger(await presaleService.getParticipants(presaleAddress, page, PAGE_SIZE));
+    } catch (error) {
+      console.error('Error loading participants:', error);
+      setError((error as Error).message || 'Failed to load participants');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [presaleAddress, page]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const handleExport = async (format: ParticipantExportFormat) => {
+    setExportingFormat(format);
+    setError(null);
+
+    try {
+      const blob = await presaleService.exportParticipants(presaleAddress, format);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `participants-${presaleAddress}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting participants:', error);
+      setError((error as Error).message || 'Failed to export participants');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const totalPages = ledger ? Math.max(Math.ceil(ledger.total / PAGE_SIZE), 1) : 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2 text-sm text-gray-300">
+          <span>{ledger ? `${ledger.total} participants` : 'Loading participants...'}</span>
+          <button
+            type="button"
+            onClick={loadLedger}
+            className="text-gray-400 hover:text-white transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+        <div className="flex items-center space-x-2">
+          {(['csv', 'json'] as ParticipantExportFormat[]).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              disabled={exportingFormat !== null || !ledger || ledger.total === 0}
+              className="bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              <span>{exportingFormat === format ? 'Exporting...' : format.toUpperCase()}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start space-x-2 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {ledger && ledger.participants.length === 0 && (
+        <p className="text-gray-300 text-sm">No contributions have been indexed for this sale yet.</p>
+      )}
+
+      {ledger && ledger.participants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Wallet</th>
+                <th className="py-2 pr-4 font-medium text-right">Contributed</th>
+                <th className="py-2 pr-4 font-medium text-right">Tokens Owed</th>
+                <th className="py-2 pr-4 font-medium text-right">Claimed</th>
+                <th className="py-2 pr-4 font-medium text-right">Refunded</th>
+                <th className="py-2 pr-4 font-medium">Referrer</th>
+                {ledger.whitelistEnabled && <th className="py-2 font-medium">Whitelisted</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.participants.map(participant => (
+                <tr key={participant.address} className="border-b border-white/5 text-gray-300">
+                  <td className="py-2 pr-4">
+                    <a
+                      href={`${network.explorerUrl}/address/${participant.address}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-white hover:text-blue-300"
+                      title={participant.address}
+                    >
+                      {shortenAddress(participant.address)}
+                    </a>
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {formatAmount(participant.contributed)}
+                    {parseFloat(participant.withdrawn) > 0 && (
+                      <div className="text-xs text-amber-400">
+                        {formatAmount(participant.withdrawn)} withdrawn, {formatAmount(participant.penalty)} penalty
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(participant.tokensOwed)}</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(participant.tokensClaimed)}</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(participant.refunded)}</td>
+                  <td className="py-2 pr-4 font-mono">
+                    {participant.referrer ? shortenAddress(participant.referrer) : '—'}
+                  </td>
+                  {ledger.whitelistEnabled && (
+                    <td className={`py-2 ${participant.isWhitelisted ? 'text-green-400' : 'text-gray-400'}`}>
+                      {participant.isWhitelisted ? 'Yes' : 'No'}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {ledger && totalPages > 1 && (
+        <div className="flex items-center justify-end space-x-2 text-sm text-gray-300">
+          <button
+            type="button"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || isLoading}
+            className="p-1 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {page} of {totalPages}</span>
+          <button
+            type="button"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages || isLoading}
+            className="p-1 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,6 +7,8 @@ import { NetworkSelector } from '../NetworkSelector';
 import { contractService } from '../../services/contractService';
 import { useNetworkMode } from '../../hooks/useNetworkMode';
 import { useWallet } from '../../hooks/useWallet';
+import { useNetworkRegistry } from '../../hooks/useNetworkRegistry';
+import { getBaseTokens } from '../../config/networkRegistry';
 import { web3Service } from '../../services/web3Service';
 
 interface PresaleReviewStepProps {
@@ -31,6 +33,13 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
   const [showNetworkModal, setShowNetworkModal] = useState(false);
   const [showAutoListingPreview, setShowAutoListingPreview] = useState(false);
 
+  // The auto-listing base token has to exist on the network the sale is deployed to
+  const { registry } = useNetworkRegistry(config.network.chainId);
+  const baseToken = registry && config.saleConfiguration.baseToken
+    ? getBaseTokens(registry).find(token => token.address === config.saleConfiguration.baseToken) || null
+    : null;
+  const isBaseTokenMissing = !!config.autoListingConfig?.enabled && !baseToken;
+
   // Fetch real gas estimate on component mount
   useEffect(() => {
     const fetchGasEstimate = async () => {
@@ -139,6 +148,7 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
 
 
   const getSaleTypeDisplay = () => {
+    if (config.saleType === 'fairlaunch') return 'Fairlaunch';
     return config.saleType === 'presale' ? 'Public Presale' : 'Private Sale';
   };
 
@@ -237,6 +247,12 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
                     {config.antiBotConfig.walletCooldown} seconds
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Purchase Signature</label>
+                  <div className="text-white font-medium">
+                    {config.antiBotConfig.signatureRequired ? 'Required' : 'Not required'}
+                  </div>
+                </div>
               </div>
               
               <div className="mt-4 p-3 bg-blue-500/20 rounded-lg">
@@ -259,16 +275,31 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
                 <label className="block text-sm font-medium text-gray-300 mb-1">Soft Cap</label>
                 <div className="text-white font-medium">{config.saleConfiguration.softCap} {config.network.symbol}</div>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">Hard Cap</label>
-                <div className="text-white font-medium">{config.saleConfiguration.hardCap} {config.network.symbol}</div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-1">Token Price</label>
-                <div className="text-white font-medium">
-                  {config.saleConfiguration.tokenPrice} {config.tokenInfo.tokenSymbol} per {config.network.symbol}
-                </div>
-              </div>
+              {config.saleType === 'fairlaunch' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Hard Cap</label>
+                    <div className="text-white font-medium">None</div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Token Price</label>
+                    <div className="text-white font-medium">Tokens for sale / total raised</div>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Hard Cap</label>
+                    <div className="text-white font-medium">{config.saleConfiguration.hardCap} {config.network.symbol}</div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Token Price</label>
+                    <div className="text-white font-medium">
+                      {config.saleConfiguration.tokenPrice} {config.tokenInfo.tokenSymbol} per {config.network.symbol}
+                    </div>
+                  </div>
+                </>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Purchase Limits</label>
                 <div className="text-white font-medium">
@@ -299,7 +330,11 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
                 <div className="flex items-center space-x-2">
                   <Shield className="w-4 h-4 text-purple-400" />
                   <span className="text-purple-400 font-medium">
-                    Whitelist: {config.saleConfiguration.whitelistEnabled ? 'Enabled' : 'Disabled'}
+                    Whitelist: {config.saleConfiguration.whitelistEnabled
+                      ? config.saleConfiguration.whitelistSize
+                        ? `${config.saleConfiguration.whitelistSize} addresses`
+                        : 'Enabled'
+                      : 'Disabled'}
                   </span>
                 </div>
               </div>
@@ -439,7 +474,7 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
                   <div className="flex justify-between">
                     <span className="text-gray-300">Listing Price</span>
                     <span className="text-white font-medium">
-                      {config.autoListingConfig.listingPrice} {config.tokenInfo.tokenSymbol} per {config.network.symbol}
+                      {config.autoListingConfig.listingPrice} {config.tokenInfo.tokenSymbol} per {baseToken?.symbol || config.network.symbol}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -456,14 +491,25 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
                   </div>
                 </div>
                 
-                <div className="mt-4 p-3 bg-green-500/20 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <CheckCircle className="w-4 h-4 text-green-400" />
-                    <span className="text-green-400 text-sm">
-                      Auto-listing will be triggered after successful presale
-                    </span>
+                {isBaseTokenMissing ? (
+                  <div className="mt-4 p-3 bg-amber-500/20 rounded-lg">
+                    <div className="flex items-center space-x-2">
+                      <AlertTriangle className="w-4 h-4 text-amber-400" />
+                      <span className="text-amber-400 text-sm">
+                        The selected base token is not available on {config.network.name}. Go back to Auto-Listing to pick one.
+                      </span>
+                    </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="mt-4 p-3 bg-green-500/20 rounded-lg">
+                    <div className="flex items-center space-x-2">
+                      <CheckCircle className="w-4 h-4 text-green-400" />
+                      <span className="text-green-400 text-sm">
+                        Auto-listing will be triggered after successful presale
+                      </span>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -529,7 +575,7 @@ export const PresaleReviewStep: React.FC<PresaleReviewStepProps> = ({ config, on
         
         <button
           onClick={handleDeploy}
-          disabled={!agreed || !hasEnoughESR || isDeploying}
+          disabled={!agreed || !hasEnoughESR || isBaseTokenMissing || isDeploying}
           className="bg-gradient-to-r from-green-500 to-blue-600 hover:from-green-600 hover:to-blue-700 text-white px-8 py-3 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isDeploying ? (
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { Trophy, Loader2 } from 'lucide-react';
+import { referralService, ReferralLeaderboardEntry } from '../../services/referralService';
+
+interface ReferralLeaderboardProps {
+  presaleAddress: string;
+  symbol: string;
+  limit?: number;
+}
+
+export const ReferralLeaderboard: React.FC<ReferralLeaderboardProps> = ({ presaleAddress, symbol, limit = 10 }) => {
+  const [entries, setEntries] = useState<ReferralLeaderboardEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+
+    referralService.getLeaderboard(presaleAddress, limit)
+      .then(setEntries)
+      .catch(error => {
+        console.error('Error loading referral leaderboard:', error);
+        setError('Failed to load the referral leaderboard');
+      })
+      .finally(() => setIsLoading(false));
+  }, [presaleAddress, limit]);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20">
+      <div className="flex items-center space-x-2 mb-4">
+        <Trophy className="w-5 h-5 text-yellow-400" />
+        <h3 className="text-xl font-semibold text-white">Top Referrers</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-red-300 text-sm">{error}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-300 text-sm">No referred purchases yet. Share your link to lead the board.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-white/10">
+              <th className="py-2 pr-4 font-medium">#</th>
+              <th className="py-2 pr-4 font-medium">Referrer</th>
+              <th className="py-2 pr-4 font-medium text-right">Buyers</th>
+              <th className="py-2 pr-4 font-medium text-right">Volume</th>
+              <th className="py-2 font-medium text-right">Rewards</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.referrer} className="border-b border-white/5 text-gray-300">
+                <td className="py-2 pr-4 text-white">{entry.rank}</td>
+                <td className="py-2 pr-4 font-mono" title={entry.referrer}>
+                  {entry.referrer.slice(0, 6)}...{entry.referrer.slice(-4)}
+                </td>
+                <td className="py-2 pr-4 text-right">{entry.referrals}</td>
+                <td className="py-2 pr-4 text-right">{parseFloat(entry.volume).toLocaleString()} {symbol}</td>
+                <td className="py-2 text-right text-green-400">{parseFloat(entry.rewards).toLocaleString()} {symbol}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { referralService, ReferralRewardsSummary } from '../../services/referralService';
+import { ReferralLeaderboard } from './ReferralLeaderboard';
+
+interface ReferralRewardsPanelProps {
+  presaleAddress: string;
+}
+
+export const ReferralRewardsPanel: React.FC<ReferralRewardsPanelProps> = ({ presaleAddress }) => {
+  const [summary, setSummary] = useState<ReferralRewardsSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setSummary(await referralService.getRewardsSummary(presaleAddress));
+    } catch (error) {
+      console.error('Error loading referral rewards:', error);
+      setError((error as Error).message || 'Failed to load referral rewards');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [presaleAddress]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  if (isLoading && !summary) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-300">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        <span>Loading referral rewards...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-start space-x-2 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+        <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+        <p className="text-red-300 text-sm">{error}</p>
+      </div>
+    );
+  }
+
+  if (!summary?.enabled) {
+    return <p className="text-gray-300 text-sm">This sale has no referral tracker.</p>;
+  }
+
+  const hasShortfall = parseFloat(summary.shortfall || '0') > 0;
+
+  return (
+    <div className="space-y-4">
+      {!summary.recordsPurchases && (
+        <div className="flex items-start space-x-2 p-3 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-amber-400 mt-0.5" />
+          <p className="text-amber-300 text-sm">
+            The referral tracker is not owned by this sale, so referred purchases are not being credited.
+          </p>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-4 text-sm">
+        <div className="p-4 bg-white/5 rounded-lg">
+          <p className="text-gray-400 mb-1">This Sale</p>
+          <p className="text-white font-medium">{summary.saleRewards} {summary.rewardSymbol} in rewards</p>
+          <p className="text-gray-400 mt-1">
+            {summary.referrers} referrers · {summary.saleVolume} {summary.rewardSymbol} volume · {summary.referralRate}% rate
+          </p>
+        </div>
+        <div className="p-4 bg-white/5 rounded-lg">
+          <p className="text-gray-400 mb-1">Owed by Tracker</p>
+          <p className="text-white font-medium">{summary.trackerRewardsOwed} {summary.rewardSymbol}</p>
+          <p className="text-gray-400 mt-1">Unclaimed rewards across every sale using it</p>
+        </div>
+        <div className={`p-4 rounded-lg ${hasShortfall ? 'bg-red-500/20' : 'bg-white/5'}`}>
+          <p className="text-gray-400 mb-1">Funded</p>
+          <p className="text-white font-medium">{summary.trackerFunded} {summary.rewardSymbol}</p>
+          <p className={`mt-1 ${hasShortfall ? 'text-red-300' : 'text-green-400'}`}>
+            {hasShortfall ? `${summary.shortfall} ${summary.rewardSymbol} short` : 'Fully funded'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span className="font-mono break-all">Tracker: {summary.trackerAddress}</span>
+        <button
+          type="button"
+          onClick={loadSummary}
+          className="text-gray-400 hover:text-white transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <ReferralLeaderboard presaleAddress={presaleAddress} symbol={summary.rewardSymbol || ''} />
+    </div>
+  );
+};
@@ -68,12 +68,20 @@ export const ReferralSystem: React.FC<ReferralSystemProps> = ({
       // Get referral stats
       const stats = await referralContract.getReferralStats(address);
       
+      // Rewards are paid in the tracker's base token, which may not have 18 decimals
+      const baseToken = new ethers.Contract(
+        await referralContract.baseToken(),
+        ['function decimals() view returns (uint8)'],
+        provider
+      );
+      const decimals = await baseToken.decimals();
+      
       setStats({
         totalReferrals: Number(stats[0]),
-        totalVolume: ethers.formatEther(stats[1]),
-        totalRewards: ethers.formatEther(stats[2]),
-        claimedRewards: ethers.formatEther(stats[3]),
-        unclaimedRewards: ethers.formatEther(stats[4])
+        totalVolume: ethers.formatUnits(stats[1], decimals),
+        totalRewards: ethers.formatUnits(stats[2], decimals),
+        claimedRewards: ethers.formatUnits(stats[3], decimals),
+        unclaimedRewards: ethers.formatUnits(stats[4], decimals)
       });
     } catch (error) {
       console.error('Error loading referral stats:', error);
@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { CheckCircle, AlertTriangle, RefreshCw, ExternalLink } from 'lucide-react';
+import { Network } from '../../types';
+import {
+  presaleAdminService,
+  SaleAdminAction,
+  SaleAdminState,
+  SaleAdminTransaction,
+  SalePhase,
+  PresaleVersion
+} from '../../services/presaleAdminService';
+import { ListAndLockPanel } from './ListAndLockPanel';
+
+interface SaleAdminPanelProps {
+  contractAddress: string;
+  network: Network;
+}
+
+const VERSION_LABELS: Record<PresaleVersion, string> = {
+  v1: 'PresaleContract',
+  v2: 'PresaleContractV2',
+  antiBot: 'AntiBotPresaleContract'
+};
+
+const PHASE_LABELS: Record<SalePhase, string> = {
+  upcoming: 'Before start',
+  live: 'Live',
+  ended: 'Ended',
+  softCapMissed: 'Ended, soft cap missed',
+  finalized: 'Finalized'
+};
+
+const ACTION_LABELS: Record<SaleAdminAction, string> = {
+  finalizeSale: 'Finalize Sale',
+  autoListToken: 'Auto-List on DEX',
+  pause: 'Pause Sale',
+  unpause: 'Unpause Sale',
+  updateWhitelist: 'Update Whitelist',
+  updatePenaltyRate: 'Update Penalty Rate',
+  withdrawPenalties: 'Withdraw Penalties',
+  updateFeaturedStatus: 'Update Featured Status',
+  emergencyWithdrawTokens: 'Emergency Withdraw Tokens'
+};
+
+export const SaleAdminPanel: React.FC<SaleAdminPanelProps> = ({ contractAddress, network }) => {
+  const [state, setState] = useState<SaleAdminState | null>(null);
+  const [history, setHistory] = useState<SaleAdminTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<SaleAdminAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastTransaction, setLastTransaction] = useState<{ action: SaleAdminAction; hash: string } | null>(null);
+
+  // Action inputs
+  const [whitelistAddresses, setWhitelistAddresses] = useState('');
+  const [whitelistStatus, setWhitelistStatus] = useState(true);
+  const [penaltyPercent, setPenaltyPercent] = useState('');
+  const [withdrawToken, setWithdrawToken] = useState('');
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+
+  const loadState = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const saleState = await presaleAdminService.getSaleState(contractAddress);
+      setState(saleState);
+      setPenaltyPercent((saleState.penaltyRate / 10).toString());
+
+      // History is best effort; sales deployed without the backend have none
+      presaleAdminService.getTransactions(contractAddress)
+        .then(setHistory)
+        .catch(() => setHistory([]));
+    } catch (error) {
+      console.error('Error loading sale state:', error);
+      setError((error as Error).message || 'Failed to load sale state');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contractAddress]);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const getActionArgs = async (action: SaleAdminAction): Promise<unknown[]> => {
+    switch (action) {
+      case 'updateWhitelist': {
+        const addresses = whitelistAddresses.split(/[\s,]+/).filter(Boolean);
+        const invalid = addresses.filter(address => !ethers.isAddress(address));
+        if (addresses.length === 0) throw new Error('Enter at least one address');
+        if (invalid.length > 0) throw new Error(`Invalid address: ${invalid[0]}`);
+        return [addresses, whitelistStatus];
+      }
+      case 'updatePenaltyRate': {
+        const percent = parseFloat(penaltyPercent);
+        if (isNaN(percent) || percent < 0 || percent > 30) throw new Error('Penalty rate must be between 0% and 30%');
+        return [Math.round(percent * 10)];
+      }
+      case 'updateFeaturedStatus':
+        return [!state?.featured];
+      case 'emergencyWithdrawTokens':
+        if (!ethers.isAddress(withdrawToken)) throw new Error('Enter a valid token address');
+        if (!withdrawAmount || parseFloat(withdrawAmount) <= 0) throw new Error('Enter an amount to withdraw');
+        return [withdrawToken, await presaleAdminService.parseTokenAmount(withdrawToken, withdrawAmount)];
+      default:
+        return [];
+    }
+  };
+
+  const handleAction = async (action: SaleAdminAction) => {
+    if (!state) return;
+
+    setPendingAction(action);
+    setError(null);
+    setLastTransaction(null);
+
+    try {
+      const args = await getActionArgs(action);
+      const hash = await presaleAdminService.executeAction(contractAddress, network.id, state.version, action, args);
+      setLastTransaction({ action, hash });
+      await loadState();
+    } catch (error) {
+      setError((error as Error).message || `Failed to run ${ACTION_LABELS[action]}`);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const renderActionButton = (action: SaleAdminAction, label = ACTION_LABELS[action]) => (
+    <button
+      type="button"
+      onClick={() => handleAction(action)}
+      disabled={pendingAction !== null}
+      className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {pendingAction === action ? 'Confirming...' : label}
+    </button>
+  );
+
+  const inputClassName = 'w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const renderAction = (action: SaleAdminAction) => {
+    switch (action) {
+      case 'updateWhitelist':
+        return (
+          <div className="space-y-2">
+            <textarea
+              value={whitelistAddresses}
+              onChange={(e) => setWhitelistAddresses(e.target.value)}
+              className={`${inputClassName} h-24 font-mono text-sm`}
+              placeholder="One address per line"
+            />
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <input type="radio" checked={whitelistStatus} onChange={() => setWhitelistStatus(true)} />
+                <span>Add</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <input type="radio" checked={!whitelistStatus} onChange={() => setWhitelistStatus(false)} />
+                <span>Remove</span>
+              </label>
+              {renderActionButton(action)}
+            </div>
+          </div>
+        );
+      case 'updatePenaltyRate':
+        return (
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max="30"
+              value={penaltyPercent}
+              onChange={(e) => setPenaltyPercent(e.target.value)}
+              className={`${inputClassName} max-w-[8rem]`}
+            />
+            <span className="text-gray-300">%</span>
+            {renderActionButton(action)}
+          </div>
+        );
+      case 'withdrawPenalties':
+        return renderActionButton(action, `Withdraw ${state?.totalPenalties} ${state?.raisedSymbol} in Penalties`);
+      case 'updateFeaturedStatus':
+        return renderActionButton(action, state?.featured ? 'Remove Featured Status' : 'Mark as Featured');
+      case 'emergencyWithdrawTokens':
+        return (
+          <div className="space-y-2">
+            <p className="text-amber-300 text-sm">
+              Tokens still owed to participants must stay in the contract; only withdraw unsold or refunded tokens.
+            </p>
+            <div className="grid md:grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={withdrawToken}
+                onChange={(e) => setWithdrawToken(e.target.value)}
+                className={inputClassName}
+                placeholder="Token address"
+              />
+              <input
+                type="number"
+                value={withdrawAmount}
+                onChange={(e) => setWithdrawAmount(e.target.value)}
+                className={inputClassName}
+                placeholder="Amount"
+              />
+            </div>
+            {renderActionButton(action)}
+          </div>
+        );
+      default:
+        return renderActionButton(action);
+    }
+  };
+
+  if (isLoading && !state) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-300">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        <span>Loading sale state...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {state && (
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <span className="text-gray-300">Contract: <span className="text-white">{VERSION_LABELS[state.version]}</span></span>
+          <span className="text-gray-300">Phase: <span className="text-white">{PHASE_LABELS[state.phase]}</span></span>
+          {state.paused && <span className="px-2 py-1 rounded-full text-xs font-medium text-amber-400 bg-amber-500/20">Paused</span>}
+          <button
+            type="button"
+            onClick={loadState}
+            className="text-gray-400 hover:text-white transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      )}
+
+      {state && !state.isOwner && (
+        <p className="text-gray-300 text-sm">Connect the wallet that owns this sale to manage it.</p>
+      )}
+
+      {state?.isOwner && state.availableActions.length === 0 && (
+        <p className="text-gray-300 text-sm">No owner actions are available in the current phase.</p>
+      )}
+
+      {state?.availableActions.map(action => (
+        <div key={action} className="p-4 bg-white/5 rounded-lg">
+          <h5 className="text-white font-medium mb-2">{ACTION_LABELS[action]}</h5>
+          {renderAction(action)}
+        </div>
+      ))}
+
+      {state?.isOwner && state.version === 'v2' && state.phase === 'finalized' && state.autoListingEnabled && state.softCapReached && (
+        <div className="p-4 bg-white/5 rounded-lg">
+          <h5 className="text-white font-medium mb-2">List & Lock</h5>
+          <ListAndLockPanel contractAddress={contractAddress} network={network} />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start space-x-2 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {lastTransaction && (
+        <div className="flex items-start space-x-2 p-3 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <CheckCircle className="w-4 h-4 text-green-400 mt-0.5" />
+          <a
+            href={`${network.explorerUrl}/tx/${lastTransaction.hash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-green-300 text-sm hover:text-green-200 flex items-center space-x-1"
+          >
+            <span>{ACTION_LABELS[lastTransaction.action]} confirmed</span>
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div>
+          <h5 className="text-white font-medium mb-2">Recent Actions</h5>
+          <div className="space-y-1 text-sm">
+            {history.slice(0, 10).map(transaction => (
+              <div key={transaction.transaction_hash} className="flex justify-between text-gray-300">
+                <a
+                  href={`${network.explorerUrl}/tx/${transaction.transaction_hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-white"
+                >
+                  {transaction.transaction_type.replace(/_/g, ' ').toLowerCase()}
+                </a>
+                <span className={transaction.status === 'confirmed' ? 'text-green-400' : 'text-red-400'}>
+                  {transaction.status} · {new Date(transaction.created_at).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Calendar, Clock, DollarSign, Users, AlertTriangle, Info, Zap, Shield } from 'lucide-react';
 import { PresaleConfig } from '../../types/presale';
+import { WhitelistManager } from './WhitelistManager';
 
 interface SaleConfigStepProps {
   config: PresaleConfig;
@@ -11,6 +12,7 @@ interface SaleConfigStepProps {
 export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext, onBack }) => {
   const [saleConfig, setSaleConfig] = useState(config.saleConfiguration);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const isFairlaunch = config.saleType === 'fairlaunch';
 
   // Anti-bot protection settings
   const [antiBotConfig, setAntiBotConfig] = useState({
@@ -54,16 +56,19 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
       newErrors.softCap = 'Soft cap must be greater than 0';
     }
 
-    if (!saleConfig.hardCap || parseFloat(saleConfig.hardCap) <= 0) {
-      newErrors.hardCap = 'Hard cap must be greater than 0';
-    }
+    // Fairlaunches have no hard cap; the price follows from the total raised
+    if (!isFairlaunch) {
+      if (!saleConfig.hardCap || parseFloat(saleConfig.hardCap) <= 0) {
+        newErrors.hardCap = 'Hard cap must be greater than 0';
+      }
 
-    if (saleConfig.softCap && saleConfig.hardCap && parseFloat(saleConfig.softCap) >= parseFloat(saleConfig.hardCap)) {
-      newErrors.hardCap = 'Hard cap must be greater than soft cap';
-    }
+      if (saleConfig.softCap && saleConfig.hardCap && parseFloat(saleConfig.softCap) >= parseFloat(saleConfig.hardCap)) {
+        newErrors.hardCap = 'Hard cap must be greater than soft cap';
+      }
 
-    if (!saleConfig.tokenPrice || parseFloat(saleConfig.tokenPrice) <= 0) {
-      newErrors.tokenPrice = 'Token price must be greater than 0';
+      if (!saleConfig.tokenPrice || parseFloat(saleConfig.tokenPrice) <= 0) {
+        newErrors.tokenPrice = 'Token price must be greater than 0';
+      }
     }
 
     if (!saleConfig.minPurchase || parseFloat(saleConfig.minPurchase) <= 0) {
@@ -114,6 +119,14 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
     return (parseFloat(cap) * parseFloat(saleConfig.tokenPrice)).toLocaleString();
   };
 
+  // Tokens per 1 native token if the fairlaunch raises exactly the soft cap
+  const getFairlaunchPriceAtSoftCap = () => {
+    const allocated = parseFloat(config.tokenInfo.allocatedAmount);
+    const softCap = parseFloat(saleConfig.softCap);
+    if (!allocated || !softCap) return '0';
+    return (allocated / softCap).toLocaleString();
+  };
+
   const getSaleDuration = () => {
     if (!saleConfig.startDate || !saleConfig.endDate) return '';
     const start = new Date(saleConfig.startDate);
@@ -164,20 +177,32 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
             {errors.softCap && <p className="text-red-400 text-sm mt-1">{errors.softCap}</p>}
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Hard Cap ({config.network.symbol})
-            </label>
-            <input
-              type="number"
-              step="0.001"
-              value={saleConfig.hardCap}
-              onChange={(e) => updateConfig({ hardCap: e.target.value })}
-              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="e.g., 100"
-            />
-            {errors.hardCap && <p className="text-red-400 text-sm mt-1">{errors.hardCap}</p>}
-          </div>
+          {isFairlaunch ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Tokens for Sale
+              </label>
+              <div className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white">
+                {parseFloat(config.tokenInfo.allocatedAmount || '0').toLocaleString()} {config.tokenInfo.tokenSymbol}
+              </div>
+              <p className="text-gray-400 text-xs mt-1">No hard cap: the whole allocation is shared pro rata among contributors</p>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Hard Cap ({config.network.symbol})
+              </label>
+              <input
+                type="number"
+                step="0.001"
+                value={saleConfig.hardCap}
+                onChange={(e) => updateConfig({ hardCap: e.target.value })}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., 100"
+              />
+              {errors.hardCap && <p className="text-red-400 text-sm mt-1">{errors.hardCap}</p>}
+            </div>
+          )}
         </div>
       </div>
 
@@ -185,21 +210,23 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
       <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
         <h3 className="text-lg font-semibold text-white mb-4">Pricing & Limits</h3>
         
-        <div className="grid md:grid-cols-3 gap-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Token Price (tokens per 1 {config.network.symbol})
-            </label>
-            <input
-              type="number"
-              step="0.001"
-              value={saleConfig.tokenPrice}
-              onChange={(e) => updateConfig({ tokenPrice: e.target.value })}
-              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="e.g., 1000"
-            />
-            {errors.tokenPrice && <p className="text-red-400 text-sm mt-1">{errors.tokenPrice}</p>}
-          </div>
+        <div className={`grid ${isFairlaunch ? 'md:grid-cols-2' : 'md:grid-cols-3'} gap-6`}>
+          {!isFairlaunch && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Token Price (tokens per 1 {config.network.symbol})
+              </label>
+              <input
+                type="number"
+                step="0.001"
+                value={saleConfig.tokenPrice}
+                onChange={(e) => updateConfig({ tokenPrice: e.target.value })}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., 1000"
+              />
+              {errors.tokenPrice && <p className="text-red-400 text-sm mt-1">{errors.tokenPrice}</p>}
+            </div>
+          )}
 
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -233,7 +260,20 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
         </div>
 
         {/* Price Calculator */}
-        {saleConfig.tokenPrice && (
+        {isFairlaunch ? (
+          <div className="mt-4 p-4 bg-green-500/20 rounded-lg">
+            <h4 className="font-medium text-green-400 mb-2">Fairlaunch Pricing</h4>
+            <p className="text-green-300 text-sm mb-2">
+              The final price is the tokens for sale divided by the total raised, so it drops as more is contributed.
+            </p>
+            <div className="flex justify-between text-sm">
+              <span className="text-green-300">Price at soft cap:</span>
+              <span className="text-white font-medium">
+                {getFairlaunchPriceAtSoftCap()} {config.tokenInfo.tokenSymbol} per {config.network.symbol}
+              </span>
+            </div>
+          </div>
+        ) : saleConfig.tokenPrice && (
           <div className="mt-4 p-4 bg-blue-500/20 rounded-lg">
             <h4 className="font-medium text-blue-400 mb-2">Price Calculator</h4>
             <div className="grid md:grid-cols-2 gap-4 text-sm">
@@ -317,6 +357,23 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
           <p className="text-gray-300 text-sm mt-2">
             Only whitelisted addresses will be able to participate in the sale
           </p>
+
+          {saleConfig.whitelistEnabled && (
+            <div className="mt-4">
+              <p className="text-gray-400 text-sm mb-3">
+                Upload the whitelist as CSV. Buyers prove they are on it with a Merkle proof, so list size does not affect deployment cost.
+                You can also upload or replace it later from My Sales.
+              </p>
+              <WhitelistManager
+                network={config.network}
+                onWhitelistSaved={(whitelist) => updateConfig({
+                  whitelistId: whitelist.id,
+                  whitelistMerkleRoot: whitelist.merkleRoot,
+                  whitelistSize: whitelist.addressCount
+                })}
+              />
+            </div>
+          )}
         </div>
       )}
 
@@ -391,6 +448,24 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
                 Time between purchases from same wallet
               </p>
             </div>
+
+            <div className="md:col-span-3 flex items-start space-x-3">
+              <input
+                type="checkbox"
+                id="signatureRequired"
+                checked={antiBotConfig.signatureRequired}
+                onChange={(e) => updateAntiBotConfig({ signatureRequired: e.target.checked })}
+                className="w-4 h-4 mt-1 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <div>
+                <label htmlFor="signatureRequired" className="text-sm font-medium text-white">
+                  Require Purchase Signature
+                </label>
+                <p className="text-gray-400 text-xs mt-1">
+                  Buyers must sign in with their wallet and get a one-time signature from the platform before buying
+                </p>
+              </div>
+            </div>
           </div>
         )}
       </div>
@@ -405,18 +480,37 @@ export const SaleConfigStep: React.FC<SaleConfigStepProps> = ({ config, onNext,
               <span className="text-gray-300">Soft Cap:</span>
               <span className="text-white font-medium">{saleConfig.softCap} {config.network.symbol}</span>
             </div>
-            <div className="flex justify-between">
-              <span className="text-gray-300">Hard Cap:</span>
-              <span className="text-white font-medium">{saleConfig.hardCap} {config.network.symbol}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-300">Tokens at Soft Cap:</span>
-              <span className="text-blue-400 font-medium">{calculateTokensFromCap(saleConfig.softCap)} {config.tokenInfo.tokenSymbol}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-300">Tokens at Hard Cap:</span>
-              <span className="text-blue-400 font-medium">{calculateTokensFromCap(saleConfig.hardCap)} {config.tokenInfo.tokenSymbol}</span>
-            </div>
+            {isFairlaunch ? (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Hard Cap:</span>
+                  <span className="text-white font-medium">None</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Tokens for Sale:</span>
+                  <span className="text-blue-400 font-medium">{parseFloat(config.tokenInfo.allocatedAmount || '0').toLocaleString()} {config.tokenInfo.tokenSymbol}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Price at Soft Cap:</span>
+                  <span className="text-blue-400 font-medium">{getFairlaunchPriceAtSoftCap()} {config.tokenInfo.tokenSymbol}/{config.network.symbol}</span>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Hard Cap:</span>
+                  <span className="text-white font-medium">{saleConfig.hardCap} {config.network.symbol}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Tokens at Soft Cap:</span>
+                  <span className="text-blue-400 font-medium">{calculateTokensFromCap(saleConfig.softCap)} {config.tokenInfo.tokenSymbol}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Tokens at Hard Cap:</span>
+                  <span className="text-blue-400 font-medium">{calculateTokensFromCap(saleConfig.hardCap)} {config.tokenInfo.tokenSymbol}</span>
+                </div>
+              </>
+            )}
           </div>
           
           <div className="space-y-3">
@@ -13,7 +13,16 @@ export const SaleTypeStep: React.FC<SaleTypeStepProps> = ({ config, onNext, onBa
   const { isTestnetMode } = useNetworkMode();
   
   const handleNext = () => {
-    onNext({ saleType: config.saleType });
+    selectSaleType(config.saleType);
+  };
+
+  // Fairlaunches have no hard cap or fixed price, so drop any left over from another sale type
+  const selectSaleType = (saleType: PresaleConfig['saleType']) => {
+    if (saleType === 'fairlaunch') {
+      onNext({ saleType, saleConfiguration: { ...config.saleConfiguration, hardCap: '', tokenPrice: '' } });
+    } else {
+      onNext({ saleType });
+    }
   };
 
   const saleTypes = [
@@ -71,7 +80,7 @@ export const SaleTypeStep: React.FC<SaleTypeStepProps> = ({ config, onNext, onBa
         <p className="text-gray-300">Select the type of token sale you want to launch</p>
       </div>
 
-      <div className="grid md:grid-cols-2 gap-8">
+      <div className="grid md:grid-cols-3 gap-8">
         {saleTypes.map((saleType) => {
           const Icon = saleType.icon;
           const isSelected = config.saleType === saleType.id;
@@ -84,7 +93,7 @@ export const SaleTypeStep: React.FC<SaleTypeStepProps> = ({ config, onNext, onBa
                   ? 'border-blue-500 bg-blue-500/20 shadow-lg shadow-blue-500/25'
                   : 'border-white/20 bg-white/5 hover:border-white/40 hover:bg-white/10'
               }`}
-              onClick={() => onNext({ saleType: saleType.id })}
+              onClick={() => selectSaleType(saleType.id)}
             >
               {isSelected && (
                 <div className="absolute top-4 right-4 w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center">
@@ -124,6 +133,7 @@ export const SaleTypeStep: React.FC<SaleTypeStepProps> = ({ config, onNext, onBa
                 <th className="text-left py-3 text-gray-300">Feature</th>
                 <th className="text-center py-3 text-blue-400">Presale</th>
                 <th className="text-center py-3 text-purple-400">Private Sale</th>
+                <th className="text-center py-3 text-green-400">Fairlaunch</th>
               </tr>
             </thead>
             <tbody className="text-sm">
@@ -145,6 +155,12 @@ export const SaleTypeStep: React.FC<SaleTypeStepProps> = ({ config, onNext, onBa
                 <td className="text-center py-3 text-green-400">✓</td>
                 <td className="text-center py-3 text-green-400">✓</td>
               </tr>
+              <tr className="border-b border-white/10">
+                <td className="py-3 text-gray-300">Fixed Token Price</td>
+                <td className="text-center py-3 text-green-400">✓</td>
+                <td className="text-center py-3 text-green-400">✓</td>
+                <td className="text-center py-3 text-red-400">✗</td>
+              </tr>
               <tr className="border-b border-white/10">
                 <td className="py-3 text-gray-300">Vesting Support</td>
                 <td className="text-center py-3 text-green-400">✓</td>
@@ -0,0 +1,176 @@
+import React, { useState, useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import Papa from 'papaparse';
+import { ethers } from 'ethers';
+import { FileText, CheckCircle, AlertTriangle, ListChecks } from 'lucide-react';
+import { Network } from '../../types';
+import { presaleService, PresaleWhitelist } from '../../services/presaleService';
+
+interface WhitelistManagerProps {
+  network: Network;
+  presaleAddress?: string; // Deployed sales get the new root set on-chain right away
+  onWhitelistSaved?: (whitelist: PresaleWhitelist) => void;
+}
+
+interface ParsedWhitelist {
+  fileName: string;
+  addresses: string[];
+  invalid: string[];
+  duplicates: number;
+}
+
+// Read addresses from the first column, skipping an optional header row
+const parseWhitelistCsv = (fileName: string, csvData: string): ParsedWhitelist => {
+  const results = Papa.parse<string[]>(csvData, { skipEmptyLines: true });
+  const seen = new Set<string>();
+  const addresses: string[] = [];
+  const invalid: string[] = [];
+  let duplicates = 0;
+
+  results.data.forEach((record, index) => {
+    const value = record[0]?.trim() || '';
+    if (index === 0 && value.toLowerCase() === 'address') return;
+
+    if (!ethers.isAddress(value)) {
+      invalid.push(value);
+      return;
+    }
+
+    const checksummed = ethers.getAddress(value);
+    if (seen.has(checksummed)) {
+      duplicates++;
+    } else {
+      seen.add(checksummed);
+      addresses.push(checksummed);
+    }
+  });
+
+  return { fileName, addresses, invalid, duplicates };
+};
+
+export const WhitelistManager: React.FC<WhitelistManagerProps> = ({ network, presaleAddress, onWhitelistSaved }) => {
+  const [parsed, setParsed] = useState<ParsedWhitelist | null>(null);
+  const [saved, setSaved] = useState<PresaleWhitelist | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    const reader = new FileReader();
+
+    reader.onload = () => {
+      try {
+        setParsed(parseWhitelistCsv(file.name, reader.result as string));
+        setSaved(null);
+        setError(null);
+      } catch (error) {
+        console.error('Error parsing whitelist CSV:', error);
+        setError('Failed to parse CSV file. Please check the format.');
+      }
+    };
+
+    reader.readAsText(file);
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'text/csv': ['.csv']
+    },
+    maxFiles: 1
+  });
+
+  const handleSave = async () => {
+    if (!parsed || parsed.addresses.length === 0) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const whitelist = await presaleService.createWhitelist(parsed.addresses, network.id, presaleAddress);
+
+      if (presaleAddress) {
+        await presaleService.setWhitelistMerkleRoot(presaleAddress, whitelist.merkleRoot);
+      }
+
+      setSaved(whitelist);
+      onWhitelistSaved?.(whitelist);
+    } catch (error) {
+      console.error('Error saving whitelist:', error);
+      setError((error as Error).message || 'Failed to save whitelist');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          isDragActive
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-white/20 hover:border-white/40'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <FileText className="w-10 h-10 text-gray-400 mx-auto mb-2" />
+        <p className="text-gray-300">
+          {isDragActive
+            ? 'Drop the CSV file here...'
+            : 'Drag & drop a whitelist CSV, or click to select'}
+        </p>
+        <p className="text-gray-400 text-xs mt-1">One address per line in the first column</p>
+      </div>
+
+      {parsed && (
+        <div className="p-4 bg-white/5 rounded-lg space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-300">{parsed.fileName}</span>
+            <span className="text-white font-medium">{parsed.addresses.length} addresses</span>
+          </div>
+          {parsed.duplicates > 0 && (
+            <div className="text-gray-400">{parsed.duplicates} duplicate addresses removed</div>
+          )}
+          {parsed.invalid.length > 0 && (
+            <div className="text-amber-400">
+              {parsed.invalid.length} invalid entries skipped: {parsed.invalid.slice(0, 3).join(', ')}
+              {parsed.invalid.length > 3 && '...'}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start space-x-2 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {saved ? (
+        <div className="flex items-start space-x-2 p-3 bg-green-500/20 border border-green-500/50 rounded-lg">
+          <CheckCircle className="w-4 h-4 text-green-400 mt-0.5" />
+          <div className="text-sm">
+            <p className="text-green-300">
+              Whitelist of {saved.addressCount} addresses {presaleAddress ? 'is now active' : 'will be set on deployment'}
+            </p>
+            <p className="text-gray-400 font-mono break-all">{saved.merkleRoot}</p>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!parsed || parsed.addresses.length === 0 || isSaving}
+          className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ListChecks className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : presaleAddress ? 'Update Whitelist' : 'Build Merkle Root'}</span>
+        </button>
+      )}
+    </div>
+  );
+};
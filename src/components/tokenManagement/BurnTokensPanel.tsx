@@ -1,24 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { Flame, AlertTriangle, CheckCircle, Loader2, Wallet } from 'lucide-react';
-import { TokenManagementData } from '../../types/tokenManagement';
+import { TokenManagementData, BurnTransaction } from '../../types/tokenManagement';
 import { web3Service } from '../../services/web3Service';
+import { TokenHistoryTable, TokenHistoryColumn } from './TokenHistoryTable';
 
 interface BurnTokensPanelProps {
   tokenData: TokenManagementData;
   userAddress: string;
   onBurn: (amount: string) => Promise<string>;
+  getBurnHistory: () => Promise<BurnTransaction[]>;
 }
 
+const BURN_HISTORY_COLUMNS: TokenHistoryColumn<BurnTransaction>[] = [
+  { header: 'Date', value: burn => burn.timestamp, display: burn => new Date(burn.timestamp).toLocaleString() },
+  { header: 'Burned By', value: burn => burn.from, address: true },
+  { header: 'Amount', value: burn => burn.amount, display: burn => parseFloat(burn.amount).toLocaleString() },
+  { header: 'Transaction', value: burn => burn.txHash, address: true },
+  { header: 'Block', value: burn => String(burn.blockNumber) }
+];
+
 export const BurnTokensPanel: React.FC<BurnTokensPanelProps> = ({
   tokenData,
   userAddress,
-  onBurn
+  onBurn,
+  getBurnHistory
 }) => {
   const [amount, setAmount] = useState('');
   const [userBalance, setUserBalance] = useState('0');
   const [isBurning, setIsBurning] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
 
   useEffect(() => {
     loadUserBalance();
@@ -46,6 +58,7 @@ export const BurnTokensPanel: React.FC<BurnTokensPanelProps> = ({
       const hash = await onBurn(amount);
       setTxHash(hash);
       setAmount('');
+      setHistoryKey(key => key + 1);
       await loadUserBalance(); // Refresh balance
     } catch (error) {
       setError((error as Error).message);
@@ -180,6 +193,15 @@ export const BurnTokensPanel: React.FC<BurnTokensPanelProps> = ({
         </div>
       )}
 
+      <TokenHistoryTable
+        title="Burn History"
+        emptyMessage="No tokens have been burned yet."
+        columns={BURN_HISTORY_COLUMNS}
+        loadHistory={getBurnHistory}
+        csvFilename={`${tokenData.symbol}-burns.csv`}
+        reloadKey={historyKey}
+      />
+
       {/* Warning */}
       <div className="mt-6 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
         <div className="flex items-start space-x-3">
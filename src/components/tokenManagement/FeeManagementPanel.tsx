@@ -1,17 +1,28 @@
 import React, { useState } from 'react';
 import { Percent, AlertTriangle, CheckCircle, Loader2, Settings } from 'lucide-react';
-import { TokenManagementData } from '../../types/tokenManagement';
+import { TokenManagementData, FeeDistribution } from '../../types/tokenManagement';
+import { TokenHistoryTable, TokenHistoryColumn } from './TokenHistoryTable';
 
 interface FeeManagementPanelProps {
   tokenData: TokenManagementData;
   isOwner: boolean;
   onUpdateFees: (percentage: number, recipient?: string) => Promise<string>;
+  getFeeHistory: () => Promise<FeeDistribution[]>;
 }
 
+const FEE_HISTORY_COLUMNS: TokenHistoryColumn<FeeDistribution>[] = [
+  { header: 'Date', value: fee => fee.date, display: fee => new Date(fee.date).toLocaleString() },
+  { header: 'Recipient', value: fee => fee.recipient, address: true },
+  { header: 'Amount', value: fee => fee.amount, display: fee => parseFloat(fee.amount).toLocaleString() },
+  { header: 'Transaction', value: fee => fee.txHash, address: true },
+  { header: 'Block', value: fee => String(fee.blockNumber) }
+];
+
 export const FeeManagementPanel: React.FC<FeeManagementPanelProps> = ({
   tokenData,
   isOwner,
-  onUpdateFees
+  onUpdateFees,
+  getFeeHistory
 }) => {
   const [newPercentage, setNewPercentage] = useState(tokenData.features.transferFees.percentage.toString());
   const [newRecipient, setNewRecipient] = useState(tokenData.features.transferFees.recipient);
@@ -106,6 +117,14 @@ export const FeeManagementPanel: React.FC<FeeManagementPanelProps> = ({
             </div>
           </div>
         </div>
+
+        <TokenHistoryTable
+          title="Fee Distributions"
+          emptyMessage="No transfer fees have been collected yet."
+          columns={FEE_HISTORY_COLUMNS}
+          loadHistory={getFeeHistory}
+          csvFilename={`${tokenData.symbol}-fees.csv`}
+        />
       </div>
     );
   }
@@ -231,6 +250,14 @@ export const FeeManagementPanel: React.FC<FeeManagementPanelProps> = ({
         </div>
       )}
 
+      <TokenHistoryTable
+        title="Fee Distributions"
+        emptyMessage="No transfer fees have been collected yet."
+        columns={FEE_HISTORY_COLUMNS}
+        loadHistory={getFeeHistory}
+        csvFilename={`${tokenData.symbol}-fees.csv`}
+      />
+
       {/* Warning */}
       <div className="mt-6 p-4 bg-amber-500/20 border border-amber-500/50 rounded-lg">
         <div className="flex items-start space-x-3">
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, RefreshCw, Loader2, AlertTriangle } from 'lucide-react';
+import { holderAnalyticsService } from '../../services/holderAnalyticsService';
+import { HolderAnalytics, HolderCountPoint, HolderLabelType } from '../../types/tokenManagement';
+
+interface HolderAnalyticsPanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+}
+
+const LABEL_STYLES: Record<HolderLabelType, string> = {
+  dead: 'text-gray-300 bg-gray-500/20',
+  liquidityLocker: 'text-green-400 bg-green-500/20',
+  vesting: 'text-blue-400 bg-blue-500/20',
+  dexPair: 'text-purple-400 bg-purple-500/20',
+  presale: 'text-amber-400 bg-amber-500/20',
+  contract: 'text-gray-400 bg-white/10'
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatAddress = (addr: string) => {
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+};
+
+const formatPoint = (point: HolderCountPoint) => {
+  return point.timestamp ? new Date(point.timestamp * 1000).toLocaleDateString() : `Block ${point.blockNumber}`;
+};
+
+const HolderCountChart: React.FC<{ history: HolderCountPoint[] }> = ({ history }) => {
+  const maxHolders = Math.max(...history.map(point => point.holders), 1);
+  const firstBlock = history[0].blockNumber;
+  const blockSpan = Math.max(history[history.length - 1].blockNumber - firstBlock, 1);
+
+  const points = history.map(point => {
+    const x = ((point.blockNumber - firstBlock) / blockSpan) * CHART_WIDTH;
+    const y = CHART_HEIGHT - (point.holders / maxHolders) * CHART_HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+        <span>Holders</span>
+        <span>Max {maxHolders.toLocaleString()}</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-white/5 rounded-lg">
+        <polygon
+          points={`0,${CHART_HEIGHT} ${points.join(' ')} ${CHART_WIDTH},${CHART_HEIGHT}`}
+          className="fill-blue-500/20"
+        />
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="stroke-blue-400"
+        />
+      </svg>
+      <div className="flex items-center justify-between text-xs text-gray-400 mt-1">
+        <span>{formatPoint(history[0])}</span>
+        <span>{formatPoint(history[history.length - 1])}</span>
+      </div>
+    </div>
+  );
+};
+
+export const HolderAnalyticsPanel: React.FC<HolderAnalyticsPanelProps> = ({
+  tokenAddress,
+  tokenSymbol
+}) => {
+  const [analytics, setAnalytics] = useState<HolderAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setAnalytics(await holderAnalyticsService.getAnalytics(tokenAddress));
+    } catch (error) {
+      console.error('Error loading holder analytics:', error);
+      setError((error as Error).message || 'Failed to load holder analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tokenAddress]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <Users className="w-6 h-6 text-blue-400" />
+          <h3 className="text-xl font-semibold text-white">Holder Analytics</h3>
+        </div>
+        <button
+          onClick={loadAnalytics}
+          disabled={isLoading}
+          className="px-3 py-1 bg-white/10 text-gray-300 rounded text-sm flex items-center space-x-1 hover:bg-white/20 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {isLoading && !analytics ? (
+        <div className="flex items-center space-x-2 text-gray-400 text-sm py-4">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Loading holders...</span>
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm py-4">{error}</p>
+      ) : analytics && (
+        <div className="space-y-6">
+          {!analytics.synced && (
+            <div className="p-4 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+                <p className="text-amber-300 text-sm">
+                  Transfers of this token are still being indexed, so holder figures may be incomplete.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Concentration */}
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Holders</div>
+              <div className="text-lg font-bold text-white">{analytics.holders.toLocaleString()}</div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Top {analytics.concentration.topHolders} Share</div>
+              <div className="text-lg font-bold text-white">{analytics.concentration.topShare.toFixed(2)}%</div>
+              <div className="text-xs text-gray-400">of all {tokenSymbol}</div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Top {analytics.concentration.topHolders} Wallet Share</div>
+              <div className="text-lg font-bold text-white">{analytics.concentration.topCirculatingShare.toFixed(2)}%</div>
+              <div className="text-xs text-gray-400">
+                of {parseFloat(analytics.concentration.circulatingSupply).toLocaleString()} {tokenSymbol} outside known contracts
+              </div>
+            </div>
+          </div>
+
+          {/* Holder Count Over Time */}
+          {analytics.history.length > 1 && (
+            <HolderCountChart history={analytics.history} />
+          )}
+
+          {/* Top Holders */}
+          {analytics.topHolders.length === 0 ? (
+            <p className="text-gray-400 text-sm">No holders have been indexed yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">#</th>
+                    <th className="py-2 pr-4 font-medium">Holder</th>
+                    <th className="py-2 pr-4 font-medium">Balance</th>
+                    <th className="py-2 pr-4 font-medium">Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.topHolders.map((holder, index) => (
+                    <tr key={holder.address} className="border-b border-white/5">
+                      <td className="py-2 pr-4 text-gray-400">{index + 1}</td>
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-gray-200 font-mono" title={holder.address}>
+                            {formatAddress(holder.address)}
+                          </span>
+                          {holder.label && (
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LABEL_STYLES[holder.label.type]}`}>
+                              {holder.label.name}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-200">
+                        {parseFloat(holder.balance).toLocaleString()} {tokenSymbol}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center space-x-2">
+                          <div className="w-20 bg-white/10 rounded-full h-1.5">
+                            <div
+                              className="bg-blue-400 h-1.5 rounded-full"
+                              style={{ width: `${Math.min(holder.share, 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-gray-200">{holder.share.toFixed(2)}%</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { Camera, Download, Loader2, AlertTriangle } from 'lucide-react';
+import { ethers } from 'ethers';
+import { holderAnalyticsService } from '../../services/holderAnalyticsService';
+import { HolderLabelType, HolderSnapshot } from '../../types/tokenManagement';
+
+interface HolderSnapshotPanelProps {
+  tokenAddress: string;
+  tokenSymbol: string;
+}
+
+const EXCLUSION_OPTIONS: { type: HolderLabelType; name: string }[] = [
+  { type: 'dead', name: 'Zero and dead addresses' },
+  { type: 'dexPair', name: 'DEX pairs' },
+  { type: 'liquidityLocker', name: 'Liquidity lockers' },
+  { type: 'vesting', name: 'Vesting contracts' },
+  { type: 'presale', name: 'Presale contracts' },
+  { type: 'contract', name: 'Other contracts' }
+];
+
+const DEFAULT_EXCLUSIONS: HolderLabelType[] = ['dead', 'dexPair', 'liquidityLocker', 'vesting', 'presale'];
+
+const PREVIEW_SIZE = 10;
+
+const formatAddress = (addr: string) => {
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+};
+
+export const HolderSnapshotPanel: React.FC<HolderSnapshotPanelProps> = ({
+  tokenAddress,
+  tokenSymbol
+}) => {
+  const [blockNumber, setBlockNumber] = useState('');
+  const [minBalance, setMinBalance] = useState('');
+  const [excludeLabels, setExcludeLabels] = useState<HolderLabelType[]>(DEFAULT_EXCLUSIONS);
+  const [excludeAddresses, setExcludeAddresses] = useState('');
+  const [snapshot, setSnapshot] = useState<HolderSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Exchange wallets and other addresses, one per line or comma separated
+  const parsedAddresses = excludeAddresses.split(/[\s,]+/).filter(Boolean);
+  const invalidAddresses = parsedAddresses.filter(address => !ethers.isAddress(address));
+
+  const canSnapshot = /^\d+$/.test(blockNumber) && invalidAddresses.length === 0 && !(parseFloat(minBalance) < 0);
+
+  const toggleExclusion = (type: HolderLabelType) => {
+    setExcludeLabels(labels => labels.includes(type) ? labels.filter(label => label !== type) : [...labels, type]);
+  };
+
+  const handleSnapshot = async () => {
+    if (!canSnapshot) return;
+
+    setIsLoading(true);
+    setError(null);
+    setSnapshot(null);
+
+    try {
+      setSnapshot(await holderAnalyticsService.getSnapshot(tokenAddress, {
+        blockNumber: parseInt(blockNumber, 10),
+        minBalance: minBalance || '0',
+        excludeLabels,
+        excludeAddresses: parsedAddresses
+      }));
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // One "address,balance" line per holder and no header, as the Airdrop recipient upload expects
+  const handleExport = () => {
+    if (!snapshot) return;
+
+    const lines = snapshot.holders.map(holder => `${holder.address},${holder.balance}`);
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${tokenSymbol}-snapshot-${snapshot.blockNumber}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const getExclusionCounts = () => {
+    const counts = new Map<string, number>();
+    snapshot?.excluded.forEach(holder => counts.set(holder.reason, (counts.get(holder.reason) || 0) + 1));
+    return [...counts.entries()];
+  };
+
+  const includedTotal = snapshot
+    ? snapshot.holders.reduce((total, holder) => total + parseFloat(holder.balance), 0)
+    : 0;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-white/10">
+      <div className="flex items-center space-x-3 mb-6">
+        <Camera className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">Holder Snapshot</h3>
+      </div>
+
+      {/* Snapshot Form */}
+      <div className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Block Number
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={blockNumber}
+              onChange={(e) => setBlockNumber(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g. 19000000"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Minimum Balance ({tokenSymbol})
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.000001"
+              value={minBalance}
+              onChange={(e) => setMinBalance(e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="0"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Exclude
+          </label>
+          <div className="grid md:grid-cols-3 gap-2">
+            {EXCLUSION_OPTIONS.map(option => (
+              <label key={option.type} className="flex items-center space-x-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={excludeLabels.includes(option.type)}
+                  onChange={() => toggleExclusion(option.type)}
+                  className="rounded"
+                />
+                <span>{option.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Excluded Addresses (exchange wallets, team wallets)
+          </label>
+          <textarea
+            value={excludeAddresses}
+            onChange={(e) => setExcludeAddresses(e.target.value)}
+            rows={3}
+            className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-gray-400 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="One address per line"
+          />
+          {invalidAddresses.length > 0 && (
+            <p className="text-red-400 text-sm mt-1">Invalid address: {invalidAddresses[0]}</p>
+          )}
+        </div>
+
+        <button
+          onClick={handleSnapshot}
+          disabled={!canSnapshot || isLoading}
+          className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Replaying Transfers...</span>
+            </>
+          ) : (
+            <>
+              <Camera className="w-4 h-4" />
+              <span>Take Snapshot</span>
+            </>
+          )}
+        </button>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
+            <div>
+              <h4 className="font-medium text-red-400 mb-1">Snapshot Failed</h4>
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {snapshot && (
+        <div className="mt-6 space-y-4">
+          {!snapshot.complete && (
+            <div className="p-4 bg-amber-500/20 border border-amber-500/50 rounded-lg">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
+                <p className="text-amber-300 text-sm">
+                  This token was indexed from a recent block rather than its deployment, so balances
+                  received before then are missing from the snapshot.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Holders</div>
+              <div className="text-lg font-bold text-white">{snapshot.holders.length.toLocaleString()}</div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Their Balance</div>
+              <div className="text-lg font-bold text-white">
+                {includedTotal.toLocaleString()} {tokenSymbol}
+              </div>
+              <div className="text-xs text-gray-400">
+                of {parseFloat(snapshot.totalSupply).toLocaleString()} at block {snapshot.blockNumber}
+              </div>
+            </div>
+            <div className="bg-white/5 rounded-lg p-4">
+              <div className="text-sm text-gray-300">Excluded</div>
+              <div className="text-lg font-bold text-white">{snapshot.excluded.length.toLocaleString()}</div>
+              {getExclusionCounts().map(([reason, count]) => (
+                <div key={reason} className="text-xs text-gray-400">{reason}: {count}</div>
+              ))}
+            </div>
+          </div>
+
+          {snapshot.holders.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">Holder</th>
+                    <th className="py-2 pr-4 font-medium">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshot.holders.slice(0, PREVIEW_SIZE).map(holder => (
+                    <tr key={holder.address} className="border-b border-white/5">
+                      <td className="py-2 pr-4 text-gray-200 font-mono" title={holder.address}>
+                        {formatAddress(holder.address)}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-200">
+                        {parseFloat(holder.balance).toLocaleString()} {tokenSymbol}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {snapshot.holders.length > PREVIEW_SIZE && (
+                <p className="text-gray-400 text-sm mt-2">
+                  and {(snapshot.holders.length - PREVIEW_SIZE).toLocaleString()} more in the CSV
+                </p>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={snapshot.holders.length === 0}
+            className="px-4 py-2 bg-white/10 text-gray-300 rounded-lg text-sm flex items-center space-x-2 hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download CSV</span>
+          </button>
+          <p className="text-gray-400 text-xs">
+            The CSV lists one address and balance per line and can be uploaded as the Airdrop recipient list.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
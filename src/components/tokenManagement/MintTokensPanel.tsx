@@ -1,23 +1,35 @@
 import React, { useState } from 'react';
 import { Coins, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
-import { TokenManagementData } from '../../types/tokenManagement';
+import { TokenManagementData, MintTransaction } from '../../types/tokenManagement';
+import { TokenHistoryTable, TokenHistoryColumn } from './TokenHistoryTable';
 
 interface MintTokensPanelProps {
   tokenData: TokenManagementData;
   isOwner: boolean;
   onMint: (to: string, amount: string) => Promise<string>;
+  getMintHistory: () => Promise<MintTransaction[]>;
 }
 
+const MINT_HISTORY_COLUMNS: TokenHistoryColumn<MintTransaction>[] = [
+  { header: 'Date', value: mint => mint.timestamp, display: mint => new Date(mint.timestamp).toLocaleString() },
+  { header: 'Recipient', value: mint => mint.to, address: true },
+  { header: 'Amount', value: mint => mint.amount, display: mint => parseFloat(mint.amount).toLocaleString() },
+  { header: 'Transaction', value: mint => mint.txHash, address: true },
+  { header: 'Block', value: mint => String(mint.blockNumber) }
+];
+
 export const MintTokensPanel: React.FC<MintTokensPanelProps> = ({
   tokenData,
   isOwner,
-  onMint
+  onMint,
+  getMintHistory
 }) => {
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
   const [isMinting, setIsMinting] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
 
   const handleMint = async () => {
     if (!recipient || !amount || !isOwner) return;
@@ -31,6 +43,7 @@ export const MintTokensPanel: React.FC<MintTokensPanelProps> = ({
       setTxHash(hash);
       setRecipient('');
       setAmount('');
+      setHistoryKey(key => key + 1);
     } catch (error) {
       setError((error as Error).message);
     } finally {
@@ -81,6 +94,14 @@ export const MintTokensPanel: React.FC<MintTokensPanelProps> = ({
             </div>
           </div>
         </div>
+
+        <TokenHistoryTable
+          title="Mint History"
+          emptyMessage="No tokens have been minted yet."
+          columns={MINT_HISTORY_COLUMNS}
+          loadHistory={getMintHistory}
+          csvFilename={`${tokenData.symbol}-mints.csv`}
+        />
       </div>
     );
   }
@@ -204,6 +225,15 @@ export const MintTokensPanel: React.FC<MintTokensPanelProps> = ({
         </div>
       )}
 
+      <TokenHistoryTable
+        title="Mint History"
+        emptyMessage="No tokens have been minted yet."
+        columns={MINT_HISTORY_COLUMNS}
+        loadHistory={getMintHistory}
+        csvFilename={`${tokenData.symbol}-mints.csv`}
+        reloadKey={historyKey}
+      />
+
       {/* Warning */}
       <div className="mt-6 p-4 bg-amber-500/20 border border-amber-500/50 rounded-lg">
         <div className="flex items-start space-x-3">
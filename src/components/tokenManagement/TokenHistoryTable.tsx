@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from 'react';
+import { History, Download, RefreshCw, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+export interface TokenHistoryColumn<T> {
+  header: string;
+  value: (row: T) => string; // exported to CSV
+  display?: (row: T) => string; // shown in the table, defaults to value
+  address?: boolean; // shortened in the table, full value on hover
+}
+
+interface TokenHistoryTableProps<T> {
+  title: string;
+  emptyMessage: string;
+  columns: TokenHistoryColumn<T>[];
+  loadHistory: () => Promise<T[]>;
+  csvFilename: string;
+  reloadKey?: number;
+}
+
+const PAGE_SIZE = 10;
+
+const escapeCsv = (value: string) => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const formatAddress = (addr: string) => {
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+};
+
+export function TokenHistoryTable<T>({
+  title,
+  emptyMessage,
+  columns,
+  loadHistory,
+  csvFilename,
+  reloadKey = 0
+}: TokenHistoryTableProps<T>) {
+  const [rows, setRows] = useState<T[]>([]);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setRows(await loadHistory());
+      setPage(0);
+    } catch (error) {
+      console.error('Error loading token history:', error);
+      setError((error as Error).message || 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadHistory]);
+
+  useEffect(() => {
+    load();
+  }, [load, reloadKey]);
+
+  const handleExport = () => {
+    const lines = [
+      columns.map(column => escapeCsv(column.header)).join(','),
+      ...rows.map(row => columns.map(column => escapeCsv(column.value(row))).join(','))
+    ];
+
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = csvFilename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const pageRows = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium text-white flex items-center space-x-2">
+          <History className="w-4 h-4 text-gray-300" />
+          <span>{title}</span>
+        </h4>
+        <div className="flex space-x-2">
+          <button
+            onClick={load}
+            disabled={isLoading}
+            className="px-3 py-1 bg-white/10 text-gray-300 rounded text-sm flex items-center space-x-1 hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="px-3 py-1 bg-white/10 text-gray-300 rounded text-sm flex items-center space-x-1 hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" />
+            <span>CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {isLoading && rows.length === 0 ? (
+        <div className="flex items-center space-x-2 text-gray-400 text-sm py-4">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Scanning transfer events...</span>
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm py-4">{error}</p>
+      ) : rows.length === 0 ? (
+        <p className="text-gray-400 text-sm py-4">{emptyMessage}</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  {columns.map(column => (
+                    <th key={column.header} className="py-2 pr-4 font-medium">{column.header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((row, index) => (
+                  <tr key={index} className="border-b border-white/5">
+                    {columns.map(column => (
+                      <td
+                        key={column.header}
+                        title={column.address ? column.value(row) : undefined}
+                        className={`py-2 pr-4 text-gray-200 ${column.address ? 'font-mono' : ''}`}
+                      >
+                        {column.address ? formatAddress(column.value(row)) : (column.display || column.value)(row)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between mt-3 text-sm text-gray-400">
+              <span>{rows.length} entries</span>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 0}
+                  className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span>Page {page + 1} of {pageCount}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount - 1}
+                  className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,37 @@
 import React from 'react';
-import { Shield, CheckCircle, AlertTriangle, ExternalLink, Copy } from 'lucide-react';
+import { Shield, CheckCircle, AlertTriangle, ExternalLink, Copy, Loader2 } from 'lucide-react';
 import { TokenManagementData } from '../../types/tokenManagement';
+import { contractService } from '../../services/contractService';
 
 interface VerificationPanelProps {
   tokenData: TokenManagementData;
+  isOwner: boolean;
+  onVerified: () => void;
 }
 
-export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData }) => {
+export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData, isOwner, onVerified }) => {
   const [copied, setCopied] = React.useState(false);
+  const [isVerifying, setIsVerifying] = React.useState(false);
+  const [verificationError, setVerificationError] = React.useState<string | null>(null);
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setVerificationError(null);
+    
+    try {
+      const result = await contractService.verifyTokenSource(tokenData.address);
+      if (result.status === 'verified') {
+        onVerified();
+      } else {
+        setVerificationError(result.message || 'Verification failed');
+      }
+    } catch (error) {
+      console.error('Error verifying contract:', error);
+      setVerificationError((error as Error).message || 'Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -134,11 +158,33 @@ export const VerificationPanel: React.FC<VerificationPanelProps> = ({ tokenData
             <div className="flex items-start space-x-3">
               <AlertTriangle className="w-5 h-5 text-amber-400 mt-0.5" />
               <div>
-                <h5 className="font-medium text-amber-400 mb-1">Manual Verification Required</h5>
+                <h5 className="font-medium text-amber-400 mb-1">Verification Required</h5>
                 <p className="text-amber-300 text-sm mb-3">
-                  If automatic verification failed during deployment, you can manually verify your contract
-                  on the blockchain explorer using the contract source code and constructor parameters.
+                  Submit the contract source code and constructor parameters to the blockchain explorer,
+                  or verify manually on the explorer.
                 </p>
+                {verificationError && (
+                  <p className="text-red-400 text-sm mb-3">{verificationError}</p>
+                )}
+                {isOwner && (
+                  <button
+                    onClick={handleVerify}
+                    disabled={isVerifying}
+                    className="mb-3 bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 flex items-center space-x-2"
+                  >
+                    {isVerifying ? (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span>Verifying...</span>
+                      </>
+                    ) : (
+                      <>
+                        <Shield className="w-4 h-4" />
+                        <span>Verify Source Code</span>
+                      </>
+                    )}
+                  </button>
+                )}
                 <a
                   href={`${getExplorerUrl()}#code`}
                   target="_blank"
@@ -393,6 +393,28 @@ export const getTestnetChainIds = (): number[] => [
   CHAIN_IDS.ESR_TESTNET
 ];
 
+// Widest block range the default public RPC of each chain accepts in one eth_getLogs call
+const LOG_RANGE_LIMITS: Record<number, number> = {
+  [CHAIN_IDS.ETHEREUM]: 3000,
+  [CHAIN_IDS.BSC]: 5000,
+  [CHAIN_IDS.POLYGON]: 3500,
+  [CHAIN_IDS.ARBITRUM]: 10000,
+  [CHAIN_IDS.BASE]: 10000,
+  [CHAIN_IDS.AVALANCHE]: 2048,
+  [CHAIN_IDS.FANTOM]: 5000,
+  [CHAIN_IDS.CRONOS]: 2000,
+  [CHAIN_IDS.BSC_TESTNET]: 5000,
+  [CHAIN_IDS.ARBITRUM_SEPOLIA]: 10000,
+  [CHAIN_IDS.AVALANCHE_FUJI]: 2048
+};
+
+const DEFAULT_LOG_RANGE_LIMIT = 2000;
+
+// Get the eth_getLogs block range limit for a chain
+export const getLogRangeLimit = (chainId: number): number => {
+  return LOG_RANGE_LIMITS[chainId] || DEFAULT_LOG_RANGE_LIMIT;
+};
+
 // Check if a chain ID is a testnet
 export const isTestnetChain = (chainId: number): boolean => {
   return getTestnetChainIds().includes(chainId);
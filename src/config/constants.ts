@@ -5,12 +5,16 @@ export const ESR_TOKEN_ADDRESS = import.meta.env.VITE_ESR_TOKEN_ADDRESS || '0x74
 export const MODE_STORAGE_KEY = 'tokenforge-network-mode';
 export const DEFAULT_MODE = 'mainnet'; // 'mainnet' or 'testnet'
 
+// Fallback deployments waiting to be registered with the backend
+export const PENDING_REGISTRATIONS_STORAGE_KEY = 'tokenforge-pending-registrations';
+
 // Platform Configuration
 export const PLATFORM_WALLET = '0x742d35Cc6634C0532925a3b8D4C9db96590c6C8C'; // Platform wallet for receiving ESR tokens
 
 // Deployment Requirements
 export const MAINNET_ESR_REQUIREMENT = 100; // ESR tokens required for mainnet deployment
 export const TESTNET_ESR_REQUIREMENT = 0;   // ESR tokens required for testnet deployment (free)
+export const ESR_PAYMENT_CONFIRMATIONS = 3;  // Confirmations the backend requires before accepting an ESR payment
 
 // Network Configuration
 export const SUPPORTED_NETWORKS = {
@@ -33,6 +37,21 @@ export const FEATURES = {
   ENABLE_DEPLOYMENT_HISTORY: true
 };
 
+// Compiler settings the contracts are built with (must match hardhat.config.js for source verification)
+export const COMPILER_SETTINGS = {
+  version: 'v0.8.19+commit.7dd6d404',
+  optimizer: {
+    enabled: true,
+    runs: 200
+  }
+};
+
+// Block explorer verification polling
+export const VERIFICATION_CONFIG = {
+  POLL_INTERVAL_MS: 5000,
+  MAX_ATTEMPTS: 24
+};
+
 // RPC endpoints - Now uses environment variables with fallbacks
 export const SELF_HOSTED_RPC = {
   // Mainnets
@@ -0,0 +1,136 @@
+import { CHAIN_IDS } from './chainConfig';
+
+export interface DexRouter {
+  name: string;
+  router: string; // UniswapV2-compatible router, as PresaleContractV2.autoListToken expects
+  factory: string;
+}
+
+export interface RegistryToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+// Platform contracts deployed on a network, null where there is no deployment
+export interface PlatformContracts {
+  multiSender: string | null;
+  liquidityLocker: string | null;
+  tokenFactory: string | null;
+  presaleFactory: string | null;
+  referralTracker: string | null;
+}
+
+export type PlatformContract = keyof PlatformContracts;
+
+export interface NetworkRegistry {
+  chainId: number;
+  routers: DexRouter[]; // default first
+  wrappedNative: RegistryToken | null;
+  stablecoins: RegistryToken[];
+  contracts: PlatformContracts;
+}
+
+// Platform contracts are configured per deployment, so only the backend registry knows them
+const NO_CONTRACTS: PlatformContracts = {
+  multiSender: null,
+  liquidityLocker: null,
+  tokenFactory: null,
+  presaleFactory: null,
+  referralTracker: null
+};
+
+// Built-in DEX routers and base tokens, mirrored by server/services/networkRegistryService.js
+export const NETWORK_REGISTRY: Record<number, Omit<NetworkRegistry, 'chainId' | 'contracts'>> = {
+  [CHAIN_IDS.ETHEREUM]: {
+    routers: [
+      { name: 'Uniswap V2', router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', factory: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f' }
+    ],
+    wrappedNative: { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+      { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 }
+    ]
+  },
+  [CHAIN_IDS.BSC]: {
+    routers: [
+      { name: 'PancakeSwap V2', router: '0x10ED43C718714eb63d5aA57B78B54704E256024E', factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73' }
+    ],
+    wrappedNative: { symbol: 'WBNB', address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0x55d398326f99059fF775485246999027B3197955', decimals: 18 },
+      { symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18 },
+      { symbol: 'BUSD', address: '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', decimals: 18 }
+    ]
+  },
+  [CHAIN_IDS.POLYGON]: {
+    routers: [
+      { name: 'QuickSwap', router: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff', factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32' }
+    ],
+    wrappedNative: { symbol: 'WMATIC', address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
+      { symbol: 'USDC', address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6 }
+    ]
+  },
+  [CHAIN_IDS.ARBITRUM]: {
+    routers: [
+      { name: 'SushiSwap', router: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', factory: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4' }
+    ],
+    wrappedNative: { symbol: 'WETH', address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6 },
+      { symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 }
+    ]
+  },
+  [CHAIN_IDS.FANTOM]: {
+    routers: [
+      { name: 'SpookySwap', router: '0xF491e7B69E4244ad4002BC14e878a34207E38c29', factory: '0x152eE697f2E276fA89E96742e9bB9aB1F2E61bE3' }
+    ],
+    wrappedNative: { symbol: 'WFTM', address: '0x21be370D5312f44cB42ce377BC9b8a0cEF1A4C83', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDC', address: '0x04068DA6C83AFCFA0e13ba15A6696662335D5B75', decimals: 6 }
+    ]
+  },
+  [CHAIN_IDS.AVALANCHE]: {
+    routers: [
+      { name: 'Trader Joe', router: '0x60aE616a2155Ee3d9A68541Ba4544862310933d4', factory: '0x9Ad6C38BE94206cA50bb0d90783181662f0Cfa10' }
+    ],
+    wrappedNative: { symbol: 'WAVAX', address: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7', decimals: 6 },
+      { symbol: 'USDC', address: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E', decimals: 6 }
+    ]
+  },
+  [CHAIN_IDS.BASE]: {
+    routers: [
+      { name: 'Uniswap V2', router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24', factory: '0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6' }
+    ],
+    wrappedNative: { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 }
+    ]
+  },
+  [CHAIN_IDS.BSC_TESTNET]: {
+    routers: [
+      { name: 'PancakeSwap V2', router: '0xD99D1c33F9fC3444f8101754aBC46c52416550D1', factory: '0x6725F303b657a9451d8BA641348b6761A6CC7a17' }
+    ],
+    wrappedNative: { symbol: 'WBNB', address: '0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd', decimals: 18 },
+    stablecoins: [
+      { symbol: 'USDT', address: '0x337610d27c682E347C9cD60BD4b3b107C9d34dDd', decimals: 18 }
+    ]
+  }
+};
+
+// Built-in registry for a chain, used until the backend registry has loaded
+export const getDefaultRegistry = (chainId: number): NetworkRegistry => ({
+  chainId,
+  routers: NETWORK_REGISTRY[chainId]?.routers || [],
+  wrappedNative: NETWORK_REGISTRY[chainId]?.wrappedNative || null,
+  stablecoins: NETWORK_REGISTRY[chainId]?.stablecoins || [],
+  contracts: NO_CONTRACTS
+});
+
+// Tokens a sale can raise in and pair its token with when listing
+export const getBaseTokens = (registry: NetworkRegistry): RegistryToken[] =>
+  registry.wrappedNative ? [registry.wrappedNative, ...registry.stablecoins] : registry.stablecoins;
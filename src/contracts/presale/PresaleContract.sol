@@ -6,6 +6,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title PresaleContract
@@ -45,6 +46,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     
     mapping(address => Participant) public participants;
     mapping(address => bool) public whitelist;
+    bytes32 public whitelistMerkleRoot; // root of keccak256(abi.encodePacked(address)) leaves
     
     address public saleReceiver;
     address public refundWallet;
@@ -61,6 +63,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     event SaleFinalized(uint256 totalRaised, uint256 totalTokensSold);
     event RefundClaimed(address indexed buyer, uint256 amount);
     event WhitelistUpdated(address indexed user, bool status);
+    event WhitelistMerkleRootUpdated(bytes32 merkleRoot);
 
     modifier onlyWhitelisted() {
         if (saleInfo.whitelistEnabled) {
@@ -69,6 +72,11 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         _;
     }
 
+    modifier withWhitelistProof(bytes32[] calldata proof) {
+        _verifyWhitelistProof(proof);
+        _;
+    }
+
     modifier saleActive() {
         require(block.timestamp >= saleInfo.startTime, "Sale not started");
         require(block.timestamp <= saleInfo.endTime, "Sale ended");
@@ -97,6 +105,18 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
      * @dev Purchase tokens during the sale
      */
     function buyTokens() external payable nonReentrant whenNotPaused saleActive onlyWhitelisted {
+        _buyTokens();
+    }
+
+    /**
+     * @dev Purchase tokens with a proof of inclusion in the Merkle whitelist
+     * @param proof Merkle proof for msg.sender
+     */
+    function buyTokensWithProof(bytes32[] calldata proof) external payable nonReentrant whenNotPaused saleActive withWhitelistProof(proof) onlyWhitelisted {
+        _buyTokens();
+    }
+
+    function _buyTokens() internal {
         require(msg.value >= saleInfo.minPurchase, "Below minimum purchase");
         require(msg.value <= saleInfo.maxPurchase, "Above maximum purchase");
         require(totalRaised + msg.value <= saleInfo.hardCap, "Hard cap exceeded");
@@ -216,6 +236,34 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    /**
+     * @dev Set the Merkle root of the whitelist, replacing per-address updates for large lists
+     * @param merkleRoot Root of the whitelist tree, or zero to disable proofs
+     */
+    function setWhitelistMerkleRoot(bytes32 merkleRoot) external onlyOwner {
+        whitelistMerkleRoot = merkleRoot;
+        emit WhitelistMerkleRootUpdated(merkleRoot);
+    }
+
+    /**
+     * @dev Check whether an address is in the Merkle whitelist
+     */
+    function isWhitelistedByProof(address account, bytes32[] calldata proof) public view returns (bool) {
+        return whitelistMerkleRoot != bytes32(0) &&
+            MerkleProof.verify(proof, whitelistMerkleRoot, keccak256(abi.encodePacked(account)));
+    }
+
+    /**
+     * @dev Whitelist msg.sender from a Merkle proof, so later purchases need no proof
+     */
+    function _verifyWhitelistProof(bytes32[] calldata proof) internal {
+        if (!whitelist[msg.sender]) {
+            require(isWhitelistedByProof(msg.sender, proof), "Invalid whitelist proof");
+            whitelist[msg.sender] = true;
+            emit WhitelistUpdated(msg.sender, true);
+        }
+    }
+
     /**
      * @dev Emergency withdraw tokens (owner only)
      */
@@ -6,6 +6,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title PresaleContractV2
@@ -56,6 +57,7 @@ contract PresaleContractV2 is ReentrancyGuard, Ownable, Pausable {
     
     mapping(address => Participant) public participants;
     mapping(address => bool) public whitelist;
+    bytes32 public whitelistMerkleRoot; // root of keccak256(abi.encodePacked(address)) leaves
     
     address public saleReceiver;
     address public refundWallet;
@@ -86,6 +88,7 @@ contract PresaleContractV2 is ReentrancyGuard, Ownable, Pausable {
     event SaleFinalized(uint256 totalRaised, uint256 totalTokensSold);
     event RefundClaimed(address indexed buyer, uint256 amount);
     event WhitelistUpdated(address indexed user, bool status);
+    event WhitelistMerkleRootUpdated(bytes32 merkleRoot);
     event EmergencyWithdraw(address indexed user, uint256 contribution, uint256 penalty);
     event AutoListed(address indexed token, address indexed baseToken, address indexed lpToken, uint256 tokenAmount, uint256 baseTokenAmount);
     event FeaturedStatusUpdated(bool status);
@@ -97,6 +100,11 @@ contract PresaleContractV2 is ReentrancyGuard, Ownable, Pausable {
         _;
     }
 
+    modifier withWhitelistProof(bytes32[] calldata proof) {
+        _verifyWhitelistProof(proof);
+        _;
+    }
+
     modifier saleActive() {
         require(block.timestamp >= saleInfo.startTime, "Sale not started");
         require(block.timestamp <= saleInfo.endTime, "Sale ended");
@@ -130,6 +138,19 @@ contract PresaleContractV2 is ReentrancyGuard, Ownable, Pausable {
      * @param referrer Address of the referrer (optional)
      */
     function buyTokens(address referrer) external payable nonReentrant whenNotPaused saleActive onlyWhitelisted {
+        _buyTokens(referrer);
+    }
+
+    /**
+     * @dev Purchase tokens with a proof of inclusion in the Merkle whitelist
+     * @param proof Merkle proof for msg.sender
+     * @param referrer Address of the referrer (optional)
+     */
+    function buyTokensWithProof(bytes32[] calldata proof, address referrer) external payable nonReentrant whenNotPaused saleActive withWhitelistProof(proof) onlyWhitelisted {
+        _buyTokens(referrer);
+    }
+
+    function _buyTokens(address referrer) internal {
         require(msg.value == 0, "Use baseToken instead of native token");
         
         Participant storage participant = participants[msg.sender];
@@ -336,7 +357,7 @@ contract PresaleContractV2 is ReentrancyGuard, Ownable, Pausable {
         
         // Call router to add liquidity
         // This is a simplified version - in production, you'd use the actual router interface
-        (bool success, bytes memory result) = router.call(
+        (bool success, ) = router.call(
             abi.encodeWithSignature(
                 "addLiquidity(address,address,uint256,uint256,uint256,uint256,address,uint256)",
                 address(saleInfo.token),
@@ -352,9 +373,16 @@ contract PresaleContractV2 is ReentrancyGuard, Ownable, Pausable {
         
         require(success, "Auto-listing failed");
         
-        // Parse LP token address from result
-        // This is a simplified version - in production, you'd parse the actual return value
-        lpTokenAddress = address(bytes20(result));
+        // addLiquidity returns amounts, so look the pair up on the router's factory
+        (bool factorySuccess, bytes memory factoryResult) = router.staticcall(abi.encodeWithSignature("factory()"));
+        require(factorySuccess, "Router has no factory");
+        address factory = abi.decode(factoryResult, (address));
+        
+        (bool pairSuccess, bytes memory pairResult) = factory.staticcall(
+            abi.encodeWithSignature("getPair(address,address)", address(saleInfo.token), address(saleInfo.baseToken))
+        );
+        require(pairSuccess, "Pair lookup failed");
+        lpTokenAddress = abi.decode(pairResult, (address));
         
         autoListed = true;
         
@@ -382,6 +410,34 @@ contract PresaleContractV2 is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    /**
+     * @dev Set the Merkle root of the whitelist, replacing per-address updates for large lists
+     * @param merkleRoot Root of the whitelist tree, or zero to disable proofs
+     */
+    function setWhitelistMerkleRoot(bytes32 merkleRoot) external onlyOwner {
+        whitelistMerkleRoot = merkleRoot;
+        emit WhitelistMerkleRootUpdated(merkleRoot);
+    }
+
+    /**
+     * @dev Check whether an address is in the Merkle whitelist
+     */
+    function isWhitelistedByProof(address account, bytes32[] calldata proof) public view returns (bool) {
+        return whitelistMerkleRoot != bytes32(0) &&
+            MerkleProof.verify(proof, whitelistMerkleRoot, keccak256(abi.encodePacked(account)));
+    }
+
+    /**
+     * @dev Whitelist msg.sender from a Merkle proof, so later purchases need no proof
+     */
+    function _verifyWhitelistProof(bytes32[] calldata proof) internal {
+        if (!whitelist[msg.sender]) {
+            require(isWhitelistedByProof(msg.sender, proof), "Invalid whitelist proof");
+            whitelist[msg.sender] = true;
+            emit WhitelistUpdated(msg.sender, true);
+        }
+    }
+
     /**
      * @dev Update featured status (owner only)
      * @param status New featured status
@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react';
 import { ESR_TOKEN_ADDRESS, PLATFORM_WALLET, isTestnet } from '../config/constants';
 import { ethers } from 'ethers';
 import { web3Service } from '../services/web3Service';
+import { contractService } from '../services/contractService';
 import { AppError, ErrorType } from '../services/errorHandler';
 
 // ESR Token ABI (ERC-20 standard methods)
@@ -18,7 +19,7 @@ interface ESRTokenHook {
   isLoading: boolean;
   error: string | null;
   checkBalance: (address: string) => Promise<void>;
-  deductTokens: (address: string, amount: number) => Promise<string>;
+  deductTokens: (address: string, amount: number) => Promise<string | null>;
 }
 
 export const useESRToken = (): ESRTokenHook => {
@@ -115,89 +116,29 @@ export const useESRToken = (): ESRTokenHook => {
     }
 
     try {
-      // Check if we're on a testnet
       const network = await web3Service.getCurrentNetwork();
-      if (network && isTestnet(network.chainId)) {
-        // Even on testnet, we should simulate a realistic transaction
-        console.log('Testnet detected, simulating ESR token deduction with realistic delay');
-        
-        // Show loading state for a realistic amount of time
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        
-        // Update balance
-        setBalance(prev => Math.max(0, prev - amount));
-        
-        // Generate a realistic looking hash
-        const hash = '0x' + Array.from({length: 64}, () => 
-          '0123456789abcdef'[Math.floor(Math.random() * 16)]).join('');
-        
-        return hash;
-      }
-      
-      const signer = web3Service.getSigner();
-      if (!signer) {
+      if (!network) {
         throw new AppError('Wallet connection issue', ErrorType.WALLET);
       }
-      
-      // Create ESR token contract instance with signer
-      const esrContract = new ethers.Contract(ESR_TOKEN_ADDRESS, ESR_TOKEN_ABI, signer);
-      
-      // Get token decimals
-      const decimals = await esrContract.decimals();
-      
-      // Convert amount to wei
-      const amountWei = ethers.parseUnits(amount.toString(), decimals);
-      
-      // Check current balance
-      const currentBalance = await esrContract.balanceOf(address);
-      const formattedBalance = ethers.formatUnits(currentBalance, decimals);
-      const availableBalance = parseFloat(formattedBalance);
-      if (availableBalance < amount) {
-        throw new AppError(`Insufficient ESR balance. Required: ${amount} ESR, Available: ${availableBalance.toFixed(2)} ESR`, ErrorType.VALIDATION);
+
+      // Testnet deployments are free, so there is nothing to pay
+      if (isTestnet(network.chainId)) {
+        return null;
       }
-      
+
       console.log(`Transferring ${amount} ESR tokens to platform wallet ${PLATFORM_WALLET.slice(0, 6)}...${PLATFORM_WALLET.slice(-4)}`);
-      
-      // Transfer ESR tokens to platform wallet
-      const tx = await esrContract.transfer(PLATFORM_WALLET, amountWei);
-      const txHash = tx.hash;
-      
-      console.log(`ESR transfer transaction sent: ${tx.hash}`);
-      
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
-      
-      if (receipt.status === 1) {
-        console.log(`ESR transfer confirmed in block ${receipt.blockNumber}. Gas used: ${receipt.gasUsed.toString()}`);
-        
-        // Notify backend about the transaction
-        try {
-          const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/auth/esr/deduct`, {
-            method: 'POST',
-            headers: { 
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${localStorage.getItem('authToken')}`
-            },
-            body: JSON.stringify({ amount, txHash })
-          });
-          
-          if (!response.ok) {
-            console.warn('Backend notification about ESR deduction failed, but transaction was successful');
-          }
-        } catch (apiError) {
-          console.error('Failed to notify backend about ESR deduction:', apiError);
-          // Continue even if backend notification fails
-        }
-        
-        // Update balance after successful transaction
-        setTimeout(() => {
-          checkBalance(address);
-        }, 2000);
-        
-        return txHash;
-      } else {
-        throw new AppError('ESR transfer transaction failed', ErrorType.CONTRACT);
-      }
+
+      // Transfers the tokens and waits for the backend to verify the payment on-chain
+      const txHash = await contractService.payESRFee(network, amount);
+
+      console.log(`ESR payment verified: ${txHash}`);
+
+      // Update balance after successful payment
+      setTimeout(() => {
+        checkBalance(address);
+      }, 2000);
+
+      return txHash;
     } catch (error) {
       console.error('Error deducting ESR tokens:', error);
       if (error instanceof AppError) {
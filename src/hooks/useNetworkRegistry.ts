@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { NetworkRegistry, getDefaultRegistry } from '../config/networkRegistry';
+import { networkRegistryService } from '../services/networkRegistryService';
+
+interface NetworkRegistryHook {
+  registry: NetworkRegistry | null;
+  isLoading: boolean;
+}
+
+/**
+ * Registry of a chain; the built-in routers and base tokens are available right away,
+ * platform contracts once the backend registry has loaded
+ */
+export const useNetworkRegistry = (chainId: number | null | undefined): NetworkRegistryHook => {
+  const [registry, setRegistry] = useState<NetworkRegistry | null>(chainId ? getDefaultRegistry(chainId) : null);
+  const [isLoading, setIsLoading] = useState<boolean>(!!chainId);
+
+  useEffect(() => {
+    if (!chainId) {
+      setRegistry(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setRegistry(getDefaultRegistry(chainId));
+    setIsLoading(true);
+
+    networkRegistryService.getRegistry(chainId).then(loaded => {
+      if (!cancelled) {
+        setRegistry(loaded);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId]);
+
+  return { registry, isLoading };
+};
@@ -2,15 +2,54 @@ import { useState, useCallback } from 'react';
 import { Network } from '../types';
 import { ethers } from 'ethers';
 import { web3Service } from '../services/web3Service';
+import { presaleService } from '../services/presaleService';
 import PresaleContractABI from '../abis/PresaleContract.json';
+import PresaleContractV2ABI from '../abis/PresaleContractV2.json';
+
+// AntiBotPresaleContract takes a backend-issued signature in buyTokens
+const ANTIBOT_PRESALE_ABI = [
+  'function antiBotInfo() view returns (uint256 protectionDelay, uint256 maxGasPrice, uint256 walletCooldown, bool signatureRequired)',
+  'function buyTokens(bytes signature) payable',
+  'function buyTokensWithProof(bytes signature, bytes32[] proof) payable',
+  'function isFairlaunch() view returns (bool)',
+  'function getFairlaunchTokenAmount() view returns (uint256)'
+];
+
+// Merkle whitelists are proven on the first purchase; later purchases use the stored whitelist flag
+const WHITELIST_PROOF_ABI = [
+  'function whitelistMerkleRoot() view returns (bytes32)',
+  'function whitelist(address) view returns (bool)'
+];
+
+// PresaleContractV2 raises an ERC20 base token and pulls the approved amount in buyTokens
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+/**
+ * Base token of a PresaleContractV2 sale, or null for sales that raise the native currency
+ */
+const getV2BaseToken = async (contract: ethers.Contract): Promise<string | null> => {
+  try {
+    // Only PresaleContractV2 has a referral tracker
+    await contract.referralTracker();
+  } catch {
+    return null;
+  }
+  const saleInfo = await contract.saleInfo();
+  return saleInfo.baseToken;
+};
 
 interface SaleData {
   saleName: string;
   tokenName: string;
   tokenSymbol: string;
   tokenAddress: string;
-  saleType: 'presale' | 'private';
+  saleType: 'presale' | 'private' | 'fairlaunch';
   tokenPrice: string;
+  tokensForSale: string; // Fairlaunch token pool, shared pro rata; '0' for fixed-price sales
   softCap: string;
   hardCap: string;
   minPurchase: string;
@@ -25,6 +64,8 @@ interface SaleData {
   initialRelease: number;
   vestingDuration: number;
   isFinalized: boolean;
+  antiBotEnabled: boolean;
+  referralTracker: string | null; // PresaleContractV2 only
 }
 
 interface UserInfo {
@@ -40,7 +81,7 @@ interface SaleContractHook {
   userInfo: UserInfo | null;
   isLoading: boolean;
   isWhitelisted: boolean;
-  buyTokens: (amount: string) => Promise<void>;
+  buyTokens: (amount: string, captchaToken?: string, referrer?: string | null) => Promise<void>;
   claimTokens: () => Promise<void>;
   loadSaleData: () => Promise<void>;
   loadUserInfo: (address: string) => Promise<void>;
@@ -64,51 +105,92 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
       // Create contract instance
       const contract = new ethers.Contract(contractAddress, PresaleContractABI, provider);
       
+      // PresaleContractV2 adds a base token to saleInfo and raises in it
+      const v2Contract = new ethers.Contract(contractAddress, PresaleContractV2ABI, provider);
+      const baseTokenAddress = await getV2BaseToken(v2Contract);
+      
       // Get sale info
-      const saleInfo = await contract.saleInfo();
+      const saleInfo = baseTokenAddress ? await v2Contract.saleInfo() : await contract.saleInfo();
       const vestingInfo = await contract.vestingInfo();
       const stats = await contract.getSaleStats();
       
+      let raiseDecimals = 18;
+      let raiseSymbol: string | null = null;
+      let referralTracker: string | null = null;
+      if (baseTokenAddress) {
+        const baseToken = new ethers.Contract(baseTokenAddress, ERC20_ABI, provider);
+        [raiseDecimals, raiseSymbol, referralTracker] = await Promise.all([
+          baseToken.decimals().then(Number),
+          baseToken.symbol(),
+          v2Contract.referralTracker()
+        ]);
+        if (referralTracker === ethers.ZeroAddress) referralTracker = null;
+      }
+      
+      // Fairlaunches are always anti-bot presales
+      const antiBotContract = new ethers.Contract(contractAddress, ANTIBOT_PRESALE_ABI, provider);
+      let antiBotEnabled = false;
+      let isFairlaunch = false;
+      try {
+        isFairlaunch = await antiBotContract.isFairlaunch();
+        antiBotEnabled = true;
+      } catch {
+        // Not an anti-bot presale
+      }
+      
       // Get token info
       const tokenContract = new ethers.Contract(
         saleInfo.token,
-        ['function name() view returns (string)', 'function symbol() view returns (string)'],
+        [
+          'function name() view returns (string)',
+          'function symbol() view returns (string)',
+          'function decimals() view returns (uint8)'
+        ],
         provider
       );
       
-      const [tokenName, tokenSymbol] = await Promise.all([
+      const [tokenName, tokenSymbol, tokenDecimals] = await Promise.all([
         tokenContract.name(),
-        tokenContract.symbol()
+        tokenContract.symbol(),
+        tokenContract.decimals()
       ]);
       
+      const tokensForSale = isFairlaunch
+        ? ethers.formatUnits(await antiBotContract.getFairlaunchTokenAmount(), tokenDecimals)
+        : '0';
+      
       // Get network info
       const network = await web3Service.getCurrentNetwork();
       
-      // Determine sale type based on whitelist
-      const saleType = saleInfo.whitelistEnabled ? 'private' : 'presale';
+      // Determine sale type based on the fairlaunch flag and whitelist
+      const saleType = isFairlaunch ? 'fairlaunch' : saleInfo.whitelistEnabled ? 'private' : 'presale';
+      const saleTypeLabels = { presale: 'Presale', private: 'Private Sale', fairlaunch: 'Fairlaunch' };
       
       // Create sale data object
       const realSaleData: SaleData = {
-        saleName: `${tokenSymbol} ${saleType === 'private' ? 'Private Sale' : 'Presale'}`,
+        saleName: `${tokenSymbol} ${saleTypeLabels[saleType]}`,
         tokenName,
         tokenSymbol,
         tokenAddress: saleInfo.token,
         saleType,
         tokenPrice: ethers.formatEther(saleInfo.tokenPrice),
-        softCap: ethers.formatEther(saleInfo.softCap),
-        hardCap: ethers.formatEther(saleInfo.hardCap),
-        minPurchase: ethers.formatEther(saleInfo.minPurchase),
-        maxPurchase: ethers.formatEther(saleInfo.maxPurchase),
+        tokensForSale,
+        softCap: ethers.formatUnits(saleInfo.softCap, raiseDecimals),
+        hardCap: ethers.formatUnits(saleInfo.hardCap, raiseDecimals),
+        minPurchase: ethers.formatUnits(saleInfo.minPurchase, raiseDecimals),
+        maxPurchase: ethers.formatUnits(saleInfo.maxPurchase, raiseDecimals),
         startTime: Number(saleInfo.startTime),
         endTime: Number(saleInfo.endTime),
-        totalRaised: ethers.formatEther(stats[0]),
+        totalRaised: ethers.formatUnits(stats[0], raiseDecimals),
         totalParticipants: Number(stats[1]),
-        networkSymbol: network?.symbol || 'ETH',
+        networkSymbol: raiseSymbol || network?.symbol || 'ETH',
         explorerUrl: network?.explorerUrl || 'https://etherscan.io',
         vestingEnabled: vestingInfo.enabled,
         initialRelease: Number(vestingInfo.initialRelease),
         vestingDuration: Number(vestingInfo.vestingDuration) / (24 * 60 * 60), // Convert seconds to days
-        isFinalized: await contract.saleFinalized()
+        isFinalized: await contract.saleFinalized(),
+        antiBotEnabled,
+        referralTracker
       };
       
       setSaleData(realSaleData);
@@ -152,7 +234,7 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
     }
   }, [contractAddress]);
 
-  const buyTokens = useCallback(async (amount: string) => {
+  const buyTokens = useCallback(async (amount: string, captchaToken?: string, referrer?: string | null) => {
     if (!contractAddress || typeof window.ethereum === 'undefined') {
       throw new Error('Wallet not connected');
     }
@@ -162,14 +244,80 @@ export const useSaleContract = (contractAddress: string): SaleContractHook => {
       const signer = web3Service.getSigner();
       if (!signer) throw new Error('Signer not available');
       
-      // Create contract instance
-      const contract = new ethers.Contract(contractAddress, PresaleContractABI, signer);
-      
-      // Convert amount to wei
-      const amountWei = ethers.parseEther(amount);
-      
-      // Call buyTokens function
-      const tx = await contract.buyTokens({ value: amountWei });
+      // Anti-bot presales need a purchase signature when signatureRequired is on
+      const antiBotContract = new ethers.Contract(contractAddress, ANTIBOT_PRESALE_ABI, signer);
+      let antiBotInfo: { signatureRequired: boolean } | null = null;
+      try {
+        antiBotInfo = await antiBotContract.antiBotInfo();
+      } catch {
+        // Not an anti-bot presale
+      }
+
+      // Fetch a Merkle proof when the buyer is not whitelisted individually
+      const whitelistContract = new ethers.Contract(contractAddress, WHITELIST_PROOF_ABI, signer);
+      let merkleRoot = ethers.ZeroHash;
+      try {
+        merkleRoot = await whitelistContract.whitelistMerkleRoot();
+      } catch {
+        // Deployed before Merkle whitelists were supported
+      }
+
+      let proof: string[] | null = null;
+      if (merkleRoot !== ethers.ZeroHash) {
+        const account = await signer.getAddress();
+        if (!(await whitelistContract.whitelist(account))) {
+          const network = await web3Service.getCurrentNetwork();
+          if (!network) throw new Error('Network not detected');
+
+          const whitelistProof = await presaleService.getWhitelistProof(contractAddress, network.id, account);
+          if (!whitelistProof.whitelisted) throw new Error('Your address is not on the whitelist for this sale');
+          proof = whitelistProof.proof;
+        }
+      }
+
+      const v2Contract = new ethers.Contract(contractAddress, PresaleContractV2ABI, signer);
+      const baseTokenAddress = antiBotInfo ? null : await getV2BaseToken(v2Contract);
+
+      let tx;
+      if (baseTokenAddress) {
+        const baseToken = new ethers.Contract(baseTokenAddress, ERC20_ABI, signer);
+        const amountUnits = ethers.parseUnits(amount, await baseToken.decimals());
+
+        // The whole allowance is taken as the contribution, so approve exactly the amount
+        const approveTx = await baseToken.approve(contractAddress, amountUnits);
+        await approveTx.wait();
+
+        const account = await signer.getAddress();
+        const referrerAddress = referrer && ethers.isAddress(referrer) && referrer.toLowerCase() !== account.toLowerCase()
+          ? referrer
+          : ethers.ZeroAddress;
+
+        tx = proof
+          ? await v2Contract.buyTokensWithProof(proof, referrerAddress)
+          : await v2Contract.buyTokens(referrerAddress);
+      } else if (antiBotInfo) {
+        const amountWei = ethers.parseEther(amount);
+
+        let signature = '0x';
+        if (antiBotInfo.signatureRequired) {
+          const network = await web3Service.getCurrentNetwork();
+          if (!network) throw new Error('Network not detected');
+
+          const purchaseSignature = await presaleService.getPurchaseSignature(contractAddress, network.id, captchaToken);
+          signature = purchaseSignature.signature || '0x';
+        }
+        tx = proof
+          ? await antiBotContract.buyTokensWithProof(signature, proof, { value: amountWei })
+          : await antiBotContract.buyTokens(signature, { value: amountWei });
+      } else {
+        const amountWei = ethers.parseEther(amount);
+
+        // Create contract instance
+        const contract = new ethers.Contract(contractAddress, PresaleContractABI, signer);
+        tx = proof
+          ? await contract.buyTokensWithProof(proof, { value: amountWei })
+          : await contract.buyTokens({ value: amountWei });
+      }
       
       // Wait for transaction confirmation
       await tx.wait();
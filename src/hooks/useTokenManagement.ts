@@ -1,7 +1,17 @@
 import { useState, useCallback, useEffect } from 'react';
 import { ethers } from 'ethers';
 import { web3Service } from '../services/web3Service';
-import { TokenManagementData, VestingSchedule, MintTransaction, BurnTransaction } from '../types/tokenManagement';
+import { contractService } from '../services/contractService';
+import { tokenHistoryService } from '../services/tokenHistoryService';
+import { tokenCapabilityService } from '../services/tokenCapabilityService';
+import {
+  TokenManagementData,
+  TokenCapabilitySet,
+  VestingSchedule,
+  MintTransaction,
+  BurnTransaction,
+  FeeDistribution
+} from '../types/tokenManagement';
 
 // Token ABI with management functions
 const TOKEN_MANAGEMENT_ABI = [
@@ -61,6 +71,7 @@ interface TokenManagementHook {
   getUnclaimedRewards: (address: string) => Promise<string>;
   getMintHistory: () => Promise<MintTransaction[]>;
   getBurnHistory: () => Promise<BurnTransaction[]>;
+  getFeeHistory: () => Promise<FeeDistribution[]>;
 }
 
 export const useTokenManagement = (userAddress: string): TokenManagementHook => {
@@ -92,12 +103,13 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
       const userIsOwner = ownerAddress === userAddress?.toLowerCase();
       setIsOwner(userIsOwner);
       
-      // Detect features by trying to call functions
-      const features = await detectTokenFeatures(contract);
+      // Capabilities are detected by the backend when the token is registered
+      const capabilities = await tokenCapabilityService.getCapabilities(contractAddress);
+      const features = await detectTokenFeatures(contract, capabilities.capabilities);
       
-      // Get max supply if mintable
+      // Get max supply if the token has one
       let maxSupply = '0';
-      if (features.mintable) {
+      if (capabilities.capabilities.maxSupply) {
         try {
           maxSupply = await contract.maxSupply();
         } catch (error) {
@@ -107,6 +119,7 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
       
       // Get network info
       const network = await web3Service.getCurrentNetwork();
+      const verified = await contractService.getVerificationStatus(contractAddress);
       
       const tokenManagementData: TokenManagementData = {
         address: contractAddress,
@@ -118,8 +131,9 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
         owner: ownerAddress || '',
         network: network?.name || 'Unknown',
         features,
+        capabilities,
         deploymentDate: new Date().toISOString(), // Would come from API in real implementation
-        verified: true // Would come from explorer API
+        verified
       };
       
       setTokenData(tokenManagementData);
@@ -131,10 +145,10 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
     }
   }, [userAddress]);
 
-  const detectTokenFeatures = async (contract: ethers.Contract) => {
+  const detectTokenFeatures = async (contract: ethers.Contract, capabilities: TokenCapabilitySet) => {
     const features = {
-      mintable: false,
-      burnable: false,
+      mintable: capabilities.mintable,
+      burnable: capabilities.burnable,
       transferFees: {
         enabled: false,
         percentage: 0,
@@ -152,29 +166,9 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
       verified: true
     };
     
-    // Check if mintable by looking for the mint function
-    try {
-      // First check if the function exists in the interface
-      if (contract.interface.getFunction('mint(address,uint256)')) {
-        features.mintable = true;
-      }
-    } catch (error) {
-      // Not mintable or not owner
-    }
-    
-    // Check if burnable by looking for the burn function
-    try {
-      if (contract.interface.getFunction('burn(uint256)')) {
-        features.burnable = true;
-      }
-    } catch (error) {
-      // Not burnable
-    }
-    
-    // Check for transfer fees by looking for fee-related functions
-    try {
-      if (contract.interface.getFunction('transferFeePercentage()') && 
-          contract.interface.getFunction('feeRecipient()')) {
+    // Read the current transfer fee settings
+    if (capabilities.transferFees) {
+      try {
         const feePercentage = await contract.transferFeePercentage();
         const feeRecipient = await contract.feeRecipient();
         
@@ -184,23 +178,23 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
           recipient: feeRecipient,
           editable: true
         };
+      } catch (error) {
+        console.warn('Transfer fee settings not available:', error);
       }
-    } catch (error) {
-      // No transfer fees
     }
     
-    // Check for redistribution by looking for redistribution-related functions
-    try {
-      if (contract.interface.getFunction('redistributionPercentage()')) {
+    // Read the current redistribution percentage
+    if (capabilities.redistribution) {
+      try {
         const redistributionPercentage = await contract.redistributionPercentage();
         
         features.holderRedistribution = {
           enabled: redistributionPercentage > 0,
           percentage: Number(redistributionPercentage) / 100
         };
+      } catch (error) {
+        console.warn('Redistribution settings not available:', error);
       }
-    } catch (error) {
-      // No redistribution
     }
     
     // Check for vesting by looking for a separate vesting contract
@@ -336,17 +330,22 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
   const getMintHistory = useCallback(async (): Promise<MintTransaction[]> => {
     if (!tokenData) return [];
     
-    // This would query blockchain events
-    // For now, return empty array
-    return [];
+    const history = await tokenHistoryService.getHistory(tokenData.address, tokenData.decimals, tokenData.features.transferFees.recipient);
+    return history.mints;
   }, [tokenData]);
 
   const getBurnHistory = useCallback(async (): Promise<BurnTransaction[]> => {
     if (!tokenData) return [];
     
-    // This would query blockchain events
-    // For now, return empty array
-    return [];
+    const history = await tokenHistoryService.getHistory(tokenData.address, tokenData.decimals, tokenData.features.transferFees.recipient);
+    return history.burns;
+  }, [tokenData]);
+
+  const getFeeHistory = useCallback(async (): Promise<FeeDistribution[]> => {
+    if (!tokenData) return [];
+    
+    const history = await tokenHistoryService.getHistory(tokenData.address, tokenData.decimals, tokenData.features.transferFees.recipient);
+    return history.fees;
   }, [tokenData]);
 
   return {
@@ -362,6 +361,7 @@ export const useTokenManagement = (userAddress: string): TokenManagementHook =>
     claimRewards,
     getUnclaimedRewards,
     getMintHistory,
-    getBurnHistory
+    getBurnHistory,
+    getFeeHistory
   };
 };
\ No newline at end of file
@@ -0,0 +1,303 @@
+import { ethers } from 'ethers';
+import {
+  AirdropBatch,
+  AirdropBatchStatus,
+  AirdropCampaign,
+  AirdropCampaignProgress,
+  AirdropCampaignRecipient,
+  AirdropCampaignStatus,
+  AirdropCampaignSummary,
+  AirdropReportFormat
+} from '../types/airdrop';
+import { AppError, ErrorType } from './errorHandler';
+import { web3Service } from './web3Service';
+import MultiSenderABI from '../abis/MultiSender.json';
+
+// Rows as returned by /api/airdrops/campaigns
+interface AirdropBatchRow {
+  batch_index: number;
+  status: AirdropBatchStatus;
+  transaction_hash: string | null;
+  airdrop_id: number | null;
+  recipient_count: number;
+}
+
+interface AirdropCampaignRow {
+  id: number;
+  status: AirdropCampaignStatus;
+  network_id: string;
+  token_address: string;
+  token_decimals: number;
+  batch_size: number;
+  recipient_count: number;
+  total_amount: string;
+  confirmed_batches?: number | string;
+  recipients?: AirdropCampaignRecipient[];
+  batches?: AirdropBatchRow[];
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+// How long a batch submitted before an interruption is waited for when resuming
+const SUBMITTED_BATCH_TIMEOUT_MS = 10 * 60 * 1000;
+
+export class AirdropCampaignService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+
+  private mapBatch(batch: AirdropBatchRow): AirdropBatch {
+    return {
+      batchIndex: batch.batch_index,
+      status: batch.status,
+      transactionHash: batch.transaction_hash,
+      airdropId: batch.airdrop_id,
+      recipientCount: batch.recipient_count
+    };
+  }
+
+  private mapSummary(campaign: AirdropCampaignRow): AirdropCampaignSummary {
+    const batches = campaign.batches || [];
+    return {
+      id: campaign.id,
+      status: campaign.status,
+      networkId: campaign.network_id,
+      tokenAddress: campaign.token_address,
+      tokenDecimals: campaign.token_decimals,
+      batchSize: campaign.batch_size,
+      recipientCount: campaign.recipient_count,
+      totalAmount: String(campaign.total_amount),
+      confirmedBatches: campaign.confirmed_batches !== undefined
+        ? Number(campaign.confirmed_batches)
+        : batches.filter(batch => batch.status === 'confirmed').length,
+      error: campaign.error || undefined,
+      createdAt: campaign.created_at,
+      updatedAt: campaign.updated_at
+    };
+  }
+
+  private mapCampaign(campaign: AirdropCampaignRow): AirdropCampaign {
+    return {
+      ...this.mapSummary(campaign),
+      recipients: campaign.recipients || [],
+      batches: (campaign.batches || []).map(batch => this.mapBatch(batch))
+    };
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.apiUrl}/api/airdrops/campaigns${path}`, {
+      ...init,
+      headers: this.getAuthHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const details = Array.isArray(errorData.details) ? `: ${errorData.details.join('; ')}` : '';
+      throw new AppError(`${errorData.error || 'Airdrop campaign request failed'}${details}`, ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  async createCampaign(params: {
+    networkId: string;
+    tokenAddress: string;
+    decimals: number;
+    batchSize: number;
+    recipients: AirdropCampaignRecipient[];
+  }): Promise<AirdropCampaign> {
+    const campaign = await this.request<AirdropCampaignRow>('', {
+      method: 'POST',
+      body: JSON.stringify({
+        network: params.networkId,
+        tokenAddress: params.tokenAddress,
+        decimals: params.decimals,
+        batchSize: params.batchSize,
+        recipients: params.recipients
+      })
+    });
+    return this.mapCampaign(campaign);
+  }
+
+  async getCampaign(id: number): Promise<AirdropCampaign> {
+    return this.mapCampaign(await this.request<AirdropCampaignRow>(`/${id}`));
+  }
+
+  /**
+   * The caller's campaigns for a token, newest first
+   */
+  async getCampaigns(tokenAddress: string, networkId: string): Promise<AirdropCampaignSummary[]> {
+    const params = new URLSearchParams({ token: tokenAddress, network: networkId });
+    const { campaigns } = await this.request<{ campaigns: AirdropCampaignRow[] }>(`?${params}`);
+    return campaigns.map(campaign => this.mapSummary(campaign));
+  }
+
+  async cancelCampaign(id: number): Promise<void> {
+    await this.setStatus(id, 'cancelled');
+  }
+
+  /**
+   * Per-recipient report of transaction hash and status as a CSV or JSON file
+   */
+  async exportReport(id: number, format: AirdropReportFormat): Promise<Blob> {
+    const response = await fetch(`${this.apiUrl}/api/airdrops/campaigns/${id}/report?format=${format}`, {
+      headers: this.getAuthHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to export airdrop report', ErrorType.SERVER, errorData);
+    }
+
+    return response.blob();
+  }
+
+  /**
+   * Most recipients one multiSend call accepts
+   */
+  async getBatchLimit(multiSenderAddress: string): Promise<number> {
+    const provider = web3Service.getProvider();
+    if (!provider) {
+      throw new AppError('Provider not connected', ErrorType.WALLET);
+    }
+
+    const multiSender = new ethers.Contract(multiSenderAddress, MultiSenderABI, provider);
+    return Number(await multiSender.maxBatchSize());
+  }
+
+  getBatchCount(campaign: AirdropCampaignSummary): number {
+    return Math.ceil(campaign.recipientCount / campaign.batchSize);
+  }
+
+  private getBatchRecipients(campaign: AirdropCampaign, batchIndex: number): AirdropCampaignRecipient[] {
+    const start = batchIndex * campaign.batchSize;
+    return campaign.recipients.slice(start, start + campaign.batchSize);
+  }
+
+  private async setStatus(id: number, status: AirdropCampaignStatus, error?: string): Promise<AirdropCampaign> {
+    const campaign = await this.request<AirdropCampaignRow>(`/${id}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, error })
+    });
+    return this.mapCampaign(campaign);
+  }
+
+  private async recordBatch(campaign: AirdropCampaign, batchIndex: number, transactionHash: string): Promise<AirdropCampaign> {
+    const result = await this.request<{ campaign: AirdropCampaignRow; batchStatus: AirdropBatchStatus }>(
+      `/${campaign.id}/batches/${batchIndex}`,
+      { method: 'PUT', body: JSON.stringify({ transactionHash }) }
+    );
+    return this.mapCampaign(result.campaign);
+  }
+
+  /**
+   * Send every batch that is not confirmed yet, one after another, from the connected wallet.
+   * The whole remaining amount, including MultiSender's per-batch platform fee, is approved once up front.
+   * Each batch is recorded when submitted and again when mined, so an interrupted campaign
+   * picks up after the last confirmed batch without sending any batch twice.
+   */
+  async runCampaign(
+    initialCampaign: AirdropCampaign,
+    multiSenderAddress: string,
+    onProgress: (campaign: AirdropCampaign, progress: AirdropCampaignProgress) => void
+  ): Promise<AirdropCampaign> {
+    const signer = web3Service.getSigner();
+    const provider = web3Service.getProvider();
+    if (!signer || !provider) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    let campaign = initialCampaign;
+    const totalBatches = this.getBatchCount(campaign);
+    const report = (currentBatch: number | null, stage: AirdropCampaignProgress['stage']) => onProgress(campaign, {
+      confirmedBatches: campaign.batches.filter(batch => batch.status === 'confirmed').length,
+      totalBatches,
+      currentBatch,
+      stage
+    });
+
+    try {
+      campaign = await this.setStatus(campaign.id, 'running');
+
+      // Settle batches that were submitted before the campaign was interrupted; reverted ones are sent again
+      for (const batch of campaign.batches.filter(batch => batch.status === 'submitted' && batch.transactionHash)) {
+        report(batch.batchIndex, 'confirming');
+        await provider.waitForTransaction(batch.transactionHash!, 1, SUBMITTED_BATCH_TIMEOUT_MS);
+        campaign = await this.recordBatch(campaign, batch.batchIndex, batch.transactionHash!);
+      }
+
+      const confirmed = new Set(campaign.batches.filter(batch => batch.status === 'confirmed').map(batch => batch.batchIndex));
+      const remaining = Array.from({ length: totalBatches }, (_, index) => index).filter(index => !confirmed.has(index));
+
+      const multiSender = new ethers.Contract(multiSenderAddress, MultiSenderABI, signer);
+      const token = new ethers.Contract(campaign.tokenAddress, ERC20_ABI, signer);
+      const platformFee: bigint = await multiSender.platformFee();
+
+      const batchAmounts = new Map(remaining.map(index => [
+        index,
+        this.getBatchRecipients(campaign, index).map(recipient => ethers.parseUnits(recipient.amount, campaign.tokenDecimals))
+      ]));
+
+      // MultiSender pulls each batch's total plus its fee, rounded down per batch
+      const requiredAllowance = Array.from(batchAmounts.values()).reduce((sum, amounts) => {
+        const batchTotal = amounts.reduce((total, amount) => total + amount, BigInt(0));
+        return sum + batchTotal + (batchTotal * platformFee) / BigInt(1000);
+      }, BigInt(0));
+
+      const allowance: bigint = await token.allowance(await signer.getAddress(), multiSenderAddress);
+      if (allowance < requiredAllowance) {
+        report(null, 'approving');
+        const approveTx = await token.approve(multiSenderAddress, requiredAllowance);
+        await approveTx.wait();
+      }
+
+      for (const batchIndex of remaining) {
+        report(batchIndex, 'sending');
+        const recipients = this.getBatchRecipients(campaign, batchIndex);
+        const tx = await multiSender.multiSend(
+          campaign.tokenAddress,
+          recipients.map(recipient => recipient.address),
+          batchAmounts.get(batchIndex)
+        );
+        campaign = await this.recordBatch(campaign, batchIndex, tx.hash);
+
+        report(batchIndex, 'confirming');
+        await tx.wait();
+        campaign = await this.recordBatch(campaign, batchIndex, tx.hash);
+      }
+
+      report(null, null);
+      return this.getCampaign(campaign.id);
+    } catch (error) {
+      console.error(`Airdrop campaign ${campaign.id} failed:`, error);
+      const message = (error as Error).message || 'Airdrop campaign failed';
+
+      try {
+        campaign = await this.setStatus(campaign.id, 'failed', message);
+        report(null, null);
+      } catch (statusError) {
+        console.error('Error recording campaign failure:', statusError);
+      }
+
+      throw error instanceof AppError ? error : new AppError(message, ErrorType.CONTRACT, error);
+    }
+  }
+}
+
+export const airdropCampaignService = new AirdropCampaignService();
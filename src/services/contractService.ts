@@ -1,23 +1,76 @@
-import { TokenConfig, Network, VestingConfig } from '../types';
+import { ethers } from 'ethers';
+import { TokenConfig, Network, VestingConfig, VestingDeploymentResult, VestingScheduleResult } from '../types';
 import { PresaleConfig } from '../types/presale';
+import { SentTransaction, TransactionSentHandler } from '../types/deploymentJob';
 import { AppError, ErrorType, reportError } from './errorHandler';
 import { web3Service } from './web3Service';
-import { fallbackDeploymentService } from './fallbackDeploymentService';
-import { MODE_STORAGE_KEY, DEFAULT_MODE } from '../config/constants';
+import { fallbackDeploymentService, FactoryCostComparison } from './fallbackDeploymentService';
+import { networkRegistryService } from './networkRegistryService';
+import TokenFactoryABI from '../abis/TokenFactory.json';
+import {
+  MODE_STORAGE_KEY,
+  DEFAULT_MODE,
+  ESR_TOKEN_ADDRESS,
+  PLATFORM_WALLET,
+  ESR_PAYMENT_CONFIRMATIONS,
+  VERIFICATION_CONFIG,
+  getESRRequirement
+} from '../config/constants';
+import { networks } from '../data/networks';
+
+export interface VerificationOptions {
+  pollInterval?: number; // ms
+  maxAttempts?: number;
+}
+
+export interface VerificationResult {
+  status: 'verified' | 'failed';
+  guid: string | null;
+  message: string;
+}
+
+// Verification state reported by the backend; 'indexing' means the explorer has not seen the deployment yet
+interface VerificationStatus {
+  status: 'pending' | 'indexing' | 'verified' | 'failed';
+  guid: string | null;
+  message: string;
+}
 
 export interface DeploymentResult {
   contractAddress: string;
   transactionHash: string;
+  deploymentMethod?: 'primary' | 'fallback' | 'emergency' | 'factory';
   network: Network;
   explorerUrl: string;
   gasUsed: string;
   deploymentCost: string;
+  vesting?: VestingDeploymentResult;
+  vestingError?: string;
+}
+
+const VESTING_TOKEN_ABI = [
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+const ESR_TOKEN_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function decimals() view returns (uint8)'
+];
+
+// Verified ESR payment as returned by /api/deploy/payment
+export interface ESRPayment {
+  transaction_hash: string;
+  from_address: string;
+  amount: string;
+  network_id: string;
+  block_number: number;
 }
 
 export class ContractService {
   private apiUrl: string;
   private authToken: string | null = null;
-  private deploymentMethod: 'primary' | 'fallback' | 'emergency' = 'primary';
+  private deploymentMethod: 'primary' | 'fallback' | 'emergency' | 'factory' = 'primary';
   private isTestnetMode: boolean = false;
 
   constructor() {
@@ -153,7 +206,12 @@ export class ContractService {
     gasCostUsd: string;
     timeEstimate: string;
     useFactory: boolean;
+    factoryAvailable: boolean;
+    factoryComparison: FactoryCostComparison | null;
   }> {
+    const factory = await this.estimateFactoryDeployment(config);
+    const useFactory = factory.available && config.useFactory !== false;
+
     try {
       const contractType = this.getContractType(config);
       const constructorParams = this.getConstructorParams(config);
@@ -175,15 +233,14 @@ export class ContractService {
 
       const estimate = await response.json();
       
-      // Determine if factory should be used (cheaper for standard tokens)
-      const useFactory = ['BasicToken', 'BurnableToken', 'MintableToken', 'BurnableMintableToken'].includes(contractType);
-      
       return {
         gasEstimate: estimate.gasEstimate || '0',
         gasCost: estimate.gasCost || '0.0',
         gasCostUsd: estimate.gasCostUsd,
         timeEstimate: estimate.timeEstimate,
-        useFactory: estimate.useFactory || useFactory
+        useFactory,
+        factoryAvailable: factory.available,
+        factoryComparison: factory.comparison
       };
     } catch (error) {
       console.error('Error estimating deployment cost:', error);
@@ -195,58 +252,384 @@ export class ContractService {
         gasCost: '0.0',
         gasCostUsd: '$0.00',
         timeEstimate: '1-3 minutes',
-        useFactory: false
+        useFactory,
+        factoryAvailable: factory.available,
+        factoryComparison: factory.comparison
       };
     }
   }
 
+  /**
+   * TokenFactory that can deploy this token on its network, or null when it has to be deployed directly
+   */
+  private async getTokenFactory(config: TokenConfig): Promise<string | null> {
+    if (!fallbackDeploymentService.supportsFactory(config)) {
+      return null;
+    }
+
+    const registry = await networkRegistryService.getRegistry(config.network.chainId);
+    return registry.contracts.tokenFactory;
+  }
+
+  /**
+   * Whether the token can be deployed through TokenFactory, and what that costs against a direct deployment
+   */
+  private async estimateFactoryDeployment(config: TokenConfig): Promise<{
+    available: boolean;
+    comparison: FactoryCostComparison | null;
+  }> {
+    const factoryAddress = await this.getTokenFactory(config);
+    if (!factoryAddress) {
+      return { available: false, comparison: null };
+    }
+
+    // Gas is estimated as sent from the wallet, which pays the creation fee
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      return { available: true, comparison: null };
+    }
+
+    try {
+      const comparison = await fallbackDeploymentService.compareFactoryCost(config, factoryAddress, await signer.getAddress());
+      return { available: true, comparison };
+    } catch (error) {
+      console.warn('Could not compare factory deployment cost:', error);
+      return { available: true, comparison: null };
+    }
+  }
+
   async deployToken(config: TokenConfig): Promise<DeploymentResult> {
-    this.deploymentMethod = 'primary';
+    const result = await this.deployTokenContract(config);
+
+    if (!config.vesting.some(vest => vest.enabled)) {
+      return result;
+    }
+
+    // The token is already live, so a vesting failure is reported with the result instead of thrown
     try {
-      const contractType = this.getContractType(config);
-      const constructorParams = this.getConstructorParams(config);
-      const useFactory = config.useFactory !== undefined ? 
-        config.useFactory : 
-        ['BasicToken', 'BurnableToken', 'MintableToken', 'BurnableMintableToken'].includes(contractType);
-      
-      // Check if we're on the correct network
-      const currentNetwork = await web3Service.getCurrentNetwork();
-      if (currentNetwork?.chainId !== config.network.chainId) {
-        try {
-          await web3Service.switchNetwork(config.network);
-        } catch (error) {
-          throw new AppError(
-            `Please switch to ${config.network.name} network before deploying`,
-            ErrorType.NETWORK,
-            error
-          );
+      return { ...result, vesting: await this.deployVesting(result.contractAddress, config) };
+    } catch (error) {
+      console.error('Error deploying vesting contract:', error);
+      return { ...result, vestingError: (error as Error).message };
+    }
+  }
+
+  /**
+   * Deploy a TokenVesting contract for a token and create a schedule for each enabled category.
+   * Schedules pull their allocation from the connected wallet, which holds the initial supply.
+   * Given an already deployed vesting contract, only the schedules it does not have yet are created.
+   */
+  async deployVesting(
+    tokenAddress: string,
+    config: TokenConfig,
+    options: { deployed?: SentTransaction; onTransactionSent?: TransactionSentHandler } = {}
+  ): Promise<VestingDeploymentResult> {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    const response = await fetch('/contracts/exports/TokenVesting.json');
+    if (!response.ok) {
+      throw new AppError('Failed to load contract data for TokenVesting', ErrorType.CONTRACT);
+    }
+    const { abi, bytecode } = await response.json();
+
+    const supply = ethers.parseUnits(config.initialSupply, config.decimals);
+    const schedules = config.vesting
+      .filter(vest => vest.enabled)
+      .map(vest => ({
+        ...vest,
+        amount: supply * BigInt(Math.round(vest.percentage * 100)) / BigInt(10000), // percentage to basis points
+        startTime: Math.floor(new Date(vest.startDate).getTime() / 1000)
+      }));
+    const totalAmount = schedules.reduce((sum, schedule) => sum + schedule.amount, BigInt(0));
+
+    try {
+      let vestingContract: ethers.Contract;
+      let receipt: ethers.TransactionReceipt | null;
+      if (options.deployed?.contractAddress) {
+        vestingContract = new ethers.Contract(options.deployed.contractAddress, abi, signer);
+        receipt = await signer.provider.getTransactionReceipt(options.deployed.transactionHash);
+      } else {
+        const factory = new ethers.ContractFactory(abi, bytecode, signer);
+        const deployment = await factory.deploy(tokenAddress);
+        vestingContract = deployment as ethers.Contract;
+        const deploymentTx = deployment.deploymentTransaction();
+        if (deploymentTx) {
+          await options.onTransactionSent?.({ transactionHash: deploymentTx.hash, contractAddress: await deployment.getAddress() });
         }
+        receipt = await deploymentTx?.wait() ?? null;
+      }
+      if (!receipt || receipt.status !== 1) {
+        throw new AppError('Vesting deployment transaction failed', ErrorType.CONTRACT);
       }
 
-      // Check if user has enough ESR tokens for mainnet deployment
-      if (!config.network.id.includes('testnet') && !config.network.id.includes('goerli') && !config.network.id.includes('sepolia')) {
-        try {
-          const esrBalance = await this.checkESRBalance(await web3Service.getSigner()?.getAddress() || '');
-          const requiredBalance = 100; // 100 ESR tokens required
-          
-          if (esrBalance < requiredBalance) {
-            throw new AppError(
-              `Insufficient ESR tokens. Required: ${requiredBalance}, Available: ${esrBalance.toFixed(2)}`,
-              ErrorType.VALIDATION
-            );
-          }
-          
-          // Deduct ESR tokens
-          await this.deductESRTokens(requiredBalance);
-        } catch (balanceError) {
-          if (balanceError instanceof AppError) {
-            throw balanceError;
-          } else {
-            throw new AppError('Failed to check or deduct ESR tokens', ErrorType.VALIDATION, balanceError);
-          }
+      const vestingAddress = await vestingContract.getAddress();
+      localStorage.setItem(`vesting_${tokenAddress.toLowerCase()}`, vestingAddress);
+
+      // Schedules created before an interruption are reported from their creation events
+      const results: VestingScheduleResult[] = [];
+      const pending: typeof schedules = [];
+      for (const schedule of schedules) {
+        if (!(await vestingContract.vestingExists(schedule.beneficiary))) {
+          pending.push(schedule);
+          continue;
         }
+        const [created] = await vestingContract.queryFilter(
+          vestingContract.filters.VestingScheduleCreated(schedule.beneficiary),
+          receipt.blockNumber
+        );
+        results.push({
+          category: schedule.category,
+          beneficiary: schedule.beneficiary,
+          amount: ethers.formatUnits(schedule.amount, config.decimals),
+          startTime: schedule.startTime,
+          duration: schedule.duration,
+          transactionHash: created?.transactionHash || receipt.hash
+        });
+      }
+
+      // createVestingSchedule transfers each allocation from the owner
+      const pendingAmount = pending.reduce((sum, schedule) => sum + schedule.amount, BigInt(0));
+      if (pendingAmount > BigInt(0)) {
+        const token = new ethers.Contract(tokenAddress, VESTING_TOKEN_ABI, signer);
+        const approveTx = await token.approve(vestingAddress, pendingAmount);
+        await approveTx.wait();
+      }
+
+      for (const schedule of pending) {
+        const tx = await vestingContract.getFunction('createVestingSchedule')(
+          schedule.beneficiary,
+          schedule.amount,
+          schedule.startTime,
+          schedule.duration * 24 * 60 * 60 // Convert days to seconds
+        );
+        await tx.wait();
+
+        results.push({
+          category: schedule.category,
+          beneficiary: schedule.beneficiary,
+          amount: ethers.formatUnits(schedule.amount, config.decimals),
+          startTime: schedule.startTime,
+          duration: schedule.duration,
+          transactionHash: tx.hash
+        });
+      }
+
+      return {
+        contractAddress: vestingAddress,
+        transactionHash: receipt.hash,
+        totalAmount: ethers.formatUnits(totalAmount, config.decimals),
+        schedules: results
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError((error as Error).message || 'Vesting deployment failed', ErrorType.CONTRACT, error);
+    }
+  }
+
+  /**
+   * Make sure the backend has a deployed token, registering it when the deployment path did not
+   */
+  async ensureTokenRegistered(config: TokenConfig, deployment: DeploymentResult): Promise<void> {
+    await fallbackDeploymentService.registerPendingContracts();
+
+    const existing = await fetch(`${this.apiUrl}/api/contracts/${deployment.contractAddress}`, {
+      headers: this.getAuthHeaders()
+    });
+    if (existing.ok) {
+      return;
+    }
+
+    const response = await fetch(`${this.apiUrl}/api/contracts/register`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({
+        contractType: this.getContractType(config),
+        contractAddress: deployment.contractAddress,
+        transactionHash: deployment.transactionHash,
+        network: config.network.id,
+        name: config.name,
+        symbol: config.symbol,
+        decimals: config.decimals,
+        initialSupply: config.initialSupply,
+        maxSupply: config.maxSupply || '0',
+        features: config.features,
+        deploymentMethod: deployment.deploymentMethod || this.deploymentMethod
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (errorData.error !== 'Contract already registered') {
+        throw new AppError(errorData.error || 'Failed to register contract', ErrorType.SERVER, errorData);
+      }
+    }
+  }
+
+  /**
+   * Pay the ESR deployment fee unless an earlier payment has not been used yet. Testnet deployments are free.
+   * @returns Hash of the payment transaction, or null when no payment is required
+   */
+  async chargeDeploymentFee(network: Network, onTransactionSent?: TransactionSentHandler): Promise<string | null> {
+    const requiredAmount = getESRRequirement(network.chainId);
+    if (requiredAmount === 0) {
+      return null;
+    }
+
+    const unspentPayment = await this.getUnspentESRPayment(network);
+    if (unspentPayment) {
+      return unspentPayment.transaction_hash;
+    }
+
+    return this.payESRFee(network, requiredAmount, onTransactionSent);
+  }
+
+  /**
+   * Finish a deployment fee payment that was sent but not yet verified, e.g. when the page reloaded
+   * while it was being mined
+   * @returns Hash of the payment transaction
+   */
+  async completeDeploymentFee(network: Network, transactionHash: string): Promise<string> {
+    const unspentPayment = await this.getUnspentESRPayment(network);
+    if (unspentPayment?.transaction_hash.toLowerCase() !== transactionHash.toLowerCase()) {
+      await this.verifyESRPayment(transactionHash, network);
+    }
+    return transactionHash;
+  }
+
+  /**
+   * Transfer ESR to the platform wallet and have the backend verify the transfer on-chain
+   * @returns Hash of the payment transaction
+   */
+  async payESRFee(network: Network, amount: number, onTransactionSent?: TransactionSentHandler): Promise<string> {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    try {
+      const esrContract = new ethers.Contract(ESR_TOKEN_ADDRESS, ESR_TOKEN_ABI, signer);
+      const decimals = await esrContract.decimals();
+      const amountWei = ethers.parseUnits(amount.toString(), decimals);
+      const balance = await esrContract.balanceOf(await signer.getAddress());
+
+      if (balance < amountWei) {
+        throw new AppError(
+          `Insufficient ESR tokens. Required: ${amount}, Available: ${parseFloat(ethers.formatUnits(balance, decimals)).toFixed(2)}`,
+          ErrorType.VALIDATION
+        );
+      }
+
+      const tx = await esrContract.transfer(PLATFORM_WALLET, amountWei);
+      await onTransactionSent?.({ transactionHash: tx.hash });
+      const receipt = await tx.wait(ESR_PAYMENT_CONFIRMATIONS);
+
+      if (receipt.status !== 1) {
+        throw new AppError('ESR transfer transaction failed', ErrorType.CONTRACT);
       }
 
+      await this.verifyESRPayment(tx.hash, network);
+      return tx.hash;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError('Failed to pay ESR deployment fee', ErrorType.CONTRACT, error);
+    }
+  }
+
+  async getUnspentESRPayment(network: Network): Promise<ESRPayment | null> {
+    const response = await fetch(`${this.apiUrl}/api/deploy/payment?network=${network.id}`, {
+      headers: this.getAuthHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to check ESR payment', ErrorType.SERVER, errorData);
+    }
+
+    const data = await response.json();
+    return data.payment || null;
+  }
+
+  /**
+   * Deploy a token through the network's TokenFactory from the connected wallet, which becomes its owner
+   */
+  async deployTokenViaFactory(
+    config: TokenConfig,
+    factoryAddress: string,
+    options: { skipPayment?: boolean; onTransactionSent?: TransactionSentHandler } = {}
+  ): Promise<DeploymentResult> {
+    this.deploymentMethod = 'factory';
+
+    // Check if we're on the correct network
+    const currentNetwork = await web3Service.getCurrentNetwork();
+    if (currentNetwork?.chainId !== config.network.chainId) {
+      try {
+        await web3Service.switchNetwork(config.network);
+      } catch (error) {
+        throw new AppError(
+          `Please switch to ${config.network.name} network before deploying`,
+          ErrorType.NETWORK,
+          error
+        );
+      }
+    }
+
+    if (!options.skipPayment) {
+      await this.chargeDeploymentFee(config.network);
+    }
+
+    return fallbackDeploymentService.deployViaFactory(config, factoryAddress, options.onTransactionSent);
+  }
+
+  /**
+   * Deploy only the token contract. Tokens that opt into the factory go through TokenFactory when the network
+   * has one; otherwise the backend, the wallet fallback and the emergency backend are tried in turn.
+   * Wallet deployments report their transaction once sent; the backend records it on the deployment job itself.
+   */
+  async deployTokenContract(
+    config: TokenConfig,
+    options: { skipPayment?: boolean; jobId?: number; onTransactionSent?: TransactionSentHandler } = {}
+  ): Promise<DeploymentResult> {
+    if (config.useFactory) {
+      const factoryAddress = await this.getTokenFactory(config);
+      if (factoryAddress) {
+        return this.deployTokenViaFactory(config, factoryAddress, options);
+      }
+    }
+
+    this.deploymentMethod = 'primary';
+    const contractType = this.getContractType(config);
+    const constructorParams = this.getConstructorParams(config);
+    const useFactory = config.useFactory !== undefined ? 
+      config.useFactory : 
+      ['BasicToken', 'BurnableToken', 'MintableToken', 'BurnableMintableToken'].includes(contractType);
+    
+    // Check if we're on the correct network
+    const currentNetwork = await web3Service.getCurrentNetwork();
+    if (currentNetwork?.chainId !== config.network.chainId) {
+      try {
+        await web3Service.switchNetwork(config.network);
+      } catch (error) {
+        throw new AppError(
+          `Please switch to ${config.network.name} network before deploying`,
+          ErrorType.NETWORK,
+          error
+        );
+      }
+    }
+
+    if (!options.skipPayment) {
+      await this.chargeDeploymentFee(config.network);
+    }
+
+    let result;
+    try {
       const response = await fetch(`${this.apiUrl}/api/deploy/token`, {
         method: 'POST',
         headers: this.getAuthHeaders(),
@@ -255,7 +638,8 @@ export class ContractService {
           constructorArgs: constructorParams,
           network: config.network.id,
           verify: true,
-          useFactory
+          useFactory,
+          jobId: options.jobId
         }),
       });
 
@@ -268,95 +652,117 @@ export class ContractService {
           // If we can't parse the JSON, use the status text
           errorMessage = `Deployment failed: ${response.status} ${response.statusText}`;
         }
-        throw new AppError(errorMessage, ErrorType.SERVER);
+        throw new AppError(
+          errorMessage,
+          response.status === 400 ? ErrorType.VALIDATION : ErrorType.SERVER,
+          { status: response.status }
+        );
       }
 
-      const result = await response.json();
+      result = await response.json();
+    } catch (error) {
+      // As for presales, only an unreachable or unavailable backend is worked around. A missing ESR
+      // payment (402) or a rejected configuration must reach the user, not be deployed another way.
+      const backendUnavailable = error instanceof TypeError ||
+        (error instanceof AppError && error.details?.status === 503);
+      if (!backendUnavailable) {
+        throw error;
+      }
+
+      console.error('Primary deployment failed, trying fallback:', error);
+      return this.deployTokenWithFallbacks(config, error, options.onTransactionSent);
+    }
 
+    return {
+      deploymentMethod: this.deploymentMethod,
+      contractAddress: result.contractAddress,
+      transactionHash: result.transactionHash,
+      network: config.network,
+      explorerUrl: `${config.network.explorerUrl}/token/${result.contractAddress}`,
+      gasUsed: result.gasUsed,
+      deploymentCost: result.deploymentCost
+    };
+  }
+
+  /**
+   * Deploy a token from the wallet, then through the emergency backend, after the backend was unreachable
+   */
+  private async deployTokenWithFallbacks(
+    config: TokenConfig,
+    primaryError: unknown,
+    onTransactionSent?: TransactionSentHandler
+  ): Promise<DeploymentResult> {
+    // Try frontend fallback
+    try {
+      this.deploymentMethod = 'fallback';
+      console.log('Attempting frontend fallback deployment...');
+      
+      const result = await fallbackDeploymentService.deployContract(config, onTransactionSent);
+      
       return {
         deploymentMethod: this.deploymentMethod,
         contractAddress: result.contractAddress,
         transactionHash: result.transactionHash,
         network: config.network,
-        explorerUrl: `${config.network.explorerUrl}/token/${result.contractAddress}`,
+        explorerUrl: result.explorerUrl,
         gasUsed: result.gasUsed,
         deploymentCost: result.deploymentCost
       };
-    } catch (error) {
-      console.error('Primary deployment failed, trying fallback:', error);
+    } catch (fallbackError) {
+      console.error('Frontend fallback deployment failed, trying emergency backend:', fallbackError);
       
-      // Try frontend fallback
+      // Try emergency backend deployment
       try {
-        this.deploymentMethod = 'fallback';
-        console.log('Attempting frontend fallback deployment...');
+        this.deploymentMethod = 'emergency';
+        console.log('Attempting emergency backend deployment...');
+        
+        const authToken = this.authToken || localStorage.getItem('authToken');
+        if (!authToken) {
+          throw new Error('Authentication required for emergency deployment');
+        }
         
-        const result = await fallbackDeploymentService.deployContract(config);
+        const response = await fetch(`${this.apiUrl}/api/emergency-deploy/token`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${authToken}`
+          },
+          body: JSON.stringify({
+            contractType: this.getContractType(config),
+            constructorArgs: this.getConstructorParams(config),
+            network: config.network.id
+          })
+        });
+        
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || errorData.details || 'Emergency deployment failed');
+        }
+        
+        const result = await response.json();
         
         return {
           deploymentMethod: this.deploymentMethod,
           contractAddress: result.contractAddress,
           transactionHash: result.transactionHash,
           network: config.network,
-          explorerUrl: result.explorerUrl,
+          explorerUrl: `${config.network.explorerUrl}/token/${result.contractAddress}`,
           gasUsed: result.gasUsed,
           deploymentCost: result.deploymentCost
         };
-      } catch (fallbackError) {
-        console.error('Frontend fallback deployment failed, trying emergency backend:', fallbackError);
+      } catch (emergencyError) {
+        console.error('All deployment methods failed:', emergencyError);
         
-        // Try emergency backend deployment
-        try {
-          this.deploymentMethod = 'emergency';
-          console.log('Attempting emergency backend deployment...');
-          
-          const authToken = this.authToken || localStorage.getItem('authToken');
-          if (!authToken) {
-            throw new Error('Authentication required for emergency deployment');
-          }
-          
-          const response = await fetch(`${this.apiUrl}/api/emergency-deploy/token`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${authToken}`
-            },
-            body: JSON.stringify({
-              contractType: this.getContractType(config),
-              constructorArgs: this.getConstructorParams(config),
-              network: config.network.id
-            })
-          });
-          
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.error || errorData.details || 'Emergency deployment failed');
+        // All methods failed, throw comprehensive error
+        throw new AppError(
+          'All deployment methods failed. Please try again later.',
+          ErrorType.CONTRACT,
+          {
+            primaryError,
+            fallbackError,
+            emergencyError
           }
-          
-          const result = await response.json();
-          
-          return {
-            deploymentMethod: this.deploymentMethod,
-            contractAddress: result.contractAddress,
-            transactionHash: result.transactionHash,
-            network: config.network,
-            explorerUrl: `${config.network.explorerUrl}/token/${result.contractAddress}`,
-            gasUsed: result.gasUsed,
-            deploymentCost: result.deploymentCost
-          };
-        } catch (emergencyError) {
-          console.error('All deployment methods failed:', emergencyError);
-          
-          // All methods failed, throw comprehensive error
-          throw new AppError(
-            'All deployment methods failed. Please try again later.',
-            ErrorType.CONTRACT,
-            {
-              primaryError: error,
-              fallbackError,
-              emergencyError
-            }
-          );
-        }
+        );
       }
     }
   }
@@ -364,7 +770,7 @@ export class ContractService {
   /**
    * Get the current deployment method
    */
-  public getDeploymentMethod(): 'primary' | 'fallback' | 'emergency' {
+  public getDeploymentMethod(): 'primary' | 'fallback' | 'emergency' | 'factory' {
     return this.deploymentMethod;
   }
 
@@ -384,53 +790,67 @@ export class ContractService {
         }
       }
       
-      // Check if user has enough ESR tokens for mainnet deployment
-      if (!config.network.id.includes('testnet') && !config.network.id.includes('goerli') && !config.network.id.includes('sepolia')) {
-        try {
-          const esrBalance = await this.checkESRBalance(await web3Service.getSigner()?.getAddress() || '');
-          const requiredBalance = 100; // 100 ESR tokens required
-          
-          if (esrBalance < requiredBalance) {
-            throw new AppError(
-              `Insufficient ESR tokens. Required: ${requiredBalance}, Available: ${esrBalance.toFixed(2)}`,
-              ErrorType.VALIDATION
-            );
-          }
-          
-          // Deduct ESR tokens
-          await this.deductESRTokens(requiredBalance);
-        } catch (balanceError) {
-          if (balanceError instanceof AppError) {
-            throw balanceError;
-          } else {
-            throw new AppError('Failed to check or deduct ESR tokens', ErrorType.VALIDATION, balanceError);
+      // The sale is funded from this wallet whichever way it is deployed, so check before paying anything
+      await fallbackDeploymentService.checkPresaleFunding(config);
+
+      await this.chargeDeploymentFee(config.network);
+
+      let result;
+      try {
+        const response = await fetch(`${this.apiUrl}/api/deploy/presale`, {
+          method: 'POST',
+          headers: this.getAuthHeaders(),
+          body: JSON.stringify({
+            presaleConfig: config,
+            network: config.network.id,
+            verify: true
+          }),
+        });
+
+        if (!response.ok) {
+          let errorMessage = 'Presale deployment failed';
+          try {
+            const errorData = await response.json();
+            errorMessage = errorData.error || errorData.details || 'Presale deployment failed';
+          } catch (e) {
+            // If we can't parse the JSON, use the status text
+            errorMessage = `Presale deployment failed: ${response.status} ${response.statusText}`;
           }
+          throw new AppError(
+            errorMessage,
+            response.status === 400 ? ErrorType.VALIDATION : ErrorType.SERVER,
+            { status: response.status }
+          );
         }
-      }
-      
-      const response = await fetch(`${this.apiUrl}/api/deploy/presale`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-        body: JSON.stringify({
-          presaleConfig: config,
-          network: config.network.id,
-          verify: true
-        }),
-      });
 
-      if (!response.ok) {
-        let errorMessage = 'Presale deployment failed';
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.error || errorData.details || 'Presale deployment failed';
-        } catch (e) {
-          // If we can't parse the JSON, use the status text
-          errorMessage = `Presale deployment failed: ${response.status} ${response.statusText}`;
+        result = await response.json();
+      } catch (primaryError) {
+        // Only fall back when the backend certainly deployed nothing: it was unreachable (fetch rejects
+        // with a TypeError) or reported itself unavailable. Any other failure may come after the sale
+        // was deployed, and deploying again from the wallet would create a second sale.
+        const backendUnavailable = primaryError instanceof TypeError ||
+          (primaryError instanceof AppError && primaryError.details?.status === 503);
+        if (!backendUnavailable) {
+          throw primaryError;
         }
-        throw new AppError(errorMessage, ErrorType.SERVER);
+
+        console.error('Primary presale deployment failed, trying fallback:', primaryError);
+
+        // Deploy straight from the wallet; the sale is registered once the backend is reachable
+        this.deploymentMethod = 'fallback';
+        return await fallbackDeploymentService.deployPresale(config);
       }
 
-      const result = await response.json();
+      // The backend deploys from the platform wallet, so the allocation is sent from the owner's wallet here
+      try {
+        await fallbackDeploymentService.fundPresale(config, result.contractAddress);
+      } catch (error) {
+        throw new AppError(
+          `Presale deployed at ${result.contractAddress} but funding it failed. Transfer ${config.tokenInfo.allocatedAmount} ${config.tokenInfo.tokenSymbol} to the sale before it starts.`,
+          ErrorType.CONTRACT,
+          error
+        );
+      }
 
       return {
         contractAddress: result.contractAddress,
@@ -476,6 +896,9 @@ export class ContractService {
         // Return mock data if API is not accessible
         return this.getMockTokens();
       }
+
+      // Register contracts deployed while the backend was unreachable
+      await fallbackDeploymentService.registerPendingContracts();
       
       const response = await fetch(`${apiUrl}/api/contracts/deployed`, {
         headers: this.getAuthHeaders(),
@@ -552,6 +975,46 @@ export class ContractService {
     return mockTokens;
   }
 
+  /**
+   * Register tokens the connected wallet created through the network's TokenFactory outside this app
+   */
+  async importFactoryTokens(network: Network): Promise<{ imported: string[]; skipped: number; failed: string[] }> {
+    const response = await fetch(`${this.apiUrl}/api/contracts/factory-backfill`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ network: network.id })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to import factory tokens', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Register a token deployed outside the platform. The backend checks that the token's owner()
+   * is the signed-in wallet and detects what it supports from its bytecode.
+   */
+  async importExternalToken(networkId: string, contractAddress: string): Promise<{
+    token: { contract_address: string; name: string; symbol: string };
+    capabilities: Record<string, boolean>;
+  }> {
+    const response = await fetch(`${this.apiUrl}/api/contracts/import`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ network: networkId, contractAddress })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to import token', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
   async getDeployedPresales(): Promise<any[]> {
     try {
       // Use the correct API URL with proper error handling
@@ -565,6 +1028,9 @@ export class ContractService {
         // Return mock data if API is not accessible
         return this.getMockPresales();
       }
+
+      // Register presales deployed while the backend was unreachable
+      await fallbackDeploymentService.registerPendingContracts();
       
       const response = await fetch(`${apiUrl}/api/contracts/deployed`, {
         headers: this.getAuthHeaders()
@@ -689,32 +1155,23 @@ export class ContractService {
     }
   }
 
-  async deductESRTokens(amount: number = 100): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.apiUrl}/api/auth/esr/deduct`, {
-        method: 'POST',
-        headers: this.getAuthHeaders(),
-        body: JSON.stringify({ amount }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new AppError(
-          errorData.error || 'Failed to deduct ESR tokens',
-          ErrorType.SERVER,
-          errorData
-        );
-      }
+  /**
+   * Ask the backend to verify and record an ESR payment transaction
+   */
+  async verifyESRPayment(txHash: string, network: Network): Promise<void> {
+    const response = await fetch(`${this.apiUrl}/api/auth/esr/deduct`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ txHash, network: network.id }),
+    });
 
-      const data = await response.json();
-      return data.success || false;
-    } catch (error) {
-      console.error('Error deducting ESR tokens:', error);
-      if (error instanceof AppError) {
-        throw error;
-      } else {
-        throw new AppError('Failed to deduct ESR tokens', ErrorType.SERVER, error);
-      }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(
+        errorData.error || 'ESR payment could not be verified',
+        ErrorType.VALIDATION,
+        errorData
+      );
     }
   }
 
@@ -830,6 +1287,140 @@ export class ContractService {
       return { totalRaised: '0', participantCount: 0, status: 'upcoming' };
     }
   }
+
+  async getVerificationStatus(contractAddress: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}/verification`);
+      if (!response.ok) return false;
+      
+      const data = await response.json();
+      return data.verified;
+    } catch (error) {
+      console.error('Error fetching verification status:', error);
+      return false;
+    }
+  }
+
+  // Tokens created by TokenFactory get the factory call's arguments followed by the caller as owner
+  private getFactoryConstructorArgs(abi: ethers.InterfaceAbi, deployment: ethers.TransactionResponse): string {
+    const factoryCall = new ethers.Interface(TokenFactoryABI).parseTransaction(deployment);
+    if (!factoryCall) {
+      throw new AppError('Deployment transaction is not a TokenFactory call', ErrorType.CONTRACT);
+    }
+
+    const constructorInputs = new ethers.Interface(abi).deploy.inputs;
+    return ethers.AbiCoder.defaultAbiCoder().encode(constructorInputs, [...factoryCall.args, deployment.from]);
+  }
+
+  // Verify a deployed token's source on its network's block explorer and record the result
+  async verifyTokenSource(contractAddress: string): Promise<VerificationResult> {
+    const detailsResponse = await fetch(`${this.apiUrl}/api/contracts/${contractAddress}`, {
+      headers: this.getAuthHeaders()
+    });
+    
+    if (!detailsResponse.ok) {
+      const errorData = await detailsResponse.json();
+      throw new AppError(errorData.error || 'Failed to load contract details', ErrorType.SERVER, errorData);
+    }
+    
+    const details = await detailsResponse.json();
+    if (details.contractType === 'external') {
+      throw new AppError('Imported tokens were not compiled by the platform; verify them with their original source', ErrorType.VALIDATION);
+    }
+    const network = networks.find(n => n.chainId === Number(details.network.chainId));
+    if (!network) {
+      throw new AppError(`Unsupported network: ${details.network.name}`, ErrorType.NETWORK);
+    }
+    
+    const { getFlattenedSource } = await import('./contractSource');
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+    
+    const [source, artifactResponse, deployment] = await Promise.all([
+      getFlattenedSource(details.contractType),
+      fetch(`/contracts/exports/${details.contractType}.json`),
+      provider.getTransaction(details.transactionHash)
+    ]);
+    
+    if (!artifactResponse.ok) {
+      throw new AppError(`Contract artifact not found for ${details.contractType}`, ErrorType.CONTRACT);
+    }
+    if (!deployment) {
+      throw new AppError('Deployment transaction not found', ErrorType.NETWORK);
+    }
+    
+    const { abi, bytecode } = await artifactResponse.json();
+    let constructorArgs: string;
+    if (deployment.to) {
+      constructorArgs = this.getFactoryConstructorArgs(abi, deployment);
+    } else {
+      // The deployment transaction carries the creation bytecode followed by the encoded constructor arguments
+      const creationCode = bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`;
+      if (!deployment.data.startsWith(creationCode)) {
+        throw new AppError('Deployed bytecode does not match the compiled contract', ErrorType.CONTRACT);
+      }
+      constructorArgs = `0x${deployment.data.slice(creationCode.length)}`;
+    }
+    
+    return this.verifySource(contractAddress, source, constructorArgs);
+  }
+
+  /**
+   * Verify a contract's source through the backend, which holds the explorer API keys.
+   * The backend saves the result the explorer reports once verification completes.
+   */
+  async verifySource(
+    contractAddress: string,
+    source: string,
+    constructorArgs: string,
+    options: VerificationOptions = {}
+  ): Promise<VerificationResult> {
+    const pollInterval = options.pollInterval ?? VERIFICATION_CONFIG.POLL_INTERVAL_MS;
+    const maxAttempts = options.maxAttempts ?? VERIFICATION_CONFIG.MAX_ATTEMPTS;
+    const wait = () => new Promise(resolve => setTimeout(resolve, pollInterval));
+
+    // Submit, retrying while the explorer has not indexed the deployment yet
+    let submission: VerificationStatus | null = null;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      submission = await this.callVerificationApi(`/api/contracts/${contractAddress}/verification`, {
+        method: 'POST',
+        body: JSON.stringify({ source, constructorArgs })
+      });
+
+      if (submission.status !== 'indexing') break;
+      await wait();
+    }
+
+    if (!submission || submission.status === 'indexing') {
+      throw new AppError('Block explorer has not indexed the contract yet. Try again later.', ErrorType.NETWORK);
+    }
+    if (submission.status !== 'pending' || !submission.guid) {
+      return { status: submission.status === 'verified' ? 'verified' : 'failed', guid: null, message: submission.message };
+    }
+
+    // Poll the verification request until the explorer reports a result
+    const { guid } = submission;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      await wait();
+      const response = await this.callVerificationApi(`/api/contracts/${contractAddress}/verification/${guid}`);
+
+      if (response.status === 'pending') continue;
+
+      return { status: response.status === 'verified' ? 'verified' : 'failed', guid, message: response.message };
+    }
+
+    throw new AppError('Timed out waiting for the verification result', ErrorType.NETWORK, { guid });
+  }
+
+  private async callVerificationApi(path: string, init: RequestInit = {}): Promise<VerificationStatus> {
+    const response = await fetch(`${this.apiUrl}${path}`, { ...init, headers: this.getAuthHeaders() });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Source verification failed', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
 }
 
 export const contractService = new ContractService();
\ No newline at end of file
@@ -1,9 +1,20 @@
 // This file contains the source code for the contracts
 // In a production environment, these would be loaded from actual .sol files
 
+import { COMPILER_SETTINGS } from '../config/constants';
+
 // Cache for compiled contracts to avoid recompilation
 const contractCache: Record<string, { bytecode: string, abi: any }> = {};
 
+// OpenZeppelin sources the contracts import, loaded on demand when flattening
+const openZeppelinSources = import.meta.glob<string>('/node_modules/@openzeppelin/contracts/**/*.sol', {
+  query: '?raw',
+  import: 'default'
+});
+
+const IMPORT_PATTERN = /^\s*import\s+(?:[^'"]*\s+from\s+)?["']([^"']+)["']\s*;\s*$/gm;
+const LICENSE_PATTERN = /^\s*\/\/\s*SPDX-License-Identifier:.*$/gm;
+
 export function getContractSource(contractType: string): string {
   // Validate contract type
   const validContractTypes = [
@@ -714,6 +725,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title PresaleContract
@@ -753,6 +765,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     
     mapping(address => Participant) public participants;
     mapping(address => bool) public whitelist;
+    bytes32 public whitelistMerkleRoot; // root of keccak256(abi.encodePacked(address)) leaves
     
     address public saleReceiver;
     address public refundWallet;
@@ -769,6 +782,7 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
     event SaleFinalized(uint256 totalRaised, uint256 totalTokensSold);
     event RefundClaimed(address indexed buyer, uint256 amount);
     event WhitelistUpdated(address indexed user, bool status);
+    event WhitelistMerkleRootUpdated(bytes32 merkleRoot);
 
     modifier onlyWhitelisted() {
         if (saleInfo.whitelistEnabled) {
@@ -777,6 +791,11 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         _;
     }
 
+    modifier withWhitelistProof(bytes32[] calldata proof) {
+        _verifyWhitelistProof(proof);
+        _;
+    }
+
     modifier saleActive() {
         require(block.timestamp >= saleInfo.startTime, "Sale not started");
         require(block.timestamp <= saleInfo.endTime, "Sale ended");
@@ -805,6 +824,18 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
      * @dev Purchase tokens during the sale
      */
     function buyTokens() external payable nonReentrant whenNotPaused saleActive onlyWhitelisted {
+        _buyTokens();
+    }
+
+    /**
+     * @dev Purchase tokens with a proof of inclusion in the Merkle whitelist
+     * @param proof Merkle proof for msg.sender
+     */
+    function buyTokensWithProof(bytes32[] calldata proof) external payable nonReentrant whenNotPaused saleActive withWhitelistProof(proof) onlyWhitelisted {
+        _buyTokens();
+    }
+
+    function _buyTokens() internal {
         require(msg.value >= saleInfo.minPurchase, "Below minimum purchase");
         require(msg.value <= saleInfo.maxPurchase, "Above maximum purchase");
         require(totalRaised + msg.value <= saleInfo.hardCap, "Hard cap exceeded");
@@ -924,6 +955,34 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
         }
     }
 
+    /**
+     * @dev Set the Merkle root of the whitelist, replacing per-address updates for large lists
+     * @param merkleRoot Root of the whitelist tree, or zero to disable proofs
+     */
+    function setWhitelistMerkleRoot(bytes32 merkleRoot) external onlyOwner {
+        whitelistMerkleRoot = merkleRoot;
+        emit WhitelistMerkleRootUpdated(merkleRoot);
+    }
+
+    /**
+     * @dev Check whether an address is in the Merkle whitelist
+     */
+    function isWhitelistedByProof(address account, bytes32[] calldata proof) public view returns (bool) {
+        return whitelistMerkleRoot != bytes32(0) &&
+            MerkleProof.verify(proof, whitelistMerkleRoot, keccak256(abi.encodePacked(account)));
+    }
+
+    /**
+     * @dev Whitelist msg.sender from a Merkle proof, so later purchases need no proof
+     */
+    function _verifyWhitelistProof(bytes32[] calldata proof) internal {
+        if (!whitelist[msg.sender]) {
+            require(isWhitelistedByProof(msg.sender, proof), "Invalid whitelist proof");
+            whitelist[msg.sender] = true;
+            emit WhitelistUpdated(msg.sender, true);
+        }
+    }
+
     /**
      * @dev Emergency withdraw tokens (owner only)
      */
@@ -993,6 +1052,55 @@ contract PresaleContract is ReentrancyGuard, Ownable, Pausable {
   }
 }
 
+// Resolve a relative import against the importing file's path
+function resolveImportPath(importPath: string, fromPath: string): string {
+  if (!importPath.startsWith('.')) return importPath;
+
+  const parts = fromPath.split('/').slice(0, -1);
+  for (const segment of importPath.split('/')) {
+    if (segment === '..') {
+      parts.pop();
+    } else if (segment !== '.') {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
+
+async function loadImport(importPath: string): Promise<string> {
+  const loader = openZeppelinSources[`/node_modules/${importPath}`];
+  if (!loader) {
+    throw new Error(`Cannot resolve import: ${importPath}`);
+  }
+  return await loader();
+}
+
+// Get contract source with all imports inlined, as block explorers expect for single-file verification
+export async function getFlattenedSource(contractType: string): Promise<string> {
+  const visited = new Set<string>();
+  const files: string[] = [];
+
+  const visit = async (filePath: string, content: string) => {
+    visited.add(filePath);
+
+    // Dependencies first, so every file follows the files it imports
+    for (const match of content.matchAll(IMPORT_PATTERN)) {
+      const dependency = resolveImportPath(match[1], filePath);
+      if (!visited.has(dependency)) {
+        await visit(dependency, await loadImport(dependency));
+      }
+    }
+
+    const body = content.replace(IMPORT_PATTERN, '').replace(LICENSE_PATTERN, '').trim();
+    files.push(`// File: ${filePath}\n\n${body}`);
+  };
+
+  await visit(`contracts/${contractType}.sol`, getContractSource(contractType));
+
+  // solc rejects more than one SPDX identifier per file
+  return `// SPDX-License-Identifier: MIT\n\n${files.join('\n\n')}\n`;
+}
+
 // Get compiled contract (bytecode and ABI)
 export async function getCompiledContract(contractType: string) {
   // Check cache first
@@ -1020,10 +1128,7 @@ export async function getCompiledContract(contractType: string) {
             '*': ['abi', 'evm.bytecode']
           }
         },
-        optimizer: {
-          enabled: true,
-          runs: 200
-        }
+        optimizer: COMPILER_SETTINGS.optimizer
       }
     };
     
@@ -0,0 +1,314 @@
+import { TokenConfig, DeploymentResult } from '../types';
+import {
+  DeploymentJob,
+  DeploymentJobMetadata,
+  DeploymentJobStatus,
+  DeploymentJobStep,
+  DeploymentJobStepState,
+  DeploymentStepStatus,
+  SentTransaction
+} from '../types/deploymentJob';
+import { AppError, ErrorType } from './errorHandler';
+import { contractService } from './contractService';
+import { fallbackDeploymentService } from './fallbackDeploymentService';
+import { web3Service } from './web3Service';
+import { tokenMetadataService } from './tokenMetadataService';
+
+interface StepOutcome {
+  transactionHash?: string;
+  contractAddress?: string;
+  data?: Record<string, unknown>;
+}
+
+// Rows as returned by /api/deploy/jobs
+interface DeploymentJobStepRow {
+  step: DeploymentJobStep;
+  status: DeploymentStepStatus;
+  transaction_hash: string | null;
+  data: Record<string, unknown> | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+interface DeploymentJobRow {
+  id: number;
+  status: DeploymentJobStatus;
+  network_id: string;
+  contract_address: string | null;
+  config: DeploymentJob['config'];
+  steps?: DeploymentJobStepRow[];
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Steps whose failure is recorded but does not stop the job
+const OPTIONAL_STEPS: DeploymentJobStep[] = ['verify', 'metadata'];
+
+export class DeploymentJobService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+
+  private mapJob(job: DeploymentJobRow): DeploymentJob {
+    return {
+      id: job.id,
+      status: job.status,
+      networkId: job.network_id,
+      contractAddress: job.contract_address || undefined,
+      config: job.config,
+      steps: (job.steps || []).map(step => ({
+        step: step.step,
+        status: step.status,
+        transactionHash: step.transaction_hash || undefined,
+        data: step.data || undefined,
+        error: step.error || undefined,
+        startedAt: step.started_at || undefined,
+        completedAt: step.completed_at || undefined
+      })),
+      error: job.error || undefined,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at
+    };
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.apiUrl}/api/deploy/jobs${path}`, {
+      ...init,
+      headers: this.getAuthHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Deployment job request failed', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  async createJob(config: TokenConfig, metadata: DeploymentJobMetadata | null): Promise<DeploymentJob> {
+    const job = await this.request<DeploymentJobRow>('', {
+      method: 'POST',
+      body: JSON.stringify({ config, metadata })
+    });
+    return this.mapJob(job);
+  }
+
+  async getJob(id: number): Promise<DeploymentJob> {
+    return this.mapJob(await this.request<DeploymentJobRow>(`/${id}`));
+  }
+
+  /**
+   * The caller's most recent unfinished job, used to offer resuming after a reload
+   */
+  async getActiveJob(): Promise<DeploymentJob | null> {
+    try {
+      const { job } = await this.request<{ job: DeploymentJobRow | null }>('/active');
+      return job ? this.mapJob(job) : null;
+    } catch (error) {
+      console.error('Error fetching active deployment job:', error);
+      return null;
+    }
+  }
+
+  async cancelJob(id: number): Promise<void> {
+    await this.request<{ success: boolean }>(`/${id}`, { method: 'DELETE' });
+  }
+
+  private async updateStep(
+    id: number,
+    step: DeploymentJobStep,
+    status: DeploymentStepStatus,
+    outcome: StepOutcome & { error?: string } = {}
+  ): Promise<DeploymentJob> {
+    const job = await this.request<DeploymentJobRow>(`/${id}/steps/${step}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, ...outcome })
+    });
+    return this.mapJob(job);
+  }
+
+  /**
+   * Rebuild the wizard's deployment result from the completed steps of a job
+   */
+  getResult(job: DeploymentJob): DeploymentResult {
+    const deployStep = job.steps.find(s => s.step === 'deploy');
+    const vestingStep = job.steps.find(s => s.step === 'vesting');
+
+    if (!deployStep?.data) {
+      throw new AppError('Token has not been deployed yet', ErrorType.VALIDATION);
+    }
+
+    return {
+      ...(deployStep.data as unknown as DeploymentResult),
+      network: job.config.token.network,
+      vesting: vestingStep?.status === 'completed' ? vestingStep.data as unknown as DeploymentResult['vesting'] : undefined
+    };
+  }
+
+  /**
+   * Record a step's transaction on the job as soon as it is sent, before waiting for it to be mined
+   */
+  private recordTransaction(id: number, step: DeploymentJobStep, sent: SentTransaction): Promise<DeploymentJob> {
+    return this.updateStep(id, step, 'running', {
+      transactionHash: sent.transactionHash,
+      // The job's contract address is the token's, so only the deploy step sets it
+      contractAddress: step === 'deploy' ? sent.contractAddress : undefined,
+      data: {
+        contractAddress: sent.contractAddress,
+        ...(step === 'deploy' && { deploymentMethod: contractService.getDeploymentMethod() })
+      }
+    });
+  }
+
+  private async executeStep(step: DeploymentJobStep, job: DeploymentJob): Promise<StepOutcome> {
+    const config = job.config.token;
+    const onTransactionSent = async (sent: SentTransaction) => {
+      await this.recordTransaction(job.id, step, sent);
+    };
+
+    switch (step) {
+      case 'payment': {
+        const paymentTxHash = await contractService.chargeDeploymentFee(config.network, onTransactionSent);
+        return paymentTxHash ? { transactionHash: paymentTxHash } : {};
+      }
+      case 'deploy': {
+        const result = await contractService.deployTokenContract(config, {
+          skipPayment: true,
+          jobId: job.id,
+          onTransactionSent
+        });
+        return {
+          transactionHash: result.transactionHash,
+          contractAddress: result.contractAddress,
+          data: {
+            ...result,
+            network: undefined,
+            deploymentMethod: contractService.getDeploymentMethod()
+          }
+        };
+      }
+      case 'register':
+        await contractService.ensureTokenRegistered(config, this.getResult(job));
+        return {};
+      case 'verify': {
+        const verification = await contractService.verifyTokenSource(this.getResult(job).contractAddress);
+        if (verification.status !== 'verified') {
+          throw new Error(verification.message || 'Source verification failed');
+        }
+        return { data: { ...verification } };
+      }
+      case 'vesting': {
+        const vesting = await contractService.deployVesting(this.getResult(job).contractAddress, config, { onTransactionSent });
+        return { transactionHash: vesting.transactionHash, data: { ...vesting } };
+      }
+      case 'metadata':
+        await tokenMetadataService.saveTokenMetadata(this.getResult(job).contractAddress, job.config.metadata || {});
+        return {};
+    }
+  }
+
+  /**
+   * Finish a step whose transaction was sent before the job was interrupted from that transaction's receipt.
+   * Returns null when the transaction did not go through, so the step is run again.
+   */
+  private async resumeStep(state: DeploymentJobStepState, job: DeploymentJob): Promise<StepOutcome | null> {
+    const provider = web3Service.getProvider();
+    if (!state.transactionHash || !provider) {
+      return null;
+    }
+
+    // A transaction the node no longer knows of was dropped and never mined
+    if (!(await provider.getTransaction(state.transactionHash))) {
+      return null;
+    }
+
+    const receipt = await web3Service.waitForTransaction(state.transactionHash);
+    if (receipt.status !== 1) {
+      return null;
+    }
+
+    const config = job.config.token;
+    const sentTo = state.data?.contractAddress as string | undefined;
+
+    switch (state.step) {
+      case 'payment':
+        return { transactionHash: await contractService.completeDeploymentFee(config.network, receipt.hash) };
+      case 'deploy': {
+        // Factory deployments only learn the token's address from the mined receipt
+        const contractAddress = sentTo || fallbackDeploymentService.getCreatedToken(receipt, receipt.from);
+        return {
+          transactionHash: receipt.hash,
+          contractAddress,
+          data: {
+            contractAddress,
+            transactionHash: receipt.hash,
+            explorerUrl: `${config.network.explorerUrl}/token/${contractAddress}`,
+            gasUsed: receipt.gasUsed.toString(),
+            deploymentCost: (receipt.gasUsed * receipt.gasPrice).toString(),
+            deploymentMethod: state.data?.deploymentMethod
+          }
+        };
+      }
+      case 'vesting': {
+        const vesting = await contractService.deployVesting(this.getResult(job).contractAddress, config, {
+          deployed: { transactionHash: receipt.hash, contractAddress: sentTo }
+        });
+        return { transactionHash: vesting.transactionHash, data: { ...vesting } };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Run every unfinished step of a job in order, reporting progress to the backend. A step that already
+   * sent its transaction before an interruption is completed from the receipt instead of being sent again.
+   */
+  async runJob(initialJob: DeploymentJob, onUpdate: (job: DeploymentJob) => void): Promise<DeploymentResult> {
+    let job = initialJob;
+
+    for (const state of initialJob.steps) {
+      const { step, status } = state;
+      if (status === 'completed' || status === 'skipped') {
+        continue;
+      }
+
+      job = await this.updateStep(job.id, step, 'running');
+      onUpdate(job);
+
+      try {
+        const outcome = await this.resumeStep(state, job) || await this.executeStep(step, job);
+        job = await this.updateStep(job.id, step, 'completed', outcome);
+      } catch (error) {
+        const message = (error as Error).message || `Step ${step} failed`;
+        console.error(`Deployment step ${step} failed:`, error);
+
+        if (OPTIONAL_STEPS.includes(step)) {
+          job = await this.updateStep(job.id, step, 'skipped', { error: message });
+        } else {
+          job = await this.updateStep(job.id, step, 'failed', { error: message });
+          onUpdate(job);
+          throw error instanceof AppError ? error : new AppError(message, ErrorType.CONTRACT, error);
+        }
+      }
+
+      onUpdate(job);
+    }
+
+    return this.getResult(job);
+  }
+}
+
+export const deploymentJobService = new DeploymentJobService();
@@ -1,7 +1,12 @@
 import { ethers } from 'ethers';
 import { TokenConfig, DeploymentResult } from '../types';
+import { PresaleConfig, PresaleDeploymentResult } from '../types/presale';
+import { TransactionSentHandler } from '../types/deploymentJob';
 import { AppError, ErrorType, reportError } from './errorHandler';
 import { web3Service } from './web3Service';
+import { presaleService } from './presaleService';
+import { PENDING_REGISTRATIONS_STORAGE_KEY } from '../config/constants';
+import TokenFactoryABI from '../abis/TokenFactory.json';
 
 interface ContractExport {
   contractName: string;
@@ -9,6 +14,40 @@ interface ContractExport {
   bytecode: string;
 }
 
+// Body of a POST /api/contracts/register request
+type ContractRegistration = Record<string, unknown> & {
+  contractType: string;
+  contractAddress: string;
+  transactionHash: string;
+  network: string;
+};
+
+// TokenFactory create function for each token type it can deploy
+const FACTORY_METHODS: Record<string, string> = {
+  BasicToken: 'createBasicToken',
+  BurnableToken: 'createBurnableToken',
+  MintableToken: 'createMintableToken',
+  BurnableMintableToken: 'createBurnableMintableToken',
+  FeeToken: 'createFeeToken',
+  RedistributionToken: 'createRedistributionToken',
+  AdvancedToken: 'createAdvancedToken'
+};
+
+// Native-currency costs of deploying one token directly and through TokenFactory
+export interface FactoryCostComparison {
+  directCost: string;
+  factoryGasCost: string;
+  creationFee: string;
+  factoryCost: string; // gas plus creation fee
+  savings: string; // negative when direct deployment is cheaper
+}
+
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)'
+];
+
 export class FallbackDeploymentService {
   private static instance: FallbackDeploymentService;
 
@@ -189,7 +228,7 @@ export class FallbackDeploymentService {
   /**
    * Deploy contract using frontend fallback (ethers.js)
    */
-  public async deployContract(config: TokenConfig): Promise<DeploymentResult> {
+  public async deployContract(config: TokenConfig, onTransactionSent?: TransactionSentHandler): Promise<DeploymentResult> {
     try {
       const contractType = this.getContractType(config);
       const contractExport = await this.loadContractExport(contractType);
@@ -218,52 +257,34 @@ export class FallbackDeploymentService {
       // Deploy contract
       const contract = await factory.deploy(...constructorParams);
       
+      // Get deployment transaction
+      const deploymentTx = contract.deploymentTransaction();
+      if (!deploymentTx) {
+        throw new AppError('Deployment transaction not found', ErrorType.CONTRACT);
+      }
+      await onTransactionSent?.({ transactionHash: deploymentTx.hash, contractAddress: await contract.getAddress() });
+      
       // Wait for deployment
-      const receipt = await contract.deploymentTransaction()?.wait();
+      const receipt = await deploymentTx.wait();
       if (!receipt) {
         throw new AppError('Deployment transaction failed', ErrorType.CONTRACT);
       }
       
       console.log(`${contractType} deployed to:`, await contract.getAddress());
       
-      // Get deployment transaction
-      const deploymentTx = contract.deploymentTransaction();
-      if (!deploymentTx) {
-        throw new AppError('Deployment transaction not found', ErrorType.CONTRACT);
-      }
-      
       // Save deployment to backend
-      try {
-        const authToken = localStorage.getItem('authToken');
-        if (authToken) {
-          const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/contracts/register`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${authToken}`
-            },
-            body: JSON.stringify({
-              contractType,
-              contractAddress: await contract.getAddress(),
-              transactionHash: deploymentTx.hash,
-              network: config.network.id,
-              name: config.name,
-              symbol: config.symbol,
-              decimals: config.decimals,
-              initialSupply: config.initialSupply,
-              maxSupply: config.maxSupply || '0',
-              features: config.features
-            })
-          });
-          
-          if (!response.ok) {
-            console.warn('Failed to register contract with backend, but deployment was successful');
-          }
-        }
-      } catch (registerError) {
-        console.error('Error registering contract with backend:', registerError);
-        // Continue even if registration fails
-      }
+      await this.registerContract({
+        contractType,
+        contractAddress: await contract.getAddress(),
+        transactionHash: deploymentTx.hash,
+        network: config.network.id,
+        name: config.name,
+        symbol: config.symbol,
+        decimals: config.decimals,
+        initialSupply: config.initialSupply,
+        maxSupply: config.maxSupply || '0',
+        features: config.features
+      });
       
       return {
         contractAddress: await contract.getAddress(),
@@ -282,6 +303,514 @@ export class FallbackDeploymentService {
       );
     }
   }
+  /**
+   * Whether TokenFactory has a create function for this token configuration
+   */
+  public supportsFactory(config: TokenConfig): boolean {
+    return this.getContractType(config) in FACTORY_METHODS;
+  }
+
+  /**
+   * Get TokenFactory create arguments. Token constructors scale the initial supply by the decimals
+   * themselves, so it is passed in whole tokens, and the factory makes the caller the owner.
+   */
+  private getFactoryArgs(config: TokenConfig): unknown[] {
+    if (!/^\d+$/.test(config.initialSupply)) {
+      throw new AppError('TokenFactory deployments need a whole-number initial supply', ErrorType.VALIDATION);
+    }
+
+    const baseArgs = [
+      config.name,
+      config.symbol,
+      config.decimals,
+      BigInt(config.initialSupply),
+      config.maxSupply ? ethers.parseUnits(config.maxSupply, config.decimals) : 0,
+    ];
+    const feeArgs = [
+      Math.floor(config.features.transferFees.percentage * 100),
+      config.features.transferFees.recipient || ethers.ZeroAddress
+    ];
+    const redistributionArgs = [Math.floor(config.features.holderRedistribution.percentage * 100)];
+
+    switch (this.getContractType(config)) {
+      case 'FeeToken':
+        return [...baseArgs, ...feeArgs];
+      case 'RedistributionToken':
+        return [...baseArgs, ...redistributionArgs];
+      case 'AdvancedToken':
+        return [...baseArgs, ...feeArgs, ...redistributionArgs];
+      default:
+        return baseArgs;
+    }
+  }
+
+  private getFactoryMethod(config: TokenConfig): string {
+    const method = FACTORY_METHODS[this.getContractType(config)];
+    if (!method) {
+      throw new AppError(`TokenFactory cannot deploy ${this.getContractType(config)}`, ErrorType.VALIDATION);
+    }
+    return method;
+  }
+
+  /**
+   * Compare direct and TokenFactory deployment costs on the token's network, as sent from the given wallet
+   */
+  public async compareFactoryCost(config: TokenConfig, factoryAddress: string, from: string): Promise<FactoryCostComparison> {
+    try {
+      const provider = new ethers.JsonRpcProvider(config.network.rpcUrl);
+      const contractExport = await this.loadContractExport(this.getContractType(config));
+
+      const constructorParams = this.getConstructorParams(config).map(param =>
+        param === 'DEPLOYER_ADDRESS' ? from : param
+      );
+      const deployTx = await new ethers.ContractFactory(contractExport.abi, contractExport.bytecode)
+        .getDeployTransaction(...constructorParams);
+
+      const factory = new ethers.Contract(factoryAddress, TokenFactoryABI, provider);
+      const creationFee: bigint = await factory.creationFee();
+      const factoryData = factory.interface.encodeFunctionData(this.getFactoryMethod(config), this.getFactoryArgs(config));
+
+      const [directGas, factoryGas, feeData] = await Promise.all([
+        provider.estimateGas({ ...deployTx, from }),
+        provider.estimateGas({ to: factoryAddress, data: factoryData, value: creationFee, from }),
+        provider.getFeeData()
+      ]);
+      const gasPrice = feeData.gasPrice || ethers.parseUnits('50', 'gwei');
+
+      const directCost = directGas * gasPrice;
+      const factoryCost = factoryGas * gasPrice + creationFee;
+
+      return {
+        directCost: ethers.formatEther(directCost),
+        factoryGasCost: ethers.formatEther(factoryGas * gasPrice),
+        creationFee: ethers.formatEther(creationFee),
+        factoryCost: ethers.formatEther(factoryCost),
+        savings: ethers.formatEther(directCost - factoryCost)
+      };
+    } catch (error) {
+      console.error('Error comparing factory deployment cost:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError('Failed to estimate factory deployment cost', ErrorType.CONTRACT, error);
+    }
+  }
+
+  /**
+   * Address of the token a TokenFactory creation transaction made for the creator
+   */
+  public getCreatedToken(receipt: ethers.TransactionReceipt, creator: string): string {
+    const factory = new ethers.Interface(TokenFactoryABI);
+    const tokenCreated = receipt.logs
+      .filter(log => log.address.toLowerCase() === receipt.to?.toLowerCase())
+      .map(log => factory.parseLog(log))
+      .find(parsed =>
+        parsed?.name === 'TokenCreated' && parsed.args.creator.toLowerCase() === creator.toLowerCase()
+      );
+    if (!tokenCreated) {
+      throw new AppError('Token was created but TokenCreated was not emitted', ErrorType.CONTRACT, { hash: receipt.hash });
+    }
+
+    return tokenCreated.args.tokenAddress;
+  }
+
+  /**
+   * Deploy a token through TokenFactory from the connected wallet, paying its creation fee
+   */
+  public async deployViaFactory(
+    config: TokenConfig,
+    factoryAddress: string,
+    onTransactionSent?: TransactionSentHandler
+  ): Promise<DeploymentResult> {
+    try {
+      const contractType = this.getContractType(config);
+      const method = this.getFactoryMethod(config);
+
+      const signer = web3Service.getSigner();
+      if (!signer) {
+        throw new AppError('Wallet not connected', ErrorType.WALLET);
+      }
+
+      const address = await signer.getAddress();
+      const factory = new ethers.Contract(factoryAddress, TokenFactoryABI, signer);
+      const creationFee: bigint = await factory.creationFee();
+      const args = this.getFactoryArgs(config);
+
+      console.log(`Deploying ${contractType} through TokenFactory with args:`, args);
+
+      const tx = await factory[method](...args, { value: creationFee });
+      await onTransactionSent?.({ transactionHash: tx.hash });
+
+      const receipt: ethers.TransactionReceipt | null = await tx.wait();
+      if (!receipt || receipt.status !== 1) {
+        throw new AppError('Factory deployment transaction failed', ErrorType.CONTRACT);
+      }
+
+      const contractAddress = this.getCreatedToken(receipt, address);
+      console.log(`${contractType} deployed through TokenFactory to:`, contractAddress);
+
+      await this.registerContract({
+        contractType,
+        contractAddress,
+        transactionHash: receipt.hash,
+        network: config.network.id,
+        name: config.name,
+        symbol: config.symbol,
+        decimals: config.decimals,
+        initialSupply: config.initialSupply,
+        maxSupply: config.maxSupply || '0',
+        features: config.features,
+        deploymentMethod: 'factory'
+      });
+
+      return {
+        deploymentMethod: 'factory',
+        contractAddress,
+        transactionHash: receipt.hash,
+        network: config.network,
+        explorerUrl: `${config.network.explorerUrl}/token/${contractAddress}`,
+        gasUsed: receipt.gasUsed.toString(),
+        deploymentCost: (receipt.gasUsed * (receipt.gasPrice || BigInt(0)) + creationFee).toString()
+      };
+    } catch (error) {
+      console.error('TokenFactory deployment failed:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        (error as Error).message || 'TokenFactory deployment failed',
+        ErrorType.CONTRACT,
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the presale contract type based on presale configuration
+   */
+  private getPresaleContractType(config: PresaleConfig): string {
+    if (config.antiBotConfig?.enabled || config.saleType === 'fairlaunch') {
+      return 'AntiBotPresaleContract';
+    } else if (config.autoListingConfig?.enabled || config.saleConfiguration.baseToken) {
+      return 'PresaleContractV2';
+    } else {
+      return 'PresaleContract';
+    }
+  }
+
+  /**
+   * Decimals of the currency a sale raises: its base token for PresaleContractV2, otherwise the native coin.
+   * Mirrors getRaiseDecimals in the backend presale deployment service.
+   */
+  private async getRaiseDecimals(config: PresaleConfig, runner: ethers.ContractRunner): Promise<number> {
+    const { baseToken } = config.saleConfiguration;
+    if (this.getPresaleContractType(config) !== 'PresaleContractV2' || !baseToken) {
+      return 18;
+    }
+
+    const token = new ethers.Contract(baseToken, ERC20_ABI, runner);
+    return Number(await token.decimals());
+  }
+
+  /**
+   * Get constructor parameters for the presale contract
+   */
+  private async getPresaleConstructorParams(
+    config: PresaleConfig,
+    signerAddress: string,
+    runner: ethers.ContractRunner
+  ): Promise<unknown[]> {
+    const { tokenInfo, saleConfiguration, vestingConfig, walletSetup } = config;
+
+    // Fairlaunch contracts ignore the price and hard cap
+    const isFairlaunch = config.saleType === 'fairlaunch';
+    // Caps and purchase limits are amounts of the raise currency, e.g. a 6-decimal stablecoin
+    const raiseDecimals = await this.getRaiseDecimals(config, runner);
+
+    const saleInfo = {
+      token: tokenInfo.tokenAddress,
+      tokenPrice: isFairlaunch ? BigInt(0) : ethers.parseUnits(saleConfiguration.tokenPrice, 18),
+      softCap: ethers.parseUnits(saleConfiguration.softCap, raiseDecimals),
+      hardCap: isFairlaunch ? BigInt(0) : ethers.parseUnits(saleConfiguration.hardCap, raiseDecimals),
+      minPurchase: ethers.parseUnits(saleConfiguration.minPurchase, raiseDecimals),
+      maxPurchase: ethers.parseUnits(saleConfiguration.maxPurchase, raiseDecimals),
+      startTime: Math.floor(new Date(saleConfiguration.startDate).getTime() / 1000),
+      endTime: Math.floor(new Date(saleConfiguration.endDate).getTime() / 1000),
+      whitelistEnabled: saleConfiguration.whitelistEnabled
+    };
+
+    const vestingInfo = {
+      enabled: vestingConfig.enabled,
+      initialRelease: vestingConfig.enabled ? vestingConfig.initialRelease : 100,
+      vestingDuration: vestingConfig.enabled ? vestingConfig.duration * 24 * 60 * 60 : 0 // Convert days to seconds
+    };
+
+    switch (this.getPresaleContractType(config)) {
+      case 'AntiBotPresaleContract': {
+        const antiBot = config.antiBotConfig;
+        return [
+          saleInfo,
+          vestingInfo,
+          {
+            protectionDelay: antiBot?.protectionDelay || 300,
+            maxGasPrice: ethers.parseUnits((antiBot?.maxGasPrice || 50).toString(), 'gwei'),
+            walletCooldown: antiBot?.walletCooldown || 60,
+            signatureRequired: antiBot?.signatureRequired || false
+          },
+          walletSetup.saleReceiver,
+          walletSetup.refundWallet,
+          signerAddress,
+          isFairlaunch
+        ];
+      }
+      case 'PresaleContractV2': {
+        const autoListing = config.autoListingConfig;
+        return [
+          { ...saleInfo, baseToken: saleConfiguration.baseToken },
+          vestingInfo,
+          {
+            enabled: autoListing?.enabled || false,
+            listingPrice: autoListing?.enabled ? ethers.parseUnits(autoListing.listingPrice, 18) : 0,
+            lpTokenPercentage: autoListing?.enabled ? autoListing.lpTokenPercentage : 0,
+            lpBaseTokenPercentage: autoListing?.enabled ? autoListing.lpBaseTokenPercentage : 0,
+            lockDuration: autoListing?.enabled ? autoListing.lockDuration * 24 * 60 * 60 : 0 // Convert days to seconds
+          },
+          walletSetup.saleReceiver,
+          walletSetup.refundWallet,
+          ethers.ZeroAddress // No referral tracker without the backend
+        ];
+      }
+      default:
+        return [saleInfo, vestingInfo, walletSetup.saleReceiver, walletSetup.refundWallet];
+    }
+  }
+
+  /**
+   * Signer for anti-bot purchase signatures. The platform issues them when it can create a key;
+   * otherwise the sale owner signs and can hand over to a platform key later with updateSignerAddress.
+   */
+  private async getPresaleSigner(config: PresaleConfig, deployer: string): Promise<string> {
+    if (this.getPresaleContractType(config) !== 'AntiBotPresaleContract') {
+      return deployer;
+    }
+
+    try {
+      return await presaleService.createSigner(config.network.id);
+    } catch (error) {
+      console.warn('Could not create a platform signer, using the deployer as presale signer:', error);
+      return deployer;
+    }
+  }
+
+  /**
+   * Sale token of a presale and its allocation in token units, bound to the connected wallet
+   */
+  private async getSaleAllocation(config: PresaleConfig) {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    const token = new ethers.Contract(config.tokenInfo.tokenAddress, ERC20_ABI, signer);
+    const decimals = await token.decimals();
+    const allocatedAmount = ethers.parseUnits(config.tokenInfo.allocatedAmount, decimals);
+
+    return { signer, token, decimals, allocatedAmount };
+  }
+
+  /**
+   * Throw unless the connected wallet holds enough sale tokens to fund the presale
+   */
+  public async checkPresaleFunding(config: PresaleConfig): Promise<void> {
+    const { signer, token, decimals, allocatedAmount } = await this.getSaleAllocation(config);
+    const balance: bigint = await token.balanceOf(await signer.getAddress());
+
+    if (balance < allocatedAmount) {
+      throw new AppError(
+        `Insufficient ${config.tokenInfo.tokenSymbol} balance to fund the sale. Required: ${config.tokenInfo.allocatedAmount}, Available: ${ethers.formatUnits(balance, decimals)}`,
+        ErrorType.VALIDATION
+      );
+    }
+  }
+
+  /**
+   * Transfer the allocated sale tokens from the connected wallet into a deployed presale.
+   * Sale contracts pay out of their own token balance, so the allocation is transferred in directly.
+   */
+  public async fundPresale(config: PresaleConfig, contractAddress: string): Promise<void> {
+    const { token, allocatedAmount } = await this.getSaleAllocation(config);
+    const transferTx = await token.transfer(contractAddress, allocatedAmount);
+    await transferTx.wait();
+  }
+
+  /**
+   * Deploy a presale from the connected wallet and fund it with the allocated tokens
+   */
+  public async deployPresale(config: PresaleConfig): Promise<PresaleDeploymentResult> {
+    try {
+      const contractType = this.getPresaleContractType(config);
+      const contractExport = await this.loadContractExport(contractType);
+
+      const signer = web3Service.getSigner();
+      if (!signer) {
+        throw new AppError('Wallet not connected', ErrorType.WALLET);
+      }
+
+      const address = await signer.getAddress();
+
+      // Make sure the wallet can fund the sale before paying for the deployment
+      await this.checkPresaleFunding(config);
+
+      const constructorParams = await this.getPresaleConstructorParams(
+        config,
+        await this.getPresaleSigner(config, address),
+        signer
+      );
+
+      const factory = new ethers.ContractFactory(
+        contractExport.abi,
+        contractExport.bytecode,
+        signer
+      );
+
+      console.log(`Deploying ${contractType} with params:`, constructorParams);
+
+      const contract = await factory.deploy(...constructorParams);
+
+      const receipt = await contract.deploymentTransaction()?.wait();
+      if (!receipt) {
+        throw new AppError('Deployment transaction failed', ErrorType.CONTRACT);
+      }
+
+      const contractAddress = await contract.getAddress();
+      console.log(`${contractType} deployed to:`, contractAddress);
+
+      await this.fundPresale(config, contractAddress);
+
+      const { whitelistMerkleRoot } = config.saleConfiguration;
+      if (whitelistMerkleRoot) {
+        const presale = new ethers.Contract(contractAddress, contractExport.abi, signer);
+        const rootTx = await presale.setWhitelistMerkleRoot(whitelistMerkleRoot);
+        await rootTx.wait();
+      }
+
+      await this.registerContract({
+        contractType,
+        contractAddress,
+        transactionHash: receipt.hash,
+        network: config.network.id,
+        presaleConfig: config
+      });
+
+      return {
+        contractAddress,
+        transactionHash: receipt.hash,
+        network: config.network,
+        explorerUrl: `${config.network.explorerUrl}/address/${contractAddress}`,
+        gasUsed: receipt.gasUsed.toString(),
+        deploymentCost: (receipt.gasUsed * (receipt.gasPrice || BigInt(0))).toString(),
+        salePageUrl: `${window.location.origin}/sale/${contractAddress}`
+      };
+    } catch (error) {
+      console.error('Frontend fallback presale deployment failed:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        (error as Error).message || 'Frontend fallback presale deployment failed',
+        ErrorType.CONTRACT,
+        error
+      );
+    }
+  }
+
+  /**
+   * Register a fallback deployment with the backend, queueing it if the backend is unreachable
+   */
+  private async registerContract(registration: ContractRegistration): Promise<void> {
+    try {
+      const registered = await this.postRegistration(registration);
+      if (!registered) {
+        this.queueRegistration(registration);
+      }
+    } catch (registerError) {
+      console.error('Error registering contract with backend:', registerError);
+      // Continue even if registration fails
+      this.queueRegistration(registration);
+    }
+  }
+
+  /**
+   * Returns true once the backend has the contract, false if it should be retried later
+   */
+  private async postRegistration(registration: ContractRegistration): Promise<boolean> {
+    const authToken = localStorage.getItem('authToken');
+    if (!authToken) {
+      return false;
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/contracts/register`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`
+      },
+      body: JSON.stringify(registration)
+    });
+
+    if (response.ok) {
+      return true;
+    }
+
+    const errorData = await response.json().catch(() => ({}));
+    if (response.status === 400 && errorData.error === 'Contract already registered') {
+      return true;
+    }
+
+    console.warn('Failed to register contract with backend, but deployment was successful');
+    return false;
+  }
+
+  private getPendingRegistrations(): ContractRegistration[] {
+    try {
+      return JSON.parse(localStorage.getItem(PENDING_REGISTRATIONS_STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private queueRegistration(registration: ContractRegistration): void {
+    const pending = this.getPendingRegistrations().filter(
+      item => item.contractAddress.toLowerCase() !== registration.contractAddress.toLowerCase()
+    );
+    localStorage.setItem(PENDING_REGISTRATIONS_STORAGE_KEY, JSON.stringify([...pending, registration]));
+  }
+
+  /**
+   * Retry registrations queued while the backend was unreachable
+   * @returns Number of contracts registered
+   */
+  public async registerPendingContracts(): Promise<number> {
+    const pending = this.getPendingRegistrations();
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const remaining: ContractRegistration[] = [];
+    for (const registration of pending) {
+      try {
+        if (!(await this.postRegistration(registration))) {
+          remaining.push(registration);
+        }
+      } catch (error) {
+        console.error(`Error registering ${registration.contractAddress}:`, error);
+        remaining.push(registration);
+      }
+    }
+
+    localStorage.setItem(PENDING_REGISTRATIONS_STORAGE_KEY, JSON.stringify(remaining));
+    return pending.length - remaining.length;
+  }
 }
 
 export const fallbackDeploymentService = FallbackDeploymentService.getInstance();
\ No newline at end of file
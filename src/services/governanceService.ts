@@ -0,0 +1,339 @@
+import { ethers } from 'ethers';
+import { web3Service } from './web3Service';
+import { AppError, ErrorType } from './errorHandler';
+import TokenGovernanceABI from '../abis/TokenGovernance.json';
+import BasicTokenABI from '../abis/BasicToken.json';
+import BurnableTokenABI from '../abis/BurnableToken.json';
+import MintableTokenABI from '../abis/MintableToken.json';
+import FeeTokenABI from '../abis/FeeToken.json';
+import RedistributionTokenABI from '../abis/RedistributionToken.json';
+
+export type GovernanceMode = 'offchain' | 'onchain';
+
+export interface OnchainProposal {
+  id: string;
+  onchain_proposal_id: number;
+  governance_contract: string;
+  status: string;
+  [key: string]: unknown;
+}
+
+export interface GovernanceSettings {
+  mode: GovernanceMode;
+  contractAddress: string | null;
+  networkId: string;
+  contractType: string;
+  decimals: number;
+}
+
+export interface ProposalAction {
+  functionName: string;
+  signature: string;
+  args: Array<{ name: string; type: string; value: string }>;
+}
+
+// Token ABIs proposals can target, by tokens.contract_type
+const TOKEN_ABIS: Record<string, ethers.JsonFragment[][]> = {
+  BasicToken: [BasicTokenABI],
+  BurnableToken: [BurnableTokenABI],
+  MintableToken: [MintableTokenABI],
+  BurnableMintableToken: [BurnableTokenABI, MintableTokenABI],
+  FeeToken: [FeeTokenABI],
+  RedistributionToken: [RedistributionTokenABI],
+  AdvancedToken: [BurnableTokenABI, MintableTokenABI, FeeTokenABI, RedistributionTokenABI]
+};
+
+const OWNABLE_ABI = [
+  'function owner() view returns (address)',
+  'function transferOwnership(address newOwner)'
+];
+
+// ERC20 calls a holder vote has no reason to make on the owner's behalf
+const EXCLUDED_ACTIONS = ['approve', 'transfer', 'transferFrom', 'increaseAllowance', 'decreaseAllowance', 'claimRewards'];
+
+// uint arguments with these names are entered in whole tokens rather than base units
+const isTokenAmount = (param: ethers.ParamType) => /amount/i.test(param.name);
+
+// Merge ABIs, dropping fragments that appear in more than one of them
+const buildInterface = (abis: ethers.JsonFragment[][]): ethers.Interface => {
+  const seen = new Set<string>();
+  const fragments = abis.flat().filter(fragment => {
+    const key = JSON.stringify([fragment.type, fragment.name, fragment.inputs]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return new ethers.Interface(fragments);
+};
+
+// Matches TokenGovernance.VoteType
+const VOTE_TYPES: Record<'yes' | 'no' | 'abstain', number> = {
+  no: 0,
+  yes: 1,
+  abstain: 2
+};
+
+class GovernanceService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getContract(contractAddress: string): ethers.Contract {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+    return new ethers.Contract(contractAddress, TokenGovernanceABI, signer);
+  }
+
+  private getAuthToken(): string {
+    const authToken = localStorage.getItem('authToken');
+    if (!authToken) {
+      throw new AppError('Authentication required', ErrorType.AUTHENTICATION);
+    }
+    return authToken;
+  }
+
+  private handleTransactionError(error: unknown, message: string): never {
+    if (error instanceof AppError) throw error;
+    const { code, reason } = error as { code?: string; reason?: string };
+    if (code === 'ACTION_REJECTED') {
+      throw new AppError('Transaction rejected by user', ErrorType.WALLET, error);
+    }
+    throw new AppError(reason || message, ErrorType.CONTRACT, error);
+  }
+
+  async getSettings(tokenAddress: string): Promise<GovernanceSettings> {
+    const response = await fetch(`${this.apiUrl}/api/governance/settings/${tokenAddress}`);
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new AppError(errorData.error || 'Failed to fetch governance settings', ErrorType.SERVER);
+    }
+
+    return await response.json();
+  }
+
+  async updateSettings(
+    tokenAddress: string,
+    mode: GovernanceMode,
+    contractAddress?: string,
+    transactionHash?: string
+  ): Promise<GovernanceSettings> {
+    const response = await fetch(`${this.apiUrl}/api/governance/settings/${tokenAddress}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${this.getAuthToken()}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ mode, contractAddress, transactionHash })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new AppError(errorData.error || 'Failed to update governance settings', ErrorType.SERVER);
+    }
+
+    return await response.json();
+  }
+
+  async deployGovernanceContract(tokenAddress: string): Promise<{ address: string; txHash: string }> {
+    const response = await fetch('/contracts/exports/TokenGovernance.json');
+    if (!response.ok) {
+      throw new AppError('TokenGovernance artifact not found', ErrorType.CONTRACT);
+    }
+
+    const { abi, bytecode } = await response.json();
+    return await web3Service.deployContract(abi, bytecode, [tokenAddress]);
+  }
+
+  /**
+   * Hand a token's ownership to its governance contract, which calls the token when executing a passed
+   * proposal. Nothing is sent when the contract already owns the token or the token has no owner.
+   */
+  async transferTokenOwnership(tokenAddress: string, contractAddress: string): Promise<string | null> {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    const token = new ethers.Contract(tokenAddress, OWNABLE_ABI, signer);
+    let owner: string;
+    try {
+      owner = await token.owner();
+    } catch {
+      return null; // Not an Ownable token
+    }
+    if (owner.toLowerCase() === contractAddress.toLowerCase()) {
+      return null;
+    }
+
+    try {
+      const tx = await token.transferOwnership(contractAddress);
+      await tx.wait();
+      return tx.hash;
+    } catch (error) {
+      this.handleTransactionError(error, 'Failed to transfer token ownership');
+    }
+  }
+
+  async createProposal(
+    contractAddress: string,
+    params: {
+      title: string;
+      description: string;
+      executionData?: string;
+      quorum: number;
+      votingPeriod: number; // seconds
+      timeLockPeriod: number; // seconds
+    }
+  ): Promise<{ proposalId: number; txHash: string }> {
+    const contract = this.getContract(contractAddress);
+
+    try {
+      const tx = await contract.createProposal(
+        params.title,
+        params.description,
+        params.executionData || '0x',
+        params.quorum,
+        params.votingPeriod,
+        params.timeLockPeriod
+      );
+      const receipt = await tx.wait();
+
+      for (const log of receipt.logs) {
+        try {
+          const parsed = contract.interface.parseLog(log);
+          if (parsed && parsed.name === 'ProposalCreated') {
+            return { proposalId: Number(parsed.args.proposalId), txHash: tx.hash };
+          }
+        } catch {
+          // Not a governance event
+        }
+      }
+
+      throw new AppError('ProposalCreated event not found', ErrorType.CONTRACT);
+    } catch (error) {
+      this.handleTransactionError(error, 'Failed to create proposal');
+    }
+  }
+
+  async castVote(contractAddress: string, proposalId: number, vote: 'yes' | 'no' | 'abstain'): Promise<string> {
+    const contract = this.getContract(contractAddress);
+
+    try {
+      const tx = await contract.castVote(proposalId, VOTE_TYPES[vote]);
+      await tx.wait();
+      return tx.hash;
+    } catch (error) {
+      this.handleTransactionError(error, 'Failed to cast vote');
+    }
+  }
+
+  async executeProposal(contractAddress: string, proposalId: number): Promise<string> {
+    const contract = this.getContract(contractAddress);
+
+    try {
+      const tx = await contract.executeProposal(proposalId);
+      await tx.wait();
+      return tx.hash;
+    } catch (error) {
+      this.handleTransactionError(error, 'Failed to execute proposal');
+    }
+  }
+
+  async getProposalState(contractAddress: string, proposalId: number): Promise<string> {
+    const contract = this.getContract(contractAddress);
+    return await contract.getProposalState(proposalId);
+  }
+
+  getActionFunctions(contractType: string): ethers.FunctionFragment[] {
+    const abis = TOKEN_ABIS[contractType] || TOKEN_ABIS.BasicToken;
+    const functions: ethers.FunctionFragment[] = [];
+    buildInterface(abis).forEachFunction(fragment => {
+      if (!fragment.constant && !EXCLUDED_ACTIONS.includes(fragment.name)) {
+        functions.push(fragment);
+      }
+    });
+    return functions.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  isTokenAmountParam(param: ethers.ParamType): boolean {
+    return param.baseType.startsWith('uint') && isTokenAmount(param);
+  }
+
+  encodeAction(contractType: string, signature: string, values: string[], decimals: number): string {
+    const iface = buildInterface(TOKEN_ABIS[contractType] || TOKEN_ABIS.BasicToken);
+    const fragment = iface.getFunction(signature);
+    if (!fragment) {
+      throw new AppError(`Unknown function: ${signature}`, ErrorType.VALIDATION);
+    }
+
+    const args = fragment.inputs.map((param, index) => {
+      const value = (values[index] || '').trim();
+      if (value === '') {
+        throw new AppError(`Missing value for ${param.name || `argument ${index + 1}`}`, ErrorType.VALIDATION);
+      }
+
+      try {
+        if (param.baseType === 'address') return ethers.getAddress(value);
+        if (param.baseType === 'bool') return value === 'true';
+        if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) {
+          return this.isTokenAmountParam(param) ? ethers.parseUnits(value, decimals) : BigInt(value);
+        }
+        if (param.baseType.startsWith('bytes')) return ethers.hexlify(value);
+        if (param.baseType === 'string') return value;
+      } catch (error) {
+        throw new AppError(`Invalid ${param.type} value for ${param.name}`, ErrorType.VALIDATION, error);
+      }
+
+      throw new AppError(`Unsupported argument type: ${param.type}`, ErrorType.VALIDATION);
+    });
+
+    return iface.encodeFunctionData(fragment, args);
+  }
+
+  decodeAction(data: string, decimals: number): ProposalAction | null {
+    if (!data || data === '0x') return null;
+
+    const iface = buildInterface(Object.values(TOKEN_ABIS).flat());
+    try {
+      const parsed = iface.parseTransaction({ data });
+      if (!parsed) return null;
+
+      return {
+        functionName: parsed.name,
+        signature: parsed.signature,
+        args: parsed.fragment.inputs.map((param, index) => {
+          const value = parsed.args[index];
+          return {
+            name: param.name,
+            type: param.type,
+            value: this.isTokenAmountParam(param) ? ethers.formatUnits(value, decimals) : value.toString()
+          };
+        })
+      };
+    } catch (error) {
+      console.error('Error decoding proposal action:', error);
+      return null;
+    }
+  }
+
+  async syncContract(contractAddress: string): Promise<OnchainProposal[]> {
+    const response = await fetch(`${this.apiUrl}/api/governance/onchain/${contractAddress}/sync`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new AppError(errorData.error || 'Failed to sync governance contract', ErrorType.SERVER);
+    }
+
+    const data = await response.json();
+    return data.proposals;
+  }
+}
+
+export const governanceService = new GovernanceService();
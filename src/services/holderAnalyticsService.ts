@@ -0,0 +1,53 @@
+import { AppError, ErrorType } from './errorHandler';
+import { HolderAnalytics, HolderSnapshot, HolderSnapshotOptions } from '../types/tokenManagement';
+
+export class HolderAnalyticsService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  /**
+   * Top holders, concentration and holder count over time of a platform token, from indexed transfers
+   */
+  async getAnalytics(tokenAddress: string, limit?: number): Promise<HolderAnalytics> {
+    const params = limit ? `?limit=${limit}` : '';
+    const response = await fetch(`${this.apiUrl}/api/contracts/${tokenAddress}/holders${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to fetch holder analytics', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Every holder's balance at a block, after exclusions and the minimum balance
+   */
+  async getSnapshot(tokenAddress: string, options: HolderSnapshotOptions): Promise<HolderSnapshot> {
+    const response = await fetch(`${this.apiUrl}/api/contracts/${tokenAddress}/snapshot`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(options)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to create holder snapshot', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+}
+
+export const holderAnalyticsService = new HolderAnalyticsService();
@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import { AppError, ErrorType } from './errorHandler';
+import { web3Service } from './web3Service';
+import { presaleAdminService } from './presaleAdminService';
+import { networkRegistryService } from './networkRegistryService';
+import PresaleContractV2ABI from '../abis/PresaleContractV2.json';
+import LiquidityLockerABI from '../abis/LiquidityLocker.json';
+
+export interface ListingState {
+  autoListingEnabled: boolean;
+  autoListed: boolean;
+  lpTokenAddress: string | null;
+  lpBalance: string; // Owner's LP tokens that are not locked yet
+  lockDuration: number; // seconds, from the sale's auto-listing config
+}
+
+export interface PublishedLiquidityLock {
+  lockId: number;
+  lockerAddress: string;
+  lpTokenAddress: string;
+  lpTokenSymbol: string;
+  amount: string;
+  lockTime: number;
+  unlockTime: number;
+  withdrawn: boolean;
+}
+
+const ERC20_ABI = [
+  'function balanceOf(address) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+export class ListingService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+
+  /**
+   * Where a PresaleContractV2 sale is in the list-and-lock flow
+   */
+  async getListingState(presaleAddress: string): Promise<ListingState> {
+    const provider = web3Service.getProvider();
+    const signer = web3Service.getSigner();
+    if (!provider || !signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    const presale = new ethers.Contract(presaleAddress, PresaleContractV2ABI, provider);
+    const [autoListingInfo, autoListed, lpTokenAddress] = await Promise.all([
+      presale.autoListingInfo(),
+      presale.autoListed(),
+      presale.lpTokenAddress()
+    ]);
+
+    let lpBalance = '0';
+    if (autoListed && lpTokenAddress !== ethers.ZeroAddress) {
+      const lpToken = new ethers.Contract(lpTokenAddress, ERC20_ABI, provider);
+      const [balance, decimals] = await Promise.all([
+        lpToken.balanceOf(await signer.getAddress()),
+        lpToken.decimals()
+      ]);
+      lpBalance = ethers.formatUnits(balance, decimals);
+    }
+
+    return {
+      autoListingEnabled: autoListingInfo.enabled,
+      autoListed,
+      lpTokenAddress: lpTokenAddress === ethers.ZeroAddress ? null : lpTokenAddress,
+      lpBalance,
+      lockDuration: Number(autoListingInfo.lockDuration)
+    };
+  }
+
+  /**
+   * Add the sale's liquidity through a DEX router
+   * @returns LP token address from the AutoListed event
+   */
+  async autoList(presaleAddress: string, networkId: string, router: string): Promise<string> {
+    const provider = web3Service.getProvider();
+    if (!provider) {
+      throw new AppError('Provider not connected', ErrorType.WALLET);
+    }
+
+    const hash = await presaleAdminService.executeAction(presaleAddress, networkId, 'v2', 'autoListToken', [router]);
+    const receipt = await provider.getTransactionReceipt(hash);
+
+    const presaleInterface = new ethers.Interface(PresaleContractV2ABI);
+    const autoListed = receipt?.logs
+      .filter(log => log.address.toLowerCase() === presaleAddress.toLowerCase())
+      .map(log => presaleInterface.parseLog(log))
+      .find(parsed => parsed?.name === 'AutoListed');
+
+    if (!autoListed || autoListed.args.lpToken === ethers.ZeroAddress) {
+      throw new AppError('Liquidity was added but no LP token was reported', ErrorType.CONTRACT, { hash });
+    }
+
+    return autoListed.args.lpToken;
+  }
+
+  /**
+   * Lock all of the owner's LP tokens in the network's liquidity locker
+   * @returns Lock transaction hash
+   */
+  async lockLiquidity(chainId: number, lpTokenAddress: string, duration: number): Promise<string> {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    const lockerAddress = await networkRegistryService.getContractAddress(chainId, 'liquidityLocker');
+
+    const lpToken = new ethers.Contract(lpTokenAddress, ERC20_ABI, signer);
+    const amount: bigint = await lpToken.balanceOf(await signer.getAddress());
+    if (amount === BigInt(0)) {
+      throw new AppError('No LP tokens to lock', ErrorType.VALIDATION);
+    }
+
+    try {
+      // The locker pulls its fee from the same allowance
+      const approveTx = await lpToken.approve(lockerAddress, amount);
+      await approveTx.wait();
+
+      const locker = new ethers.Contract(lockerAddress, LiquidityLockerABI, signer);
+      const lockTx = await locker.lockLiquidity(lpTokenAddress, amount, duration);
+      await lockTx.wait();
+      return lockTx.hash;
+    } catch (error) {
+      console.error('Error locking liquidity:', error);
+      throw new AppError((error as Error).message || 'Failed to lock liquidity', ErrorType.CONTRACT, error);
+    }
+  }
+
+  /**
+   * Attach a verified lock to the sale so its page shows it
+   */
+  async publishLock(presaleAddress: string, networkId: string, transactionHash: string): Promise<number> {
+    const response = await fetch(`${this.apiUrl}/api/presale/${presaleAddress}/liquidity-lock`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ network: networkId, transactionHash })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to publish liquidity lock', ErrorType.SERVER, errorData);
+    }
+
+    const { lockId } = await response.json();
+    return lockId;
+  }
+
+  /**
+   * The sale's published LP lock, or null if there is none
+   */
+  async getPublishedLock(presaleAddress: string): Promise<PublishedLiquidityLock | null> {
+    const response = await fetch(`${this.apiUrl}/api/presale/${presaleAddress}/liquidity-lock`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to fetch liquidity lock', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+}
+
+export const listingService = new ListingService();
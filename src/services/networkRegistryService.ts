@@ -0,0 +1,59 @@
+import { AppError, ErrorType } from './errorHandler';
+import { NetworkRegistry, PlatformContract, getDefaultRegistry } from '../config/networkRegistry';
+
+export class NetworkRegistryService {
+  private apiUrl: string;
+  private registries = new Map<number, Promise<NetworkRegistry>>();
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  /**
+   * DEX routers, base tokens and platform contracts of a chain, with the backend's env and admin overrides applied.
+   * Falls back to the built-in registry, without platform contracts, when the backend is unreachable.
+   */
+  async getRegistry(chainId: number): Promise<NetworkRegistry> {
+    let registry = this.registries.get(chainId);
+
+    if (!registry) {
+      registry = this.fetchRegistry(chainId).catch(error => {
+        console.warn(`Using built-in network registry for chain ${chainId}:`, error);
+        // Retry on the next call instead of caching the fallback
+        this.registries.delete(chainId);
+        return getDefaultRegistry(chainId);
+      });
+      this.registries.set(chainId, registry);
+    }
+
+    return registry;
+  }
+
+  /**
+   * Address of a platform contract on a chain
+   * @throws AppError when the contract is not deployed there
+   */
+  async getContractAddress(chainId: number, contract: PlatformContract): Promise<string> {
+    const registry = await this.getRegistry(chainId);
+    const address = registry.contracts[contract];
+
+    if (!address) {
+      throw new AppError(`No ${contract} contract is configured for chain ${chainId}`, ErrorType.VALIDATION, { chainId, contract });
+    }
+
+    return address;
+  }
+
+  private async fetchRegistry(chainId: number): Promise<NetworkRegistry> {
+    const response = await fetch(`${this.apiUrl}/api/networks/${chainId}/registry`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to fetch network registry', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+}
+
+export const networkRegistryService = new NetworkRegistryService();
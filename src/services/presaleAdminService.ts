@@ -0,0 +1,337 @@
+import { ethers } from 'ethers';
+import { AppError, ErrorType } from './errorHandler';
+import { web3Service } from './web3Service';
+import PresaleContractABI from '../abis/PresaleContract.json';
+import PresaleContractV2ABI from '../abis/PresaleContractV2.json';
+
+export type PresaleVersion = 'v1' | 'v2' | 'antiBot';
+
+export type SalePhase = 'upcoming' | 'live' | 'ended' | 'softCapMissed' | 'finalized';
+
+export type SaleAdminAction =
+  | 'finalizeSale'
+  | 'autoListToken'
+  | 'pause'
+  | 'unpause'
+  | 'updateWhitelist'
+  | 'updatePenaltyRate'
+  | 'withdrawPenalties'
+  | 'updateFeaturedStatus'
+  | 'emergencyWithdrawTokens';
+
+export interface SaleAdminState {
+  version: PresaleVersion;
+  phase: SalePhase;
+  isOwner: boolean;
+  paused: boolean;
+  finalized: boolean;
+  softCapReached: boolean;
+  hardCapReached: boolean;
+  whitelistEnabled: boolean;
+  // PresaleContractV2 only
+  autoListingEnabled: boolean;
+  autoListed: boolean;
+  featured: boolean;
+  penaltyRate: number; // 0.1% units, e.g. 100 = 10%
+  totalPenalties: string;
+  raisedSymbol: string;
+  availableActions: SaleAdminAction[];
+}
+
+export interface SaleAdminTransaction {
+  transaction_hash: string;
+  transaction_type: string;
+  status: string;
+  created_at: string;
+}
+
+// AntiBotPresaleContract has no ABI export; these are the functions the panel needs
+const ANTIBOT_PRESALE_ABI = [
+  'function antiBotInfo() view returns (uint256 protectionDelay, uint256 maxGasPrice, uint256 walletCooldown, bool signatureRequired)',
+  'function isFairlaunch() view returns (bool)',
+  'function buyTokens(bytes signature) payable',
+  'function updateSignerAddress(address newSigner)',
+  'function saleInfo() view returns (address token, uint256 tokenPrice, uint256 softCap, uint256 hardCap, uint256 minPurchase, uint256 maxPurchase, uint256 startTime, uint256 endTime, bool whitelistEnabled)',
+  'function totalRaised() view returns (uint256)',
+  'function saleFinalized() view returns (bool)',
+  'function paused() view returns (bool)',
+  'function owner() view returns (address)',
+  'function finalizeSale()',
+  'function pause()',
+  'function unpause()',
+  'function updateWhitelist(address[] addresses, bool status)',
+  'function emergencyWithdraw(address token, uint256 amount)'
+];
+
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)'
+];
+
+// A contract is the version whose ABI has the largest share of its function selectors in the bytecode
+const PRESALE_VERSIONS: { version: PresaleVersion; abi: ethers.InterfaceAbi }[] = [
+  { version: 'v2', abi: PresaleContractV2ABI as ethers.InterfaceAbi },
+  { version: 'antiBot', abi: ANTIBOT_PRESALE_ABI },
+  { version: 'v1', abi: PresaleContractABI as ethers.InterfaceAbi }
+];
+const MIN_ABI_MATCH = 0.8;
+
+export class PresaleAdminService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+
+  private getAbi(version: PresaleVersion): ethers.InterfaceAbi {
+    return PRESALE_VERSIONS.find(entry => entry.version === version)!.abi;
+  }
+
+  /**
+   * Detect which presale contract is deployed at an address from the selectors in its bytecode
+   */
+  async detectVersion(contractAddress: string): Promise<PresaleVersion> {
+    const provider = web3Service.getProvider();
+    if (!provider) {
+      throw new AppError('Provider not connected', ErrorType.WALLET);
+    }
+
+    const code = (await provider.getCode(contractAddress)).toLowerCase();
+    if (code === '0x') {
+      throw new AppError('No contract deployed at this address', ErrorType.CONTRACT);
+    }
+
+    // Contracts deployed before a function was added still match most of their ABI
+    let best: { version: PresaleVersion; score: number } | null = null;
+    for (const { version, abi } of PRESALE_VERSIONS) {
+      const selectors: string[] = [];
+      new ethers.Interface(abi).forEachFunction(fn => selectors.push(fn.selector.slice(2)));
+
+      const score = selectors.filter(selector => code.includes(selector)).length / selectors.length;
+      if (!best || score > best.score) {
+        best = { version, score };
+      }
+    }
+
+    if (!best || best.score < MIN_ABI_MATCH) {
+      throw new AppError('Unrecognized presale contract', ErrorType.CONTRACT);
+    }
+
+    return best.version;
+  }
+
+  /**
+   * Read the sale state and work out which owner actions are currently valid
+   */
+  async getSaleState(contractAddress: string): Promise<SaleAdminState> {
+    const provider = web3Service.getProvider();
+    if (!provider) {
+      throw new AppError('Provider not connected', ErrorType.WALLET);
+    }
+
+    const version = await this.detectVersion(contractAddress);
+    const contract = new ethers.Contract(contractAddress, this.getAbi(version), provider);
+
+    const [saleInfo, totalRaised, finalized, paused, owner] = await Promise.all([
+      contract.saleInfo(),
+      contract.totalRaised(),
+      contract.saleFinalized(),
+      contract.paused(),
+      contract.owner()
+    ]);
+
+    const signer = web3Service.getSigner();
+    const account = signer ? await signer.getAddress() : null;
+
+    // Fairlaunches have no hard cap
+    const isFairlaunch: boolean = version === 'antiBot' ? await contract.isFairlaunch() : false;
+    const softCapReached = totalRaised >= saleInfo.softCap;
+    const hardCapReached = !isFairlaunch && totalRaised >= saleInfo.hardCap;
+
+    const now = Math.floor(Date.now() / 1000);
+    let phase: SalePhase;
+    if (finalized) {
+      phase = 'finalized';
+    } else if (now < Number(saleInfo.startTime)) {
+      phase = 'upcoming';
+    } else if (now <= Number(saleInfo.endTime)) {
+      phase = 'live';
+    } else {
+      phase = softCapReached ? 'ended' : 'softCapMissed';
+    }
+
+    const state: SaleAdminState = {
+      version,
+      phase,
+      isOwner: !!account && account.toLowerCase() === owner.toLowerCase(),
+      paused,
+      finalized,
+      softCapReached,
+      hardCapReached,
+      whitelistEnabled: saleInfo.whitelistEnabled,
+      autoListingEnabled: false,
+      autoListed: false,
+      featured: false,
+      penaltyRate: 0,
+      totalPenalties: '0',
+      raisedSymbol: (await web3Service.getCurrentNetwork())?.symbol || 'ETH',
+      availableActions: []
+    };
+
+    if (version === 'v2') {
+      const baseToken = new ethers.Contract(saleInfo.baseToken, ERC20_ABI, provider);
+      const [autoListingInfo, autoListed, featured, penaltyRate, totalPenalties, decimals, symbol] = await Promise.all([
+        contract.autoListingInfo(),
+        contract.autoListed(),
+        contract.featured(),
+        contract.penaltyRate(),
+        contract.totalPenalties(),
+        baseToken.decimals(),
+        baseToken.symbol()
+      ]);
+
+      state.autoListingEnabled = autoListingInfo.enabled;
+      state.autoListed = autoListed;
+      state.featured = featured;
+      state.penaltyRate = Number(penaltyRate);
+      state.totalPenalties = ethers.formatUnits(totalPenalties, decimals);
+      state.raisedSymbol = symbol;
+    }
+
+    state.availableActions = this.getAvailableActions(state);
+    return state;
+  }
+
+  /**
+   * Owner actions that make sense for the sale's version and current phase
+   */
+  getAvailableActions(state: SaleAdminState): SaleAdminAction[] {
+    if (!state.isOwner) return [];
+
+    const actions: SaleAdminAction[] = [];
+    const isV2 = state.version === 'v2';
+
+    if (!state.finalized) {
+      // A sale can close early once the hard cap is reached
+      if (state.phase === 'ended' || state.phase === 'softCapMissed' || (state.phase === 'live' && state.hardCapReached)) {
+        actions.push('finalizeSale');
+      }
+
+      actions.push(state.paused ? 'unpause' : 'pause');
+
+      if (state.whitelistEnabled) {
+        actions.push('updateWhitelist');
+      }
+
+      if (isV2 && (state.phase === 'upcoming' || state.phase === 'live')) {
+        actions.push('updatePenaltyRate');
+      }
+    } else {
+      // Recover unsold tokens, or every token when the sale failed
+      actions.push('emergencyWithdrawTokens');
+    }
+
+    if (isV2 && parseFloat(state.totalPenalties) > 0) {
+      actions.push('withdrawPenalties');
+    }
+
+    if (isV2) {
+      actions.push('updateFeaturedStatus');
+    }
+
+    return actions;
+  }
+
+  /**
+   * Send an owner action from the connected wallet and record it on the backend
+   * @returns Transaction hash
+   */
+  async executeAction(
+    contractAddress: string,
+    networkId: string,
+    version: PresaleVersion,
+    action: SaleAdminAction,
+    args: unknown[] = []
+  ): Promise<string> {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    const contract = new ethers.Contract(contractAddress, this.getAbi(version), signer);
+    // Only PresaleContractV2 names it emergencyWithdrawTokens
+    const method = action === 'emergencyWithdrawTokens' && version !== 'v2' ? 'emergencyWithdraw' : action;
+
+    try {
+      const tx = await contract[method](...args);
+
+      try {
+        await tx.wait();
+      } finally {
+        // Reverted transactions are recorded too, as failed
+        await this.recordTransaction(contractAddress, networkId, action, tx.hash);
+      }
+
+      return tx.hash;
+    } catch (error) {
+      console.error(`Error running ${action}:`, error);
+      throw new AppError((error as Error).message || `Failed to run ${action}`, ErrorType.CONTRACT, error);
+    }
+  }
+
+  /**
+   * Token amount in base units, for emergency withdrawals
+   */
+  async parseTokenAmount(tokenAddress: string, amount: string): Promise<bigint> {
+    const provider = web3Service.getProvider();
+    if (!provider) {
+      throw new AppError('Provider not connected', ErrorType.WALLET);
+    }
+
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+    return ethers.parseUnits(amount, await token.decimals());
+  }
+
+  private async recordTransaction(contractAddress: string, networkId: string, action: SaleAdminAction, transactionHash: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/presale/${contractAddress}/transactions`, {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+        body: JSON.stringify({ network: networkId, action, transactionHash })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.warn('Failed to record presale transaction:', errorData.error || response.statusText);
+      }
+    } catch (error) {
+      console.warn('Failed to record presale transaction:', error);
+    }
+  }
+
+  /**
+   * Owner actions recorded for a presale, newest first
+   */
+  async getTransactions(contractAddress: string): Promise<SaleAdminTransaction[]> {
+    const response = await fetch(`${this.apiUrl}/api/presale/${contractAddress}/transactions`, {
+      headers: this.getAuthHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to fetch sale transactions', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+}
+
+export const presaleAdminService = new PresaleAdminService();
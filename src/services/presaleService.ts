@@ -0,0 +1,176 @@
+import { ethers } from 'ethers';
+import { AppError, ErrorType } from './errorHandler';
+import { web3Service } from './web3Service';
+import { SaleParticipant } from '../types/presale';
+
+export interface PurchaseSignature {
+  signatureRequired: boolean;
+  signature?: string;
+}
+
+export interface PresaleWhitelist {
+  id: number;
+  merkleRoot: string;
+  addressCount: number;
+  invalidAddresses: string[];
+}
+
+export interface WhitelistProof {
+  merkleRoot: string | null;
+  whitelisted: boolean;
+  proof: string[];
+}
+
+export interface ParticipantLedger {
+  participants: SaleParticipant[];
+  total: number;
+  page: number;
+  limit: number | null;
+  whitelistEnabled: boolean;
+}
+
+export type ParticipantExportFormat = 'csv' | 'json';
+
+const WHITELIST_ROOT_ABI = [
+  'function setWhitelistMerkleRoot(bytes32 merkleRoot)'
+];
+
+export class PresaleService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+
+  /**
+   * Create a platform-managed signing key for a new anti-bot presale
+   * @returns Address to pass as the presale's signer
+   */
+  async createSigner(networkId: string): Promise<string> {
+    const response = await fetch(`${this.apiUrl}/api/presale/signers`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ network: networkId })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to create presale signer', ErrorType.SERVER, errorData);
+    }
+
+    const data = await response.json();
+    return data.signerAddress;
+  }
+
+  /**
+   * Request the purchase signature AntiBotPresaleContract.buyTokens needs for the connected wallet
+   */
+  async getPurchaseSignature(presaleAddress: string, networkId: string, captchaToken?: string): Promise<PurchaseSignature> {
+    const response = await fetch(`${this.apiUrl}/api/presale/${presaleAddress}/signature`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ network: networkId, captchaToken })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(
+        errorData.message || errorData.error || 'Failed to get purchase signature',
+        response.status === 401 ? ErrorType.AUTHENTICATION : ErrorType.VALIDATION,
+        errorData
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Build and store a Merkle whitelist. Without a presale address the list is attached after deployment.
+   */
+  async createWhitelist(addresses: string[], networkId: string, presaleAddress?: string): Promise<PresaleWhitelist> {
+    const response = await fetch(`${this.apiUrl}/api/presale/whitelists`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ addresses, network: networkId, presaleAddress })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.details || errorData.error || 'Failed to create whitelist', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Point a deployed presale at a new whitelist root; only the sale owner can do this
+   */
+  async setWhitelistMerkleRoot(presaleAddress: string, merkleRoot: string): Promise<string> {
+    const signer = web3Service.getSigner();
+    if (!signer) {
+      throw new AppError('Wallet not connected', ErrorType.WALLET);
+    }
+
+    const presale = new ethers.Contract(presaleAddress, WHITELIST_ROOT_ABI, signer);
+    const tx = await presale.setWhitelistMerkleRoot(merkleRoot);
+    await tx.wait();
+    return tx.hash;
+  }
+
+  async getWhitelistProof(presaleAddress: string, networkId: string, account: string): Promise<WhitelistProof> {
+    const response = await fetch(
+      `${this.apiUrl}/api/presale/${presaleAddress}/whitelist/proof/${account}?network=${networkId}`
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.details || errorData.error || 'Failed to fetch whitelist proof', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * A page of the participant ledger; only the sale owner can read it
+   */
+  async getParticipants(presaleAddress: string, page = 1, limit = 25): Promise<ParticipantLedger> {
+    const response = await fetch(
+      `${this.apiUrl}/api/presale/${presaleAddress}/participants?page=${page}&limit=${limit}`,
+      { headers: this.getAuthHeaders() }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.details || errorData.error || 'Failed to fetch participants', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Every participant as a CSV or JSON file
+   */
+  async exportParticipants(presaleAddress: string, format: ParticipantExportFormat): Promise<Blob> {
+    const response = await fetch(
+      `${this.apiUrl}/api/presale/${presaleAddress}/participants?format=${format}`,
+      { headers: this.getAuthHeaders() }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.details || errorData.error || 'Failed to export participants', ErrorType.SERVER, errorData);
+    }
+
+    return response.blob();
+  }
+}
+
+export const presaleService = new PresaleService();
@@ -0,0 +1,90 @@
+import { ethers } from 'ethers';
+import { AppError, ErrorType } from './errorHandler';
+
+export interface ReferralLeaderboardEntry {
+  rank: number;
+  referrer: string;
+  referrals: number;
+  volume: string;
+  rewards: string;
+}
+
+export interface ReferralRewardsSummary {
+  enabled: boolean;
+  trackerAddress?: string;
+  recordsPurchases?: boolean;
+  referralRate?: number; // percent
+  rewardSymbol?: string;
+  referrers?: number;
+  saleVolume?: string;
+  saleRewards?: string;
+  trackerRewardsOwed?: string;
+  trackerFunded?: string;
+  shortfall?: string;
+}
+
+const REFERRER_STORAGE_PREFIX = 'saleReferrer:';
+
+export class ReferralService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+
+  /**
+   * Remember the referrer a visitor arrived with, per sale. The first valid link wins.
+   */
+  saveReferrer(saleAddress: string, referrer: string): void {
+    if (!ethers.isAddress(referrer) || referrer.toLowerCase() === saleAddress.toLowerCase()) return;
+
+    const key = `${REFERRER_STORAGE_PREFIX}${saleAddress.toLowerCase()}`;
+    if (!localStorage.getItem(key)) {
+      localStorage.setItem(key, ethers.getAddress(referrer));
+    }
+  }
+
+  getReferrer(saleAddress: string): string | null {
+    return localStorage.getItem(`${REFERRER_STORAGE_PREFIX}${saleAddress.toLowerCase()}`);
+  }
+
+  /**
+   * Top referrers of a sale, built from the tracker's ReferralPurchase events
+   */
+  async getLeaderboard(saleAddress: string, limit = 10): Promise<ReferralLeaderboardEntry[]> {
+    const response = await fetch(`${this.apiUrl}/api/presale/${saleAddress}/referrals?limit=${limit}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.details || errorData.error || 'Failed to fetch referral leaderboard', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Rewards accrued by a sale against what the tracker holds; only the sale owner can read it
+   */
+  async getRewardsSummary(saleAddress: string): Promise<ReferralRewardsSummary> {
+    const response = await fetch(`${this.apiUrl}/api/presale/${saleAddress}/referrals/rewards`, {
+      headers: this.getAuthHeaders()
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.details || errorData.error || 'Failed to fetch referral rewards', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+}
+
+export const referralService = new ReferralService();
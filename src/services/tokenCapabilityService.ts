@@ -0,0 +1,27 @@
+import { AppError, ErrorType } from './errorHandler';
+import { TokenCapabilityDetection } from '../types/tokenManagement';
+
+export class TokenCapabilityService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  /**
+   * What a registered token can do, as the backend records it: detected on import for external
+   * tokens and known from the contract type for platform tokens
+   */
+  async getCapabilities(tokenAddress: string): Promise<TokenCapabilityDetection> {
+    const response = await fetch(`${this.apiUrl}/api/contracts/${tokenAddress}/capabilities`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AppError(errorData.error || 'Failed to fetch token capabilities', ErrorType.SERVER, errorData);
+    }
+
+    return response.json();
+  }
+}
+
+export const tokenCapabilityService = new TokenCapabilityService();
@@ -0,0 +1,284 @@
+import { ethers } from 'ethers';
+import { web3Service } from './web3Service';
+import { AppError, ErrorType } from './errorHandler';
+import { getLogRangeLimit } from '../config/chainConfig';
+import { BurnTransaction, FeeDistribution, MintTransaction, TokenHistory } from '../types/tokenManagement';
+
+const TRANSFER_INTERFACE = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+]);
+const TRANSFER_TOPIC = TRANSFER_INTERFACE.getEvent('Transfer')!.topicHash;
+
+const DB_NAME = 'token-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'histories';
+
+// Log chunks scanned between cache writes, so an interrupted scan resumes where it stopped
+const CHECKPOINT_INTERVAL = 20;
+
+interface CachedTokenHistory extends TokenHistory {
+  key: string; // chainId:tokenAddress
+}
+
+export class TokenHistoryService {
+  private apiUrl: string;
+  private db: Promise<IDBDatabase | null> | null = null;
+  private scans = new Map<string, Promise<TokenHistory>>();
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { 'Authorization': `Bearer ${token}` }),
+    };
+  }
+
+  /**
+   * Mint, burn and fee history of a token from its Transfer events: mints come from the zero address,
+   * burns go to it, and a fee is a transfer to the fee recipient followed by another transfer from the
+   * same sender in the same transaction. Scanned blocks are cached per token in IndexedDB, so later
+   * calls only scan blocks mined since.
+   */
+  async getHistory(tokenAddress: string, decimals: number, feeRecipient?: string): Promise<TokenHistory> {
+    const provider = web3Service.getProvider();
+    if (!provider) {
+      throw new AppError('Provider not connected', ErrorType.WALLET);
+    }
+
+    const { chainId } = await provider.getNetwork();
+    const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+
+    // Panels load their histories side by side; share one scan between them
+    let scan = this.scans.get(key);
+    if (!scan) {
+      scan = this.scan(provider, Number(chainId), key, tokenAddress, decimals, feeRecipient)
+        .finally(() => this.scans.delete(key));
+      this.scans.set(key, scan);
+    }
+
+    return scan;
+  }
+
+  private async scan(
+    provider: ethers.BrowserProvider,
+    chainId: number,
+    key: string,
+    tokenAddress: string,
+    decimals: number,
+    feeRecipient?: string
+  ): Promise<TokenHistory> {
+    const latestBlock = await provider.getBlockNumber();
+    const history: CachedTokenHistory = await this.readCache(key) || {
+      key,
+      mints: [],
+      burns: [],
+      fees: [],
+      scannedToBlock: await this.findDeploymentBlock(provider, tokenAddress) - 1
+    };
+
+    const chunkSize = getLogRangeLimit(chainId);
+    const timestamps = new Map<number, string>();
+    let chunks = 0;
+
+    try {
+      for (let start = history.scannedToBlock + 1; start <= latestBlock; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, latestBlock);
+        const logs = await this.getLogs(provider, tokenAddress, start, end);
+        const events = await this.classify(provider, logs, decimals, feeRecipient, timestamps);
+
+        // Histories are kept newest first
+        history.mints.unshift(...events.mints.reverse());
+        history.burns.unshift(...events.burns.reverse());
+        history.fees.unshift(...events.fees.reverse());
+        history.scannedToBlock = end;
+
+        if (++chunks % CHECKPOINT_INTERVAL === 0) {
+          await this.writeCache(history);
+        }
+      }
+    } catch (error) {
+      // Keep what was scanned so the next attempt continues from there
+      await this.writeCache(history);
+      throw new AppError('Failed to load token history', ErrorType.NETWORK, error);
+    }
+
+    await this.writeCache(history);
+
+    return {
+      mints: history.mints,
+      burns: history.burns,
+      fees: history.fees,
+      scannedToBlock: history.scannedToBlock
+    };
+  }
+
+  /**
+   * Transfer logs of a block range. RPCs reject ranges or result sets they consider too large,
+   * so a rejected range is split in half until it is accepted or down to a single block.
+   */
+  private async getLogs(provider: ethers.BrowserProvider, address: string, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    try {
+      return await provider.getLogs({ address, topics: [TRANSFER_TOPIC], fromBlock, toBlock });
+    } catch (error) {
+      if (fromBlock >= toBlock) throw error;
+
+      const middle = Math.floor((fromBlock + toBlock) / 2);
+      const first = await this.getLogs(provider, address, fromBlock, middle);
+      const second = await this.getLogs(provider, address, middle + 1, toBlock);
+      return [...first, ...second];
+    }
+  }
+
+  private async classify(
+    provider: ethers.BrowserProvider,
+    logs: ethers.Log[],
+    decimals: number,
+    feeRecipient: string | undefined,
+    timestamps: Map<number, string>
+  ): Promise<{ mints: MintTransaction[]; burns: BurnTransaction[]; fees: FeeDistribution[] }> {
+    const mints: MintTransaction[] = [];
+    const burns: BurnTransaction[] = [];
+    const fees: FeeDistribution[] = [];
+    const recipient = feeRecipient && feeRecipient !== ethers.ZeroAddress ? feeRecipient.toLowerCase() : null;
+
+    const transfers = logs.map(log => {
+      const parsed = TRANSFER_INTERFACE.parseLog(log)!;
+      return {
+        log,
+        from: (parsed.args.from as string).toLowerCase(),
+        to: (parsed.args.to as string).toLowerCase(),
+        value: parsed.args.value as bigint
+      };
+    });
+
+    const getTimestamp = async (blockNumber: number) => {
+      if (!timestamps.has(blockNumber)) {
+        const block = await provider.getBlock(blockNumber);
+        timestamps.set(blockNumber, new Date((block?.timestamp || 0) * 1000).toISOString());
+      }
+      return timestamps.get(blockNumber)!;
+    };
+
+    const zero = ethers.ZeroAddress.toLowerCase();
+
+    for (const transfer of transfers) {
+      const { log, from, to, value } = transfer;
+      const amount = ethers.formatUnits(value, decimals);
+
+      if (from === zero) {
+        mints.push({ to, amount, timestamp: await getTimestamp(log.blockNumber), txHash: log.transactionHash, blockNumber: log.blockNumber });
+      } else if (to === zero) {
+        burns.push({ from, amount, timestamp: await getTimestamp(log.blockNumber), txHash: log.transactionHash, blockNumber: log.blockNumber });
+      } else if (recipient && to === recipient) {
+        // The fee leg is emitted right before the transfer it was taken from
+        const isFee = transfers.some(other =>
+          other.log.transactionHash === log.transactionHash &&
+          other.log.index > log.index &&
+          other.from === from &&
+          other.to !== recipient
+        );
+
+        if (isFee) {
+          fees.push({ date: await getTimestamp(log.blockNumber), amount, recipient: to, txHash: log.transactionHash, blockNumber: log.blockNumber });
+        }
+      }
+    }
+
+    return { mints, burns, fees };
+  }
+
+  /**
+   * Block a token was deployed in, so scans skip the chain before it. Uses the deployment transaction
+   * the backend recorded, then a binary search over contract code, and falls back to genesis.
+   */
+  private async findDeploymentBlock(provider: ethers.BrowserProvider, tokenAddress: string): Promise<number> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/contracts/${tokenAddress}`, {
+        headers: this.getAuthHeaders()
+      });
+
+      if (response.ok) {
+        const { transactionHash } = await response.json();
+        const receipt = transactionHash ? await provider.getTransactionReceipt(transactionHash) : null;
+        if (receipt) return receipt.blockNumber;
+      }
+    } catch (error) {
+      console.warn('Deployment transaction not available:', error);
+    }
+
+    try {
+      let low = 0;
+      let high = await provider.getBlockNumber();
+
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const code = await provider.getCode(tokenAddress, middle);
+        if (code === '0x') {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+
+      return low;
+    } catch (error) {
+      // Pruned nodes cannot serve historical state
+      console.warn('Could not locate deployment block, scanning from genesis:', error);
+      return 0;
+    }
+  }
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Token history cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+
+    return this.db;
+  }
+
+  private async readCache(key: string): Promise<CachedTokenHistory | null> {
+    const db = await this.openDb();
+    if (!db) return null;
+
+    return new Promise(resolve => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  private async writeCache(history: CachedTokenHistory): Promise<void> {
+    const db = await this.openDb();
+    if (!db) return;
+
+    await new Promise<void>(resolve => {
+      const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(history);
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        console.warn('Failed to cache token history:', request.error);
+        resolve();
+      };
+    });
+  }
+}
+
+export const tokenHistoryService = new TokenHistoryService();
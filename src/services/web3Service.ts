@@ -599,17 +599,6 @@ export class Web3Service {
     }
   }
 
-  async verifyContract(address: string, contractName: string, source: string, args: any[]): Promise<boolean> {
-    // In a real implementation, this would call the explorer's API to verify the contract
-    // For now, we'll just simulate a successful verification
-    console.log(`Verifying contract ${contractName} at ${address}`);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    return true;
-  }
-
   disconnect(): void {
     this.removeAllListeners();
     this.provider = null;
@@ -0,0 +1,46 @@
+export type AirdropCampaignStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type AirdropBatchStatus = 'submitted' | 'confirmed' | 'failed';
+
+export type AirdropReportFormat = 'csv' | 'json';
+
+export interface AirdropCampaignRecipient {
+  address: string;
+  amount: string; // token units
+}
+
+export interface AirdropBatch {
+  batchIndex: number;
+  status: AirdropBatchStatus;
+  transactionHash: string | null;
+  airdropId: number | null; // MultiSender airdrop ID, once confirmed
+  recipientCount: number;
+}
+
+// A campaign as listed, without its recipients and batches
+export interface AirdropCampaignSummary {
+  id: number;
+  status: AirdropCampaignStatus;
+  networkId: string;
+  tokenAddress: string;
+  tokenDecimals: number;
+  batchSize: number;
+  recipientCount: number;
+  totalAmount: string; // token units
+  confirmedBatches: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AirdropCampaign extends AirdropCampaignSummary {
+  recipients: AirdropCampaignRecipient[];
+  batches: AirdropBatch[];
+}
+
+export interface AirdropCampaignProgress {
+  confirmedBatches: number;
+  totalBatches: number;
+  currentBatch: number | null;
+  stage: 'approving' | 'sending' | 'confirming' | null;
+}
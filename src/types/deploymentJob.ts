@@ -0,0 +1,51 @@
+import { TokenConfig } from './index';
+
+export type DeploymentJobStep = 'payment' | 'deploy' | 'register' | 'verify' | 'vesting' | 'metadata';
+
+export type DeploymentStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export type DeploymentJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface DeploymentJobMetadata {
+  description: string;
+  websiteUrl: string;
+  twitterUrl: string;
+  telegramUrl: string;
+  discordUrl: string;
+  githubUrl: string;
+  whitePaperUrl: string;
+  tags: string[];
+}
+
+export interface DeploymentJobStepState {
+  step: DeploymentJobStep;
+  status: DeploymentStepStatus;
+  transactionHash?: string;
+  data?: Record<string, unknown>;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+// A step's transaction as soon as it is sent, recorded so a resumed job can finish it from its receipt
+export interface SentTransaction {
+  transactionHash: string;
+  contractAddress?: string;
+}
+
+export type TransactionSentHandler = (sent: SentTransaction) => Promise<void>;
+
+export interface DeploymentJob {
+  id: number;
+  status: DeploymentJobStatus;
+  networkId: string;
+  contractAddress?: string;
+  config: {
+    token: TokenConfig;
+    metadata: DeploymentJobMetadata | null;
+  };
+  steps: DeploymentJobStepState[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
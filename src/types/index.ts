@@ -40,6 +40,7 @@ export interface VestingConfig {
   startDate: string;
   duration: number; // in days
   enabled: boolean;
+  beneficiary: string;
 }
 
 export type VestingCategory = 'team' | 'advertising' | 'publicSale' | 'privateSale' | 'ecosystem' | 'marketing' | 'development';
@@ -47,11 +48,29 @@ export type VestingCategory = 'team' | 'advertising' | 'publicSale' | 'privateSa
 export interface DeploymentResult {
   contractAddress: string;
   transactionHash: string;
-  deploymentMethod?: 'primary' | 'fallback' | 'emergency';
+  deploymentMethod?: 'primary' | 'fallback' | 'emergency' | 'factory';
   network: Network;
   explorerUrl: string;
   gasUsed: string;
   deploymentCost: string;
+  vesting?: VestingDeploymentResult;
+  vestingError?: string;
+}
+
+export interface VestingScheduleResult {
+  category: VestingCategory;
+  beneficiary: string;
+  amount: string; // token units
+  startTime: number; // unix seconds
+  duration: number; // in days
+  transactionHash: string;
+}
+
+export interface VestingDeploymentResult {
+  contractAddress: string;
+  transactionHash: string;
+  totalAmount: string; // token units
+  schedules: VestingScheduleResult[];
 }
 
 export type Step = 'landing' | 'builder' | 'vesting' | 'review' | 'deploy' | 'success';
\ No newline at end of file
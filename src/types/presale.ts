@@ -18,6 +18,10 @@ export interface PresaleConfig {
     startDate: string;
     endDate: string;
     whitelistEnabled: boolean;
+    whitelistId?: number; // Merkle whitelist stored on the backend
+    whitelistMerkleRoot?: string;
+    whitelistSize?: number;
+    baseToken?: string; // ERC20 contributions are raised in; required for auto-listing
   };
   antiBotConfig?: {
     enabled: boolean;
@@ -64,10 +68,15 @@ export interface PresaleDeploymentResult {
 
 export interface SaleParticipant {
   address: string;
-  amount: string;
-  tokenAmount: string;
-  timestamp: string;
+  contributed: string;
+  tokensOwed: string;
+  tokensClaimed: string;
+  refunded: string;
+  withdrawn: string;
+  penalty: string;
+  referrer: string | null;
   isWhitelisted: boolean;
+  firstContributionAt: string | null;
 }
 
 export type PresaleStep = 'type' | 'token' | 'config' | 'vesting' | 'autoListing' | 'wallet' | 'review' | 'success';
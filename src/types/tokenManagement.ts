@@ -27,6 +27,15 @@ export interface VestingSchedule {
   revoked: boolean;
 }
 
+export type TokenCapability = 'mintable' | 'burnable' | 'transferFees' | 'redistribution' | 'maxSupply' | 'ownable';
+
+export type TokenCapabilitySet = Record<TokenCapability, boolean>;
+
+export interface TokenCapabilityDetection {
+  capabilities: TokenCapabilitySet;
+  contractType: string; // registered contract type, 'external' for imported tokens
+}
+
 export interface TokenManagementData {
   address: string;
   name: string;
@@ -37,6 +46,7 @@ export interface TokenManagementData {
   owner: string;
   network: string;
   features: TokenFeatureConfig;
+  capabilities: TokenCapabilityDetection;
   deploymentDate: string;
   verified: boolean;
 }
@@ -46,6 +56,7 @@ export interface MintTransaction {
   amount: string;
   timestamp: string;
   txHash: string;
+  blockNumber: number;
 }
 
 export interface BurnTransaction {
@@ -53,6 +64,7 @@ export interface BurnTransaction {
   amount: string;
   timestamp: string;
   txHash: string;
+  blockNumber: number;
 }
 
 export interface FeeDistribution {
@@ -60,4 +72,76 @@ export interface FeeDistribution {
   amount: string;
   recipient: string;
   txHash: string;
-}
\ No newline at end of file
+  blockNumber: number;
+}
+
+// Mint, burn and fee events of a token, newest first
+export interface TokenHistory {
+  mints: MintTransaction[];
+  burns: BurnTransaction[];
+  fees: FeeDistribution[];
+  scannedToBlock: number;
+}
+export type HolderLabelType = 'dead' | 'liquidityLocker' | 'vesting' | 'dexPair' | 'presale' | 'contract';
+
+export interface HolderLabel {
+  type: HolderLabelType;
+  name: string;
+}
+
+export interface TokenHolder {
+  address: string;
+  balance: string;
+  share: number; // percentage of supply
+  label: HolderLabel | null; // null for wallets
+}
+
+// Share held by the largest holders, also measured against the supply outside labelled contracts
+export interface HolderConcentration {
+  topHolders: number;
+  topShare: number;
+  circulatingSupply: string;
+  topCirculatingShare: number;
+}
+
+export interface HolderCountPoint {
+  blockNumber: number;
+  timestamp: number | null; // seconds, null when the block could not be fetched
+  holders: number;
+}
+
+export interface HolderAnalytics {
+  holders: number;
+  totalSupply: string;
+  topHolders: TokenHolder[];
+  concentration: HolderConcentration;
+  history: HolderCountPoint[];
+  synced: boolean;
+  lastUpdated: string | null;
+}
+
+export interface SnapshotHolder {
+  address: string;
+  balance: string;
+  label: HolderLabel | null;
+}
+
+export interface ExcludedSnapshotHolder extends SnapshotHolder {
+  reason: string;
+}
+
+export interface HolderSnapshotOptions {
+  blockNumber: number;
+  minBalance: string; // token units
+  excludeLabels: HolderLabelType[];
+  excludeAddresses: string[]; // e.g. exchange wallets
+}
+
+// Holder balances at a block, replayed from indexed transfers
+export interface HolderSnapshot {
+  blockNumber: number;
+  totalSupply: string;
+  holders: SnapshotHolder[];
+  excluded: ExcludedSnapshotHolder[];
+  complete: boolean; // false when indexing started after the token was deployed
+}
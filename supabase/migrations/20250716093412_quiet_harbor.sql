@@ -0,0 +1,50 @@
+/*
+  # On-chain Governance Mode
+
+  1. Updates
+    - `tokens`
+      - `governance_mode` (text) - 'offchain' (default) or 'onchain'
+      - `governance_contract` (text) - active TokenGovernance contract for on-chain mode
+    - `governance_contracts`
+      - `last_indexed_block` (bigint) - cursor for the governance event indexer
+    - `governance_proposals`
+      - `governance_contract` (text) - TokenGovernance contract the proposal was indexed from
+      - `onchain_proposal_id` (integer) - proposal id inside the governance contract
+      - `transaction_hash` (text) - createProposal transaction
+      - `execution_tx_hash` (text) - executeProposal transaction
+      - status now also allows 'executed' and 'canceled'
+    - `governance_votes`
+      - `transaction_hash` (text) - castVote transaction
+*/
+
+-- Per-token governance mode
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS governance_mode text NOT NULL DEFAULT 'offchain' CHECK (governance_mode IN ('offchain', 'onchain')),
+ADD COLUMN IF NOT EXISTS governance_contract text;
+
+-- Indexer cursor for governance contracts
+ALTER TABLE IF EXISTS governance_contracts
+ADD COLUMN IF NOT EXISTS last_indexed_block bigint;
+
+-- Link proposals to on-chain proposals
+ALTER TABLE IF EXISTS governance_proposals
+ADD COLUMN IF NOT EXISTS governance_contract text,
+ADD COLUMN IF NOT EXISTS onchain_proposal_id integer,
+ADD COLUMN IF NOT EXISTS transaction_hash text,
+ADD COLUMN IF NOT EXISTS execution_tx_hash text;
+
+ALTER TABLE governance_proposals DROP CONSTRAINT IF EXISTS governance_proposals_status_check;
+ALTER TABLE governance_proposals ADD CONSTRAINT governance_proposals_status_check
+  CHECK (status IN ('pending', 'active', 'passed', 'rejected', 'executed', 'canceled'));
+
+-- Ensure each on-chain proposal is indexed only once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_governance_proposals_onchain
+  ON governance_proposals(governance_contract, onchain_proposal_id)
+  WHERE onchain_proposal_id IS NOT NULL;
+
+-- Link votes to castVote transactions
+ALTER TABLE IF EXISTS governance_votes
+ADD COLUMN IF NOT EXISTS transaction_hash text;
+
+-- Create index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_tokens_governance_mode ON tokens(governance_mode);
@@ -0,0 +1,11 @@
+/*
+  # Governance Vote Snapshots
+
+  1. Updates
+    - `governance_proposals`
+      - `snapshot_block` (bigint) - block at which voting power is measured
+*/
+
+-- Record the snapshot block for each proposal
+ALTER TABLE IF EXISTS governance_proposals
+ADD COLUMN IF NOT EXISTS snapshot_block bigint;
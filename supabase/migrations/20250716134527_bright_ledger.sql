@@ -0,0 +1,89 @@
+/*
+  # Event Indexer
+
+  1. New Tables
+    - `indexer_cursors` - last indexed block per network, with its hash for reorg detection
+    - `indexed_events` - every event applied by the indexer, so reorged blocks can be rolled back
+    - `token_holders` - token balances per holder (base units)
+    - `presale_contributions` - contributions, purchases, claims and refunds per participant (base units)
+
+  2. Updates
+    - `tokens`
+      - `total_supply`, `holders_count`, `transfer_count`, `last_updated` - precomputed statistics
+      - `indexer_synced` (boolean) - history before the network cursor has been backfilled
+    - `presales`
+      - `total_tokens_sold`, `last_updated` - precomputed statistics
+      - `indexer_synced` (boolean) - history before the network cursor has been backfilled
+    - `liquidity_locks`
+      - `network_id`, `transaction_hash` - where the lock was indexed from
+*/
+
+-- Create indexer_cursors table
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  network_id VARCHAR(20) PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  last_block_hash VARCHAR(66),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexed_events table
+CREATE TABLE IF NOT EXISTS indexed_events (
+  id SERIAL PRIMARY KEY,
+  network_id VARCHAR(20) NOT NULL,
+  block_number BIGINT NOT NULL,
+  block_hash VARCHAR(66) NOT NULL,
+  transaction_hash VARCHAR(66) NOT NULL,
+  log_index INTEGER NOT NULL,
+  contract_address VARCHAR(42) NOT NULL,
+  event_name VARCHAR(50) NOT NULL,
+  args JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT indexed_events_unique_log UNIQUE (network_id, transaction_hash, log_index)
+);
+
+-- Create token_holders table
+CREATE TABLE IF NOT EXISTS token_holders (
+  token_address VARCHAR(42) NOT NULL,
+  holder_address VARCHAR(42) NOT NULL,
+  balance NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (token_address, holder_address)
+);
+
+-- Create presale_contributions table
+CREATE TABLE IF NOT EXISTS presale_contributions (
+  presale_address VARCHAR(42) NOT NULL,
+  contributor_address VARCHAR(42) NOT NULL,
+  contributed NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  tokens_purchased NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  tokens_claimed NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  refunded NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (presale_address, contributor_address)
+);
+
+-- Precomputed statistics
+ALTER TABLE IF EXISTS tokens
+ADD COLUMN IF NOT EXISTS total_supply TEXT,
+ADD COLUMN IF NOT EXISTS holders_count INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS transfer_count INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_updated TIMESTAMP,
+ADD COLUMN IF NOT EXISTS indexer_synced BOOLEAN DEFAULT false;
+
+ALTER TABLE IF EXISTS presales
+ADD COLUMN IF NOT EXISTS total_tokens_sold TEXT,
+ADD COLUMN IF NOT EXISTS last_updated TIMESTAMP,
+ADD COLUMN IF NOT EXISTS indexer_synced BOOLEAN DEFAULT false;
+
+ALTER TABLE IF EXISTS liquidity_locks
+ADD COLUMN IF NOT EXISTS network_id VARCHAR(20),
+ADD COLUMN IF NOT EXISTS transaction_hash VARCHAR(66);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_indexed_events_block ON indexed_events(network_id, block_number);
+CREATE INDEX IF NOT EXISTS idx_token_holders_balance ON token_holders(token_address, balance);
+CREATE INDEX IF NOT EXISTS idx_presale_contributions_presale ON presale_contributions(presale_address);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_liquidity_locks_lock ON liquidity_locks(contract_address, lock_id);
@@ -0,0 +1,42 @@
+/*
+  # Deployment Jobs
+
+  1. New Tables
+    - `deployment_jobs` - a token deployment started from the wizard, with its configuration and final result
+    - `deployment_job_steps` - status and transaction hash of each step (payment, deploy, register, verify, vesting, metadata)
+
+  2. Notes
+    - Jobs are driven by the wallet that created them; the steps table lets an interrupted job resume after a reload
+*/
+
+-- Create deployment_jobs table
+CREATE TABLE IF NOT EXISTS deployment_jobs (
+  id SERIAL PRIMARY KEY,
+  owner_address VARCHAR(42) NOT NULL,
+  job_type VARCHAR(20) NOT NULL DEFAULT 'token',
+  network_id VARCHAR(20) NOT NULL,
+  config JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, running, completed, failed, cancelled
+  contract_address VARCHAR(42),
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create deployment_job_steps table
+CREATE TABLE IF NOT EXISTS deployment_job_steps (
+  job_id INTEGER NOT NULL REFERENCES deployment_jobs(id) ON DELETE CASCADE,
+  step VARCHAR(20) NOT NULL,
+  position INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, running, completed, failed, skipped
+  transaction_hash VARCHAR(66),
+  data JSONB,
+  error TEXT,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+
+  PRIMARY KEY (job_id, step)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_deployment_jobs_owner ON deployment_jobs(owner_address, status);
@@ -0,0 +1,16 @@
+/*
+  # ESR Payment Tracking
+
+  1. Modified Tables
+    - `transactions` - `spent_for` and `spent_at` record which deployment an ESR payment paid for
+
+  2. Notes
+    - Verified ESR payments have status `verified` until a deployment uses them, then `spent`
+    - `transaction_hash` is already unique, so a payment cannot be submitted twice
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS spent_for VARCHAR(42);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS spent_at TIMESTAMP;
+
+-- Lookup of a payer's unspent payments
+CREATE INDEX IF NOT EXISTS idx_transactions_payment ON transactions(transaction_type, from_address, status);
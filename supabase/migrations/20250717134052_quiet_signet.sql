@@ -0,0 +1,32 @@
+/*
+  # Anti-Bot Purchase Signatures
+
+  1. New Tables
+    - `presale_signers` - signing keys for AntiBotPresaleContract purchases, one generated per presale, encrypted at rest
+    - `presale_signatures` - purchase signatures issued to buyers
+
+  2. Notes
+    - Keys are looked up by the presale's on-chain `signerAddress`, so rotating the signer with `updateSignerAddress` keeps working
+    - A wallet gets a single signature per presale; the contract rejects a signature once it has been used
+*/
+
+-- Create presale_signers table
+CREATE TABLE IF NOT EXISTS presale_signers (
+  signer_address VARCHAR(42) PRIMARY KEY,
+  owner_address VARCHAR(42) NOT NULL,
+  network_id VARCHAR(20) NOT NULL,
+  encrypted_key TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create presale_signatures table
+CREATE TABLE IF NOT EXISTS presale_signatures (
+  presale_address VARCHAR(42) NOT NULL,
+  buyer_address VARCHAR(42) NOT NULL,
+  signature TEXT NOT NULL,
+  signer_address VARCHAR(42) NOT NULL,
+  issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (presale_address, buyer_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_presale_signers_owner ON presale_signers(owner_address);
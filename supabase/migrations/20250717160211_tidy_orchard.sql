@@ -0,0 +1,24 @@
+/*
+  # Merkle Whitelists
+
+  1. New Tables
+    - `presale_whitelists` - whitelist address lists and the Merkle roots built from them
+
+  2. Notes
+    - A list is created before deployment from the wizard and attached to the presale once it exists
+    - Proofs are served for the list whose root matches the presale's on-chain `whitelistMerkleRoot`
+*/
+
+-- Create presale_whitelists table
+CREATE TABLE IF NOT EXISTS presale_whitelists (
+  id SERIAL PRIMARY KEY,
+  owner_address VARCHAR(42) NOT NULL,
+  presale_address VARCHAR(42),
+  network_id VARCHAR(20) NOT NULL,
+  merkle_root VARCHAR(66) NOT NULL,
+  addresses JSONB NOT NULL,
+  address_count INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_presale_whitelists_presale ON presale_whitelists(presale_address, merkle_root);
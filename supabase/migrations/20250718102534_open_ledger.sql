@@ -0,0 +1,24 @@
+/*
+  # Presale Participant Ledger
+
+  1. Updates
+    - `presale_contributions`
+      - `withdrawn`, `penalties` - early withdrawals from PresaleContractV2 and the penalty kept by the sale (base units)
+      - `referrer_address` - referrer passed with the participant's first referred purchase
+      - `whitelisted` (boolean) - last `WhitelistUpdated` status, null if the address was never listed
+      - `first_contribution_at` - time of the participant's first purchase
+
+  2. Notes
+    - Rows now also exist for whitelisted addresses that never contributed
+    - Presales are marked unsynced so their history is backfilled for the newly indexed events;
+      events that were already indexed are skipped
+*/
+
+ALTER TABLE IF EXISTS presale_contributions
+ADD COLUMN IF NOT EXISTS withdrawn NUMERIC(78, 0) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS penalties NUMERIC(78, 0) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS referrer_address VARCHAR(42),
+ADD COLUMN IF NOT EXISTS whitelisted BOOLEAN,
+ADD COLUMN IF NOT EXISTS first_contribution_at TIMESTAMP;
+
+UPDATE presales SET indexer_synced = false;
@@ -0,0 +1,28 @@
+/*
+  # Referral Leaderboards
+
+  1. New Tables
+    - `presale_referrals` - volume and rewards per referrer and referred buyer of a presale (base units),
+      indexed from `ReferralPurchase` events of the network's referral tracker
+
+  2. Notes
+    - The tracker is shared by every PresaleContractV2 sale on a network, so purchases are attributed
+      to the presale that logged `TokensPurchased` in the same transaction
+    - Presales are marked unsynced so referral purchases made before this migration are backfilled
+*/
+
+-- Create presale_referrals table
+CREATE TABLE IF NOT EXISTS presale_referrals (
+  presale_address VARCHAR(42) NOT NULL,
+  referrer_address VARCHAR(42) NOT NULL,
+  referee_address VARCHAR(42) NOT NULL,
+  volume NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  rewards NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (presale_address, referrer_address, referee_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_presale_referrals_referrer ON presale_referrals(presale_address, referrer_address);
+
+UPDATE presales SET indexer_synced = false;
@@ -0,0 +1,16 @@
+/*
+  # Published Liquidity Locks
+
+  1. Updates
+    - `presales`
+      - `liquidity_locker_address` - locker holding the LP tokens from auto-listing
+      - `liquidity_lock_id` - lock id in that locker
+
+  2. Notes
+    - Set by the owner's "List & Lock" flow once the lock transaction has been verified
+    - The lock's amount, unlock time and withdrawal state are read from the locker when shown
+*/
+
+ALTER TABLE IF EXISTS presales
+ADD COLUMN IF NOT EXISTS liquidity_locker_address VARCHAR(42),
+ADD COLUMN IF NOT EXISTS liquidity_lock_id INTEGER;
@@ -0,0 +1,25 @@
+/*
+  # Network Registry Overrides
+
+  1. New Tables
+    - `network_registry_overrides` - per-chain replacements for the built-in DEX and platform contract registry
+      - `routers` - UniswapV2-compatible routers and factories, default first
+      - `wrapped_native` - wrapped native token
+      - `stablecoins` - stablecoins offered as base tokens
+      - `contracts` - platform contract addresses by name, merged over the env configuration
+
+  2. Notes
+    - A null column keeps the built-in value for that part of the registry
+    - Edited by admins through `PUT /api/networks/:chainId/registry`
+*/
+
+-- Create network_registry_overrides table
+CREATE TABLE IF NOT EXISTS network_registry_overrides (
+  chain_id INTEGER PRIMARY KEY,
+  routers JSONB,
+  wrapped_native JSONB,
+  stablecoins JSONB,
+  contracts JSONB,
+  updated_by VARCHAR(42),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,48 @@
+/*
+  # Airdrop Campaigns
+
+  1. New Tables
+    - `airdrop_campaigns` - an airdrop split into MultiSender batches, with its full recipient list
+      - `recipients` - ordered `{ address, amount }` entries; batch N is entries N * batch_size up to the next batch
+      - `batch_size` - recipients per batch, at most the MultiSender's maxBatchSize when the campaign was created
+
+  2. Updates
+    - `airdrops` gets `campaign_id`, `batch_index`, `network_id` and `status` so every batch of a campaign is recorded as its own airdrop
+    - `airdrops.airdrop_id` becomes nullable, since a batch is recorded as soon as it is submitted and only gets its on-chain ID once confirmed
+
+  3. Notes
+    - Campaigns are driven by the sender's wallet; a failed or interrupted campaign resumes after the last confirmed batch
+    - Existing airdrops rows were single sends and keep the `confirmed` status
+*/
+
+-- Create airdrop_campaigns table
+CREATE TABLE IF NOT EXISTS airdrop_campaigns (
+  id SERIAL PRIMARY KEY,
+  sender_address VARCHAR(42) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  network_id VARCHAR(20) NOT NULL,
+  token_decimals INTEGER NOT NULL,
+  batch_size INTEGER NOT NULL,
+  recipient_count INTEGER NOT NULL,
+  total_amount NUMERIC NOT NULL, -- token units
+  recipients JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, running, completed, failed, cancelled
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT airdrop_campaigns_sender_idx FOREIGN KEY (sender_address) REFERENCES users(address) ON DELETE CASCADE
+);
+
+-- Track campaign batches in airdrops
+ALTER TABLE IF EXISTS airdrops
+ADD COLUMN IF NOT EXISTS campaign_id INTEGER REFERENCES airdrop_campaigns(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS batch_index INTEGER,
+ADD COLUMN IF NOT EXISTS network_id VARCHAR(20),
+ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'confirmed'; -- submitted, confirmed, failed
+
+ALTER TABLE IF EXISTS airdrops ALTER COLUMN airdrop_id DROP NOT NULL;
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_airdrop_campaigns_sender ON airdrop_campaigns(sender_address, token_address);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_airdrops_campaign_batch ON airdrops(campaign_id, batch_index);
@@ -0,0 +1,14 @@
+/*
+  # External Token Imports
+
+  1. Updates
+    - `tokens.transaction_hash` becomes nullable
+      - Tokens deployed outside the platform are imported without their deployment transaction
+    - `tokens.deployment_method` gains the value 'import'
+    - `tokens.contract_type` is 'external' for imported tokens
+*/
+
+ALTER TABLE IF EXISTS tokens
+ALTER COLUMN transaction_hash DROP NOT NULL;
+
+COMMENT ON COLUMN tokens.deployment_method IS 'Method used to deploy the contract: primary (Hardhat), fallback (Frontend), emergency (Backend), factory (TokenFactory), import (deployed outside the platform)';
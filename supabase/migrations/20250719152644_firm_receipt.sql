@@ -0,0 +1,12 @@
+/*
+  # Unique Airdrop Batch Transactions
+
+  1. Updates
+    - `airdrops` gets a unique index on `(campaign_id, transaction_hash)`
+      - A multiSend transaction can only be recorded for one batch of a campaign
+
+  2. Notes
+    - Rows outside campaigns have a NULL `campaign_id` and are not affected
+*/
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_airdrops_campaign_transaction ON airdrops(campaign_id, transaction_hash);
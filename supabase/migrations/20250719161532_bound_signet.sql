@@ -0,0 +1,18 @@
+/*
+  # Presale Signer Assignment
+
+  1. Updates
+    - `presale_signers` gets `presale_address`
+      - NULL while the key is pending, i.e. created for a presale that is still being configured
+      - Set when a presale deployed with the key is registered
+
+  2. Notes
+    - An owner's pending key on a network is handed out again instead of creating another one
+    - Keys created before this migration have no presale recorded and may be handed out again to the same owner;
+      purchase signatures cover the presale address, so a key shared by two sales cannot sign for the wrong one
+*/
+
+ALTER TABLE IF EXISTS presale_signers
+ADD COLUMN IF NOT EXISTS presale_address VARCHAR(42);
+
+CREATE INDEX IF NOT EXISTS idx_presale_signers_pending ON presale_signers(owner_address, network_id, presale_address);
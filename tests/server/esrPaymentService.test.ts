@@ -0,0 +1,172 @@
+import { ethers } from 'ethers';
+import { query } from '../../server/db';
+import { getProvider } from '../../server/utils/blockchain';
+import esrPaymentService from '../../server/services/esrPaymentService';
+
+jest.mock('../../server/db', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('../../server/utils/blockchain', () => ({
+  getProvider: jest.fn(),
+}));
+
+// Defaults of ESR_TOKEN_ADDRESS and PLATFORM_WALLET
+const ESR_TOKEN = '0x742d35cc6634c0532925a3b8d4c9db96590c6c8c';
+const PLATFORM_WALLET = '0x742d35cc6634c0532925a3b8d4c9db96590c6c8c';
+
+const PAYER = '0x1111111111111111111111111111111111111111';
+const OTHER_WALLET = '0x2222222222222222222222222222222222222222';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const erc20 = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function decimals() view returns (uint8)',
+]);
+
+const transferLog = (from: string, to: string, amount: string) => ({
+  address: ESR_TOKEN,
+  ...erc20.encodeEventLog('Transfer', [from, to, ethers.parseUnits(amount, 18)]),
+});
+
+const mockQuery = query as jest.Mock;
+
+// Provider on mainnet, where a deployment costs 100 ESR
+const mockProvider = (receipt: object | null) => {
+  (getProvider as jest.Mock).mockReturnValue({
+    getTransactionReceipt: jest.fn().mockResolvedValue(receipt),
+    getNetwork: jest.fn().mockResolvedValue({ chainId: 1n }),
+    call: jest.fn().mockResolvedValue(erc20.encodeFunctionResult('decimals', [18])),
+  });
+};
+
+const mockReceipt = (overrides: object = {}) => ({
+  status: 1,
+  from: PAYER,
+  blockNumber: 100,
+  gasUsed: 50000n,
+  confirmations: jest.fn().mockResolvedValue(10),
+  logs: [transferLog(PAYER, PLATFORM_WALLET, '100')],
+  ...overrides,
+});
+
+describe('esrPaymentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  describe('verifyPayment', () => {
+    it('records a transfer from the payer to the platform wallet as a verified payment', async () => {
+      mockProvider(mockReceipt());
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ transaction_hash: TX_HASH, status: 'verified' }] });
+
+      const result = await esrPaymentService.verifyPayment(TX_HASH, 'ethereum', PAYER);
+
+      expect(result).toEqual({ verified: true, payment: { transaction_hash: TX_HASH, status: 'verified' } });
+      expect(mockQuery.mock.calls[1][0]).toContain('INSERT INTO transactions');
+      expect(mockQuery.mock.calls[1][1]).toEqual(expect.arrayContaining([PAYER.toLowerCase(), '100.0', 'verified']));
+    });
+
+    it('adds up a payment split across several transfers', async () => {
+      mockProvider(mockReceipt({
+        logs: [transferLog(PAYER, PLATFORM_WALLET, '60'), transferLog(PAYER, PLATFORM_WALLET, '40')],
+      }));
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ transaction_hash: TX_HASH }] });
+
+      const result = await esrPaymentService.verifyPayment(TX_HASH, 'ethereum', PAYER);
+
+      expect(result.verified).toBe(true);
+    });
+
+    it('rejects a transaction sent by another wallet', async () => {
+      mockProvider(mockReceipt({
+        from: OTHER_WALLET,
+        logs: [transferLog(OTHER_WALLET, PLATFORM_WALLET, '100')],
+      }));
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await esrPaymentService.verifyPayment(TX_HASH, 'ethereum', PAYER);
+
+      expect(result).toMatchObject({ verified: false, code: 'PAYMENT_INVALID' });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a transaction that has already been recorded', async () => {
+      mockProvider(mockReceipt());
+      mockQuery.mockResolvedValueOnce({ rows: [{ transaction_hash: TX_HASH }] });
+
+      const result = await esrPaymentService.verifyPayment(TX_HASH, 'ethereum', PAYER);
+
+      expect(result).toMatchObject({ verified: false, code: 'PAYMENT_REUSED' });
+    });
+
+    it('rejects a payment below the deployment fee', async () => {
+      mockProvider(mockReceipt({ logs: [transferLog(PAYER, PLATFORM_WALLET, '99')] }));
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await esrPaymentService.verifyPayment(TX_HASH, 'ethereum', PAYER);
+
+      expect(result).toMatchObject({ verified: false, code: 'PAYMENT_INSUFFICIENT' });
+    });
+
+    it('rejects a payment without enough confirmations', async () => {
+      mockProvider(mockReceipt({ confirmations: jest.fn().mockResolvedValue(1) }));
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await esrPaymentService.verifyPayment(TX_HASH, 'ethereum', PAYER);
+
+      expect(result).toMatchObject({ verified: false, code: 'PAYMENT_UNCONFIRMED' });
+    });
+  });
+
+  describe('reserving and spending', () => {
+    it('reserves the next unspent payment when another request claims the oldest first', async () => {
+      const oldest = { transaction_hash: `0x${'01'.repeat(32)}` };
+      const next = { transaction_hash: `0x${'02'.repeat(32)}` };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [oldest] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [next] })
+        .mockResolvedValueOnce({ rows: [next] });
+
+      const payment = await esrPaymentService.reserveUnspentPayment(PAYER, 'ethereum');
+
+      expect(payment).toBe(next);
+      expect(mockQuery.mock.calls[3][1]).toEqual([next.transaction_hash]);
+    });
+
+    it('returns null when the payer has no unspent payment', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await esrPaymentService.reserveUnspentPayment(PAYER, 'ethereum')).toBeNull();
+    });
+
+    it('only reserves a verified payment', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await esrPaymentService.reservePayment(TX_HASH)).toBe(false);
+      expect(mockQuery.mock.calls[0][0]).toContain("status = 'reserved'");
+      expect(mockQuery.mock.calls[0][0]).toContain("status = 'verified'");
+    });
+
+    it('releases a reserved payment back to verified', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ transaction_hash: TX_HASH }] });
+
+      expect(await esrPaymentService.releasePayment(TX_HASH)).toBe(true);
+      expect(mockQuery.mock.calls[0][0]).toMatch(/SET status = 'verified'[\s\S]*status = 'reserved'/);
+    });
+
+    it('spends only a reserved payment', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await esrPaymentService.spendPayment(TX_HASH, OTHER_WALLET)).toBe(false);
+      expect(mockQuery.mock.calls[0][0]).toMatch(/SET status = 'spent'[\s\S]*status = 'reserved'/);
+      expect(mockQuery.mock.calls[0][1]).toEqual([OTHER_WALLET.toLowerCase(), TX_HASH]);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { ethers } from 'ethers';
+import { query, withTransaction } from '../../server/db';
+import { getLogsInChunks } from '../../server/utils/blockchain';
+import eventIndexer from '../../server/services/eventIndexer';
+
+jest.mock('../../server/db', () => ({
+  query: jest.fn(),
+  withTransaction: jest.fn(),
+}));
+
+jest.mock('../../server/utils/blockchain', () => ({
+  getProvider: jest.fn(),
+  getLogsInChunks: jest.fn(),
+}));
+
+const TOKEN = '0x1000000000000000000000000000000000000001';
+const PRESALE = '0x2000000000000000000000000000000000000002';
+const ALICE = '0x3000000000000000000000000000000000000003';
+const BOB = '0x4000000000000000000000000000000000000004';
+
+const events = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event TokensPurchased(address indexed buyer, uint256 amount, uint256 tokenAmount)',
+  'event EmergencyWithdraw(address indexed user, uint256 contribution, uint256 penalty)',
+]);
+
+type Row = Record<string, unknown>;
+
+// Just enough of the indexer's tables to apply and revert events
+let db: {
+  events: Row[];
+  holders: Map<string, string>;
+  contributions: Map<string, Row>;
+  cursor: Row | null;
+};
+let inTransaction: boolean;
+let writesOutsideTransaction: string[];
+
+const fakeQuery = async (sql: string, params: unknown[] = []) => {
+  const statement = sql.replace(/\s+/g, ' ').trim();
+
+  if (!statement.startsWith('SELECT') && !inTransaction) {
+    writesOutsideTransaction.push(statement);
+  }
+
+  if (statement.startsWith('SELECT id FROM indexed_events')) {
+    const [networkId, transactionHash, logIndex] = params;
+    return {
+      rows: db.events.filter(event =>
+        event.network_id === networkId && event.transaction_hash === transactionHash && event.log_index === logIndex
+      ),
+    };
+  }
+  if (statement.startsWith('INSERT INTO indexed_events')) {
+    const [network_id, block_number, block_hash, transaction_hash, log_index, contract_address, event_name, args] = params;
+    db.events.push({ network_id, block_number, block_hash, transaction_hash, log_index, contract_address, event_name, args });
+    return { rows: [] };
+  }
+  if (statement.startsWith('SELECT * FROM indexed_events')) {
+    const [networkId, toBlock] = params as [string, number];
+    const rows = db.events
+      .filter(event => event.network_id === networkId && (event.block_number as number) > toBlock)
+      .sort((a, b) => (b.block_number as number) - (a.block_number as number) || (b.log_index as number) - (a.log_index as number));
+    return { rows };
+  }
+  if (statement.startsWith('DELETE FROM indexed_events')) {
+    const [networkId, toBlock] = params as [string, number];
+    db.events = db.events.filter(event => event.network_id !== networkId || (event.block_number as number) <= toBlock);
+    return { rows: [] };
+  }
+
+  if (statement.startsWith('SELECT balance FROM token_holders')) {
+    const balance = db.holders.get(`${params[0]}:${params[1]}`);
+    return { rows: balance === undefined ? [] : [{ balance }] };
+  }
+  if (statement.startsWith('INSERT INTO token_holders')) {
+    db.holders.set(`${params[0]}:${params[1]}`, params[2] as string);
+    return { rows: [] };
+  }
+  if (statement.startsWith('UPDATE token_holders')) {
+    db.holders.set(`${params[1]}:${params[2]}`, params[0] as string);
+    return { rows: [] };
+  }
+
+  if (statement.startsWith('SELECT * FROM presale_contributions') || statement.startsWith('SELECT tokens_purchased FROM presale_contributions')) {
+    const contribution = db.contributions.get(`${params[0]}:${params[1]}`);
+    return { rows: contribution ? [contribution] : [] };
+  }
+  if (statement.startsWith('INSERT INTO presale_contributions')) {
+    const [presale, contributor, contributed, tokens_purchased, tokens_claimed, refunded, withdrawn, penalties] = params;
+    db.contributions.set(`${presale}:${contributor}`, { contributed, tokens_purchased, tokens_claimed, refunded, withdrawn, penalties });
+    return { rows: [] };
+  }
+  if (statement.startsWith('UPDATE presale_contributions SET contributed')) {
+    const [contributed, tokens_purchased, tokens_claimed, refunded, withdrawn, penalties, presale, contributor] = params;
+    db.contributions.set(`${presale}:${contributor}`, { contributed, tokens_purchased, tokens_claimed, refunded, withdrawn, penalties });
+    return { rows: [] };
+  }
+
+  if (statement.startsWith('SELECT * FROM indexer_cursors')) {
+    return { rows: db.cursor ? [db.cursor] : [] };
+  }
+  if (statement.startsWith('INSERT INTO indexer_cursors') || statement.startsWith('UPDATE indexer_cursors')) {
+    db.cursor = { last_block: statement.startsWith('INSERT') ? params[1] : params[0] };
+    return { rows: [] };
+  }
+
+  return { rows: [] };
+};
+
+const provider = {
+  getBlock: jest.fn(async (blockNumber: number) => ({ number: blockNumber, hash: ethers.id(`block ${blockNumber}`), timestamp: 1700000000 + blockNumber })),
+} as unknown as ethers.Provider;
+
+const newTouched = () => ({ tokens: new Set<string>(), presales: new Set<string>() });
+
+let logIndex = 0;
+
+// Index one event as the indexer would after fetching its log
+const recordEvent = async (contract: string, blockNumber: number, name: string, args: unknown[], touched = newTouched()) => {
+  const log = {
+    ...events.encodeEventLog(name, args),
+    address: contract,
+    blockNumber,
+    blockHash: ethers.id(`block ${blockNumber}`),
+    transactionHash: ethers.id(`tx ${logIndex}`),
+    index: logIndex++,
+  };
+  await eventIndexer.recordEvent('ethereum', provider, log, events.parseLog(log), touched);
+};
+
+const ether = (amount: string) => ethers.parseEther(amount);
+
+describe('eventIndexer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db = { events: [], holders: new Map(), contributions: new Map(), cursor: { last_block: 120 } };
+    inTransaction = false;
+    writesOutsideTransaction = [];
+    logIndex = 0;
+
+    (query as jest.Mock).mockImplementation(fakeQuery);
+    (withTransaction as jest.Mock).mockImplementation(async (callback: () => Promise<unknown>) => {
+      inTransaction = true;
+      try {
+        return await callback();
+      } finally {
+        inTransaction = false;
+      }
+    });
+  });
+
+  describe('applying events', () => {
+    it('moves balances between holders on Transfer', async () => {
+      const touched = newTouched();
+
+      await recordEvent(TOKEN, 100, 'Transfer', [ethers.ZeroAddress, ALICE, ether('1000')], touched);
+      await recordEvent(TOKEN, 101, 'Transfer', [ALICE, BOB, ether('250')], touched);
+
+      expect(db.holders.get(`${TOKEN}:${ALICE}`)).toBe(ether('750').toString());
+      expect(db.holders.get(`${TOKEN}:${BOB}`)).toBe(ether('250').toString());
+      expect(db.holders.has(`${TOKEN}:${ethers.ZeroAddress}`)).toBe(false);
+      expect(touched.tokens).toEqual(new Set([TOKEN]));
+    });
+
+    it('records each log only once', async () => {
+      const log = {
+        ...events.encodeEventLog('Transfer', [ethers.ZeroAddress, ALICE, ether('1')]),
+        address: TOKEN,
+        blockNumber: 100,
+        blockHash: ethers.id('block 100'),
+        transactionHash: ethers.id('tx'),
+        index: 0,
+      };
+
+      await eventIndexer.recordEvent('ethereum', provider, log, events.parseLog(log), newTouched());
+      await eventIndexer.recordEvent('ethereum', provider, log, events.parseLog(log), newTouched());
+
+      expect(db.events).toHaveLength(1);
+      expect(db.holders.get(`${TOKEN}:${ALICE}`)).toBe(ether('1').toString());
+    });
+
+    it('writes the event and its effects in one transaction', async () => {
+      await recordEvent(TOKEN, 100, 'Transfer', [ethers.ZeroAddress, ALICE, ether('1')]);
+
+      expect(withTransaction).toHaveBeenCalledTimes(1);
+      expect(writesOutsideTransaction).toEqual([]);
+    });
+
+    it('takes the purchased tokens back out of a contribution on EmergencyWithdraw', async () => {
+      await recordEvent(PRESALE, 100, 'TokensPurchased', [ALICE, ether('2'), ether('2000')]);
+      await recordEvent(PRESALE, 101, 'EmergencyWithdraw', [ALICE, ether('2'), ether('0.2')]);
+
+      expect(db.contributions.get(`${PRESALE}:${ALICE}`)).toMatchObject({
+        contributed: '0',
+        tokens_purchased: '0',
+        withdrawn: ether('1.8').toString(),
+        penalties: ether('0.2').toString(),
+      });
+    });
+  });
+
+  describe('rollback', () => {
+    it('reverts the effects of events above the fork block', async () => {
+      await recordEvent(TOKEN, 100, 'Transfer', [ethers.ZeroAddress, ALICE, ether('1000')]);
+      await recordEvent(TOKEN, 110, 'Transfer', [ALICE, BOB, ether('250')]);
+      await recordEvent(TOKEN, 111, 'Transfer', [BOB, ALICE, ether('50')]);
+
+      const touched = newTouched();
+      const cursor = await eventIndexer.rollback('ethereum', provider, 105, touched);
+
+      expect(db.holders.get(`${TOKEN}:${ALICE}`)).toBe(ether('1000').toString());
+      expect(db.holders.get(`${TOKEN}:${BOB}`)).toBe('0');
+      expect(db.events.map(event => event.block_number)).toEqual([100]);
+      expect(cursor).toMatchObject({ network_id: 'ethereum', last_block: 105 });
+      expect(db.cursor).toEqual({ last_block: 105 });
+      expect(touched.tokens).toEqual(new Set([TOKEN]));
+    });
+
+    it('restores a contribution to what it was before a reverted withdrawal', async () => {
+      await recordEvent(PRESALE, 100, 'TokensPurchased', [ALICE, ether('2'), ether('2000')]);
+      const beforeWithdrawal = { ...db.contributions.get(`${PRESALE}:${ALICE}`) };
+
+      await recordEvent(PRESALE, 110, 'EmergencyWithdraw', [ALICE, ether('2'), ether('0.2')]);
+      await eventIndexer.rollback('ethereum', provider, 105, newTouched());
+
+      expect(db.contributions.get(`${PRESALE}:${ALICE}`)).toEqual(beforeWithdrawal);
+    });
+
+    it('reverts events, deletes them and moves the cursor in one transaction', async () => {
+      await recordEvent(TOKEN, 110, 'Transfer', [ethers.ZeroAddress, ALICE, ether('1')]);
+      (withTransaction as jest.Mock).mockClear();
+
+      await eventIndexer.rollback('ethereum', provider, 105, newTouched());
+
+      expect(withTransaction).toHaveBeenCalledTimes(1);
+      expect(writesOutsideTransaction).toEqual([]);
+    });
+  });
+
+  describe('backfill', () => {
+    // A registered token whose deployment transaction is unknown
+    beforeEach(() => {
+      (query as jest.Mock).mockImplementation(async (sql: string, params: unknown[] = []) =>
+        sql.includes('FROM tokens WHERE') ? { rows: [{ contract_address: TOKEN, transaction_hash: null }] } : fakeQuery(sql, params)
+      );
+      (getLogsInChunks as jest.Mock).mockResolvedValue([]);
+    });
+
+    const markedSynced = () =>
+      (query as jest.Mock).mock.calls.some(([sql]) => sql.includes('SET indexer_synced = true'));
+
+    it('indexes a contract without a deployment receipt from the block it was created in', async () => {
+      const createdAt = { getCode: jest.fn(async (_address: string, blockNumber: number) => (blockNumber >= 40 ? '0x6080' : '0x')) };
+
+      await eventIndexer.backfillContracts('ethereum', createdAt as unknown as ethers.Provider, 120, newTouched());
+
+      expect(getLogsInChunks).toHaveBeenCalledWith(createdAt, expect.anything(), 40, 120);
+      expect(markedSynced()).toBe(true);
+    });
+
+    it('leaves a contract unsynced when its creation block cannot be found', async () => {
+      const noHistory = { getCode: jest.fn().mockRejectedValue(new Error('missing trie node')) };
+
+      await eventIndexer.backfillContracts('ethereum', noHistory as unknown as ethers.Provider, 120, newTouched());
+
+      expect(getLogsInChunks).not.toHaveBeenCalled();
+      expect(markedSynced()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import express from 'express';
+import request from 'supertest';
+import { ethers } from 'ethers';
+import { hashLeaf, buildMerkleTree, getMerkleRoot, getMerkleProof } from '../../server/utils/merkle';
+import { getProvider } from '../../server/utils/blockchain';
+import { findPresaleWhitelistByRoot } from '../../server/db/models/PresaleWhitelist';
+import presaleRoutes from '../../server/api/presale';
+
+jest.mock('../../server/db', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('../../server/utils/blockchain', () => ({
+  getProvider: jest.fn(),
+}));
+
+jest.mock('../../server/db/models/PresaleWhitelist', () => ({
+  findPresaleWhitelistByRoot: jest.fn(),
+}));
+
+const addresses = Array.from({ length: 7 }, (_, i) => ethers.getAddress(`0x${(i + 1).toString(16).padStart(40, '0')}`));
+const PRESALE = '0x9999999999999999999999999999999999999999';
+const OTHER_PRESALE = '0x8888888888888888888888888888888888888888';
+
+// OpenZeppelin's MerkleProof.verify: fold the proof into the leaf, hashing each pair in sorted order
+const verify = (proof: string[], root: string, address: string) => {
+  const computed = proof.reduce((node, sibling) => {
+    const [a, b] = BigInt(node) < BigInt(sibling) ? [node, sibling] : [sibling, node];
+    return ethers.keccak256(ethers.concat([a, b]));
+  }, hashLeaf(address));
+  return computed === root;
+};
+
+describe('merkle', () => {
+  it('hashes leaves the way abi.encodePacked(address) does', () => {
+    expect(hashLeaf(addresses[0])).toBe(ethers.keccak256(addresses[0]));
+  });
+
+  it('gives every whitelisted address a proof of the root', () => {
+    const layers = buildMerkleTree(addresses);
+    const root = getMerkleRoot(layers);
+
+    for (const address of addresses) {
+      expect(verify(getMerkleProof(layers, address), root, address)).toBe(true);
+    }
+  });
+
+  it('builds the same root whatever the address order', () => {
+    const root = getMerkleRoot(buildMerkleTree(addresses));
+    expect(getMerkleRoot(buildMerkleTree([...addresses].reverse()))).toBe(root);
+  });
+
+  it('uses the leaf as the root of a single-address tree', () => {
+    const layers = buildMerkleTree([addresses[0]]);
+
+    expect(getMerkleRoot(layers)).toBe(hashLeaf(addresses[0]));
+    expect(getMerkleProof(layers, addresses[0])).toEqual([]);
+  });
+
+  it('has no proof for an address outside the tree', () => {
+    expect(getMerkleProof(buildMerkleTree(addresses.slice(1)), addresses[0])).toBeNull();
+  });
+});
+
+describe('GET /api/presale/:address/whitelist/proof/:account', () => {
+  const app = express();
+  app.use('/api/presale', presaleRoutes);
+
+  const layers = buildMerkleTree(addresses);
+  const root = getMerkleRoot(layers);
+
+  // Presale whose whitelistMerkleRoot() returns the given root
+  const mockPresaleRoot = (merkleRoot: string) => {
+    (getProvider as jest.Mock).mockReturnValue({
+      call: jest.fn().mockResolvedValue(ethers.AbiCoder.defaultAbiCoder().encode(['bytes32'], [merkleRoot])),
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns a proof that verifies against the on-chain root', async () => {
+    mockPresaleRoot(root);
+    (findPresaleWhitelistByRoot as jest.Mock).mockResolvedValue({ addresses });
+
+    const response = await request(app)
+      .get(`/api/presale/${PRESALE}/whitelist/proof/${addresses[3].toLowerCase()}`)
+      .query({ network: 'ethereum' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ merkleRoot: root, whitelisted: true });
+    expect(verify(response.body.proof, root, addresses[3])).toBe(true);
+    expect(findPresaleWhitelistByRoot).toHaveBeenCalledWith(PRESALE, root);
+  });
+
+  it('reports an address outside the whitelist', async () => {
+    const partialRoot = getMerkleRoot(buildMerkleTree(addresses.slice(1)));
+    mockPresaleRoot(partialRoot);
+    (findPresaleWhitelistByRoot as jest.Mock).mockResolvedValue({ addresses: addresses.slice(1) });
+
+    const response = await request(app)
+      .get(`/api/presale/${PRESALE}/whitelist/proof/${addresses[0]}`)
+      .query({ network: 'ethereum' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ merkleRoot: partialRoot, whitelisted: false, proof: [] });
+  });
+
+  it('loads and builds each whitelist tree once', async () => {
+    mockPresaleRoot(root);
+    (findPresaleWhitelistByRoot as jest.Mock).mockResolvedValue({ addresses });
+
+    for (const address of [addresses[1], addresses[2]]) {
+      const response = await request(app)
+        .get(`/api/presale/${OTHER_PRESALE}/whitelist/proof/${address}`)
+        .query({ network: 'ethereum' });
+
+      expect(verify(response.body.proof, root, address)).toBe(true);
+    }
+    expect(findPresaleWhitelistByRoot).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports no whitelist when the presale has no root', async () => {
+    mockPresaleRoot(ethers.ZeroHash);
+
+    const response = await request(app)
+      .get(`/api/presale/${PRESALE}/whitelist/proof/${addresses[0]}`)
+      .query({ network: 'ethereum' });
+
+    expect(response.body).toEqual({ merkleRoot: null, whitelisted: false, proof: [] });
+    expect(findPresaleWhitelistByRoot).not.toHaveBeenCalled();
+  });
+
+  it('fails when the on-chain root has no stored whitelist', async () => {
+    mockPresaleRoot(getMerkleRoot(buildMerkleTree(addresses.slice(2))));
+    (findPresaleWhitelistByRoot as jest.Mock).mockResolvedValue(null);
+
+    const response = await request(app)
+      .get(`/api/presale/${PRESALE}/whitelist/proof/${addresses[0]}`)
+      .query({ network: 'ethereum' });
+
+    expect(response.status).toBe(500);
+    expect(response.body.details).toMatch(/not stored on the platform/);
+  });
+
+  it('requires a network', async () => {
+    const response = await request(app).get(`/api/presale/${PRESALE}/whitelist/proof/${addresses[0]}`);
+
+    expect(response.status).toBe(400);
+    expect(getProvider).not.toHaveBeenCalled();
+  });
+});
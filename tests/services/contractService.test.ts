@@ -226,4 +226,66 @@ describe('contractService', () => {
       expect(tokens).toEqual([]);
     });
   });
-});
\ No newline at end of file
+
+  describe('source verification', () => {
+    const CONTRACT_ADDRESS = '0x1234567890123456789012345678901234567890';
+    const options = { pollInterval: 1, maxAttempts: 5 };
+
+    // Minimal verification backend: accepts a submission, reports pending, then the final result
+    const mockVerificationApi = (submission: object, finalResult: object) => {
+      let checks = 0;
+      (global.fetch as jest.Mock).mockImplementation(async (url: string, init?: RequestInit) => {
+        let body: object = submission;
+
+        if (init?.method !== 'POST') {
+          checks++;
+          body = checks < 2 ? { status: 'pending', guid: 'guid-123', message: 'Pending in queue' } : finalResult;
+        }
+
+        return { ok: true, status: 200, json: async () => body };
+      });
+    };
+
+    it('should submit the source to the backend and poll the GUID until verified', async () => {
+      mockVerificationApi(
+        { status: 'pending', guid: 'guid-123', message: 'OK' },
+        { status: 'verified', guid: 'guid-123', message: 'Pass - Verified' }
+      );
+
+      const result = await contractService.verifySource(CONTRACT_ADDRESS, 'contract BasicToken {}', '0xabcdef', options);
+
+      expect(result).toEqual({ status: 'verified', guid: 'guid-123', message: 'Pass - Verified' });
+
+      const [submitUrl, submitInit] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(submitUrl).toContain(`/api/contracts/${CONTRACT_ADDRESS}/verification`);
+      expect(JSON.parse(submitInit.body)).toEqual({ source: 'contract BasicToken {}', constructorArgs: '0xabcdef' });
+
+      const checkCalls = (global.fetch as jest.Mock).mock.calls.slice(1);
+      expect(checkCalls).toHaveLength(2);
+      expect(checkCalls[0][0]).toContain('/verification/guid-123');
+    });
+
+    it('should report failed verification', async () => {
+      mockVerificationApi(
+        { status: 'pending', guid: 'guid-456', message: 'OK' },
+        { status: 'failed', guid: 'guid-456', message: 'Fail - Unable to verify' }
+      );
+
+      const result = await contractService.verifySource(CONTRACT_ADDRESS, 'contract BasicToken {}', '0x', options);
+
+      expect(result.status).toBe('failed');
+      expect(result.message).toBe('Fail - Unable to verify');
+    });
+
+    it('should resubmit while the explorer is still indexing the contract', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'indexing', guid: null, message: 'Unable to locate ContractCode' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'verified', guid: null, message: 'Contract source code already verified' }) });
+
+      const result = await contractService.verifySource(CONTRACT_ADDRESS, 'contract BasicToken {}', '0x', options);
+
+      expect(result).toEqual({ status: 'verified', guid: null, message: 'Contract source code already verified' });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});